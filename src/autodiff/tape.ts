@@ -0,0 +1,443 @@
+import {
+  InvalidArgumentError,
+  ShapeMismatchError,
+  UnsupportedOperandError,
+  describeOperand,
+} from '../errors';
+import {
+  ActivationParams,
+  AutodiffValue,
+  ImplementedActivationFunction,
+  ImplementedLossFunction,
+} from '../interface';
+import {
+  Matrix,
+  Vector,
+  batchLoss,
+  batchLossGradient,
+  getActivationFunctionByKey,
+  getLossFunctionByKey,
+  getVectorActivationFunctionByKey,
+  isVectorActivation,
+} from '../math';
+import {
+  describeShape,
+  mapValue,
+  shapeOfValue,
+  sizeOf,
+  sumValue,
+  validateSameShape,
+  zipValues,
+} from './values';
+import { Variable } from './variable';
+
+/**
+ * Recorded operation
+ * @property {Variable} output - Variable produced by the operation
+ * @property {Variable[]} inputs - Operands of the operation
+ * @property {function} backward - Gradients wrt every input, given the
+ * gradient wrt the output
+ */
+interface TapeEntry {
+  output: Variable;
+  inputs: Variable[];
+  backward: (gradient: AutodiffValue) => AutodiffValue[];
+}
+
+const mapRows = (m: Matrix, f: (row: Vector, idx: number) => Vector): Matrix => {
+  const result = Matrix.fromBuffer(Float64Array.from(m.data), m.numRows, m.numCols);
+  for (let i = 0; i < m.numRows; i++) {
+    result.setRow(i, f(m.getRow(i), i));
+  }
+  return result;
+};
+
+/**
+ * Class for recording operations and differentiating them
+ * @remarks
+ * Reverse-mode automatic differentiation: every operation computes
+ * its value eagerly and records how to propagate a gradient back to
+ * its operands. `backward` then walks the tape in reverse, so that
+ * custom architectures and losses get their gradients for free:
+ * ```javascript
+ * const tape = new Tape();
+ * const w = tape.variable(weights);
+ * const x = tape.constant(input);
+ * const loss = tape.loss('meanSquaredError', tape.apply(tape.dot(w, x), 'tanh'), target);
+ * tape.backward(loss);
+ * w.grad; // gradient of the loss wrt the weights
+ * ```
+ */
+export class Tape {
+  /**
+   * @property {Set<Variable>} variables - Variables created by the tape
+   * @property {TapeEntry[]} entries - Operations, in recording order
+  */
+  variables = new Set<Variable>();
+  private entries: TapeEntry[] = [];
+
+  /**
+   * Create a leaf whose gradient is computed
+   * @param {AutodiffValue} value - Value to watch (kept by reference)
+   * @returns {Variable} The leaf
+  */
+  variable(value: AutodiffValue): Variable {
+    const variable = new Variable(value);
+    this.variables.add(variable);
+    return variable;
+  }
+
+  /**
+   * Create a leaf whose gradient is not computed
+   * @param {AutodiffValue} value - Value of the constant
+   * @returns {Variable} The leaf
+  */
+  constant(value: AutodiffValue): Variable {
+    const variable = new Variable(value, { requiresGrad: false });
+    this.variables.add(variable);
+    return variable;
+  }
+
+  /**
+   * Leaves whose gradient is computed, in creation order
+   * @returns {Variable[]} The leaves
+  */
+  leaves(): Variable[] {
+    return Array.from(this.variables).filter(({ isLeaf, requiresGrad }) => (
+      isLeaf && requiresGrad
+    ));
+  }
+
+  /**
+   * Forget every variable and operation
+  */
+  clear() {
+    this.variables.clear();
+    this.entries = [];
+  }
+
+  /**
+   * Throw unless the variables were created by this tape
+   * @param {string} operation - Operation the variables are given to
+   * @param {Variable[]} variables - Operands of an operation
+  */
+  private validate(operation: string, ...variables: Variable[]) {
+    variables.forEach((variable) => {
+      if (!this.variables.has(variable)) {
+        throw new InvalidArgumentError('AUTODIFF', 'Variable was not created by this tape.', {
+          operation,
+          argument: 'variable',
+        });
+      }
+    });
+  }
+
+  /**
+   * Create the output of an operation and record it
+   * @param {AutodiffValue} value - Value of the output
+   * @param {Variable[]} inputs - Operands of the operation
+   * @param {function} backward - Gradients wrt every input
+   * @returns {Variable} The output
+  */
+  private record(
+    value: AutodiffValue,
+    inputs: Variable[],
+    backward: TapeEntry['backward'],
+  ): Variable {
+    const output = new Variable(value, {
+      requiresGrad: inputs.some(({ requiresGrad }) => requiresGrad),
+      isLeaf: false,
+    });
+    this.variables.add(output);
+    if (output.requiresGrad) {
+      this.entries.push({ output, inputs, backward });
+    }
+    return output;
+  }
+
+  /**
+   * Element-wise addition
+   * @remarks
+   * A vector added to a matrix is added to every row (bias)
+   * @param {Variable} a - First operand
+   * @param {Variable} b - Second operand
+   * @returns {Variable} a + b
+  */
+  add(a: Variable, b: Variable): Variable {
+    this.validate('Tape.add', a, b);
+    const x = a.value;
+    const y = b.value;
+    if (x instanceof Matrix && y instanceof Vector) {
+      if (x.numCols !== y.length) {
+        throw new ShapeMismatchError('AUTODIFF', `Vector must have one entry per column of the matrix (a = ${describeShape(x)}, b = ${describeShape(y)}).`, {
+          operation: 'Tape.add',
+          shapes: [shapeOfValue(x), shapeOfValue(y)],
+        });
+      }
+      const value = x.add(y);
+      return this.record(value, [a, b], (gradient) => [
+        gradient,
+        (gradient as Matrix).sum('row'),
+      ]);
+    }
+    const value = zipValues('add', x, y, (u, v) => u + v);
+    return this.record(value, [a, b], (gradient) => [gradient, gradient]);
+  }
+
+  /**
+   * Element-wise subtraction
+   * @param {Variable} a - First operand
+   * @param {Variable} b - Second operand
+   * @returns {Variable} a - b
+  */
+  subtract(a: Variable, b: Variable): Variable {
+    this.validate('Tape.subtract', a, b);
+    const value = zipValues('subtract', a.value, b.value, (u, v) => u - v);
+    return this.record(value, [a, b], (gradient) => [
+      gradient,
+      mapValue(gradient, (g) => -g),
+    ]);
+  }
+
+  /**
+   * Multiplication by a constant
+   * @param {Variable} a - Operand
+   * @param {number} factor - Constant factor
+   * @returns {Variable} factor * a
+  */
+  scale(a: Variable, factor: number): Variable {
+    this.validate('Tape.scale', a);
+    const value = mapValue(a.value, (v) => v * factor);
+    return this.record(value, [a], (gradient) => [
+      mapValue(gradient, (g) => g * factor),
+    ]);
+  }
+
+  /**
+   * Element-wise (Hadamard) product
+   * @param {Variable} a - First operand
+   * @param {Variable} b - Second operand
+   * @returns {Variable} a ⊙ b
+  */
+  directDot(a: Variable, b: Variable): Variable {
+    this.validate('Tape.directDot', a, b);
+    const x = a.value;
+    const y = b.value;
+    const value = zipValues('directDot', x, y, (u, v) => u * v);
+    return this.record(value, [a, b], (gradient) => [
+      zipValues('directDot', gradient, y, (g, v) => g * v),
+      zipValues('directDot', gradient, x, (g, u) => g * u),
+    ]);
+  }
+
+  /**
+   * Multiplication of two operands
+   * @remarks
+   * Matrix times matrix, matrix times vector, or the inner product
+   * of two vectors (which is a scalar)
+   * @param {Variable} a - First operand
+   * @param {Variable} b - Second operand
+   * @returns {Variable} a · b
+  */
+  dot(a: Variable, b: Variable): Variable {
+    this.validate('Tape.dot', a, b);
+    const x = a.value;
+    const y = b.value;
+    if (x instanceof Matrix && y instanceof Matrix) {
+      return this.record(x.normalDot(y), [a, b], (gradient) => [
+        (gradient as Matrix).normalDot(y.transpose()),
+        x.transposedDot(gradient as Matrix),
+      ]);
+    }
+    if (x instanceof Matrix && y instanceof Vector) {
+      return this.record(x.vectorDot(y), [a, b], (gradient) => [
+        (gradient as Vector).outerDot(y),
+        x.transpose().vectorDot(gradient as Vector),
+      ]);
+    }
+    if (x instanceof Vector && y instanceof Vector) {
+      return this.record(x.vectorDot(y), [a, b], (gradient) => [
+        y.numberDot(gradient as number),
+        x.numberDot(gradient as number),
+      ]);
+    }
+    throw new UnsupportedOperandError('AUTODIFF', `Cannot multiply operands (a = ${describeShape(x)}, b = ${describeShape(y)}).`, {
+      operation: 'Tape.dot',
+      operand: `${describeOperand(x)}, ${describeOperand(y)}`,
+    });
+  }
+
+  /**
+   * Multiplication of two matrices (with first one transposed)
+   * @param {Variable} a - First matrix
+   * @param {Variable} b - Second matrix
+   * @returns {Variable} aᵀ · b
+  */
+  transposedDot(a: Variable, b: Variable): Variable {
+    this.validate('Tape.transposedDot', a, b);
+    const x = a.value;
+    const y = b.value;
+    if (!(x instanceof Matrix && y instanceof Matrix)) {
+      throw new UnsupportedOperandError('AUTODIFF', `Operands of transposedDot must be matrices (a = ${describeShape(x)}, b = ${describeShape(y)}).`, {
+        operation: 'Tape.transposedDot',
+        operand: describeOperand(x instanceof Matrix ? y : x),
+      });
+    }
+    return this.record(x.transposedDot(y), [a, b], (gradient) => [
+      y.normalDot((gradient as Matrix).transpose()),
+      x.normalDot(gradient as Matrix),
+    ]);
+  }
+
+  /**
+   * Activation of an operand
+   * @remarks
+   * Element-wise activations are differentiated with their known
+   * derivative. Vector valued activations (softmax, ...) use their
+   * Jacobian-vector product, row by row for matrices
+   * @param {Variable} a - Operand (pre-activation)
+   * @param {ImplementedActivationFunction} key - Activation to apply
+   * @param {ActivationParams} params - Parameters of the activation
+   * @returns {Variable} The activated operand
+  */
+  apply(
+    a: Variable,
+    key: ImplementedActivationFunction,
+    params: ActivationParams = {},
+  ): Variable {
+    this.validate('Tape.apply', a);
+    const z = a.value;
+    if (isVectorActivation(key)) {
+      const {
+        activation,
+        activationJacobianProduct,
+      } = getVectorActivationFunctionByKey(key, params);
+      if (z instanceof Vector) {
+        return this.record(activation(z), [a], (gradient) => [
+          activationJacobianProduct(z, gradient as Vector),
+        ]);
+      }
+      if (z instanceof Matrix) {
+        return this.record(mapRows(z, activation), [a], (gradient) => [
+          mapRows(z, (row, idx) => (
+            activationJacobianProduct(row, (gradient as Matrix).getRow(idx))
+          )),
+        ]);
+      }
+      throw new UnsupportedOperandError('AUTODIFF', `Activation ${key} needs a vector or a matrix (a = ${describeShape(z)}).`, {
+        operation: 'Tape.apply',
+        operand: describeOperand(z),
+      });
+    }
+    const { activation, activationGradient } = getActivationFunctionByKey(key, params);
+    return this.record(mapValue(z, activation), [a], (gradient) => [
+      zipValues('apply', gradient, z, (g, v) => g * activationGradient(v)),
+    ]);
+  }
+
+  /**
+   * Sum of every entry
+   * @param {Variable} a - Operand
+   * @returns {Variable} Scalar sum
+  */
+  sum(a: Variable): Variable {
+    this.validate('Tape.sum', a);
+    return this.record(sumValue(a.value), [a], (gradient) => [
+      mapValue(a.value, () => gradient as number),
+    ]);
+  }
+
+  /**
+   * Mean of every entry
+   * @param {Variable} a - Operand
+   * @returns {Variable} Scalar mean
+  */
+  mean(a: Variable): Variable {
+    this.validate('Tape.mean', a);
+    const size = sizeOf(a.value);
+    return this.record(sumValue(a.value) / size, [a], (gradient) => [
+      mapValue(a.value, () => (gradient as number) / size),
+    ]);
+  }
+
+  /**
+   * Loss of a prediction
+   * @remarks
+   * For matrices every row is a sample and the loss is averaged
+   * over the batch, as in `batchLoss`
+   * @param {ImplementedLossFunction} key - Loss to evaluate
+   * @param {Variable} prediction - Predicted values
+   * @param {Matrix | Vector} target - Expected values
+   * @returns {Variable} Scalar loss
+  */
+  loss(
+    key: ImplementedLossFunction,
+    prediction: Variable,
+    target: Matrix | Vector,
+  ): Variable {
+    this.validate('Tape.loss', prediction);
+    const p = prediction.value;
+    if (p instanceof Matrix && target instanceof Matrix) {
+      return this.record(batchLoss(key, p, target), [prediction], (gradient) => [
+        batchLossGradient(key, p, target).numberDot((gradient as number) / p.numRows),
+      ]);
+    }
+    if (p instanceof Vector && target instanceof Vector) {
+      const { loss, lossGradient } = getLossFunctionByKey(key);
+      return this.record(loss(p, target), [prediction], (gradient) => [
+        lossGradient(p, target).numberDot(gradient as number),
+      ]);
+    }
+    throw new UnsupportedOperandError('AUTODIFF', `Prediction and target must both be vectors or matrices (prediction = ${describeShape(p)}, target = ${describeShape(target)}).`, {
+      operation: 'Tape.loss',
+      operand: `${describeOperand(p)}, ${describeOperand(target)}`,
+    });
+  }
+
+  /**
+   * Compute the gradient of an output wrt every variable
+   * @remarks
+   * Gradients are recomputed from scratch on every call, and set on
+   * the `grad` property of every variable that requires one. Variables
+   * the output does not depend on get a gradient of zeros
+   * @param {Variable} output - Variable to differentiate
+   * @param {AutodiffValue} seed - Gradient wrt the output, needed when
+   * the output is not a scalar
+  */
+  backward(output: Variable, seed?: AutodiffValue) {
+    this.validate('Tape.backward', output);
+    if (seed === undefined && typeof output.value !== 'number') {
+      throw new InvalidArgumentError('AUTODIFF', `Output must be a scalar when no seed gradient is given (output = ${describeShape(output.value)}).`, {
+        operation: 'Tape.backward',
+        argument: 'seed',
+      });
+    }
+    const start = seed ?? 1;
+    validateSameShape('backward', output.value, start);
+
+    const gradients = new Map<Variable, AutodiffValue>([[output, start]]);
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const { output: result, inputs, backward } = this.entries[i];
+      const gradient = gradients.get(result);
+      if (gradient === undefined) {
+        continue;
+      }
+      const inputGradients = backward(gradient);
+      inputs.forEach((input, idx) => {
+        if (!input.requiresGrad) {
+          return;
+        }
+        const accumulated = gradients.get(input);
+        gradients.set(input, accumulated === undefined ?
+          inputGradients[idx] :
+          zipValues('backward', accumulated, inputGradients[idx], (u, v) => u + v));
+      });
+    }
+
+    this.variables.forEach((variable) => {
+      if (variable.requiresGrad) {
+        variable.grad = gradients.get(variable) ?? mapValue(variable.value, () => 0);
+      }
+    });
+  }
+}
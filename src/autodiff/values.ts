@@ -0,0 +1,147 @@
+import { ShapeMismatchError } from '../errors';
+import { AutodiffValue } from '../interface';
+import { Matrix, Vector } from '../math';
+
+/**
+ * Readable shape of a value, for error messages
+ * @param {AutodiffValue} value - value to describe
+ * @returns {string} `scalar`, `[length]` or `[rows, columns]`
+ */
+export const describeShape = (value: AutodiffValue): string => {
+  if (typeof value === 'number') {
+    return 'scalar';
+  }
+  if (value instanceof Matrix) {
+    return `[${value.numRows}, ${value.numCols}]`;
+  }
+  return `[${value.length}]`;
+};
+
+/**
+ * Shape of a value, for error details
+ * @param {AutodiffValue} value - value to measure
+ * @returns {number[]} `[]`, `[length]` or `[rows, columns]`
+ */
+export const shapeOfValue = (value: AutodiffValue): number[] => {
+  if (typeof value === 'number') {
+    return [];
+  }
+  if (value instanceof Matrix) {
+    return [value.numRows, value.numCols];
+  }
+  return [value.length];
+};
+
+const sameShape = (a: AutodiffValue, b: AutodiffValue): boolean => {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return typeof a === typeof b;
+  }
+  if (a instanceof Matrix || b instanceof Matrix) {
+    return a instanceof Matrix && b instanceof Matrix &&
+      a.numRows === b.numRows && a.numCols === b.numCols;
+  }
+  return a.length === b.length;
+};
+
+/**
+ * Throw unless both values have the same kind and shape
+ * @param {string} op - name of the operation, for the error message
+ * @param {AutodiffValue} a - first operand
+ * @param {AutodiffValue} b - second operand
+ */
+export const validateSameShape = (
+  op: string,
+  a: AutodiffValue,
+  b: AutodiffValue,
+) => {
+  if (!sameShape(a, b)) {
+    throw new ShapeMismatchError('AUTODIFF', `Operands of ${op} must have the same shape (a = ${describeShape(a)}, b = ${describeShape(b)}).`, {
+      operation: `Tape.${op}`,
+      shapes: [shapeOfValue(a), shapeOfValue(b)],
+    });
+  }
+};
+
+/**
+ * Number of entries of a value
+ * @param {AutodiffValue} value - value to measure
+ * @returns {number} 1 for scalars
+ */
+export const sizeOf = (value: AutodiffValue): number => {
+  if (typeof value === 'number') {
+    return 1;
+  }
+  if (value instanceof Matrix) {
+    return value.data.length;
+  }
+  return value.length;
+};
+
+const entryOf = (value: AutodiffValue, idx: number): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value instanceof Matrix) {
+    return value.data[idx];
+  }
+  return value[idx];
+};
+
+/**
+ * Map every entry of a value, keeping its shape
+ * @param {AutodiffValue} value - value to map
+ * @param {function} f - receives the entry and its flat index
+ * @returns {AutodiffValue} new value with the same shape
+ */
+export const mapValue = (
+  value: AutodiffValue,
+  f: (a: number, idx: number) => number,
+): AutodiffValue => {
+  if (typeof value === 'number') {
+    return f(value, 0);
+  }
+  if (value instanceof Matrix) {
+    const data = new Float64Array(value.data.length);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = f(value.data[i], i);
+    }
+    return Matrix.fromBuffer(data, value.numRows, value.numCols);
+  }
+  const result = Vector.allocate(value.length);
+  for (let i = 0; i < value.length; i++) {
+    result[i] = f(value[i], i);
+  }
+  return result;
+};
+
+/**
+ * Combine two values of the same shape entry by entry
+ * @param {string} op - name of the operation, for the error message
+ * @param {AutodiffValue} a - first operand
+ * @param {AutodiffValue} b - second operand
+ * @param {function} f - combination of two entries
+ * @returns {AutodiffValue} new value with the shape of the operands
+ */
+export const zipValues = (
+  op: string,
+  a: AutodiffValue,
+  b: AutodiffValue,
+  f: (x: number, y: number) => number,
+): AutodiffValue => {
+  validateSameShape(op, a, b);
+  return mapValue(a, (x, idx) => f(x, entryOf(b, idx)));
+};
+
+/**
+ * Sum of every entry of a value
+ * @param {AutodiffValue} value - value to reduce
+ * @returns {number} the sum
+ */
+export const sumValue = (value: AutodiffValue): number => {
+  let sum = 0;
+  const size = sizeOf(value);
+  for (let i = 0; i < size; i++) {
+    sum += entryOf(value, i);
+  }
+  return sum;
+};
@@ -0,0 +1,42 @@
+import { AutodiffValue } from '../interface';
+
+/**
+ * Class for modelling a node of the computation graph
+ * @remarks
+ * Variables are created by a `Tape`, either directly (leaves, such
+ * as weights, inputs or constants) or as the output of a recorded
+ * operation. Leaves keep a reference to the value they wrap, so that
+ * parameters updated in place by an optimizer are seen by the tape
+ */
+export class Variable {
+  /**
+   * @property {AutodiffValue} value - Value of the node
+   * @property {AutodiffValue | null} grad - Gradient of the output of the
+   * last backward pass wrt the value (null until then)
+   * @property {boolean} requiresGrad - Whether the gradient is computed
+   * @property {boolean} isLeaf - Whether the node was created directly
+   * rather than by an operation
+  */
+  value: AutodiffValue;
+  grad: AutodiffValue | null = null;
+  requiresGrad: boolean;
+  isLeaf: boolean;
+
+  /**
+   * Constructor of the Variable
+   * @param {AutodiffValue} value - Value of the node
+   * @param {boolean} requiresGrad - Whether the gradient is computed
+   * @param {boolean} isLeaf - Whether the node was created directly
+  */
+  constructor(value: AutodiffValue, {
+    requiresGrad = true,
+    isLeaf = true,
+  }: {
+    requiresGrad?: boolean;
+    isLeaf?: boolean;
+  } = {}) {
+    this.value = value;
+    this.requiresGrad = requiresGrad;
+    this.isLeaf = isLeaf;
+  }
+}
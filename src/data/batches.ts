@@ -0,0 +1,52 @@
+import { InvalidArgumentError, ShapeMismatchError } from '../errors';
+import { BatchOptions, Dataset } from '../interface';
+import { SeededRandom } from '../math';
+import { permutation, selectRows } from './split';
+
+/**
+ * Iterate over the mini-batches of a dataset
+ * @remarks
+ * ```javascript
+ * for (const { x, y } of batchIterator(data, { batchSize: 32, seed: 1 })) {
+ *   // ...
+ * }
+ * ```
+ * The last batch is smaller when the batch size does not divide the
+ * number of samples, unless `dropLast` is set
+ * @param {Dataset} data - inputs and targets
+ * @param {BatchOptions} options - batch size and shuffling
+ * @returns a generator of mini-batches
+ */
+export function* batchIterator(
+  data: Dataset,
+  {
+    batchSize = 32,
+    shuffle = true,
+    seed,
+    dropLast = false,
+  }: BatchOptions = {},
+): Generator<Dataset> {
+  const { x, y } = data;
+  if (x.numRows !== y.numRows) {
+    throw new ShapeMismatchError('DATA', `Inputs and targets must have the same number of samples (inputs = ${x.numRows}, targets = ${y.numRows}).`, {
+      operation: 'batchIterator',
+      shapes: [[x.numRows, x.numCols], [y.numRows, y.numCols]],
+    });
+  }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new InvalidArgumentError('DATA', `Batch size must be a positive integer (batchSize = ${batchSize}).`, {
+      operation: 'batchIterator',
+      argument: 'batchSize',
+    });
+  }
+  const order = shuffle ?
+    permutation(x.numRows, new SeededRandom(seed)) :
+    Array.from({ length: x.numRows }, (_, i) => i);
+  for (let start = 0; start < order.length; start += batchSize) {
+    const indices = order.slice(start, start + batchSize);
+    if (dropLast && indices.length < batchSize) {
+      return;
+    }
+    yield { x: selectRows(x, indices), y: selectRows(y, indices) };
+  }
+}
@@ -0,0 +1,242 @@
+import { promises as fs } from 'fs';
+import { InvalidArgumentError } from '../errors';
+import {
+  CSVOptions,
+  ColumnSelector,
+  DelimitedTextOptions,
+} from '../interface';
+import { Matrix } from '../math';
+import { LabelEncoder, OneHotEncoder } from './encoders';
+
+/**
+ * Features and labels read from a CSV file
+ * @property {string[]} featureNames - Name of every feature column
+ * @property {string[]} labelNames - Name of every label column
+ * @property {Matrix} x - Features (one row per sample)
+ * @property {Matrix} y - Labels (one row per sample), when label columns
+ * are selected
+ * @property {LabelEncoder | OneHotEncoder} encoder - Encoder of a
+ * categorical label column
+ */
+export interface CSVDataset {
+  featureNames: string[];
+  labelNames: string[];
+  x: Matrix;
+  y?: Matrix;
+  encoder?: LabelEncoder | OneHotEncoder;
+}
+
+/**
+ * Options of `loadCSV`
+ * @property {string} labelEncoding - Encoding of a single categorical
+ * label column, as integer labels or one-hot rows
+ */
+export interface LoadCSVOptions extends CSVOptions {
+  labelEncoding?: 'label' | 'oneHot';
+}
+
+/**
+ * Split delimited text into rows of fields
+ * @remarks
+ * Fields may be quoted, in which case they can contain delimiters,
+ * line breaks and doubled quotes. Empty lines are skipped
+ * @param {string} text - contents of the file
+ * @param {DelimitedTextOptions} options - delimiter and quote characters
+ * @returns {string[][]} fields of every row
+ */
+export const parseDelimited = (
+  text: string,
+  { delimiter = ',', quote = '"' }: DelimitedTextOptions = {},
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let fieldWasQuoted = false;
+
+  const endField = () => {
+    row.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === quote && text[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else if (char === quote) {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === quote && field.trim() === '') {
+      quoted = true;
+      fieldWasQuoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new InvalidArgumentError('DATA', 'Quoted field is not closed.', {
+      operation: 'parseDelimited',
+      argument: 'text',
+    });
+  }
+  endRow();
+  return rows;
+};
+
+const resolveColumns = (
+  selectors: ColumnSelector[],
+  header: string[],
+): number[] => {
+  return selectors.map((selector) => {
+    const idx = typeof selector === 'number' ? selector : header.indexOf(selector);
+    if (!Number.isInteger(idx) || idx < 0 || idx >= header.length) {
+      throw new InvalidArgumentError('DATA', `Unknown column (column = ${selector}, columns = ${header.length}).`, {
+        operation: 'loadCSV',
+        argument: 'columns',
+      });
+    }
+    return idx;
+  });
+};
+
+const toMatrix = (rows: string[][], columns: number[], offset: number): Matrix => {
+  const result = Matrix.zeros(rows.length, columns.length);
+  rows.forEach((row, i) => {
+    columns.forEach((column, j) => {
+      const cell = row[column];
+      const value = cell === '' ? NaN : Number(cell);
+      if (Number.isNaN(value)) {
+        throw new InvalidArgumentError('DATA', `Value is not a number (row = ${i + offset}, column = ${column}, value = ${cell}).`, {
+          operation: 'loadCSV',
+          argument: 'text',
+        });
+      }
+      result[i][j] = value;
+    });
+  });
+  return result;
+};
+
+/**
+ * Read features and labels from CSV (or TSV) text
+ * @remarks
+ * Columns are selected by name (with a header) or by index. Features
+ * default to every column that is not a label. Values must be numbers,
+ * except for a single label column with a `labelEncoding`, which is
+ * fitted on the file and returned with the data
+ * @param {string} text - contents of the file
+ * @param {LoadCSVOptions} options - format and column selection
+ * @returns {CSVDataset} features and labels
+ */
+export const loadCSV = (
+  text: string,
+  {
+    header: hasHeader = true,
+    featureColumns,
+    labelColumns = [],
+    labelEncoding,
+    ...format
+  }: LoadCSVOptions = {},
+): CSVDataset => {
+  const rows = parseDelimited(text, format);
+  const body = hasHeader ? rows.slice(1) : rows;
+  if (body.length === 0) {
+    throw new InvalidArgumentError('DATA', 'File has no samples.', {
+      operation: 'loadCSV',
+      argument: 'text',
+    });
+  }
+  const numColumns = rows[0].length;
+  const header = hasHeader ?
+    rows[0] :
+    Array.from({ length: numColumns }, (_, i) => String(i));
+  const offset = hasHeader ? 1 : 0;
+  body.forEach((row, i) => {
+    if (row.length !== numColumns) {
+      throw new InvalidArgumentError('DATA', `Every row must have the same number of fields (row = ${i + offset}, fields = ${row.length}, expected = ${numColumns}).`, {
+        operation: 'loadCSV',
+        argument: 'text',
+      });
+    }
+  });
+
+  const labels = resolveColumns(labelColumns, header);
+  const features = featureColumns ?
+    resolveColumns(featureColumns, header) :
+    header.map((_, i) => i).filter((i) => !labels.includes(i));
+  if (features.length === 0) {
+    throw new InvalidArgumentError('DATA', 'At least one feature column must be selected.', {
+      operation: 'loadCSV',
+      argument: 'featureColumns',
+    });
+  }
+
+  let y: Matrix | undefined;
+  let encoder: LabelEncoder | OneHotEncoder | undefined;
+  if (labelEncoding) {
+    if (labels.length !== 1) {
+      throw new InvalidArgumentError('DATA', `Label encoding needs exactly one label column (labels = ${labels.length}).`, {
+        operation: 'loadCSV',
+        argument: 'labelColumns',
+      });
+    }
+    const values = body.map((row) => row[labels[0]]);
+    if (labelEncoding === 'oneHot') {
+      const oneHot = new OneHotEncoder();
+      y = oneHot.fitTransform(values);
+      encoder = oneHot;
+    } else {
+      const labelEncoder = new LabelEncoder();
+      const encoded = labelEncoder.fitTransform(values);
+      y = Matrix.fromBuffer(Float64Array.from(encoded), encoded.length, 1);
+      encoder = labelEncoder;
+    }
+  } else if (labels.length > 0) {
+    y = toMatrix(body, labels, offset);
+  }
+
+  return {
+    featureNames: features.map((i) => header[i]),
+    labelNames: labels.map((i) => header[i]),
+    x: toMatrix(body, features, offset),
+    ...(y ? { y } : {}),
+    ...(encoder ? { encoder } : {}),
+  };
+};
+
+/**
+ * Read features and labels from a CSV or TSV file
+ * @remarks
+ * The delimiter defaults to a tab for `.tsv` files
+ * @param {string} path - file to read
+ * @param {LoadCSVOptions} options - format and column selection
+ * @returns {CSVDataset} features and labels
+ */
+export const readCSV = async (
+  path: string,
+  options: LoadCSVOptions = {},
+): Promise<CSVDataset> => {
+  const text = await fs.readFile(path, 'utf8');
+  const delimiter = options.delimiter ?? (path.toLowerCase().endsWith('.tsv') ? '\t' : ',');
+  return loadCSV(text, { ...options, delimiter });
+};
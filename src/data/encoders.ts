@@ -0,0 +1,177 @@
+import {
+  IndexOutOfBoundsError,
+  InvalidArgumentError,
+  ShapeMismatchError,
+} from '../errors';
+import { Category } from '../interface';
+import { Matrix, Vector } from '../math';
+
+const compareCategories = (a: Category, b: Category): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+};
+
+/**
+ * Class for encoding categories as integer labels
+ * @remarks
+ * The classes are sorted when fitting, so that the encoding does not
+ * depend on the order of the samples:
+ * ```javascript
+ * const encoder = new LabelEncoder().fit(['dog', 'cat', 'dog']);
+ * encoder.transform(['cat', 'dog']); // Vector [0, 1]
+ * ```
+ */
+export class LabelEncoder {
+  /**
+   * @property {Category[]} classes - Known categories, in label order
+  */
+  classes: Category[] = [];
+  private indices = new Map<Category, number>();
+
+  /**
+   * Learn the categories
+   * @param {ArrayLike<Category>} values - Category of every sample
+   * @returns {LabelEncoder} the encoder
+  */
+  fit(values: ArrayLike<Category>): LabelEncoder {
+    this.classes = Array.from(new Set(Array.from(values))).sort(compareCategories);
+    this.indices = new Map(this.classes.map((category, idx) => [category, idx]));
+    return this;
+  }
+
+  /**
+   * Label of every sample
+   * @param {ArrayLike<Category>} values - Category of every sample
+   * @returns {Vector} integer labels
+  */
+  transform(values: ArrayLike<Category>): Vector {
+    return Vector.fromArray(Array.from(values, (value) => this.labelOf(value)));
+  }
+
+  /**
+   * Learn the categories and encode them
+   * @param {ArrayLike<Category>} values - Category of every sample
+   * @returns {Vector} integer labels
+  */
+  fitTransform(values: ArrayLike<Category>): Vector {
+    return this.fit(values).transform(values);
+  }
+
+  /**
+   * Category of every label
+   * @param {ArrayLike<number>} labels - integer labels
+   * @returns {Category[]} categories
+  */
+  inverseTransform(labels: ArrayLike<number>): Category[] {
+    return Array.from(labels, (label) => {
+      if (!Number.isInteger(label) || label < 0 || label >= this.classes.length) {
+        throw new IndexOutOfBoundsError('DATA', `Label is out of range (label = ${label}, classes = ${this.classes.length}).`, {
+          operation: 'LabelEncoder.inverseTransform',
+          index: [label],
+          shape: [this.classes.length],
+        });
+      }
+      return this.classes[label];
+    });
+  }
+
+  /**
+   * Label of a single category
+   * @param {Category} value - category
+   * @returns {number} its label
+  */
+  labelOf(value: Category): number {
+    const label = this.indices.get(value);
+    if (label === undefined) {
+      throw new InvalidArgumentError('DATA', `Unknown category (category = ${value}).`, {
+        operation: 'LabelEncoder.labelOf',
+        argument: 'value',
+      });
+    }
+    return label;
+  }
+}
+
+/**
+ * Class for encoding categories as one-hot rows
+ * @remarks
+ * Every sample becomes a row with a 1 in the column of its category,
+ * in the same order as the classes of a `LabelEncoder`. The inverse
+ * transform picks the largest entry of every row, so it also decodes
+ * predicted probabilities
+ */
+export class OneHotEncoder {
+  /**
+   * @property {LabelEncoder} labels - Encoder of the column indices
+  */
+  labels = new LabelEncoder();
+
+  /**
+   * Known categories, in column order
+   * @returns {Category[]} categories
+  */
+  get classes(): Category[] {
+    return this.labels.classes;
+  }
+
+  /**
+   * Learn the categories
+   * @param {ArrayLike<Category>} values - Category of every sample
+   * @returns {OneHotEncoder} the encoder
+  */
+  fit(values: ArrayLike<Category>): OneHotEncoder {
+    this.labels.fit(values);
+    return this;
+  }
+
+  /**
+   * One-hot row of every sample
+   * @param {ArrayLike<Category>} values - Category of every sample
+   * @returns {Matrix} one row per sample, one column per category
+  */
+  transform(values: ArrayLike<Category>): Matrix {
+    const labels = this.labels.transform(values);
+    const result = Matrix.zeros(labels.length, this.classes.length);
+    labels.forEach((label, idx) => {
+      result[idx][label] = 1;
+    });
+    return result;
+  }
+
+  /**
+   * Learn the categories and encode them
+   * @param {ArrayLike<Category>} values - Category of every sample
+   * @returns {Matrix} one row per sample, one column per category
+  */
+  fitTransform(values: ArrayLike<Category>): Matrix {
+    return this.fit(values).transform(values);
+  }
+
+  /**
+   * Category of every row
+   * @param {Matrix} rows - one-hot rows or scores
+   * @returns {Category[]} categories
+  */
+  inverseTransform(rows: Matrix): Category[] {
+    if (rows.numCols !== this.classes.length) {
+      throw new ShapeMismatchError('DATA', `Rows must have one column per category (columns = ${rows.numCols}, classes = ${this.classes.length}).`, {
+        operation: 'OneHotEncoder.inverseTransform',
+        shapes: [[rows.numRows, rows.numCols], [rows.numRows, this.classes.length]],
+      });
+    }
+    const labels: number[] = [];
+    for (let i = 0; i < rows.numRows; i++) {
+      const row = rows[i];
+      let best = 0;
+      for (let j = 1; j < row.length; j++) {
+        if (row[j] > row[best]) {
+          best = j;
+        }
+      }
+      labels.push(best);
+    }
+    return this.labels.inverseTransform(labels);
+  }
+}
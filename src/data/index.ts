@@ -0,0 +1,5 @@
+export * from './csv';
+export * from './encoders';
+export * from './split';
+export * from './batches';
+export * from './windows';
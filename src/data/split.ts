@@ -0,0 +1,220 @@
+import {
+  IndexOutOfBoundsError,
+  InvalidArgumentError,
+  ShapeMismatchError,
+} from '../errors';
+import {
+  Dataset,
+  KFoldOptions,
+  SplitOptions,
+} from '../interface';
+import { Matrix, SeededRandom } from '../math';
+
+/**
+ * Indices 0..n-1 in a random order
+ * @remarks
+ * Fisher-Yates shuffle driven by the given generator
+ * @param {number} n - number of indices
+ * @param {SeededRandom} rng - generator
+ * @returns {number[]} permutation
+ */
+export const permutation = (n: number, rng: SeededRandom): number[] => {
+  const indices = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = rng.integer(i + 1);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices;
+};
+
+/**
+ * Copy of some rows of a matrix
+ * @param {Matrix} m - matrix
+ * @param {ArrayLike<number>} indices - rows to copy, in order
+ * @returns {Matrix} matrix with one row per index
+ */
+export const selectRows = (m: Matrix, indices: ArrayLike<number>): Matrix => {
+  const { numRows, numCols } = m;
+  const data = new Float64Array(indices.length * numCols);
+  for (let k = 0; k < indices.length; k++) {
+    const i = indices[k];
+    if (!Number.isInteger(i) || i < 0 || i >= numRows) {
+      throw new IndexOutOfBoundsError('DATA', `Row is out of range (row = ${i}, rows = ${numRows}).`, {
+        operation: 'selectRows',
+        index: [i],
+        shape: [numRows, numCols],
+      });
+    }
+    data.set(m.data.subarray(i * numCols, (i + 1) * numCols), k * numCols);
+  }
+  return Matrix.fromBuffer(data, indices.length, numCols);
+};
+
+const validateDataset = ({ x, y }: Dataset, operation: string) => {
+  if (x.numRows !== y.numRows) {
+    throw new ShapeMismatchError('DATA', `Inputs and targets must have the same number of samples (inputs = ${x.numRows}, targets = ${y.numRows}).`, {
+      operation,
+      shapes: [[x.numRows, x.numCols], [y.numRows, y.numCols]],
+    });
+  }
+};
+
+const subset = ({ x, y }: Dataset, indices: number[]): Dataset => ({
+  x: selectRows(x, indices),
+  y: selectRows(y, indices),
+});
+
+// Sample indices grouped by target row, in order of first appearance
+const groupByTarget = (y: Matrix): number[][] => {
+  const groups = new Map<string, number[]>();
+  for (let i = 0; i < y.numRows; i++) {
+    const key = Array.from(y[i]).join(',');
+    const group = groups.get(key);
+    if (group) {
+      group.push(i);
+    } else {
+      groups.set(key, [i]);
+    }
+  }
+  return Array.from(groups.values());
+};
+
+const reorder = (indices: number[], rng: SeededRandom | null): number[] => {
+  if (!rng) {
+    return indices;
+  }
+  return permutation(indices.length, rng).map((i) => indices[i]);
+};
+
+/**
+ * Shuffle the samples of a dataset
+ * @param {Dataset} data - inputs and targets
+ * @param {number} seed - seed of the shuffle
+ * @returns {Dataset} shuffled copy
+ */
+export const shuffleDataset = (data: Dataset, seed?: number): Dataset => {
+  validateDataset(data, 'shuffleDataset');
+  return subset(data, permutation(data.x.numRows, new SeededRandom(seed)));
+};
+
+/**
+ * Split a dataset into training, validation and test sets
+ * @remarks
+ * Sizes are fractions of the samples. With `stratify`, every distinct
+ * target row (label or one-hot vector) is split separately, so that
+ * every set keeps the class proportions of the whole dataset. Sizes
+ * that leave a set without samples are rejected
+ * @param {Dataset} data - inputs and targets
+ * @param {SplitOptions} options - sizes, stratification and shuffling
+ * @returns the sets (validation only when `validationSize` is set)
+ */
+export const trainTestSplit = (
+  data: Dataset,
+  {
+    testSize = 0.2,
+    validationSize = 0,
+    stratify = false,
+    shuffle = true,
+    seed,
+  }: SplitOptions = {},
+): { train: Dataset; validation?: Dataset; test: Dataset } => {
+  validateDataset(data, 'trainTestSplit');
+  if (testSize < 0 || validationSize < 0 || testSize + validationSize >= 1) {
+    throw new InvalidArgumentError('DATA', `Split sizes must be non-negative and leave training samples (testSize = ${testSize}, validationSize = ${validationSize}).`, {
+      operation: 'trainTestSplit',
+      argument: testSize < 0 ? 'testSize' : 'validationSize',
+    });
+  }
+  const rng = shuffle ? new SeededRandom(seed) : null;
+  const groups = stratify ?
+    groupByTarget(data.y) :
+    [Array.from({ length: data.x.numRows }, (_, i) => i)];
+
+  const train: number[] = [];
+  const validation: number[] = [];
+  const test: number[] = [];
+  groups.forEach((group) => {
+    const indices = reorder(group, rng);
+    const numTest = Math.round(indices.length * testSize);
+    const numValidation = Math.round(indices.length * validationSize);
+    indices.forEach((index, k) => {
+      if (k < numTest) {
+        test.push(index);
+      } else if (k < numTest + numValidation) {
+        validation.push(index);
+      } else {
+        train.push(index);
+      }
+    });
+  });
+  if (train.length === 0) {
+    throw new InvalidArgumentError('DATA', 'Split leaves no training samples.', {
+      operation: 'trainTestSplit',
+      argument: 'testSize',
+    });
+  }
+  if (test.length === 0) {
+    throw new InvalidArgumentError('DATA', `Split leaves no test samples (testSize = ${testSize}, samples = ${data.x.numRows}).`, {
+      operation: 'trainTestSplit',
+      argument: 'testSize',
+    });
+  }
+  if (validationSize > 0 && validation.length === 0) {
+    throw new InvalidArgumentError('DATA', `Split leaves no validation samples (validationSize = ${validationSize}, samples = ${data.x.numRows}).`, {
+      operation: 'trainTestSplit',
+      argument: 'validationSize',
+    });
+  }
+
+  return {
+    train: subset(data, reorder(train, rng)),
+    ...(validationSize > 0 ? { validation: subset(data, reorder(validation, rng)) } : {}),
+    test: subset(data, reorder(test, rng)),
+  };
+};
+
+/**
+ * K-fold cross-validation sets
+ * @remarks
+ * Every sample is in the validation set of exactly one fold. With
+ * `stratify`, the samples of every distinct target row are spread
+ * evenly over the folds
+ * @param {Dataset} data - inputs and targets
+ * @param {number} k - number of folds
+ * @param {KFoldOptions} options - shuffling and stratification
+ * @returns training and validation sets of every fold
+ */
+export const kFold = (
+  data: Dataset,
+  k: number,
+  { shuffle = true, stratify = false, seed }: KFoldOptions = {},
+): Array<{ train: Dataset; validation: Dataset }> => {
+  validateDataset(data, 'kFold');
+  const numSamples = data.x.numRows;
+  if (!Number.isInteger(k) || k < 2 || k > numSamples) {
+    throw new InvalidArgumentError('DATA', `Number of folds must be an integer between 2 and the number of samples (k = ${k}, samples = ${numSamples}).`, {
+      operation: 'kFold',
+      argument: 'k',
+    });
+  }
+  const rng = shuffle ? new SeededRandom(seed) : null;
+  const folds: number[][] = Array.from({ length: k }, () => []);
+  if (stratify) {
+    let next = 0;
+    groupByTarget(data.y).forEach((group) => {
+      reorder(group, rng).forEach((idx) => {
+        folds[next].push(idx);
+        next = (next + 1) % k;
+      });
+    });
+  } else {
+    const indices = reorder(Array.from({ length: numSamples }, (_, i) => i), rng);
+    indices.forEach((idx, position) => {
+      folds[Math.floor(position * k / numSamples)].push(idx);
+    });
+  }
+  return folds.map((validation, fold) => ({
+    train: subset(data, ([] as number[]).concat(...folds.filter((_, f) => f !== fold))),
+    validation: subset(data, validation),
+  }));
+};
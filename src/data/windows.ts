@@ -0,0 +1,75 @@
+import { IndexOutOfBoundsError, InvalidArgumentError } from '../errors';
+import { SequenceDataset, SlidingWindowOptions } from '../interface';
+import { Matrix, Tensor } from '../math';
+
+/**
+ * Turn a time series into training sequences
+ * @remarks
+ * Every window of `windowSize` consecutive steps becomes an input
+ * sequence, and the `horizon` steps that follow it become its
+ * target, flattened step after step into a row of `y`. Windows start
+ * every `stride` steps. For a series [1, 2, 3, 4, 5] with a window of
+ * 3 and a horizon of 1, the inputs are [1, 2, 3] and [2, 3, 4], and
+ * the targets are 4 and 5
+ * @param {Matrix | ArrayLike<number>} series - One row per time step (a
+ * plain array is a univariate series)
+ * @param {SlidingWindowOptions} options - window size, horizon, stride
+ * and the columns used as targets (all of them by default)
+ * @returns {SequenceDataset} inputs of shape [windows, windowSize, features]
+ * and targets of shape [windows, horizon * targets]
+ */
+export const slidingWindows = (
+  series: Matrix | ArrayLike<number>,
+  {
+    windowSize,
+    horizon = 1,
+    stride = 1,
+    targetColumns,
+  }: SlidingWindowOptions,
+): SequenceDataset => {
+  const values = series instanceof Matrix ?
+    series :
+    Matrix.fromBuffer(Float64Array.from(series), series.length, 1);
+  const sizes: Array<[string, number]> = [['windowSize', windowSize], ['horizon', horizon], ['stride', stride]];
+  sizes.forEach(([argument, size]) => {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new InvalidArgumentError('DATA', `Window size, horizon and stride must be positive integers (windowSize = ${windowSize}, horizon = ${horizon}, stride = ${stride}).`, {
+        operation: 'slidingWindows',
+        argument,
+      });
+    }
+  });
+  const columns = targetColumns ?? Array.from({ length: values.numCols }, (_, j) => j);
+  columns.forEach((column) => {
+    if (!Number.isInteger(column) || column < 0 || column >= values.numCols) {
+      throw new IndexOutOfBoundsError('DATA', `Target column out of bounds (column = ${column}, columns = ${values.numCols}).`, {
+        operation: 'slidingWindows',
+        index: [column],
+        shape: [values.numCols],
+      });
+    }
+  });
+  const numWindows = Math.floor((values.numRows - windowSize - horizon) / stride) + 1;
+  if (numWindows < 1 || columns.length === 0) {
+    throw new InvalidArgumentError('DATA', `Series is too short for a single window (steps = ${values.numRows}, windowSize = ${windowSize}, horizon = ${horizon}).`, {
+      operation: 'slidingWindows',
+      argument: columns.length === 0 ? 'targetColumns' : 'series',
+    });
+  }
+
+  const x = new Float64Array(numWindows * windowSize * values.numCols);
+  const y = Matrix.zeros(numWindows, horizon * columns.length);
+  for (let w = 0; w < numWindows; w++) {
+    const start = w * stride;
+    x.set(
+      values.data.subarray(start * values.numCols, (start + windowSize) * values.numCols),
+      w * windowSize * values.numCols,
+    );
+    for (let h = 0; h < horizon; h++) {
+      columns.forEach((column, k) => {
+        y[w][h * columns.length + k] = values[start + windowSize + h][column];
+      });
+    }
+  }
+  return { x: new Tensor(x, [numWindows, windowSize, values.numCols]), y };
+};
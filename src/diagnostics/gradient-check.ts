@@ -0,0 +1,336 @@
+import { ShapeMismatchError } from '../errors';
+import {
+  ImplementedActivationFunction,
+  ImplementedLossFunction,
+} from '../interface';
+import { DenseVectorLayer } from '../layer';
+import {
+  Matrix,
+  Vector,
+  activations,
+  getLossFunctionByKey,
+  losses,
+  vectorActivations,
+} from '../math';
+import { MLP } from '../model';
+
+/**
+ * Comparison of a single entry of a gradient
+ * @property {number[]} index - [row, column] of the entry (column is 0
+ * for vectors)
+ */
+export interface GradientCheckEntry {
+  index: [number, number];
+  analytic: number;
+  numerical: number;
+  absoluteError: number;
+  relativeError: number;
+}
+
+/**
+ * Comparison of the whole gradient of a parameter
+ * @property {GradientCheckEntry[]} failures - entries beyond tolerance
+ */
+export interface ParameterGradientReport {
+  name: string;
+  maxAbsoluteError: number;
+  maxRelativeError: number;
+  failures: GradientCheckEntry[];
+  passed: boolean;
+}
+
+export interface GradientCheckReport {
+  parameters: ParameterGradientReport[];
+  passed: boolean;
+}
+
+export interface GradientCheckOptions {
+  loss?: ImplementedLossFunction;
+  epsilon?: number;
+  tolerance?: number;
+}
+
+type Parameter = Matrix | Vector;
+
+const DEFAULT_EPSILON = 1e-6;
+const DEFAULT_TOLERANCE = 1e-5;
+
+const shapeOf = (p: Parameter): [number, number] => {
+  if (p instanceof Matrix) {
+    return [p.numRows, p.numCols];
+  }
+  return [p.length, 1];
+};
+
+const getEntry = (p: Parameter, i: number, j: number): number => {
+  if (p instanceof Matrix) {
+    return p[i][j];
+  }
+  return p[i];
+};
+
+const setEntry = (p: Parameter, i: number, j: number, value: number) => {
+  if (p instanceof Matrix) {
+    p[i][j] = value;
+    return;
+  }
+  p[i] = value;
+};
+
+/**
+ * Compare an analytic gradient with central finite differences
+ * @remarks
+ * Every entry of the parameter is perturbed in place and restored
+ * afterwards. An entry fails when both its absolute and relative
+ * errors exceed the tolerance, so that noise around zero is ignored
+ * @param {string} name - name of the parameter in the report
+ * @param {Matrix | Vector} param - parameter to perturb
+ * @param {Matrix | Vector} analytic - analytic gradient wrt param
+ * @param {function (): number} evaluate - loss for the current param
+ * @param {number} epsilon - size of the perturbation
+ * @param {number} tolerance - maximum error accepted
+ * @returns {ParameterGradientReport} report of the comparison
+ */
+export const checkParameterGradient = (
+  name: string,
+  param: Parameter,
+  analytic: Parameter,
+  evaluate: () => number,
+  epsilon = DEFAULT_EPSILON,
+  tolerance = DEFAULT_TOLERANCE,
+): ParameterGradientReport => {
+  const [rows, cols] = shapeOf(param);
+  const [gradRows, gradCols] = shapeOf(analytic);
+  if (rows !== gradRows || cols !== gradCols) {
+    throw new ShapeMismatchError('GRADCHK', `Gradient of ${name} must have the same shape as the parameter (param = [${rows}, ${cols}], gradient = [${gradRows}, ${gradCols}]).`, {
+      operation: 'checkParameterGradient',
+      shapes: [[rows, cols], [gradRows, gradCols]],
+    });
+  }
+
+  let maxAbsoluteError = 0;
+  let maxRelativeError = 0;
+  const failures: GradientCheckEntry[] = [];
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      const original = getEntry(param, i, j);
+      setEntry(param, i, j, original + epsilon);
+      const lossPlus = evaluate();
+      setEntry(param, i, j, original - epsilon);
+      const lossMinus = evaluate();
+      setEntry(param, i, j, original);
+
+      const numerical = (lossPlus - lossMinus) / (2 * epsilon);
+      const exact = getEntry(analytic, i, j);
+      const absoluteError = Math.abs(exact - numerical);
+      const scale = Math.max(Math.abs(exact), Math.abs(numerical));
+      const relativeError = scale > 0 ? absoluteError / scale : 0;
+      maxAbsoluteError = Math.max(maxAbsoluteError, absoluteError);
+      maxRelativeError = Math.max(maxRelativeError, relativeError);
+      if (absoluteError > tolerance && relativeError > tolerance) {
+        failures.push({
+          index: [i, j],
+          analytic: exact,
+          numerical,
+          absoluteError,
+          relativeError,
+        });
+      }
+    }
+  }
+
+  return {
+    name,
+    maxAbsoluteError,
+    maxRelativeError,
+    failures,
+    passed: failures.length === 0,
+  };
+};
+
+const summarize = (parameters: ParameterGradientReport[]): GradientCheckReport => ({
+  parameters,
+  passed: parameters.every(({ passed }) => passed),
+});
+
+/**
+ * Gradient check of a single dense layer
+ * @remarks
+ * The layer is fed forward with its own activation, as in
+ * `forwardPass`, and the loss is evaluated on the output. The
+ * weights, bias and the values of the input layer are checked
+ * @param {DenseVectorLayer} input - layer to check
+ * @param {Matrix} weights - weights of the layer
+ * @param {Vector} bias - bias of the layer
+ * @param {Vector} target - expected output
+ * @param {GradientCheckOptions} options - loss and tolerances
+ * @returns {GradientCheckReport} report of every parameter
+ */
+export const checkLayerGradients = ({
+  input,
+  weights,
+  bias,
+  target,
+}: {
+  input: DenseVectorLayer;
+  weights: Matrix;
+  bias: Vector;
+  target: Vector;
+}, {
+  loss: lossKey = 'meanSquaredError',
+  epsilon = DEFAULT_EPSILON,
+  tolerance = DEFAULT_TOLERANCE,
+}: GradientCheckOptions = {}): GradientCheckReport => {
+  const { loss, lossGradient } = getLossFunctionByKey(lossKey);
+  const forward = () => input.forwardPass({
+    weights,
+    bias,
+    activation: input.activationKey,
+  });
+  const evaluate = () => loss(forward(), target);
+
+  const z = bias.add(weights.dot(input));
+  const delta = input.activationJacobianProduct(
+    z,
+    lossGradient(forward(), target),
+  );
+  const inputGradient = new DenseVectorLayer({
+    numNeurons: input.length,
+    initialValues: input,
+    activation: 'linear',
+  }).backwardPass({ weights, incomingGradient: delta });
+
+  return summarize([
+    checkParameterGradient('weights', weights, delta.outerDot(input), evaluate, epsilon, tolerance),
+    checkParameterGradient('bias', bias, delta, evaluate, epsilon, tolerance),
+    checkParameterGradient('input', input, inputGradient, evaluate, epsilon, tolerance),
+  ]);
+};
+
+/**
+ * Gradient check of a whole network
+ * @remarks
+ * The checked loss includes the L1/L2 penalties of the network.
+ * Dropout redraws its mask on every forward pass, so the network
+ * should be in inference mode
+ * @param {MLP} model - network to check
+ * @param {Vector} input - input of the network
+ * @param {Vector} target - expected output
+ * @param {GradientCheckOptions} options - loss and tolerances
+ * @returns {GradientCheckReport} report of every weight, bias and
+ * normalization parameter
+ */
+export const checkNetworkGradients = (
+  model: MLP,
+  input: Vector,
+  target: Vector,
+  {
+    loss: lossKey = 'meanSquaredError',
+    epsilon = DEFAULT_EPSILON,
+    tolerance = DEFAULT_TOLERANCE,
+  }: GradientCheckOptions = {},
+): GradientCheckReport => {
+  const { loss, lossGradient } = getLossFunctionByKey(lossKey);
+  const evaluate = () => loss(model.forward(input), target) +
+    model.regularizationLoss();
+  const gradients = model.backward(lossGradient(model.forward(input), target));
+
+  const reports: ParameterGradientReport[] = [];
+  model.weights.forEach((weights, l) => {
+    reports.push(checkParameterGradient(`weights[${l}]`, weights, gradients.weights[l], evaluate, epsilon, tolerance));
+  });
+  model.biases.forEach((bias, l) => {
+    reports.push(checkParameterGradient(`biases[${l}]`, bias, gradients.biases[l], evaluate, epsilon, tolerance));
+  });
+  model.normalizations.forEach((normalization, l) => {
+    const normalizationGradients = gradients.normalizations[l];
+    if (!normalization || !normalizationGradients) {
+      return;
+    }
+    reports.push(checkParameterGradient(`gamma[${l}]`, normalization.gamma, normalizationGradients.gamma, evaluate, epsilon, tolerance));
+    reports.push(checkParameterGradient(`beta[${l}]`, normalization.beta, normalizationGradients.beta, evaluate, epsilon, tolerance));
+  });
+  return summarize(reports);
+};
+
+const sample = (size: number, offset: number): number[] => {
+  const values: number[] = [];
+  for (let i = 0; i < size; i++) {
+    values[i] = Math.sin(1.7 * (i + offset) + 0.3);
+  }
+  return values;
+};
+
+const sampleMatrix = (rows: number, cols: number, offset: number): Matrix => {
+  const values: number[][] = [];
+  for (let i = 0; i < rows; i++) {
+    values[i] = sample(cols, offset + i * cols);
+  }
+  return new Matrix(...values);
+};
+
+const targetFor = (key: ImplementedLossFunction, size: number): Vector => {
+  if (key === 'binaryCrossEntropy') {
+    return new Vector(...sample(size, 11).map((a) => (a > 0 ? 1 : 0)));
+  }
+  if (key === 'categoricalCrossEntropy') {
+    return new Vector(...sample(size, 0).map((_, i) => (i === 0 ? 1 : 0)));
+  }
+  if (key === 'hinge') {
+    return new Vector(...sample(size, 11).map((a) => (a > 0 ? 1 : -1)));
+  }
+  return new Vector(...sample(size, 11));
+};
+
+/**
+ * Gradient check of every registered activation and loss
+ * @remarks
+ * Activations are checked on a small layer with mean squared error,
+ * and losses on a small sigmoid layer, using fixed pseudo-random
+ * values so that the result is reproducible
+ * @param {GradientCheckOptions} options - tolerances (loss is ignored)
+ * @returns reports keyed by activation and loss
+ */
+export const checkRegisteredGradients = ({
+  epsilon = DEFAULT_EPSILON,
+  tolerance = DEFAULT_TOLERANCE,
+}: GradientCheckOptions = {}): {
+  activations: Record<string, GradientCheckReport>,
+  losses: Record<string, GradientCheckReport>,
+} => {
+  const inputSize = 4;
+  const outputSize = 3;
+  const check = (
+    activation: ImplementedActivationFunction,
+    loss: ImplementedLossFunction,
+  ) => checkLayerGradients({
+    input: new DenseVectorLayer({
+      numNeurons: inputSize,
+      initialValues: sample(inputSize, 0),
+      activation,
+    }),
+    weights: sampleMatrix(outputSize, inputSize, 5),
+    bias: new Vector(...sample(outputSize, 23)),
+    target: targetFor(loss, outputSize),
+  }, { loss, epsilon, tolerance });
+
+  const activationKeys = [
+    ...Object.keys(activations),
+    ...Object.keys(vectorActivations),
+  ] as ImplementedActivationFunction[];
+  const lossKeys = Object.keys(losses) as ImplementedLossFunction[];
+
+  const activationReports: Record<string, GradientCheckReport> = {};
+  activationKeys.forEach((key) => {
+    activationReports[key] = check(key, 'meanSquaredError');
+  });
+  const lossReports: Record<string, GradientCheckReport> = {};
+  lossKeys.forEach((key) => {
+    lossReports[key] = check('sigmoid', key);
+  });
+
+  return {
+    activations: activationReports,
+    losses: lossReports,
+  };
+};
@@ -0,0 +1,127 @@
+import {
+  ErrorCode,
+  ErrorDetails,
+  IndexOutOfBoundsDetails,
+  InvalidArgumentDetails,
+  ShapeMismatchDetails,
+  UnsupportedOperandDetails,
+} from '../interface';
+
+/**
+ * Base class of every error thrown by the library
+ * @remarks
+ * The message starts with the code in brackets, so that errors stay
+ * readable in logs, while callers can branch on `instanceof` and on
+ * the structured fields instead of parsing the message
+ */
+export class PerceptronError extends Error {
+  /**
+   * @property {ErrorCode} code - Stable code of the error
+   * @property {string} operation - Method or function that threw
+  */
+  code: ErrorCode;
+  operation: string;
+
+  /**
+   * Constructor of the error
+   * @param {ErrorCode} code - Stable code of the error
+   * @param {string} message - Description, without the code
+   * @param {ErrorDetails} details - Operation that threw
+  */
+  constructor(code: ErrorCode, message: string, { operation }: ErrorDetails) {
+    super(`[${code}] ${message}`);
+    this.name = new.target.name;
+    this.code = code;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Operands whose shapes do not fit the operation
+ */
+export class ShapeMismatchError extends PerceptronError {
+  /**
+   * @property {number[][]} shapes - Shapes of the operands
+  */
+  shapes: number[][];
+
+  constructor(code: ErrorCode, message: string, details: ShapeMismatchDetails) {
+    super(code, message, details);
+    this.shapes = details.shapes.map((shape) => [...shape]);
+  }
+}
+
+/**
+ * Access to a row, column or entry that does not exist
+ */
+export class IndexOutOfBoundsError extends PerceptronError {
+  /**
+   * @property {number[]} index - Offending index
+   * @property {number[]} shape - Shape of the indexed object
+  */
+  index: number[];
+  shape: number[];
+
+  constructor(code: ErrorCode, message: string, details: IndexOutOfBoundsDetails) {
+    super(code, message, details);
+    this.index = [...details.index];
+    this.shape = [...details.shape];
+  }
+}
+
+/**
+ * Operand of a type the operation does not handle
+ */
+export class UnsupportedOperandError extends PerceptronError {
+  /**
+   * @property {string} operand - Type of the operand received
+  */
+  operand: string;
+
+  constructor(code: ErrorCode, message: string, details: UnsupportedOperandDetails) {
+    super(code, message, details);
+    this.operand = details.operand;
+  }
+}
+
+/**
+ * Argument whose value is not accepted (unknown key, negative size,
+ * empty dataset, ...)
+ */
+export class InvalidArgumentError extends PerceptronError {
+  /**
+   * @property {string} argument - Name of the offending argument
+  */
+  argument: string;
+
+  constructor(code: ErrorCode, message: string, details: InvalidArgumentDetails) {
+    super(code, message, details);
+    this.argument = details.argument;
+  }
+}
+
+/**
+ * Invalid definition of a layer or of the layers of a network
+ */
+export class InvalidLayerError extends InvalidArgumentError {}
+
+/**
+ * Operation called in a state that does not support it, such as a
+ * backward pass before any forward pass
+ */
+export class InvalidStateError extends PerceptronError {}
+
+/**
+ * Type of an operand, for `UnsupportedOperandError`
+ * @param {unknown} value - Operand received
+ * @returns {string} Constructor name of objects, `typeof` otherwise
+ */
+export const describeOperand = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'object') {
+    return value.constructor?.name ?? 'object';
+  }
+  return typeof value;
+};
@@ -1 +1,12 @@
+export * from './interface';
+export * from './errors';
 export * from './math';
+export * from './layer';
+export * from './data';
+export * from './preprocessing';
+export * from './model';
+export * from './optimizer';
+export * from './diagnostics';
+export * from './metrics';
+export * from './training';
+export * from './autodiff';
@@ -0,0 +1,3 @@
+import { Matrix, Vector } from '../math';
+
+export type AutodiffValue = Matrix | Vector | number;
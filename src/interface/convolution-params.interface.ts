@@ -0,0 +1,39 @@
+import { SeededRandom } from '../math';
+import {
+  ActivationParams,
+  ImplementedElementwiseActivationFunction,
+  ImplementedInitializer,
+} from './mlp-params.interface';
+
+export type Size2D = number | [number, number];
+
+/**
+ * Sliding window over the two spatial axes of an image
+ * @property {[number, number]} kernel - Height and width of the window
+ * @property {[number, number]} stride - Vertical and horizontal step
+ * @property {[number, number]} padding - Rows and columns added on
+ * every side
+ */
+export interface Window2D {
+  kernel: [number, number];
+  stride: [number, number];
+  padding: [number, number];
+}
+
+export interface Conv2DParams {
+  inChannels: number;
+  outChannels: number;
+  kernelSize: Size2D;
+  stride?: Size2D;
+  padding?: Size2D;
+  activation?: ImplementedElementwiseActivationFunction;
+  activationParams?: ActivationParams;
+  initializer?: ImplementedInitializer;
+  rng?: SeededRandom;
+}
+
+export interface Pool2DParams {
+  poolSize: Size2D;
+  stride?: Size2D;
+  padding?: Size2D;
+}
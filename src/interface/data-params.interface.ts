@@ -0,0 +1,53 @@
+import { Matrix, Tensor } from '../math';
+
+export type ColumnSelector = string | number;
+export type Category = string | number;
+
+export interface Dataset {
+  x: Matrix;
+  y: Matrix;
+}
+
+export interface SequenceDataset {
+  x: Tensor;
+  y: Matrix;
+}
+
+export interface DelimitedTextOptions {
+  delimiter?: string;
+  quote?: string;
+}
+
+export interface CSVOptions extends DelimitedTextOptions {
+  header?: boolean;
+  featureColumns?: ColumnSelector[];
+  labelColumns?: ColumnSelector[];
+}
+
+export interface SplitOptions {
+  testSize?: number;
+  validationSize?: number;
+  stratify?: boolean;
+  shuffle?: boolean;
+  seed?: number;
+}
+
+export interface BatchOptions {
+  batchSize?: number;
+  shuffle?: boolean;
+  seed?: number;
+  dropLast?: boolean;
+}
+
+export interface KFoldOptions {
+  shuffle?: boolean;
+  stratify?: boolean;
+  seed?: number;
+}
+
+export interface SlidingWindowOptions {
+  windowSize: number;
+  horizon?: number;
+  stride?: number;
+  targetColumns?: number[];
+}
@@ -0,0 +1,87 @@
+/**
+ * Stable codes of the errors thrown by the library
+ * @remarks
+ * The code is also the bracketed prefix of the message, e.g.
+ * `[MATMUL] Matrices must have consistent dimensions`
+ */
+export type ErrorCode =
+  | 'AUTODIFF'
+  | 'BROADCAST'
+  | 'COL'
+  | 'CONV'
+  | 'DATA'
+  | 'DROP'
+  | 'FIT'
+  | 'FLAT'
+  | 'GRADCHK'
+  | 'LAYC'
+  | 'LINALG'
+  | 'LOSS'
+  | 'MATADD'
+  | 'MATMUL'
+  | 'MATRIX'
+  | 'METRIC'
+  | 'MLPB'
+  | 'MLPC'
+  | 'MLPF'
+  | 'MLPJ'
+  | 'NORM'
+  | 'ONNX'
+  | 'OPTC'
+  | 'OPTG'
+  | 'OPTP'
+  | 'POOL'
+  | 'PREP'
+  | 'RNN'
+  | 'ROW'
+  | 'SLICE'
+  | 'SPARSE'
+  | 'STACK'
+  | 'TENSOR'
+  | 'TFJS'
+  | 'VECADD'
+  | 'VECMUL';
+
+/**
+ * Fields shared by every error of the library
+ * @property {string} operation - Method or function that threw, e.g.
+ * `Matrix.normalDot`
+ */
+export interface ErrorDetails {
+  operation: string;
+}
+
+/**
+ * Fields of a shape mismatch
+ * @property {number[][]} shapes - Shapes of the operands, in the order
+ * of the operation (vectors have a single dimension)
+ */
+export interface ShapeMismatchDetails extends ErrorDetails {
+  shapes: number[][];
+}
+
+/**
+ * Fields of an out-of-bounds access
+ * @property {number[]} index - Offending index, one entry per axis
+ * @property {number[]} shape - Shape of the indexed object
+ */
+export interface IndexOutOfBoundsDetails extends ErrorDetails {
+  index: number[];
+  shape: number[];
+}
+
+/**
+ * Fields of an operand of the wrong type
+ * @property {string} operand - Type of the operand received
+ */
+export interface UnsupportedOperandDetails extends ErrorDetails {
+  operand: string;
+}
+
+/**
+ * Fields of an invalid argument
+ * @property {string} argument - Name of the offending argument
+ */
+export interface InvalidArgumentDetails extends ErrorDetails {
+  argument: string;
+}
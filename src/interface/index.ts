@@ -1 +1,14 @@
 export * from './mlp-params.interface';
+export * from './convolution-params.interface';
+export * from './recurrent-params.interface';
+export * from './optimizer-params.interface';
+export * from './model-json.interface';
+export * from './interchange-params.interface';
+export * from './data-params.interface';
+export * from './preprocessing-params.interface';
+export * from './metric-params.interface';
+export * from './training-params.interface';
+export * from './autodiff-params.interface';
+export * from './tensor-params.interface';
+export * from './sparse-params.interface';
+export * from './error-params.interface';
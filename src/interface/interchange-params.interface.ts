@@ -0,0 +1,70 @@
+/**
+ * Weight of a TensorFlow.js weights manifest
+ * @property {string} name - Name of the weight, e.g. `dense_1/kernel`
+ * @property {number[]} shape - Shape of the weight
+ * @property {string} dtype - Type of the entries in the binary file
+ * @property {unknown} quantization - Quantization of the entries, if any
+ */
+export interface TFJSWeightSpec {
+  name: string;
+  shape: number[];
+  dtype: 'float32' | 'int32' | 'bool' | 'string' | 'complex64';
+  quantization?: unknown;
+}
+
+/**
+ * Group of weights stored in the same binary files
+ * @property {string[]} paths - Files holding the group, relative to
+ * the `model.json`, to be concatenated in order
+ * @property {TFJSWeightSpec[]} weights - Weights, in storage order
+ */
+export interface TFJSWeightsGroup {
+  paths: string[];
+  weights: TFJSWeightSpec[];
+}
+
+/**
+ * Keras layer of a TensorFlow.js topology
+ * @property {string} class_name - Type of the layer, e.g. `Dense`
+ * @property {Record<string, unknown>} config - Options of the layer
+ */
+export interface TFJSLayerJSON {
+  class_name: string;
+  config: Record<string, unknown>;
+}
+
+/**
+ * Keras topology of a TensorFlow.js layers model
+ * @remarks
+ * Older Keras versions store the layers of a `Sequential` model
+ * directly as the config, and models converted from Python wrap the
+ * topology in `model_config`
+ */
+export interface TFJSModelTopology {
+  class_name?: string;
+  config?: { name?: string; layers: TFJSLayerJSON[] } | TFJSLayerJSON[];
+  model_config?: TFJSModelTopology;
+  keras_version?: string;
+  backend?: string;
+}
+
+/**
+ * Contents of the `model.json` of a TensorFlow.js layers model
+ */
+export interface TFJSModelJSON {
+  format?: string;
+  generatedBy?: string;
+  convertedBy?: string | null;
+  modelTopology: TFJSModelTopology;
+  weightsManifest: TFJSWeightsGroup[];
+}
+
+/**
+ * TensorFlow.js model held in memory
+ * @property {TFJSModelJSON} modelJSON - Contents of the `model.json`
+ * @property {Uint8Array} weightData - Concatenated weight files
+ */
+export interface TFJSArtifacts {
+  modelJSON: TFJSModelJSON;
+  weightData: Uint8Array;
+}
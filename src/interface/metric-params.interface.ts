@@ -0,0 +1,23 @@
+import { Matrix, Vector } from '../math';
+
+export type MetricInput = Matrix | Vector;
+export type Metric = (predictions: Matrix, targets: Matrix) => number;
+export type MetricAverage = 'macro' | 'micro';
+
+export type ImplementedClassificationMetric =
+  'accuracy' |
+  'precision' |
+  'recall' |
+  'f1Score' |
+  'logLoss' |
+  'rocAuc';
+
+export type ImplementedRegressionMetric =
+  'meanSquaredError' |
+  'meanAbsoluteError' |
+  'rootMeanSquaredError' |
+  'r2Score';
+
+export type ImplementedMetric =
+  ImplementedClassificationMetric |
+  ImplementedRegressionMetric;
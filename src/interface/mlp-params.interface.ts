@@ -1,12 +1,82 @@
+import { Matrix, SeededRandom, Vector } from '../math';
+
 export type ActivationFunction = (a: number) => number;
-export type ImplementedActivationFunction =
+export type VectorActivationFunction = (z: Vector) => Vector;
+export type ActivationJacobianProduct = (z: Vector, gradient: Vector) => Vector;
+export type ImplementedElementwiseActivationFunction =
   'sigmoid' |
   'tanh' |
   'reLU' |
-  'swish';
+  'swish' |
+  'leakyReLU' |
+  'elu' |
+  'selu' |
+  'gelu' |
+  'softplus' |
+  'linear' |
+  'hardSigmoid' |
+  'mish';
+export type ImplementedVectorActivationFunction =
+  'softmax' |
+  'logSoftmax' |
+  'sparsemax';
+export type ImplementedActivationFunction =
+  ImplementedElementwiseActivationFunction |
+  ImplementedVectorActivationFunction;
+
+export type LossFunction = (prediction: Vector, target: Vector) => number;
+export type LossGradient = (prediction: Vector, target: Vector) => Vector;
+export type ImplementedLossFunction =
+  'meanSquaredError' |
+  'meanAbsoluteError' |
+  'huber' |
+  'binaryCrossEntropy' |
+  'categoricalCrossEntropy' |
+  'hinge';
+
+export type Initializer = (
+  numRows: number,
+  numCols: number,
+  rng: SeededRandom,
+) => Matrix;
+export type ImplementedInitializer =
+  'zeros' |
+  'xavierUniform' |
+  'xavierNormal' |
+  'heUniform' |
+  'heNormal' |
+  'lecunUniform' |
+  'lecunNormal' |
+  'orthogonal';
+
+export interface ActivationParams {
+  slope?: number;
+  alpha?: number;
+}
+
+export type ImplementedNormalization =
+  'batchNorm' |
+  'layerNorm';
+
+export interface NormalizationParams {
+  momentum?: number;
+  epsilon?: number;
+}
+
+export interface RegularizationParams {
+  l1?: number;
+  l2?: number;
+}
 
 export interface LayerDefinition {
   numNeurons: number;
   activation: ImplementedActivationFunction;
-  initialValues?: number[];
+  activationParams?: ActivationParams;
+  initializer?: ImplementedInitializer;
+  initialValues?: ArrayLike<number>;
+  regularization?: RegularizationParams;
+  dropout?: number;
+  maxNorm?: number;
+  normalization?: ImplementedNormalization;
+  normalizationParams?: NormalizationParams;
 }
@@ -0,0 +1,51 @@
+import {
+  ActivationParams,
+  ImplementedActivationFunction,
+  ImplementedInitializer,
+  ImplementedNormalization,
+  NormalizationParams,
+  RegularizationParams,
+} from './mlp-params.interface';
+import {
+  ImplementedOptimizer,
+  OptimizerOptions,
+} from './optimizer-params.interface';
+
+export interface SerializedLayer {
+  numNeurons: number;
+  activation: ImplementedActivationFunction;
+  activationParams?: ActivationParams;
+  initializer?: ImplementedInitializer;
+  regularization?: RegularizationParams;
+  dropout?: number;
+  maxNorm?: number;
+  normalization?: ImplementedNormalization;
+  normalizationParams?: NormalizationParams;
+}
+
+export interface SerializedNormalization {
+  gamma: number[];
+  beta: number[];
+  runningMean?: number[];
+  runningVariance?: number[];
+}
+
+export interface SerializedOptimizerState {
+  step: number;
+  buffers: Record<string, number[]>;
+}
+
+export interface SerializedOptimizer {
+  key: ImplementedOptimizer;
+  options: OptimizerOptions;
+  state: Array<SerializedOptimizerState | null>;
+}
+
+export interface SerializedMLP {
+  schemaVersion: number;
+  layers: SerializedLayer[];
+  weights: number[][][];
+  biases: number[][];
+  normalizations?: Array<SerializedNormalization | null>;
+  optimizer?: SerializedOptimizer;
+}
@@ -0,0 +1,38 @@
+export type ImplementedOptimizer =
+  'sgd' |
+  'rmsprop' |
+  'adam' |
+  'adamW';
+
+export interface SGDOptions {
+  learningRate: number;
+  momentum?: number;
+  nesterov?: boolean;
+  weightDecay?: number;
+}
+
+export interface RMSPropOptions {
+  learningRate: number;
+  decay?: number;
+  epsilon?: number;
+}
+
+export interface AdamOptions {
+  learningRate: number;
+  beta1?: number;
+  beta2?: number;
+  epsilon?: number;
+}
+
+export interface AdamWOptions extends AdamOptions {
+  weightDecay?: number;
+}
+
+export interface OptimizerOptionsMap {
+  sgd: SGDOptions;
+  rmsprop: RMSPropOptions;
+  adam: AdamOptions;
+  adamW: AdamWOptions;
+}
+
+export type OptimizerOptions = OptimizerOptionsMap[ImplementedOptimizer];
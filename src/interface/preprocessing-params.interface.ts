@@ -0,0 +1,56 @@
+import { SerializedMLP } from './model-json.interface';
+
+export type ImplementedTransformer =
+  'standardScaler' |
+  'minMaxScaler' |
+  'robustScaler' |
+  'normalizer' |
+  'polynomialFeatures';
+
+export type NormType = 'l1' | 'l2' | 'max';
+
+export interface StandardScalerOptions {
+  withMean?: boolean;
+  withStd?: boolean;
+}
+
+export interface MinMaxScalerOptions {
+  featureRange?: [number, number];
+}
+
+export interface RobustScalerOptions {
+  withCentering?: boolean;
+  withScaling?: boolean;
+  quantileRange?: [number, number];
+}
+
+export interface NormalizerOptions {
+  norm?: NormType;
+}
+
+export interface PolynomialFeaturesOptions {
+  degree?: number;
+  interactionOnly?: boolean;
+  includeBias?: boolean;
+}
+
+export interface TransformerOptionsMap {
+  standardScaler: StandardScalerOptions;
+  minMaxScaler: MinMaxScalerOptions;
+  robustScaler: RobustScalerOptions;
+  normalizer: NormalizerOptions;
+  polynomialFeatures: PolynomialFeaturesOptions;
+}
+
+export type TransformerOptions = TransformerOptionsMap[ImplementedTransformer];
+
+export interface SerializedTransformer {
+  key: ImplementedTransformer;
+  options: TransformerOptions;
+  state: Record<string, number[]> | null;
+}
+
+export interface SerializedPipeline {
+  transformers: SerializedTransformer[];
+  model?: SerializedMLP;
+}
@@ -0,0 +1,22 @@
+import { SeededRandom } from '../math';
+import {
+  ActivationParams,
+  ImplementedElementwiseActivationFunction,
+  ImplementedInitializer,
+} from './mlp-params.interface';
+
+export interface RecurrentParams {
+  inputSize: number;
+  units: number;
+  returnSequences?: boolean;
+  stateful?: boolean;
+  truncation?: number;
+  initializer?: ImplementedInitializer;
+  recurrentInitializer?: ImplementedInitializer;
+  rng?: SeededRandom;
+}
+
+export interface SimpleRNNParams extends RecurrentParams {
+  activation?: ImplementedElementwiseActivationFunction;
+  activationParams?: ActivationParams;
+}
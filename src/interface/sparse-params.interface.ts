@@ -0,0 +1,14 @@
+/**
+ * Coordinate (COO) representation of a sparse matrix
+ * @remarks
+ * Entry k is `values[k]` at row `rows[k]` and column `columns[k]`.
+ * The entries may come in any order, and duplicates are summed
+ * @property {ArrayLike<number>} rows - Row index of every entry
+ * @property {ArrayLike<number>} columns - Column index of every entry
+ * @property {ArrayLike<number>} values - Value of every entry
+ */
+export interface COOEntries {
+  rows: ArrayLike<number>;
+  columns: ArrayLike<number>;
+  values: ArrayLike<number>;
+}
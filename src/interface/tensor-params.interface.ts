@@ -0,0 +1,10 @@
+export type NestedArray = number | NestedArray[];
+
+/**
+ * Selection of a single axis when slicing a tensor
+ * @remarks
+ * A number picks one index and drops the axis, a tuple
+ * `[start, end, step]` keeps a range (negative bounds count from
+ * the end), and `null` keeps the whole axis
+ */
+export type TensorSlice = number | [number?, number?, number?] | null;
@@ -0,0 +1,40 @@
+export type EpochLogs = Record<string, number>;
+export type BatchLogs = Record<string, number>;
+export type MonitorMode = 'min' | 'max';
+
+export interface TrainingCallbacks {
+  onEpochStart?: (epoch: number) => void;
+  onBatchEnd?: (batch: number, logs: BatchLogs) => void;
+  onEpochEnd?: (epoch: number, logs: EpochLogs) => void;
+}
+
+export interface EarlyStoppingOptions {
+  monitor?: string;
+  mode?: MonitorMode;
+  patience?: number;
+  minDelta?: number;
+  restoreBestWeights?: boolean;
+}
+
+export interface StepDecayOptions {
+  stepSize: number;
+  gamma?: number;
+}
+
+export interface ExponentialDecayOptions {
+  gamma: number;
+}
+
+export interface CosineAnnealingOptions {
+  totalEpochs: number;
+  minLearningRate?: number;
+}
+
+export interface ReduceOnPlateauOptions {
+  monitor?: string;
+  mode?: MonitorMode;
+  factor?: number;
+  patience?: number;
+  minDelta?: number;
+  minLearningRate?: number;
+}
@@ -0,0 +1,227 @@
+import {
+  ActivationFunction,
+  ActivationParams,
+  Conv2DParams,
+  ImplementedElementwiseActivationFunction,
+  Window2D,
+} from '../interface';
+import {
+  InvalidLayerError,
+  InvalidStateError,
+  ShapeMismatchError,
+} from '../errors';
+import {
+  Matrix,
+  SeededRandom,
+  Tensor,
+  Vector,
+  getActivationFunctionByKey,
+  getDefaultInitializerKey,
+  getInitializerByKey,
+} from '../math';
+import {
+  col2im,
+  im2col,
+  outputSize2D,
+  toSize2D,
+} from './im2col';
+
+/**
+ * Gradients produced by the backward pass of a convolution
+ * @property {Tensor} input - Gradient wrt the inputs
+ * @property {Matrix} weights - Gradient wrt the kernels (batch-averaged)
+ * @property {Vector} bias - Gradient wrt the bias (batch-averaged)
+ */
+export interface Conv2DGradients {
+  input: Tensor;
+  weights: Matrix;
+  bias: Vector;
+}
+
+/**
+ * Values of the last forward pass, kept for the backward pass
+ */
+interface Conv2DCache {
+  inputShape: number[];
+  cols: Matrix;
+  preActivations: Tensor;
+}
+
+/**
+ * Class for modelling a 2D convolution layer
+ * @remarks
+ * Images are tensors of shape [channels, height, width], and
+ * mini-batches of shape [batch, channels, height, width]. The kernels
+ * are stored as the rows of a `Matrix` of shape
+ * [outChannels, inChannels * kh * kw], so that the windows unfolded by
+ * `im2col` are convolved by a single matrix product:
+ * ```
+ * Z = W · im2col(X) + b
+ * ```
+ * As with dense layers, the weight and bias gradients are averaged
+ * over the batch while the input gradient keeps one entry per sample
+ */
+export class Conv2D {
+  /**
+   * @property {number} inChannels - Number of channels of the inputs
+   * @property {number} outChannels - Number of kernels
+   * @property {Window2D} window - Kernel size, stride and padding
+   * @property {Matrix} weights - One flattened kernel per row
+   * @property {Vector} bias - Bias of every output channel
+  */
+  inChannels: number;
+  outChannels: number;
+  window: Window2D;
+  weights: Matrix;
+  bias: Vector;
+  activationKey: ImplementedElementwiseActivationFunction;
+  activationParams: ActivationParams;
+  activation: ActivationFunction;
+  activationGradient: ActivationFunction;
+  private cache: Conv2DCache | null = null;
+
+  /**
+   * Constructor of the Conv2D layer
+   * @param {Conv2DParams} params - Channels, window, activation and
+   * initializer (chosen from the activation by default)
+  */
+  constructor({
+    inChannels,
+    outChannels,
+    kernelSize,
+    stride = 1,
+    padding = 0,
+    activation = 'linear',
+    activationParams = {},
+    initializer,
+    rng = new SeededRandom(),
+  }: Conv2DParams) {
+    if (!Number.isInteger(inChannels) || inChannels <= 0 ||
+      !Number.isInteger(outChannels) || outChannels <= 0) {
+      throw new InvalidLayerError('CONV', `Channels must be positive integers (in = ${inChannels}, out = ${outChannels}).`, {
+        operation: 'Conv2D.constructor',
+        argument: Number.isInteger(inChannels) && inChannels > 0 ? 'outChannels' : 'inChannels',
+      });
+    }
+    this.inChannels = inChannels;
+    this.outChannels = outChannels;
+    this.window = {
+      kernel: toSize2D(kernelSize, 'kernelSize'),
+      stride: toSize2D(stride, 'stride'),
+      padding: toSize2D(padding, 'padding', 0),
+    };
+    const [kh, kw] = this.window.kernel;
+    const init = getInitializerByKey(initializer ?? getDefaultInitializerKey(activation));
+    this.weights = init(outChannels, inChannels * kh * kw, rng);
+    this.bias = Vector.zeros(outChannels);
+    const { activation: f, activationGradient } = getActivationFunctionByKey(
+      activation,
+      activationParams,
+    );
+    this.activationKey = activation;
+    this.activationParams = { ...activationParams };
+    this.activation = f;
+    this.activationGradient = activationGradient;
+  }
+
+  /**
+   * Learnable parameters of the layer
+   * @returns {Array<Matrix | Vector>} weights and bias
+  */
+  parameters(): Array<Matrix | Vector> {
+    return [this.weights, this.bias];
+  }
+
+  /**
+   * Shape of the output for an input shape
+   * @param {number[]} shape - Shape [channels, height, width] of an image
+   * @returns {number[]} Shape [outChannels, outHeight, outWidth]
+  */
+  outputShape([channels, height, width]: number[]): number[] {
+    if (channels !== this.inChannels) {
+      throw new ShapeMismatchError('CONV', `Input must have ${this.inChannels} channels (channels = ${channels}).`, {
+        operation: 'Conv2D.outputShape',
+        shapes: [[channels, height, width], [this.inChannels]],
+      });
+    }
+    return [this.outChannels, ...outputSize2D(height, width, this.window)];
+  }
+
+  /**
+   * Forward pass of a single image
+   * @param {Tensor} input - Image of shape [channels, height, width]
+   * @returns {Tensor} Feature maps of shape [outChannels, outHeight, outWidth]
+  */
+  forward(input: Tensor): Tensor {
+    return this.forwardBatch(input.expandDims(0)).squeeze(0);
+  }
+
+  /**
+   * Backward pass of a single image
+   * @param {Tensor} gradient - Gradient wrt the feature maps
+   * @returns {Conv2DGradients} Gradients wrt the input, weights and bias
+  */
+  backward(gradient: Tensor): Conv2DGradients {
+    const { input, weights, bias } = this.backwardBatch(gradient.expandDims(0));
+    return { input: input.squeeze(0), weights, bias };
+  }
+
+  /**
+   * Forward pass over a mini-batch
+   * @param {Tensor} inputs - Images of shape [batch, channels, height, width]
+   * @returns {Tensor} Feature maps of shape [batch, outChannels, outHeight, outWidth]
+  */
+  forwardBatch(inputs: Tensor): Tensor {
+    if (inputs.ndim !== 4) {
+      throw new ShapeMismatchError('CONV', `Inputs must be a tensor of shape [batch, channels, height, width] (shape = [${inputs.shape}]).`, {
+        operation: 'Conv2D.forwardBatch',
+        shapes: [inputs.shape],
+      });
+    }
+    const [batch, ...image] = inputs.shape;
+    const [, outHeight, outWidth] = this.outputShape(image);
+    const cols = im2col(inputs, this.window);
+    const z = this.weights.dot(cols).add(this.bias, 'column');
+    const preActivations = new Tensor(
+      Float64Array.from(z.data),
+      [this.outChannels, batch, outHeight, outWidth],
+    ).transpose([1, 0, 2, 3]).clone();
+    this.cache = { inputShape: inputs.shape, cols, preActivations };
+    return preActivations.apply(this.activation);
+  }
+
+  /**
+   * Backward pass over a mini-batch
+   * @param {Tensor} gradient - Gradient wrt the feature maps of the
+   * last forward pass
+   * @returns {Conv2DGradients} Gradients wrt the inputs, weights and bias
+  */
+  backwardBatch(gradient: Tensor): Conv2DGradients {
+    const { cache } = this;
+    if (!cache) {
+      throw new InvalidStateError('CONV', 'A forward pass must be run before the backward pass.', {
+        operation: 'Conv2D.backwardBatch',
+      });
+    }
+    const { inputShape, cols, preActivations } = cache;
+    if (gradient.shape.length !== preActivations.ndim ||
+      gradient.shape.some((dim, axis) => dim !== preActivations.shape[axis])) {
+      throw new ShapeMismatchError('CONV', `Gradient must match the last forward pass (gradient = [${gradient.shape}], forward = [${preActivations.shape}]).`, {
+        operation: 'Conv2D.backwardBatch',
+        shapes: [gradient.shape, preActivations.shape],
+      });
+    }
+    const batchSize = inputShape[0];
+    const delta = preActivations.apply(this.activationGradient).multiply(gradient);
+    const deltaMatrix = Matrix.fromBuffer(
+      delta.transpose([1, 0, 2, 3]).values(),
+      this.outChannels,
+      cols.numCols,
+    );
+    return {
+      input: col2im(this.weights.transposedDot(deltaMatrix), inputShape, this.window),
+      weights: deltaMatrix.dot(cols.transpose()).scaleInPlace(1 / batchSize),
+      bias: deltaMatrix.sum('column').scaleInPlace(1 / batchSize),
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { InvalidLayerError, ShapeMismatchError } from '../errors';
+import { Matrix, SeededRandom, Vector } from '../math';
+
+/**
+ * Class for modelling a dropout layer
+ * @remarks
+ * In training mode every value is zeroed with probability `rate`,
+ * and the kept values are scaled by 1 / (1 - rate) (inverted
+ * dropout), so that nothing needs rescaling at inference, where
+ * the layer is the identity. The mask of the last forward pass is
+ * kept for the backward pass, and drawn from a seedable generator
+ */
+export class Dropout {
+  /**
+   * @property {number} rate - Probability of dropping a value
+   * @property {boolean} training - Whether values are dropped
+   * @property {SeededRandom} rng - Generator of the masks
+   * @property {Float64Array | null} mask - Scale applied to every value
+   * by the last forward pass (null when nothing was dropped)
+  */
+  rate: number;
+  training = true;
+  rng: SeededRandom;
+  mask: Float64Array | null = null;
+
+  /**
+   * Constructor of the Dropout layer
+   * @param {number} rate - Probability of dropping a value, in [0, 1)
+   * @param {SeededRandom} rng - Generator of the masks
+  */
+  constructor({ rate, rng = new SeededRandom() }: {
+    rate: number;
+    rng?: SeededRandom;
+  }) {
+    if (!(rate >= 0 && rate < 1)) {
+      throw new InvalidLayerError('DROP', `Dropout rate must be in [0, 1) (rate = ${rate}).`, {
+        operation: 'Dropout.constructor',
+        argument: 'rate',
+      });
+    }
+    this.rate = rate;
+    this.rng = rng;
+  }
+
+  /**
+   * Switch to training mode, where values are dropped
+  */
+  train() {
+    this.training = true;
+  }
+
+  /**
+   * Switch to inference mode, where the layer is the identity
+  */
+  eval() {
+    this.training = false;
+  }
+
+  /**
+   * Draw a new mask and apply it
+   * @param {Float64Array} values - Values to drop, updated in place
+  */
+  private drop(values: Float64Array) {
+    if (!this.training || this.rate === 0) {
+      this.mask = null;
+      return;
+    }
+    const scale = 1 / (1 - this.rate);
+    this.mask = new Float64Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      this.mask[i] = this.rng.next() < this.rate ? 0 : scale;
+      values[i] *= this.mask[i];
+    }
+  }
+
+  /**
+   * Apply the mask of the last forward pass
+   * @param {Float64Array} gradient - Gradient to mask, updated in place
+  */
+  private propagate(gradient: Float64Array) {
+    if (!this.mask) {
+      return;
+    }
+    if (gradient.length !== this.mask.length) {
+      throw new ShapeMismatchError('DROP', `Gradient must match the last forward pass (gradient = ${gradient.length}, mask = ${this.mask.length}).`, {
+        operation: 'Dropout.backward',
+        shapes: [[gradient.length], [this.mask.length]],
+      });
+    }
+    for (let i = 0; i < gradient.length; i++) {
+      gradient[i] *= this.mask[i];
+    }
+  }
+
+  /**
+   * Forward pass of a single sample
+   * @param {Vector} values - Values of the previous layer
+   * @returns {Vector} Values with the dropout applied
+  */
+  forward(values: Vector): Vector {
+    const result = Vector.fromArray(values);
+    this.drop(result);
+    return result;
+  }
+
+  /**
+   * Backward pass of a single sample
+   * @param {Vector} gradient - Gradient wrt the outputs
+   * @returns {Vector} Gradient wrt the inputs
+  */
+  backward(gradient: Vector): Vector {
+    const result = Vector.fromArray(gradient);
+    this.propagate(result);
+    return result;
+  }
+
+  /**
+   * Forward pass over a mini-batch
+   * @param {Matrix} values - Values of the previous layer (one row per sample)
+   * @returns {Matrix} Values with the dropout applied
+  */
+  forwardBatch(values: Matrix): Matrix {
+    const data = Float64Array.from(values.data);
+    this.drop(data);
+    return Matrix.fromBuffer(data, values.numRows, values.numCols);
+  }
+
+  /**
+   * Backward pass over a mini-batch
+   * @param {Matrix} gradient - Gradient wrt the outputs (one row per sample)
+   * @returns {Matrix} Gradient wrt the inputs
+  */
+  backwardBatch(gradient: Matrix): Matrix {
+    const data = Float64Array.from(gradient.data);
+    this.propagate(data);
+    return Matrix.fromBuffer(data, gradient.numRows, gradient.numCols);
+  }
+}
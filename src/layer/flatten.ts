@@ -0,0 +1,88 @@
+import { InvalidStateError, ShapeMismatchError } from '../errors';
+import { Matrix, Tensor, Vector } from '../math';
+
+/**
+ * Class for modelling a flatten layer
+ * @remarks
+ * Bridges image layers and `DenseVectorLayer`: every sample of a
+ * tensor of shape [batch, ...] becomes a row of a `Matrix`, in
+ * row-major order, so a batch of feature maps can be fed to
+ * `DenseVectorLayer.batchForwardPass`. The shape of the last forward
+ * pass is kept to unflatten the gradient
+ */
+export class Flatten {
+  /**
+   * @property {number[] | null} sampleShape - Shape of a sample in the
+   * last forward pass
+  */
+  sampleShape: number[] | null = null;
+
+  /**
+   * Forward pass of a single sample
+   * @param {Tensor} input - Sample of any shape
+   * @returns {Vector} Flattened sample
+  */
+  forward(input: Tensor): Vector {
+    this.sampleShape = [...input.shape];
+    return Vector.fromArray(input.values());
+  }
+
+  /**
+   * Backward pass of a single sample
+   * @param {Vector} gradient - Gradient wrt the flattened sample
+   * @returns {Tensor} Gradient with the shape of the sample
+  */
+  backward(gradient: Vector): Tensor {
+    return this.unflatten(Float64Array.from(gradient), []);
+  }
+
+  /**
+   * Forward pass over a mini-batch
+   * @param {Tensor} inputs - Samples of shape [batch, ...]
+   * @returns {Matrix} One flattened sample per row
+  */
+  forwardBatch(inputs: Tensor): Matrix {
+    if (inputs.ndim < 2) {
+      throw new ShapeMismatchError('FLAT', `Inputs must have a batch axis and at least one more (shape = [${inputs.shape}]).`, {
+        operation: 'Flatten.forwardBatch',
+        shapes: [inputs.shape],
+      });
+    }
+    const [batch, ...sampleShape] = inputs.shape;
+    this.sampleShape = sampleShape;
+    return Matrix.fromBuffer(inputs.values(), batch, inputs.size / batch);
+  }
+
+  /**
+   * Backward pass over a mini-batch
+   * @param {Matrix} gradient - Gradient wrt the flattened samples
+   * @returns {Tensor} Gradient of shape [batch, ...]
+  */
+  backwardBatch(gradient: Matrix): Tensor {
+    return this.unflatten(Float64Array.from(gradient.data), [gradient.numRows]);
+  }
+
+  /**
+   * Restore the shape of the last forward pass
+   * @param {Float64Array} values - Flattened entries
+   * @param {number[]} batchShape - Leading axes ([] for a single sample)
+   * @returns {Tensor} Unflattened tensor
+  */
+  private unflatten(values: Float64Array, batchShape: number[]): Tensor {
+    const { sampleShape } = this;
+    if (!sampleShape) {
+      throw new InvalidStateError('FLAT', 'A forward pass must be run before the backward pass.', {
+        operation: 'Flatten.backward',
+      });
+    }
+    const shape = [...batchShape, ...sampleShape];
+    const size = shape.reduce((total, dim) => total * dim, 1);
+    if (values.length !== size) {
+      throw new ShapeMismatchError('FLAT', `Gradient must match the last forward pass (gradient = ${values.length}, forward = [${shape}]).`, {
+        operation: 'Flatten.backward',
+        shapes: [[values.length], shape],
+      });
+    }
+    return new Tensor(values, shape);
+  }
+}
@@ -0,0 +1,158 @@
+import { InvalidLayerError, ShapeMismatchError } from '../errors';
+import { Size2D, Window2D } from '../interface';
+import { Matrix, Tensor } from '../math';
+
+/**
+ * Expand a size given as a single number
+ * @param {Size2D} size - Size, or height and width
+ * @param {string} name - Name of the size, for the error message
+ * @param {number} min - Smallest value accepted
+ * @returns {[number, number]} Height and width
+ */
+export const toSize2D = (size: Size2D, name: string, min = 1): [number, number] => {
+  const pair: [number, number] = typeof size === 'number' ? [size, size] : size;
+  if (pair.some((value) => !Number.isInteger(value) || value < min)) {
+    throw new InvalidLayerError('CONV', `${name} must be integers of at least ${min} (${name} = [${pair}]).`, {
+      operation: 'toSize2D',
+      argument: name,
+    });
+  }
+  return pair;
+};
+
+/**
+ * Spatial size of the output of a sliding window
+ * @param {number} height - Height of the input
+ * @param {number} width - Width of the input
+ * @param {Window2D} window - Kernel, stride and padding
+ * @returns {[number, number]} Height and width of the output
+ */
+export const outputSize2D = (
+  height: number,
+  width: number,
+  { kernel, stride, padding }: Window2D,
+): [number, number] => {
+  const outHeight = Math.floor((height + 2 * padding[0] - kernel[0]) / stride[0]) + 1;
+  const outWidth = Math.floor((width + 2 * padding[1] - kernel[1]) / stride[1]) + 1;
+  if (outHeight <= 0 || outWidth <= 0) {
+    throw new ShapeMismatchError('CONV', `Window does not fit in the input (input = [${height}, ${width}], kernel = [${kernel}], padding = [${padding}]).`, {
+      operation: 'outputSize2D',
+      shapes: [[height, width], kernel],
+    });
+  }
+  return [outHeight, outWidth];
+};
+
+const validateImages = (inputs: Tensor, operation: string) => {
+  if (inputs.ndim !== 4) {
+    throw new ShapeMismatchError('CONV', `Images must be a tensor of shape [batch, channels, height, width] (shape = [${inputs.shape}]).`, {
+      operation,
+      shapes: [inputs.shape],
+    });
+  }
+};
+
+/**
+ * Unfold every window of a batch of images into a column
+ * @remarks
+ * Row `(c * kh + i) * kw + j` holds the entry (i, j) of the window
+ * on channel c, and column `(n * outHeight + y) * outWidth + x` holds
+ * the window at (y, x) of image n. A convolution is then a single
+ * matrix product of the kernels with the columns
+ * @param {Tensor} inputs - Images of shape [batch, channels, height, width]
+ * @param {Window2D} window - Kernel, stride and padding
+ * @param {number} padValue - Value read outside of the images
+ * @returns {Matrix} Columns of shape [channels * kh * kw, batch * outHeight * outWidth]
+ */
+export const im2col = (
+  inputs: Tensor,
+  window: Window2D,
+  padValue = 0,
+): Matrix => {
+  validateImages(inputs, 'im2col');
+  const [batch, channels, height, width] = inputs.shape;
+  const [outHeight, outWidth] = outputSize2D(height, width, window);
+  const { kernel: [kh, kw], stride: [sh, sw], padding: [ph, pw] } = window;
+  const values = inputs.values();
+  const numCols = batch * outHeight * outWidth;
+  const cols = new Float64Array(channels * kh * kw * numCols);
+
+  for (let c = 0; c < channels; c++) {
+    for (let i = 0; i < kh; i++) {
+      for (let j = 0; j < kw; j++) {
+        const rowOffset = ((c * kh + i) * kw + j) * numCols;
+        for (let n = 0; n < batch; n++) {
+          const image = (n * channels + c) * height * width;
+          for (let y = 0; y < outHeight; y++) {
+            const row = y * sh + i - ph;
+            for (let x = 0; x < outWidth; x++) {
+              const col = x * sw + j - pw;
+              const inside = row >= 0 && row < height && col >= 0 && col < width;
+              cols[rowOffset + (n * outHeight + y) * outWidth + x] = inside ?
+                values[image + row * width + col] :
+                padValue;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return Matrix.fromBuffer(cols, channels * kh * kw, numCols);
+};
+
+/**
+ * Fold columns back into a batch of images
+ * @remarks
+ * Adjoint of `im2col`: entries covered by several windows receive
+ * the sum of their columns, and padded entries are dropped. It turns
+ * a gradient wrt the columns into a gradient wrt the images
+ * @param {Matrix} cols - Columns laid out as by `im2col`
+ * @param {number[]} shape - Shape [batch, channels, height, width] of the images
+ * @param {Window2D} window - Kernel, stride and padding
+ * @returns {Tensor} Images of the given shape
+ */
+export const col2im = (
+  cols: Matrix,
+  shape: number[],
+  window: Window2D,
+): Tensor => {
+  const result = Tensor.zeros(shape);
+  validateImages(result, 'col2im');
+  const [batch, channels, height, width] = shape;
+  const [outHeight, outWidth] = outputSize2D(height, width, window);
+  const { kernel: [kh, kw], stride: [sh, sw], padding: [ph, pw] } = window;
+  const numCols = batch * outHeight * outWidth;
+  if (cols.numRows !== channels * kh * kw || cols.numCols !== numCols) {
+    throw new ShapeMismatchError('CONV', `Columns do not match the images (columns = [${cols.numRows}, ${cols.numCols}], expected = [${channels * kh * kw}, ${numCols}]).`, {
+      operation: 'col2im',
+      shapes: [[cols.numRows, cols.numCols], [channels * kh * kw, numCols]],
+    });
+  }
+  const { data } = result;
+
+  for (let c = 0; c < channels; c++) {
+    for (let i = 0; i < kh; i++) {
+      for (let j = 0; j < kw; j++) {
+        const rowOffset = ((c * kh + i) * kw + j) * numCols;
+        for (let n = 0; n < batch; n++) {
+          const image = (n * channels + c) * height * width;
+          for (let y = 0; y < outHeight; y++) {
+            const row = y * sh + i - ph;
+            if (row < 0 || row >= height) {
+              continue;
+            }
+            for (let x = 0; x < outWidth; x++) {
+              const col = x * sw + j - pw;
+              if (col >= 0 && col < width) {
+                data[image + row * width + col] += cols.data[rowOffset + (n * outHeight + y) * outWidth + x];
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return result;
+};
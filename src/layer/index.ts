@@ -1,25 +1,58 @@
 import {
-  ActivationFunction,
+  ActivationJacobianProduct,
+  ActivationParams,
   ImplementedActivationFunction,
   LayerDefinition,
+  RegularizationParams,
+  VectorActivationFunction,
 } from '../interface';
+import { InvalidLayerError, ShapeMismatchError } from '../errors';
 import {
   Matrix,
+  SparseMatrix,
   Vector,
-  getActivationFunctionByKey,
+  getVectorActivationFunctionByKey,
 } from '../math';
 
+export * from './dropout';
+export * from './normalization';
+export * from './im2col';
+export * from './convolution';
+export * from './pooling';
+export * from './flatten';
+export * from './recurrent';
+
 const invalidateLayerParams = () => {
-  throw new Error('[LAYC] Layer must have at least one value');
+  throw new InvalidLayerError('LAYC', 'Layer must have at least one value.', {
+    operation: 'DenseVectorLayer.constructor',
+    argument: 'numNeurons',
+  });
+};
+
+const applyRowWise = (
+  values: Matrix,
+  f: (row: Vector, idx: number) => Vector,
+): Matrix => {
+  const result = Matrix.fromBuffer(Float64Array.from(values.data), values.numRows, values.numCols);
+  for (let idx = 0; idx < values.numRows; idx++) {
+    result.setRow(idx, f(values.getRow(idx), idx));
+  }
+  return result;
 };
 
 export class DenseVectorLayer extends Vector {
   activationKey: ImplementedActivationFunction;
-  activation: ActivationFunction;
-  activationGradient: ActivationFunction;
+  activationParams: ActivationParams;
+  activation: VectorActivationFunction;
+  activationJacobianProduct: ActivationJacobianProduct;
 
   constructor(params: LayerDefinition) {
-    const { initialValues, numNeurons, activation } = params;
+    const {
+      initialValues,
+      numNeurons,
+      activation,
+      activationParams = {},
+    } = params;
 
     const initialValuesLength = Number(initialValues?.length ?? 0);
     const emptyLayer =
@@ -31,7 +64,7 @@ export class DenseVectorLayer extends Vector {
 
     let fillValues: number[] = [];
     if (!!initialValues && initialValuesLength > 0) {
-      fillValues = [...initialValues];
+      fillValues = Array.from(initialValues);
     }
     if (!initialValues && numNeurons > 0) {
       const zeros = Array(numNeurons).fill(0);
@@ -43,10 +76,14 @@ export class DenseVectorLayer extends Vector {
     }
 
     super(...fillValues);
-    const { activation: keyActivation, activationGradient } = getActivationFunctionByKey(activation);
+    const {
+      activation: keyActivation,
+      activationJacobianProduct,
+    } = getVectorActivationFunctionByKey(activation, activationParams);
     this.activationKey = activation;
+    this.activationParams = { ...activationParams };
     this.activation = keyActivation;
-    this.activationGradient = activationGradient;
+    this.activationJacobianProduct = activationJacobianProduct;
   }
 
   forwardPass({
@@ -58,9 +95,9 @@ export class DenseVectorLayer extends Vector {
     bias: Vector;
     activation: ImplementedActivationFunction;
   }): DenseVectorLayer {
-    const rawValues = bias.add(
+    const rawValues = this.activation(bias.add(
       weights.dot(this)
-    ).apply(this.activation);
+    ));
     return new DenseVectorLayer({
       numNeurons: rawValues.length,
       initialValues: rawValues,
@@ -75,10 +112,242 @@ export class DenseVectorLayer extends Vector {
     weights: Matrix;
     incomingGradient: Vector;
   }): Vector {
-    return weights.transpose().dot(
-      incomingGradient,
-    ).directDot(
-      this.apply(this.activationGradient)
+    return this.activationJacobianProduct(
+      this,
+      weights.transpose().dot(incomingGradient),
+    );
+  }
+
+  /**
+   * Forward pass over a mini-batch
+   * @remarks
+   * Every row of the inputs is a sample, so the pre-activations are
+   * `X·W^T + b`, with the bias broadcast over the rows. Sparse inputs
+   * only multiply their stored entries
+   * @param {Matrix | SparseMatrix} inputs - samples of the batch
+   * @param {Matrix} weights - weights of the layer
+   * @param {Vector} bias - bias of the layer
+   * @param {ImplementedActivationFunction} activation - activation to apply
+   * @param {ActivationParams} activationParams - parameters of the activation
+   * @returns pre-activations and activations of the batch
+   */
+  static batchForwardPass({
+    inputs,
+    weights,
+    bias,
+    activation = 'sigmoid',
+    activationParams = {},
+  }: {
+    inputs: Matrix | SparseMatrix;
+    weights: Matrix;
+    bias: Vector;
+    activation?: ImplementedActivationFunction;
+    activationParams?: ActivationParams;
+  }): { preActivations: Matrix; outputs: Matrix } {
+    if (inputs.numCols !== weights.numCols) {
+      throw new ShapeMismatchError('MATMUL', `Matrices must have consistent dimensions (a = [${inputs.numRows}, ${inputs.numCols}], b = [${weights.numCols}, ${weights.numRows}]).`, {
+        operation: 'DenseVectorLayer.batchForwardPass',
+        shapes: [[inputs.numRows, inputs.numCols], [weights.numCols, weights.numRows]],
+      });
+    }
+    if (bias.length !== weights.numRows) {
+      throw new ShapeMismatchError('VECADD', `Vectors must have the same length (a = ${weights.numRows}, b = ${bias.length}).`, {
+        operation: 'DenseVectorLayer.batchForwardPass',
+        shapes: [[weights.numRows], [bias.length]],
+      });
+    }
+    const preActivations = inputs instanceof SparseMatrix ?
+      inputs.matrixDot(weights.transpose()).add(bias) :
+      weights.dot(inputs.transpose()).transpose().add(bias);
+    return {
+      preActivations,
+      outputs: DenseVectorLayer.batchActivate({
+        preActivations,
+        activation,
+        activationParams,
+      }),
+    };
+  }
+
+  /**
+   * Activation of a mini-batch
+   * @param {Matrix} preActivations - pre-activations (one row per sample)
+   * @param {ImplementedActivationFunction} activation - activation to apply
+   * @param {ActivationParams} activationParams - parameters of the activation
+   * @returns {Matrix} activations of the batch
+   */
+  static batchActivate({
+    preActivations,
+    activation = 'sigmoid',
+    activationParams = {},
+  }: {
+    preActivations: Matrix;
+    activation?: ImplementedActivationFunction;
+    activationParams?: ActivationParams;
+  }): Matrix {
+    const { activation: f } = getVectorActivationFunctionByKey(
+      activation,
+      activationParams,
     );
+    return applyRowWise(preActivations, (z) => f(z));
+  }
+
+  /**
+   * Backward pass of the activation of a mini-batch
+   * @param {Matrix} preActivations - pre-activations of the batch
+   * @param {Matrix} incomingGradient - gradient wrt the activations
+   * @param {ImplementedActivationFunction} activation - activation applied
+   * @param {ActivationParams} activationParams - parameters of the activation
+   * @returns {Matrix} gradient wrt the pre-activations
+   */
+  static batchActivationBackward({
+    preActivations,
+    incomingGradient,
+    activation = 'sigmoid',
+    activationParams = {},
+  }: {
+    preActivations: Matrix;
+    incomingGradient: Matrix;
+    activation?: ImplementedActivationFunction;
+    activationParams?: ActivationParams;
+  }): Matrix {
+    if (
+      incomingGradient.numRows !== preActivations.numRows ||
+      incomingGradient.numCols !== preActivations.numCols
+    ) {
+      throw new ShapeMismatchError('MATADD', `Matrices must have the same dimensions (a = [${preActivations.numRows}, ${preActivations.numCols}], b = [${incomingGradient.numRows}, ${incomingGradient.numCols}]).`, {
+        operation: 'DenseVectorLayer.batchActivationBackward',
+        shapes: [
+          [preActivations.numRows, preActivations.numCols],
+          [incomingGradient.numRows, incomingGradient.numCols],
+        ],
+      });
+    }
+    const { activationJacobianProduct } = getVectorActivationFunctionByKey(
+      activation,
+      activationParams,
+    );
+    return applyRowWise(
+      preActivations,
+      (z, idx) => activationJacobianProduct(z, incomingGradient.getRow(idx)),
+    );
+  }
+
+  /**
+   * Backward pass over a mini-batch
+   * @remarks
+   * Every row of the incoming gradient is the gradient of one
+   * sample's loss wrt the outputs of `batchForwardPass`. The weight
+   * and bias gradients are averaged over the batch, while the input
+   * gradient keeps one row per sample. With sparse inputs the weight
+   * gradient is computed as `(X^T·delta)^T`
+   * @param {Matrix | SparseMatrix} inputs - samples of the batch
+   * @param {Matrix} preActivations - pre-activations of the batch
+   * @param {Matrix} weights - weights of the layer
+   * @param {Matrix} incomingGradient - gradient wrt the outputs
+   * @param {ImplementedActivationFunction} activation - activation applied
+   * @param {ActivationParams} activationParams - parameters of the activation
+   * @returns gradients wrt weights, bias and inputs
+   */
+  static batchBackwardPass({
+    inputs,
+    preActivations,
+    weights,
+    incomingGradient,
+    activation = 'sigmoid',
+    activationParams = {},
+  }: {
+    inputs: Matrix | SparseMatrix;
+    preActivations: Matrix;
+    weights: Matrix;
+    incomingGradient: Matrix;
+    activation?: ImplementedActivationFunction;
+    activationParams?: ActivationParams;
+  }): { weights: Matrix; bias: Vector; input: Matrix } {
+    const delta = DenseVectorLayer.batchActivationBackward({
+      preActivations,
+      incomingGradient,
+      activation,
+      activationParams,
+    });
+    const batchSize = inputs.numRows;
+    const weightGradient = inputs instanceof SparseMatrix ?
+      inputs.transposedDot(delta).transpose() :
+      delta.transposedDot(inputs);
+    return {
+      weights: weightGradient.scaleInPlace(1 / batchSize),
+      bias: delta.mean('row'),
+      input: delta.dot(weights),
+    };
+  }
+
+  /**
+   * L1/L2 penalty of a weight matrix
+   * @remarks
+   * `l1 * sum(|w|) + l2 * sum(w^2)`, added once to the loss of a batch
+   * @param {Matrix} weights - weights of the layer
+   * @param {RegularizationParams} regularization - L1 and L2 factors
+   * @returns {number} penalty
+   */
+  static regularizationPenalty(
+    weights: Matrix,
+    { l1 = 0, l2 = 0 }: RegularizationParams = {},
+  ): number {
+    let penalty = 0;
+    for (let i = 0; i < weights.data.length; i++) {
+      const w = weights.data[i];
+      penalty += l1 * Math.abs(w) + l2 * w * w;
+    }
+    return penalty;
+  }
+
+  /**
+   * Gradient of the L1/L2 penalty of a weight matrix
+   * @param {Matrix} weights - weights of the layer
+   * @param {RegularizationParams} regularization - L1 and L2 factors
+   * @returns {Matrix} `l1 * sign(w) + 2 * l2 * w`
+   */
+  static regularizationGradient(
+    weights: Matrix,
+    { l1 = 0, l2 = 0 }: RegularizationParams = {},
+  ): Matrix {
+    const gradient = Matrix.zeros(weights.numRows, weights.numCols);
+    for (let i = 0; i < weights.data.length; i++) {
+      const w = weights.data[i];
+      gradient.data[i] = l1 * Math.sign(w) + 2 * l2 * w;
+    }
+    return gradient;
+  }
+
+  /**
+   * Max-norm constraint
+   * @remarks
+   * Rescales, in place, every row of the weights (the incoming
+   * weights of a neuron) whose L2 norm exceeds the maximum
+   * @param {Matrix} weights - weights of the layer
+   * @param {number} maxNorm - largest norm allowed
+   * @returns {Matrix} the constrained weights
+   */
+  static applyMaxNorm(weights: Matrix, maxNorm: number): Matrix {
+    if (maxNorm <= 0) {
+      throw new InvalidLayerError('LAYC', `Max norm must be positive (maxNorm = ${maxNorm}).`, {
+        operation: 'DenseVectorLayer.applyMaxNorm',
+        argument: 'maxNorm',
+      });
+    }
+    for (let idx = 0; idx < weights.numRows; idx++) {
+      const row = weights[idx];
+      let norm = 0;
+      for (let jdx = 0; jdx < row.length; jdx++) {
+        norm += row[jdx] * row[jdx];
+      }
+      norm = Math.sqrt(norm);
+      if (norm > maxNorm) {
+        for (let jdx = 0; jdx < row.length; jdx++) {
+          row[jdx] *= maxNorm / norm;
+        }
+      }
+    }
+    return weights;
   }
 }
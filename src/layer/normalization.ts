@@ -0,0 +1,407 @@
+import {
+  ImplementedNormalization,
+  NormalizationParams,
+  SerializedNormalization,
+} from '../interface';
+import {
+  InvalidLayerError,
+  InvalidStateError,
+  ShapeMismatchError,
+} from '../errors';
+import { Matrix, Vector } from '../math';
+
+/**
+ * Gradients produced by the backward pass of a normalization layer
+ * @property {Matrix | Vector} input - Gradient wrt the inputs
+ * @property {Vector} gamma - Gradient wrt the scale (batch-averaged)
+ * @property {Vector} beta - Gradient wrt the shift (batch-averaged)
+ */
+export interface NormalizationGradients<T extends Matrix | Vector> {
+  input: T;
+  gamma: Vector;
+  beta: Vector;
+}
+
+const validateValues = (
+  values: ArrayLike<number> | undefined,
+  size: number,
+  name: string,
+  operation: string,
+) => {
+  if (!values || values.length !== size) {
+    throw new ShapeMismatchError('NORM', `${name} must have one value per feature (${name} = ${values?.length ?? 0}, features = ${size}).`, {
+      operation,
+      shapes: [[values?.length ?? 0], [size]],
+    });
+  }
+};
+
+/**
+ * Base class for normalization layers
+ * @remarks
+ * A normalization layer standardizes its inputs and then applies a
+ * learnable scale and shift to every feature:
+ * ```
+ * y = gamma * (x - mean) / sqrt(variance + epsilon) + beta
+ * ```
+ * Subclasses decide over which values the mean and the variance are
+ * computed. Single samples go through the batch passes as a batch of
+ * one row, and the normalized values of the last forward pass are
+ * cached for the backward pass
+ */
+export abstract class NormalizationLayer {
+  /**
+   * @property {number} size - Number of features
+   * @property {number} epsilon - Added to the variance for stability
+   * @property {Vector} gamma - Learnable scale of every feature
+   * @property {Vector} beta - Learnable shift of every feature
+   * @property {boolean} training - Whether the layer is in training mode
+  */
+  abstract readonly key: ImplementedNormalization;
+  size: number;
+  epsilon: number;
+  gamma: Vector;
+  beta: Vector;
+  training = true;
+  protected normalized: Matrix | null = null;
+
+  constructor(size: number, { epsilon = 1e-5 }: NormalizationParams = {}) {
+    if (size <= 0) {
+      throw new InvalidLayerError('NORM', `Normalization must have at least one feature (size = ${size}).`, {
+        operation: 'NormalizationLayer.constructor',
+        argument: 'size',
+      });
+    }
+    this.size = size;
+    this.epsilon = epsilon;
+    this.gamma = Vector.ones(size);
+    this.beta = Vector.zeros(size);
+  }
+
+  /**
+   * Switch to training mode
+  */
+  train() {
+    this.training = true;
+  }
+
+  /**
+   * Switch to inference mode
+  */
+  eval() {
+    this.training = false;
+  }
+
+  /**
+   * Learnable parameters of the layer
+   * @returns {Vector[]} gamma and beta
+  */
+  parameters(): Vector[] {
+    return [this.gamma, this.beta];
+  }
+
+  /**
+   * Forward pass of a single sample
+   * @param {Vector} values - Values to normalize
+   * @returns {Vector} Normalized values
+  */
+  forward(values: Vector): Vector {
+    const batch = Matrix.fromBuffer(Float64Array.from(values), 1, values.length);
+    return this.forwardBatch(batch).getRow(0);
+  }
+
+  /**
+   * Backward pass of a single sample
+   * @param {Vector} gradient - Gradient wrt the outputs
+   * @returns Gradients wrt the inputs, gamma and beta
+  */
+  backward(gradient: Vector): NormalizationGradients<Vector> {
+    const batch = Matrix.fromBuffer(Float64Array.from(gradient), 1, gradient.length);
+    const { input, gamma, beta } = this.backwardBatch(batch);
+    return { input: input.getRow(0), gamma, beta };
+  }
+
+  /**
+   * Forward pass over a mini-batch
+   * @param {Matrix} values - Values to normalize (one row per sample)
+   * @returns {Matrix} Normalized values
+  */
+  forwardBatch(values: Matrix): Matrix {
+    validateValues(values[0], this.size, 'Input', 'NormalizationLayer.forwardBatch');
+    const normalized = this.normalize(values);
+    this.normalized = normalized;
+    const result = Matrix.zeros(values.numRows, this.size);
+    for (let i = 0; i < values.numRows; i++) {
+      for (let j = 0; j < this.size; j++) {
+        result[i][j] = this.gamma[j] * normalized[i][j] + this.beta[j];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Backward pass over a mini-batch
+   * @remarks
+   * Every row of the gradient is the gradient of one sample's loss.
+   * As with dense layers, the gamma and beta gradients are averaged
+   * over the batch while the input gradient keeps one row per sample
+   * @param {Matrix} gradient - Gradient wrt the outputs
+   * @returns Gradients wrt the inputs, gamma and beta
+  */
+  backwardBatch(gradient: Matrix): NormalizationGradients<Matrix> {
+    const { normalized } = this;
+    if (!normalized) {
+      throw new InvalidStateError('NORM', 'A forward pass must be run before the backward pass.', {
+        operation: 'NormalizationLayer.backwardBatch',
+      });
+    }
+    if (gradient.numRows !== normalized.numRows || gradient.numCols !== this.size) {
+      throw new ShapeMismatchError('NORM', `Gradient must match the last forward pass (gradient = [${gradient.numRows}, ${gradient.numCols}], forward = [${normalized.numRows}, ${this.size}]).`, {
+        operation: 'NormalizationLayer.backwardBatch',
+        shapes: [[gradient.numRows, gradient.numCols], [normalized.numRows, this.size]],
+      });
+    }
+    const batchSize = gradient.numRows;
+    const gamma = Vector.zeros(this.size);
+    const beta = Vector.zeros(this.size);
+    const normalizedGradient = Matrix.zeros(batchSize, this.size);
+    for (let i = 0; i < batchSize; i++) {
+      for (let j = 0; j < this.size; j++) {
+        gamma[j] += gradient[i][j] * normalized[i][j] / batchSize;
+        beta[j] += gradient[i][j] / batchSize;
+        normalizedGradient[i][j] = gradient[i][j] * this.gamma[j];
+      }
+    }
+    return {
+      input: this.denormalizeGradient(normalizedGradient, normalized),
+      gamma,
+      beta,
+    };
+  }
+
+  /**
+   * JSON representation of the layer state
+   * @returns {SerializedNormalization} plain object ready for `JSON.stringify`
+  */
+  toJSON(): SerializedNormalization {
+    return {
+      gamma: Array.from(this.gamma),
+      beta: Array.from(this.beta),
+    };
+  }
+
+  /**
+   * Restore the layer state from its JSON representation
+   * @param {SerializedNormalization} json - output of `toJSON`
+  */
+  loadJSON(json: SerializedNormalization) {
+    validateValues(json?.gamma, this.size, 'gamma', 'NormalizationLayer.loadJSON');
+    validateValues(json.beta, this.size, 'beta', 'NormalizationLayer.loadJSON');
+    this.gamma.set(json.gamma);
+    this.beta.set(json.beta);
+  }
+
+  /**
+   * Standardize the inputs
+   * @param {Matrix} values - Values to normalize
+   * @returns {Matrix} (x - mean) / sqrt(variance + epsilon)
+  */
+  protected abstract normalize(values: Matrix): Matrix;
+
+  /**
+   * Backpropagate through the standardization
+   * @param {Matrix} gradient - Gradient wrt the standardized values
+   * @param {Matrix} normalized - Standardized values of the forward pass
+   * @returns {Matrix} Gradient wrt the inputs
+  */
+  protected abstract denormalizeGradient(gradient: Matrix, normalized: Matrix): Matrix;
+}
+
+/**
+ * Batch normalization
+ * @remarks
+ * In training mode, every feature is standardized with the mean and
+ * variance of the batch, and running estimates are updated with:
+ * ```
+ * running = (1 - momentum) * running + momentum * batch
+ * ```
+ * In inference mode, and for batches of a single sample, the running
+ * estimates are used instead
+ */
+export class BatchNorm extends NormalizationLayer {
+  /**
+   * @property {number} momentum - Weight of the batch in the running estimates
+   * @property {Vector} runningMean - Running mean of every feature
+   * @property {Vector} runningVariance - Running variance of every feature
+  */
+  readonly key: ImplementedNormalization = 'batchNorm';
+  momentum: number;
+  runningMean: Vector;
+  runningVariance: Vector;
+  private invStd = new Float64Array(0);
+  private batchStatistics = false;
+
+  constructor(size: number, params: NormalizationParams = {}) {
+    super(size, params);
+    const { momentum = 0.1 } = params;
+    if (momentum < 0 || momentum > 1) {
+      throw new InvalidLayerError('NORM', `Momentum must be in [0, 1] (momentum = ${momentum}).`, {
+        operation: 'BatchNorm.constructor',
+        argument: 'momentum',
+      });
+    }
+    this.momentum = momentum;
+    this.runningMean = Vector.zeros(size);
+    this.runningVariance = Vector.ones(size);
+  }
+
+  protected normalize(values: Matrix): Matrix {
+    const batchSize = values.numRows;
+    this.batchStatistics = this.training && batchSize > 1;
+    let mean: ArrayLike<number> = this.runningMean;
+    let variance: ArrayLike<number> = this.runningVariance;
+    if (this.batchStatistics) {
+      const batchMean = new Float64Array(this.size);
+      const batchVariance = new Float64Array(this.size);
+      for (let j = 0; j < this.size; j++) {
+        for (let i = 0; i < batchSize; i++) {
+          batchMean[j] += values[i][j] / batchSize;
+        }
+        for (let i = 0; i < batchSize; i++) {
+          batchVariance[j] += (values[i][j] - batchMean[j]) ** 2 / batchSize;
+        }
+        this.runningMean[j] = (1 - this.momentum) * this.runningMean[j] +
+          this.momentum * batchMean[j];
+        this.runningVariance[j] = (1 - this.momentum) * this.runningVariance[j] +
+          this.momentum * batchVariance[j] * batchSize / (batchSize - 1);
+      }
+      mean = batchMean;
+      variance = batchVariance;
+    }
+    this.invStd = new Float64Array(this.size);
+    const normalized = Matrix.zeros(batchSize, this.size);
+    for (let j = 0; j < this.size; j++) {
+      this.invStd[j] = 1 / Math.sqrt(variance[j] + this.epsilon);
+      for (let i = 0; i < batchSize; i++) {
+        normalized[i][j] = (values[i][j] - mean[j]) * this.invStd[j];
+      }
+    }
+    return normalized;
+  }
+
+  protected denormalizeGradient(gradient: Matrix, normalized: Matrix): Matrix {
+    const batchSize = gradient.numRows;
+    const result = Matrix.zeros(batchSize, this.size);
+    for (let j = 0; j < this.size; j++) {
+      if (!this.batchStatistics) {
+        for (let i = 0; i < batchSize; i++) {
+          result[i][j] = gradient[i][j] * this.invStd[j];
+        }
+        continue;
+      }
+      let sum = 0;
+      let dot = 0;
+      for (let i = 0; i < batchSize; i++) {
+        sum += gradient[i][j];
+        dot += gradient[i][j] * normalized[i][j];
+      }
+      for (let i = 0; i < batchSize; i++) {
+        result[i][j] = this.invStd[j] / batchSize *
+          (batchSize * gradient[i][j] - sum - normalized[i][j] * dot);
+      }
+    }
+    return result;
+  }
+
+  toJSON(): SerializedNormalization {
+    return {
+      ...super.toJSON(),
+      runningMean: Array.from(this.runningMean),
+      runningVariance: Array.from(this.runningVariance),
+    };
+  }
+
+  loadJSON(json: SerializedNormalization) {
+    super.loadJSON(json);
+    validateValues(json.runningMean, this.size, 'runningMean', 'BatchNorm.loadJSON');
+    validateValues(json.runningVariance, this.size, 'runningVariance', 'BatchNorm.loadJSON');
+    this.runningMean.set(json.runningMean as number[]);
+    this.runningVariance.set(json.runningVariance as number[]);
+  }
+}
+
+/**
+ * Layer normalization
+ * @remarks
+ * Every sample is standardized with the mean and variance of its own
+ * features, so the layer behaves the same in training and inference
+ * mode and does not depend on the batch
+ */
+export class LayerNorm extends NormalizationLayer {
+  readonly key: ImplementedNormalization = 'layerNorm';
+  private invStd = new Float64Array(0);
+
+  protected normalize(values: Matrix): Matrix {
+    const batchSize = values.numRows;
+    this.invStd = new Float64Array(batchSize);
+    const normalized = Matrix.zeros(batchSize, this.size);
+    for (let i = 0; i < batchSize; i++) {
+      const row = values[i];
+      let mean = 0;
+      for (let j = 0; j < this.size; j++) {
+        mean += row[j] / this.size;
+      }
+      let variance = 0;
+      for (let j = 0; j < this.size; j++) {
+        variance += (row[j] - mean) ** 2 / this.size;
+      }
+      this.invStd[i] = 1 / Math.sqrt(variance + this.epsilon);
+      for (let j = 0; j < this.size; j++) {
+        normalized[i][j] = (row[j] - mean) * this.invStd[i];
+      }
+    }
+    return normalized;
+  }
+
+  protected denormalizeGradient(gradient: Matrix, normalized: Matrix): Matrix {
+    const result = Matrix.zeros(gradient.numRows, this.size);
+    for (let i = 0; i < gradient.numRows; i++) {
+      let sum = 0;
+      let dot = 0;
+      for (let j = 0; j < this.size; j++) {
+        sum += gradient[i][j];
+        dot += gradient[i][j] * normalized[i][j];
+      }
+      for (let j = 0; j < this.size; j++) {
+        result[i][j] = this.invStd[i] / this.size *
+          (this.size * gradient[i][j] - sum - normalized[i][j] * dot);
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Build a normalization layer by key
+ * @param {ImplementedNormalization} key - normalization to build
+ * @param {number} size - number of features
+ * @param {NormalizationParams} params - momentum and epsilon
+ * @returns {NormalizationLayer} the layer
+ */
+export const createNormalization = (
+  key: ImplementedNormalization,
+  size: number,
+  params: NormalizationParams = {},
+): NormalizationLayer => {
+  switch (key) {
+  case 'batchNorm':
+    return new BatchNorm(size, params);
+  case 'layerNorm':
+    return new LayerNorm(size, params);
+  default:
+    throw new InvalidLayerError('NORM', `Unknown normalization (key = ${key}).`, {
+      operation: 'createNormalization',
+      argument: 'key',
+    });
+  }
+};
@@ -0,0 +1,204 @@
+import { InvalidStateError, ShapeMismatchError } from '../errors';
+import { Pool2DParams, Window2D } from '../interface';
+import { Matrix, Tensor } from '../math';
+import {
+  col2im,
+  im2col,
+  outputSize2D,
+  toSize2D,
+} from './im2col';
+
+/**
+ * Base class for 2D pooling layers
+ * @remarks
+ * Every channel is pooled on its own: the images are unfolded by
+ * `im2col` as if they had a single channel, so that every column
+ * holds one window, and subclasses reduce every column to a value.
+ * The stride defaults to the pool size (non-overlapping windows).
+ * Pooling layers have no parameters, so the backward passes only
+ * return the gradient wrt the inputs
+ */
+export abstract class Pool2D {
+  /**
+   * @property {Window2D} window - Pool size, stride and padding
+  */
+  window: Window2D;
+  protected inputShape: number[] | null = null;
+
+  /**
+   * Value read outside of the images
+  */
+  protected abstract readonly padValue: number;
+
+  constructor({ poolSize, stride, padding = 0 }: Pool2DParams) {
+    const kernel = toSize2D(poolSize, 'poolSize');
+    this.window = {
+      kernel,
+      stride: stride === undefined ? kernel : toSize2D(stride, 'stride'),
+      padding: toSize2D(padding, 'padding', 0),
+    };
+  }
+
+  /**
+   * Shape of the output for an input shape
+   * @param {number[]} shape - Shape [channels, height, width] of an image
+   * @returns {number[]} Shape [channels, outHeight, outWidth]
+  */
+  outputShape([channels, height, width]: number[]): number[] {
+    return [channels, ...outputSize2D(height, width, this.window)];
+  }
+
+  /**
+   * Forward pass of a single image
+   * @param {Tensor} input - Image of shape [channels, height, width]
+   * @returns {Tensor} Pooled image
+  */
+  forward(input: Tensor): Tensor {
+    return this.forwardBatch(input.expandDims(0)).squeeze(0);
+  }
+
+  /**
+   * Backward pass of a single image
+   * @param {Tensor} gradient - Gradient wrt the pooled image
+   * @returns {Tensor} Gradient wrt the image
+  */
+  backward(gradient: Tensor): Tensor {
+    return this.backwardBatch(gradient.expandDims(0)).squeeze(0);
+  }
+
+  /**
+   * Forward pass over a mini-batch
+   * @param {Tensor} inputs - Images of shape [batch, channels, height, width]
+   * @returns {Tensor} Pooled images of shape [batch, channels, outHeight, outWidth]
+  */
+  forwardBatch(inputs: Tensor): Tensor {
+    if (inputs.ndim !== 4) {
+      throw new ShapeMismatchError('POOL', `Inputs must be a tensor of shape [batch, channels, height, width] (shape = [${inputs.shape}]).`, {
+        operation: 'Pool2D.forwardBatch',
+        shapes: [inputs.shape],
+      });
+    }
+    const [batch, channels, height, width] = inputs.shape;
+    const cols = im2col(
+      inputs.reshape([batch * channels, 1, height, width]),
+      this.window,
+      this.padValue,
+    );
+    this.inputShape = inputs.shape;
+    return new Tensor(
+      this.pool(cols),
+      [batch, ...this.outputShape([channels, height, width])],
+    );
+  }
+
+  /**
+   * Backward pass over a mini-batch
+   * @param {Tensor} gradient - Gradient wrt the pooled images of the
+   * last forward pass
+   * @returns {Tensor} Gradient wrt the images
+  */
+  backwardBatch(gradient: Tensor): Tensor {
+    const { inputShape } = this;
+    if (!inputShape) {
+      throw new InvalidStateError('POOL', 'A forward pass must be run before the backward pass.', {
+        operation: 'Pool2D.backwardBatch',
+      });
+    }
+    const [batch, channels, height, width] = inputShape;
+    const expected = [batch, ...this.outputShape([channels, height, width])];
+    if (gradient.ndim !== 4 || gradient.shape.some((dim, axis) => dim !== expected[axis])) {
+      throw new ShapeMismatchError('POOL', `Gradient must match the last forward pass (gradient = [${gradient.shape}], forward = [${expected}]).`, {
+        operation: 'Pool2D.backwardBatch',
+        shapes: [gradient.shape, expected],
+      });
+    }
+    const [kh, kw] = this.window.kernel;
+    return col2im(
+      this.unpool(gradient.values(), kh * kw),
+      [batch * channels, 1, height, width],
+      this.window,
+    ).reshape(inputShape);
+  }
+
+  /**
+   * Reduce every window
+   * @param {Matrix} cols - One window per column
+   * @returns {Float64Array} One value per window
+  */
+  protected abstract pool(cols: Matrix): Float64Array;
+
+  /**
+   * Spread the gradient of every window over its entries
+   * @param {Float64Array} gradient - Gradient wrt every pooled value
+   * @param {number} size - Number of entries of a window
+   * @returns {Matrix} Gradient wrt the windows, one per column
+  */
+  protected abstract unpool(gradient: Float64Array, size: number): Matrix;
+}
+
+/**
+ * Max pooling
+ * @remarks
+ * The gradient of a window flows to its maximum only (the first
+ * one on ties). Padded entries are -Infinity, so they are never picked
+ */
+export class MaxPool2D extends Pool2D {
+  protected readonly padValue = -Infinity;
+  private argmax: Int32Array | null = null;
+
+  protected pool(cols: Matrix): Float64Array {
+    const result = new Float64Array(cols.numCols).fill(-Infinity);
+    const argmax = new Int32Array(cols.numCols);
+    for (let i = 0; i < cols.numRows; i++) {
+      const row = cols[i];
+      for (let j = 0; j < cols.numCols; j++) {
+        if (row[j] > result[j]) {
+          result[j] = row[j];
+          argmax[j] = i;
+        }
+      }
+    }
+    this.argmax = argmax;
+    return result;
+  }
+
+  protected unpool(gradient: Float64Array, size: number): Matrix {
+    const cols = Matrix.zeros(size, gradient.length);
+    const argmax = this.argmax as Int32Array;
+    for (let j = 0; j < gradient.length; j++) {
+      cols[argmax[j]][j] = gradient[j];
+    }
+    return cols;
+  }
+}
+
+/**
+ * Average pooling
+ * @remarks
+ * Padded entries are zeros and count in the average
+ */
+export class AvgPool2D extends Pool2D {
+  protected readonly padValue = 0;
+
+  protected pool(cols: Matrix): Float64Array {
+    const result = new Float64Array(cols.numCols);
+    for (let i = 0; i < cols.numRows; i++) {
+      const row = cols[i];
+      for (let j = 0; j < cols.numCols; j++) {
+        result[j] += row[j] / cols.numRows;
+      }
+    }
+    return result;
+  }
+
+  protected unpool(gradient: Float64Array, size: number): Matrix {
+    const cols = Matrix.zeros(size, gradient.length);
+    for (let i = 0; i < size; i++) {
+      const row = cols[i];
+      for (let j = 0; j < gradient.length; j++) {
+        row[j] = gradient[j] / size;
+      }
+    }
+    return cols;
+  }
+}
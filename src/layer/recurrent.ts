@@ -0,0 +1,596 @@
+import {
+  ActivationFunction,
+  ImplementedElementwiseActivationFunction,
+  RecurrentParams,
+  SimpleRNNParams,
+} from '../interface';
+import {
+  InvalidArgumentError,
+  InvalidLayerError,
+  InvalidStateError,
+  ShapeMismatchError,
+} from '../errors';
+import {
+  Matrix,
+  SeededRandom,
+  Tensor,
+  Vector,
+  activations,
+  getActivationFunctionByKey,
+  getInitializerByKey,
+} from '../math';
+
+/**
+ * Gradients produced by the backward pass of a recurrent layer
+ * @property {T} input - Gradient wrt the inputs (one vector per step)
+ * @property {Matrix} inputWeights - Gradient wrt the stacked input weights
+ * @property {Matrix} recurrentWeights - Gradient wrt the stacked recurrent weights
+ * @property {Vector} bias - Gradient wrt the stacked bias
+ */
+export interface RecurrentGradients<T> {
+  input: T;
+  inputWeights: Matrix;
+  recurrentWeights: Matrix;
+  bias: Vector;
+}
+
+type ParameterGradients = Omit<RecurrentGradients<unknown>, 'input'>;
+
+/**
+ * Values of a time step kept for the backward pass
+ */
+type StepCache = Record<string, Vector>;
+
+const sigmoid = activations.sigmoid;
+const tanh = activations.tanh;
+
+/**
+ * Rows [start, start + units) of the gates stacked in a vector
+ */
+const gate = (v: Vector, idx: number, units: number): Vector => (
+  Vector.fromArray(v.subarray(idx * units, (idx + 1) * units))
+);
+
+/**
+ * Product of the rows [start, start + v.length) of a matrix, transposed,
+ * with a vector
+ */
+const rowsTransposedDot = (m: Matrix, v: Vector, start = 0): Vector => {
+  const result = Vector.zeros(m.numCols);
+  for (let i = 0; i < v.length; i++) {
+    const row = m[start + i];
+    for (let j = 0; j < m.numCols; j++) {
+      result[j] += row[j] * v[i];
+    }
+  }
+  return result;
+};
+
+/**
+ * Product of the rows [start, end) of a matrix with a vector
+ */
+const rowsDot = (m: Matrix, v: Vector, start: number, end: number): Vector => {
+  const result = Vector.zeros(end - start);
+  for (let i = start; i < end; i++) {
+    const row = m[i];
+    let sum = 0;
+    for (let j = 0; j < m.numCols; j++) {
+      sum += row[j] * v[j];
+    }
+    result[i - start] = sum;
+  }
+  return result;
+};
+
+/**
+ * Add the outer product a ⊗ b to the rows of a matrix starting at `start`
+ */
+const addOuterInPlace = (m: Matrix, a: Vector, b: Vector, start = 0) => {
+  for (let i = 0; i < a.length; i++) {
+    const row = m[start + i];
+    for (let j = 0; j < b.length; j++) {
+      row[j] += a[i] * b[j];
+    }
+  }
+};
+
+/**
+ * Base class for recurrent layers
+ * @remarks
+ * A recurrent layer reads a sequence of vectors one step at a time
+ * and updates a state (a hidden state, plus a cell state for LSTMs),
+ * whose hidden part is the output of every step. The weights of all
+ * the gates are stacked in three parameters, gate after gate:
+ * `inputWeights` [gates * units, inputSize], `recurrentWeights`
+ * [gates * units, units] and `bias` [gates * units].
+ *
+ * The layer outputs every hidden state (`returnSequences`) or only
+ * the last one. Stateful layers start every sequence from the state
+ * the previous one ended with (one state per sample of the batch),
+ * until `resetState` is called; that carried state is treated as a
+ * constant by the backward pass.
+ *
+ * The backward pass is backpropagation through time. With a
+ * `truncation` of k steps, the sequence is split into chunks of k
+ * steps and the gradient does not flow from one chunk to the
+ * previous one. As with dense layers, the parameter gradients are
+ * averaged over the batch while the input gradients keep one entry
+ * per sample
+ */
+export abstract class RecurrentLayer {
+  /**
+   * @property {number} inputSize - Number of features of every step
+   * @property {number} units - Size of the hidden state
+   * @property {boolean} returnSequences - Whether every hidden state is output
+   * @property {boolean} stateful - Whether the state carries over calls
+   * @property {number | undefined} truncation - Steps of a BPTT chunk
+   * @property {Vector[][] | null} state - State of every sample at the
+   * end of the last forward pass (stateful layers only)
+  */
+  inputSize: number;
+  units: number;
+  returnSequences: boolean;
+  stateful: boolean;
+  truncation?: number;
+  inputWeights: Matrix;
+  recurrentWeights: Matrix;
+  bias: Vector;
+  state: Vector[][] | null = null;
+  private caches: StepCache[][] | null = null;
+
+  /**
+   * Number of vectors in the state (the hidden state comes first)
+  */
+  protected abstract readonly stateSize: number;
+
+  constructor({
+    inputSize,
+    units,
+    returnSequences = false,
+    stateful = false,
+    truncation,
+    initializer = 'xavierUniform',
+    recurrentInitializer = 'orthogonal',
+    rng = new SeededRandom(),
+  }: RecurrentParams, numGates: number) {
+    if (!Number.isInteger(inputSize) || inputSize <= 0 ||
+      !Number.isInteger(units) || units <= 0) {
+      throw new InvalidLayerError('RNN', `Input size and units must be positive integers (inputSize = ${inputSize}, units = ${units}).`, {
+        operation: 'RecurrentLayer.constructor',
+        argument: Number.isInteger(inputSize) && inputSize > 0 ? 'units' : 'inputSize',
+      });
+    }
+    if (truncation !== undefined && (!Number.isInteger(truncation) || truncation <= 0)) {
+      throw new InvalidLayerError('RNN', `Truncation must be a positive number of steps (truncation = ${truncation}).`, {
+        operation: 'RecurrentLayer.constructor',
+        argument: 'truncation',
+      });
+    }
+    this.inputSize = inputSize;
+    this.units = units;
+    this.returnSequences = returnSequences;
+    this.stateful = stateful;
+    this.truncation = truncation;
+    this.inputWeights = getInitializerByKey(initializer)(numGates * units, inputSize, rng);
+    this.recurrentWeights = getInitializerByKey(recurrentInitializer)(numGates * units, units, rng);
+    this.bias = Vector.zeros(numGates * units);
+  }
+
+  /**
+   * Learnable parameters of the layer
+   * @returns {Array<Matrix | Vector>} input weights, recurrent weights and bias
+  */
+  parameters(): Array<Matrix | Vector> {
+    return [this.inputWeights, this.recurrentWeights, this.bias];
+  }
+
+  /**
+   * Forget the state carried over by a stateful layer
+  */
+  resetState() {
+    this.state = null;
+  }
+
+  /**
+   * Forward pass of a single sequence
+   * @param {Vector[]} sequence - One vector of features per step
+   * @returns {Vector | Vector[]} Every hidden state, or the last one
+  */
+  forward(sequence: Vector[]): Vector | Vector[] {
+    const [outputs] = this.run([sequence]);
+    return this.returnSequences ? outputs : outputs[outputs.length - 1];
+  }
+
+  /**
+   * Backward pass of a single sequence
+   * @param {Vector | Vector[]} gradient - Gradient wrt the outputs of the
+   * last forward pass
+   * @returns {RecurrentGradients} Gradients wrt the inputs and parameters
+  */
+  backward(gradient: Vector | Vector[]): RecurrentGradients<Vector[]> {
+    const { inputs, ...parameters } = this.propagate([this.expandGradient(gradient)]);
+    return { input: inputs[0], ...parameters };
+  }
+
+  /**
+   * Forward pass over a mini-batch
+   * @param {Tensor} inputs - Sequences of shape [batch, steps, inputSize]
+   * @returns {Tensor} Hidden states of shape [batch, steps, units], or the
+   * last ones, of shape [batch, units]
+  */
+  forwardBatch(inputs: Tensor): Tensor {
+    if (inputs.ndim !== 3) {
+      throw new ShapeMismatchError('RNN', `Inputs must be a tensor of shape [batch, steps, features] (shape = [${inputs.shape}]).`, {
+        operation: 'RecurrentLayer.forwardBatch',
+        shapes: [inputs.shape],
+      });
+    }
+    const [batch, steps] = inputs.shape;
+    const sequences: Vector[][] = [];
+    for (let n = 0; n < batch; n++) {
+      sequences[n] = [];
+      for (let t = 0; t < steps; t++) {
+        sequences[n][t] = inputs.slice(n, t).toVector();
+      }
+    }
+    const outputs = this.run(sequences);
+    if (!this.returnSequences) {
+      return Tensor.fromMatrix(Matrix.vstack(...outputs.map((hs) => hs[steps - 1])));
+    }
+    return Tensor.stack(outputs.map((hs) => Tensor.fromMatrix(Matrix.vstack(...hs))));
+  }
+
+  /**
+   * Backward pass over a mini-batch
+   * @param {Tensor} gradient - Gradient wrt the outputs of the last
+   * forward pass
+   * @returns {RecurrentGradients} Gradients wrt the inputs and parameters
+  */
+  backwardBatch(gradient: Tensor): RecurrentGradients<Tensor> {
+    const ndim = this.returnSequences ? 3 : 2;
+    if (gradient.ndim !== ndim) {
+      throw new ShapeMismatchError('RNN', `Gradient must have ${ndim} axes, as the outputs of the last forward pass (shape = [${gradient.shape}]).`, {
+        operation: 'RecurrentLayer.backwardBatch',
+        shapes: [gradient.shape],
+      });
+    }
+    const gradients: Vector[][] = [];
+    for (let n = 0; n < gradient.shape[0]; n++) {
+      const sample = gradient.slice(n);
+      gradients[n] = this.expandGradient(this.returnSequences ?
+        Array.from({ length: sample.shape[0] }, (_, t) => sample.slice(t).toVector()) :
+        sample.toVector(), n);
+    }
+    const { inputs, ...parameters } = this.propagate(gradients);
+    return {
+      input: Tensor.stack(inputs.map((dx) => Tensor.fromMatrix(Matrix.vstack(...dx)))),
+      ...parameters,
+    };
+  }
+
+  /**
+   * Initial state of a sequence
+   * @returns {Vector[]} zero vectors
+  */
+  protected zeroState(): Vector[] {
+    return Array.from({ length: this.stateSize }, () => Vector.zeros(this.units));
+  }
+
+  /**
+   * Run the cell over every sequence, keeping the caches
+   * @param {Vector[][]} sequences - Sequences of the batch
+   * @returns {Vector[][]} Hidden state of every step of every sequence
+  */
+  private run(sequences: Vector[][]): Vector[][] {
+    sequences.forEach((sequence) => {
+      if (sequence.length === 0) {
+        throw new InvalidArgumentError('RNN', 'Sequences must have at least one step.', {
+          operation: 'RecurrentLayer.forward',
+          argument: 'inputs',
+        });
+      }
+      sequence.forEach((x) => {
+        if (x.length !== this.inputSize) {
+          throw new ShapeMismatchError('RNN', `Every step must have ${this.inputSize} features (features = ${x.length}).`, {
+            operation: 'RecurrentLayer.forward',
+            shapes: [[x.length], [this.inputSize]],
+          });
+        }
+      });
+    });
+    const carried = this.stateful ? this.state : null;
+    if (carried && carried.length !== sequences.length) {
+      throw new ShapeMismatchError('RNN', `Stateful layers need the same batch size on every call (state = ${carried.length}, batch = ${sequences.length}).`, {
+        operation: 'RecurrentLayer.forward',
+        shapes: [[carried.length], [sequences.length]],
+      });
+    }
+
+    const finalStates: Vector[][] = [];
+    const caches: StepCache[][] = [];
+    const outputs = sequences.map((sequence, n) => {
+      let state = carried ? carried[n] : this.zeroState();
+      caches[n] = [];
+      const hidden = sequence.map((x) => {
+        const result = this.step(x, state);
+        caches[n].push(result.cache);
+        state = result.state;
+        return state[0];
+      });
+      finalStates[n] = state;
+      return hidden;
+    });
+    this.caches = caches;
+    if (this.stateful) {
+      this.state = finalStates;
+    }
+    return outputs;
+  }
+
+  /**
+   * Gradient wrt the hidden state of every step
+   * @param {Vector | Vector[]} gradient - Gradient wrt the outputs
+   * @param {number} sample - Sample of the batch it belongs to
+   * @returns {Vector[]} One vector per step (zeros where nothing is output)
+  */
+  private expandGradient(gradient: Vector | Vector[], sample = 0): Vector[] {
+    const caches = this.caches?.[sample];
+    if (!caches) {
+      throw new InvalidStateError('RNN', 'A forward pass must be run before the backward pass.', {
+        operation: 'RecurrentLayer.backward',
+      });
+    }
+    const steps = caches.length;
+    const expanded = this.returnSequences ?
+      gradient as Vector[] :
+      [...Array.from({ length: steps - 1 }, () => Vector.zeros(this.units)), gradient as Vector];
+    if (!Array.isArray(expanded) || expanded.length !== steps ||
+      expanded.some((g) => !(g instanceof Float64Array) || g.length !== this.units)) {
+      throw new ShapeMismatchError('RNN', `Gradient must match the outputs of the last forward pass (steps = ${steps}, units = ${this.units}).`, {
+        operation: 'RecurrentLayer.backward',
+        shapes: [[steps, this.units]],
+      });
+    }
+    return expanded;
+  }
+
+  /**
+   * Backpropagation through time
+   * @param {Vector[][]} gradients - Gradient wrt every hidden state
+   * @returns Gradients wrt the inputs and the batch-averaged parameters
+  */
+  private propagate(gradients: Vector[][]): ParameterGradients & { inputs: Vector[][] } {
+    const caches = this.caches as StepCache[][];
+    if (gradients.length !== caches.length) {
+      throw new ShapeMismatchError('RNN', `Gradient must match the batch of the last forward pass (gradient = ${gradients.length}, batch = ${caches.length}).`, {
+        operation: 'RecurrentLayer.backwardBatch',
+        shapes: [[gradients.length], [caches.length]],
+      });
+    }
+    const parameters: ParameterGradients = {
+      inputWeights: Matrix.zeros(this.inputWeights.numRows, this.inputWeights.numCols),
+      recurrentWeights: Matrix.zeros(this.recurrentWeights.numRows, this.recurrentWeights.numCols),
+      bias: Vector.zeros(this.bias.length),
+    };
+    const inputs = caches.map((steps, n) => {
+      let stateGradient = this.zeroState();
+      const input: Vector[] = [];
+      for (let t = steps.length - 1; t >= 0; t--) {
+        stateGradient[0] = stateGradient[0].add(gradients[n][t]);
+        const result = this.stepBackward(steps[t], stateGradient, parameters);
+        input[t] = result.input;
+        const cut = this.truncation !== undefined && t % this.truncation === 0;
+        stateGradient = cut ? this.zeroState() : result.state;
+      }
+      return input;
+    });
+    const scale = 1 / caches.length;
+    parameters.inputWeights.scaleInPlace(scale);
+    parameters.recurrentWeights.scaleInPlace(scale);
+    parameters.bias.scaleInPlace(scale);
+    return { inputs, ...parameters };
+  }
+
+  /**
+   * Advance the state by one step
+   * @param {Vector} x - Features of the step
+   * @param {Vector[]} state - State before the step
+   * @returns The state after the step and the values to cache
+  */
+  protected abstract step(x: Vector, state: Vector[]): { state: Vector[]; cache: StepCache };
+
+  /**
+   * Backward pass of one step
+   * @remarks
+   * Accumulates the (summed) parameter gradients in place
+   * @param {StepCache} cache - Values cached by `step`
+   * @param {Vector[]} stateGradient - Gradient wrt the state after the step
+   * @param {ParameterGradients} parameters - Accumulated parameter gradients
+   * @returns Gradients wrt the features and the state before the step
+  */
+  protected abstract stepBackward(
+    cache: StepCache,
+    stateGradient: Vector[],
+    parameters: ParameterGradients,
+  ): { input: Vector; state: Vector[] };
+
+  /**
+   * Accumulate the gradients of the stacked pre-activations
+   * @param {ParameterGradients} parameters - Accumulated parameter gradients
+   * @param {Vector} delta - Gradient wrt the stacked pre-activations
+   * @param {Vector} x - Features of the step
+   * @param {Vector} h - Hidden state before the step
+  */
+  protected accumulate(
+    parameters: ParameterGradients,
+    delta: Vector,
+    x: Vector,
+    h: Vector,
+  ) {
+    addOuterInPlace(parameters.inputWeights, delta, x);
+    addOuterInPlace(parameters.recurrentWeights, delta, h);
+    parameters.bias.addInPlace(delta);
+  }
+}
+
+/**
+ * Fully connected recurrent layer
+ * @remarks
+ * `h' = f(W·x + U·h + b)`, with a configurable element-wise
+ * activation (tanh by default)
+ */
+export class SimpleRNN extends RecurrentLayer {
+  protected readonly stateSize = 1;
+  activationKey: ImplementedElementwiseActivationFunction;
+  activation: ActivationFunction;
+  activationGradient: ActivationFunction;
+
+  constructor(params: SimpleRNNParams) {
+    super(params, 1);
+    const { activation = 'tanh', activationParams = {} } = params;
+    const { activation: f, activationGradient } = getActivationFunctionByKey(
+      activation,
+      activationParams,
+    );
+    this.activationKey = activation;
+    this.activation = f;
+    this.activationGradient = activationGradient;
+  }
+
+  protected step(x: Vector, [h]: Vector[]) {
+    const z = this.inputWeights.vectorDot(x)
+      .add(this.recurrentWeights.vectorDot(h))
+      .add(this.bias);
+    return { state: [z.apply(this.activation)], cache: { x, h, z } };
+  }
+
+  protected stepBackward(
+    { x, h, z }: StepCache,
+    [dh]: Vector[],
+    parameters: ParameterGradients,
+  ) {
+    const delta = z.apply(this.activationGradient).directDot(dh);
+    this.accumulate(parameters, delta, x, h);
+    return {
+      input: rowsTransposedDot(this.inputWeights, delta),
+      state: [rowsTransposedDot(this.recurrentWeights, delta)],
+    };
+  }
+}
+
+/**
+ * Long short-term memory layer
+ * @remarks
+ * The gates are stacked in the order input, forget, cell, output:
+ * ```
+ * i = σ(a_i), f = σ(a_f), g = tanh(a_g), o = σ(a_o)
+ * c' = f ⊙ c + i ⊙ g
+ * h' = o ⊙ tanh(c')
+ * ```
+ * The state is [h, c]. The bias of the forget gate starts at 1, so
+ * that the cell remembers by default early in training
+ */
+export class LSTM extends RecurrentLayer {
+  protected readonly stateSize = 2;
+
+  constructor(params: RecurrentParams) {
+    super(params, 4);
+    this.bias.fill(1, this.units, 2 * this.units);
+  }
+
+  protected step(x: Vector, [h, c]: Vector[]) {
+    const { units } = this;
+    const a = this.inputWeights.vectorDot(x)
+      .add(this.recurrentWeights.vectorDot(h))
+      .add(this.bias);
+    const i = gate(a, 0, units).apply(sigmoid);
+    const f = gate(a, 1, units).apply(sigmoid);
+    const g = gate(a, 2, units).apply(tanh);
+    const o = gate(a, 3, units).apply(sigmoid);
+    const cell = f.directDot(c).add(i.directDot(g));
+    const tanhCell = cell.apply(tanh);
+    return {
+      state: [o.directDot(tanhCell), cell],
+      cache: { x, h, c, i, f, g, o, tanhCell },
+    };
+  }
+
+  protected stepBackward(
+    { x, h, c, i, f, g, o, tanhCell }: StepCache,
+    [dh, dc]: Vector[],
+    parameters: ParameterGradients,
+  ) {
+    const dCell = dc.add(dh.directDot(o).directDot(tanhCell.apply((t) => 1 - t * t)));
+    const delta = Vector.concat(
+      dCell.directDot(g).directDot(i.apply((s) => s * (1 - s))),
+      dCell.directDot(c).directDot(f.apply((s) => s * (1 - s))),
+      dCell.directDot(i).directDot(g.apply((t) => 1 - t * t)),
+      dh.directDot(tanhCell).directDot(o.apply((s) => s * (1 - s))),
+    );
+    this.accumulate(parameters, delta, x, h);
+    return {
+      input: rowsTransposedDot(this.inputWeights, delta),
+      state: [rowsTransposedDot(this.recurrentWeights, delta), dCell.directDot(f)],
+    };
+  }
+}
+
+/**
+ * Gated recurrent unit layer
+ * @remarks
+ * The gates are stacked in the order update, reset, candidate, and
+ * the reset gate is applied before the recurrent product:
+ * ```
+ * z = σ(a_z), r = σ(a_r)
+ * n = tanh(W_n·x + U_n·(r ⊙ h) + b_n)
+ * h' = (1 - z) ⊙ h + z ⊙ n
+ * ```
+ */
+export class GRU extends RecurrentLayer {
+  protected readonly stateSize = 1;
+
+  constructor(params: RecurrentParams) {
+    super(params, 3);
+  }
+
+  protected step(x: Vector, [h]: Vector[]) {
+    const { units } = this;
+    const wx = this.inputWeights.vectorDot(x).add(this.bias);
+    const uh = rowsDot(this.recurrentWeights, h, 0, 2 * units);
+    const z = gate(wx, 0, units).add(gate(uh, 0, units)).apply(sigmoid);
+    const r = gate(wx, 1, units).add(gate(uh, 1, units)).apply(sigmoid);
+    const resetHidden = r.directDot(h);
+    const n = gate(wx, 2, units)
+      .add(rowsDot(this.recurrentWeights, resetHidden, 2 * units, 3 * units))
+      .apply(tanh);
+    const hidden = h.add(z.directDot(n.subtract(h)));
+    return { state: [hidden], cache: { x, h, z, r, n, resetHidden } };
+  }
+
+  protected stepBackward(
+    { x, h, z, r, n, resetHidden }: StepCache,
+    [dh]: Vector[],
+    parameters: ParameterGradients,
+  ) {
+    const { units } = this;
+    const dn = dh.directDot(z).directDot(n.apply((t) => 1 - t * t));
+    const dResetHidden = rowsTransposedDot(this.recurrentWeights, dn, 2 * units);
+    const dz = dh.directDot(n.subtract(h)).directDot(z.apply((s) => s * (1 - s)));
+    const dr = dResetHidden.directDot(h).directDot(r.apply((s) => s * (1 - s)));
+    const dGates = Vector.concat(dz, dr);
+    const delta = Vector.concat(dGates, dn);
+
+    addOuterInPlace(parameters.inputWeights, delta, x);
+    addOuterInPlace(parameters.recurrentWeights, dGates, h);
+    addOuterInPlace(parameters.recurrentWeights, dn, resetHidden, 2 * units);
+    parameters.bias.addInPlace(delta);
+
+    const dPrevious = dh.subtract(dh.directDot(z))
+      .add(dResetHidden.directDot(r))
+      .add(rowsTransposedDot(this.recurrentWeights, dGates));
+    return {
+      input: rowsTransposedDot(this.inputWeights, delta),
+      state: [dPrevious],
+    };
+  }
+}
@@ -1,7 +1,13 @@
 import {
   ImplementedActivationFunction,
+  ImplementedElementwiseActivationFunction,
+  ImplementedVectorActivationFunction,
   ActivationFunction,
+  ActivationJacobianProduct,
+  ActivationParams,
+  VectorActivationFunction,
 } from '../interface';
+import { Vector } from './vector';
 
 const sigmoid = (a: number): number => {
   return 1 / (1 + Math.exp(-a));
@@ -14,7 +20,7 @@ const tanh = (a: number): number => {
   return 2*sigmoid(2*a) - 1;
 };
 const tanhGradient = (a: number): number => {
-  return 2/(1 + Math.exp(-2*a)) - 1;
+  return 1 - tanh(a) ** 2;
 };
 
 const reLU = (a: number): number => {
@@ -31,30 +37,245 @@ const swishGradient = (a: number): number => {
   return sigmoid(a) + a * sigmoid(a) * (1 - sigmoid(a));
 };
 
+export const DEFAULT_LEAKY_SLOPE = 0.01;
+export const DEFAULT_ELU_ALPHA = 1;
+const SELU_LAMBDA = 1.0507009873554805;
+const SELU_ALPHA = 1.6732632423543772;
+const GELU_SCALE = Math.sqrt(2 / Math.PI);
+const GELU_CUBIC = 0.044715;
+
+const makeLeakyReLU = (slope: number): ActivationFunction => (a: number): number => {
+  return a > 0 ? a : slope * a;
+};
+const makeLeakyReLUGradient = (slope: number): ActivationFunction => (a: number): number => {
+  return a > 0 ? 1 : slope;
+};
+
+const makeELU = (alpha: number): ActivationFunction => (a: number): number => {
+  return a > 0 ? a : alpha * (Math.exp(a) - 1);
+};
+const makeELUGradient = (alpha: number): ActivationFunction => (a: number): number => {
+  return a > 0 ? 1 : alpha * Math.exp(a);
+};
+
+const selu = (a: number): number => {
+  return SELU_LAMBDA * makeELU(SELU_ALPHA)(a);
+};
+const seluGradient = (a: number): number => {
+  return SELU_LAMBDA * makeELUGradient(SELU_ALPHA)(a);
+};
+
+const gelu = (a: number): number => {
+  return 0.5 * a * (1 + Math.tanh(GELU_SCALE * (a + GELU_CUBIC * a ** 3)));
+};
+const geluGradient = (a: number): number => {
+  const t = Math.tanh(GELU_SCALE * (a + GELU_CUBIC * a ** 3));
+  return 0.5 * (1 + t) +
+    0.5 * a * (1 - t * t) * GELU_SCALE * (1 + 3 * GELU_CUBIC * a * a);
+};
+
+const softplus = (a: number): number => {
+  return Math.max(a, 0) + Math.log1p(Math.exp(-Math.abs(a)));
+};
+const softplusGradient = (a: number): number => {
+  return sigmoid(a);
+};
+
+const linear = (a: number): number => {
+  return a;
+};
+const linearGradient = (): number => {
+  return 1;
+};
+
+const hardSigmoid = (a: number): number => {
+  return Math.max(0, Math.min(1, 0.2 * a + 0.5));
+};
+const hardSigmoidGradient = (a: number): number => {
+  return a > -2.5 && a < 2.5 ? 0.2 : 0;
+};
+
+const mish = (a: number): number => {
+  return a * Math.tanh(softplus(a));
+};
+const mishGradient = (a: number): number => {
+  const t = Math.tanh(softplus(a));
+  return t + a * (1 - t * t) * sigmoid(a);
+};
+
+const softmax = (z: Vector): Vector => {
+  const max = z.max();
+  const exps = z.apply((a) => Math.exp(a - max));
+  let sum = 0;
+  for (let i = 0; i < exps.length; i++) {
+    sum += exps[i];
+  }
+  return exps.numberDot(1 / sum);
+};
+const softmaxJacobianProduct = (z: Vector, gradient: Vector): Vector => {
+  const s = softmax(z);
+  const projection = s.vectorDot(gradient);
+  return s.directDot(gradient.apply((g) => g - projection));
+};
+
+const logSoftmax = (z: Vector): Vector => {
+  const max = z.max();
+  let sum = 0;
+  for (let i = 0; i < z.length; i++) {
+    sum += Math.exp(z[i] - max);
+  }
+  const logSumExp = max + Math.log(sum);
+  return z.apply((a) => a - logSumExp);
+};
+const logSoftmaxJacobianProduct = (z: Vector, gradient: Vector): Vector => {
+  let total = 0;
+  for (let i = 0; i < gradient.length; i++) {
+    total += gradient[i];
+  }
+  return gradient.add(softmax(z).numberDot(-total));
+};
+
+const sparsemaxThreshold = (z: Vector): number => {
+  const sorted = [...z].sort((a, b) => b - a);
+  let cumulative = 0;
+  let threshold = 0;
+  for (let k = 0; k < sorted.length; k++) {
+    cumulative += sorted[k];
+    if (1 + (k + 1) * sorted[k] > cumulative) {
+      threshold = (cumulative - 1) / (k + 1);
+    }
+  }
+  return threshold;
+};
+const sparsemax = (z: Vector): Vector => {
+  const threshold = sparsemaxThreshold(z);
+  return z.apply((a) => Math.max(0, a - threshold));
+};
+const sparsemaxJacobianProduct = (z: Vector, gradient: Vector): Vector => {
+  const p = sparsemax(z);
+  let supportSize = 0;
+  let supportSum = 0;
+  for (let i = 0; i < p.length; i++) {
+    if (p[i] > 0) {
+      supportSize += 1;
+      supportSum += gradient[i];
+    }
+  }
+  const mean = supportSum / supportSize;
+  const result: number[] = [];
+  for (let i = 0; i < p.length; i++) {
+    result[i] = p[i] > 0 ? gradient[i] - mean : 0;
+  }
+  return Vector.fromArray(result);
+};
+
 export const activations: Record<
-  ImplementedActivationFunction, ActivationFunction
+  ImplementedElementwiseActivationFunction, ActivationFunction
 > = {
   sigmoid,
   tanh,
   reLU,
   swish,
+  leakyReLU: makeLeakyReLU(DEFAULT_LEAKY_SLOPE),
+  elu: makeELU(DEFAULT_ELU_ALPHA),
+  selu,
+  gelu,
+  softplus,
+  linear,
+  hardSigmoid,
+  mish,
 };
 
 export const activationGradients: Record<
-  ImplementedActivationFunction, ActivationFunction
+  ImplementedElementwiseActivationFunction, ActivationFunction
 > = {
   sigmoid: sigmoidGradient,
   tanh: tanhGradient,
   reLU: reLUGradient,
   swish: swishGradient,
+  leakyReLU: makeLeakyReLUGradient(DEFAULT_LEAKY_SLOPE),
+  elu: makeELUGradient(DEFAULT_ELU_ALPHA),
+  selu: seluGradient,
+  gelu: geluGradient,
+  softplus: softplusGradient,
+  linear: linearGradient,
+  hardSigmoid: hardSigmoidGradient,
+  mish: mishGradient,
 };
 
-export const getActivationFunctionByKey = (
+export const vectorActivations: Record<
+  ImplementedVectorActivationFunction, VectorActivationFunction
+> = {
+  softmax,
+  logSoftmax,
+  sparsemax,
+};
+
+export const vectorActivationJacobianProducts: Record<
+  ImplementedVectorActivationFunction, ActivationJacobianProduct
+> = {
+  softmax: softmaxJacobianProduct,
+  logSoftmax: logSoftmaxJacobianProduct,
+  sparsemax: sparsemaxJacobianProduct,
+};
+
+export const isVectorActivation = (
   key: ImplementedActivationFunction,
+): key is ImplementedVectorActivationFunction => key in vectorActivations;
+
+export const getActivationFunctionByKey = (
+  key: ImplementedElementwiseActivationFunction,
+  params: ActivationParams = {},
 ): {
   activation: ActivationFunction,
   activationGradient: ActivationFunction,
-} => ({
-  activation: activations[key],
-  activationGradient: activationGradients[key],
-});
+} => {
+  if (key === 'leakyReLU' && params.slope !== undefined) {
+    return {
+      activation: makeLeakyReLU(params.slope),
+      activationGradient: makeLeakyReLUGradient(params.slope),
+    };
+  }
+  if (key === 'elu' && params.alpha !== undefined) {
+    return {
+      activation: makeELU(params.alpha),
+      activationGradient: makeELUGradient(params.alpha),
+    };
+  }
+  return {
+    activation: activations[key],
+    activationGradient: activationGradients[key],
+  };
+};
+
+/**
+ * Vector-level activation and its backward step
+ * @remarks
+ * Element-wise activations are mapped over the vector, and their
+ * backward step multiplies by the derivative component-wise. Vector
+ * valued activations (softmax, ...) use a Jacobian-vector product
+ * @param {ImplementedActivationFunction} key - activation to fetch
+ * @param {ActivationParams} params - parameters of the activation
+ * @returns activation over vectors and its Jacobian-vector product
+ */
+export const getVectorActivationFunctionByKey = (
+  key: ImplementedActivationFunction,
+  params: ActivationParams = {},
+): {
+  activation: VectorActivationFunction,
+  activationJacobianProduct: ActivationJacobianProduct,
+} => {
+  if (isVectorActivation(key)) {
+    return {
+      activation: vectorActivations[key],
+      activationJacobianProduct: vectorActivationJacobianProducts[key],
+    };
+  }
+  const { activation, activationGradient } = getActivationFunctionByKey(key, params);
+  return {
+    activation: (z: Vector) => z.apply(activation),
+    activationJacobianProduct: (z: Vector, gradient: Vector) => (
+      z.apply(activationGradient).directDot(gradient)
+    ),
+  };
+};
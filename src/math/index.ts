@@ -1,3 +1,9 @@
 export * from './vector';
 export * from './matrix';
 export * from './activations';
+export * from './losses';
+export * from './random';
+export * from './initializers';
+export * from './linalg';
+export * from './tensor';
+export * from './sparse';
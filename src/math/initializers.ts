@@ -0,0 +1,133 @@
+import {
+  ImplementedActivationFunction,
+  ImplementedInitializer,
+  Initializer,
+} from '../interface';
+import { Matrix } from './matrix';
+import { SeededRandom } from './random';
+
+const normalMatrix = (
+  numRows: number,
+  numCols: number,
+  rng: SeededRandom,
+  std: number,
+): Matrix => {
+  const matrix = Matrix.zeros(numRows, numCols);
+  for (let i = 0; i < matrix.data.length; i++) {
+    matrix.data[i] = rng.normal(0, std);
+  }
+  return matrix;
+};
+
+const uniformMatrix = (
+  numRows: number,
+  numCols: number,
+  rng: SeededRandom,
+  limit: number,
+): Matrix => {
+  return Matrix.random(numRows, numCols, rng, -limit, limit);
+};
+
+const zeros = (numRows: number, numCols: number): Matrix => {
+  return Matrix.zeros(numRows, numCols);
+};
+
+const xavierUniform = (numRows: number, numCols: number, rng: SeededRandom): Matrix => {
+  return uniformMatrix(numRows, numCols, rng, Math.sqrt(6 / (numRows + numCols)));
+};
+const xavierNormal = (numRows: number, numCols: number, rng: SeededRandom): Matrix => {
+  return normalMatrix(numRows, numCols, rng, Math.sqrt(2 / (numRows + numCols)));
+};
+
+const heUniform = (numRows: number, numCols: number, rng: SeededRandom): Matrix => {
+  return uniformMatrix(numRows, numCols, rng, Math.sqrt(6 / numCols));
+};
+const heNormal = (numRows: number, numCols: number, rng: SeededRandom): Matrix => {
+  return normalMatrix(numRows, numCols, rng, Math.sqrt(2 / numCols));
+};
+
+const lecunUniform = (numRows: number, numCols: number, rng: SeededRandom): Matrix => {
+  return uniformMatrix(numRows, numCols, rng, Math.sqrt(3 / numCols));
+};
+const lecunNormal = (numRows: number, numCols: number, rng: SeededRandom): Matrix => {
+  return normalMatrix(numRows, numCols, rng, Math.sqrt(1 / numCols));
+};
+
+/**
+ * Orthogonal initialization
+ * @remarks
+ * Orthonormalizes the rows (or the columns, for tall matrices) of
+ * a normal random matrix with modified Gram-Schmidt
+ */
+const orthogonal = (numRows: number, numCols: number, rng: SeededRandom): Matrix => {
+  const tall = numRows > numCols;
+  const matrix = tall ?
+    normalMatrix(numCols, numRows, rng, 1) :
+    normalMatrix(numRows, numCols, rng, 1);
+  for (let i = 0; i < matrix.numRows; i++) {
+    const row = matrix[i];
+    for (let k = 0; k < i; k++) {
+      const previous = matrix[k];
+      let projection = 0;
+      for (let j = 0; j < row.length; j++) {
+        projection += row[j] * previous[j];
+      }
+      for (let j = 0; j < row.length; j++) {
+        row[j] -= projection * previous[j];
+      }
+    }
+    let norm = 0;
+    for (let j = 0; j < row.length; j++) {
+      norm += row[j] * row[j];
+    }
+    norm = Math.sqrt(norm);
+    for (let j = 0; j < row.length; j++) {
+      row[j] /= norm;
+    }
+  }
+  return tall ? matrix.transpose() : matrix;
+};
+
+export const initializers: Record<
+  ImplementedInitializer, Initializer
+> = {
+  zeros,
+  xavierUniform,
+  xavierNormal,
+  heUniform,
+  heNormal,
+  lecunUniform,
+  lecunNormal,
+  orthogonal,
+};
+
+export const getInitializerByKey = (
+  key: ImplementedInitializer,
+): Initializer => initializers[key];
+
+/**
+ * Sensible initializer for the weights feeding an activation
+ * @remarks
+ * He initialization for the ReLU family, LeCun for SELU and
+ * Xavier/Glorot for everything else
+ * @param {ImplementedActivationFunction} activation - activation of the layer
+ * @returns {ImplementedInitializer} key of the initializer
+ */
+export const getDefaultInitializerKey = (
+  activation: ImplementedActivationFunction,
+): ImplementedInitializer => {
+  switch (activation) {
+  case 'reLU':
+  case 'leakyReLU':
+  case 'elu':
+  case 'gelu':
+  case 'swish':
+  case 'mish':
+  case 'softplus':
+    return 'heNormal';
+  case 'selu':
+    return 'lecunNormal';
+  default:
+    return 'xavierUniform';
+  }
+};
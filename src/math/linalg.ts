@@ -0,0 +1,490 @@
+import { InvalidArgumentError, ShapeMismatchError } from '../errors';
+import { Matrix } from './matrix';
+import { Vector } from './vector';
+
+const EPSILON = 2.220446049250313e-16;
+const MAX_SWEEPS = 100;
+
+/**
+ * LU decomposition with partial pivoting
+ * @property {Matrix} lower - unit lower triangular factor
+ * @property {Matrix} upper - upper triangular factor
+ * @property {number[]} permutation - row `i` of `P·A` is row
+ * `permutation[i]` of `A`
+ * @property {number} sign - determinant of the permutation
+ */
+export interface LUDecomposition {
+  lower: Matrix;
+  upper: Matrix;
+  permutation: number[];
+  sign: number;
+}
+
+/**
+ * QR decomposition
+ * @property {Matrix} q - orthogonal factor (m x m)
+ * @property {Matrix} r - upper triangular factor (m x n)
+ */
+export interface QRDecomposition {
+  q: Matrix;
+  r: Matrix;
+}
+
+/**
+ * Eigen decomposition of a symmetric matrix
+ * @property {Vector} values - eigenvalues in descending order
+ * @property {Matrix} vectors - eigenvectors, one per column
+ */
+export interface EigenDecomposition {
+  values: Vector;
+  vectors: Matrix;
+}
+
+/**
+ * Thin singular value decomposition `A = U·diag(s)·V^T`
+ * @property {Matrix} u - left singular vectors (m x k)
+ * @property {Vector} singularValues - singular values in descending order
+ * @property {Matrix} v - right singular vectors (n x k)
+ */
+export interface SVDDecomposition {
+  u: Matrix;
+  singularValues: Vector;
+  v: Matrix;
+}
+
+const validateSquare = (a: Matrix, name: string, operation: string) => {
+  if (a.numRows !== a.numCols) {
+    throw new ShapeMismatchError('LINALG', `Matrix must be square to compute the ${name} (a = [${a.numRows}, ${a.numCols}]).`, {
+      operation,
+      shapes: [[a.numRows, a.numCols]],
+    });
+  }
+};
+
+const validateRightHandSide = (a: Matrix, b: Vector, operation: string) => {
+  if (a.numRows !== b.length) {
+    throw new ShapeMismatchError('VECMUL', `Vectors must have the same length (a = [${a.numRows}], b = [${b.length}]).`, {
+      operation,
+      shapes: [[a.numRows, a.numCols], [b.length]],
+    });
+  }
+};
+
+const copyOf = (a: Matrix): Matrix => {
+  return Matrix.fromBuffer(Float64Array.from(a.data), a.numRows, a.numCols);
+};
+
+/**
+ * LU decomposition with partial pivoting `P·A = L·U`
+ * @param {Matrix} a - square matrix
+ * @returns {LUDecomposition} factors of the matrix
+ */
+export const luDecomposition = (a: Matrix): LUDecomposition => {
+  validateSquare(a, 'LU decomposition', 'luDecomposition');
+  const n = a.numRows;
+  const upper = copyOf(a);
+  const lower = Matrix.identity(n);
+  const permutation = Array.from({ length: n }, (_, idx) => idx);
+  let sign = 1;
+
+  for (let k = 0; k < n; k++) {
+    let pivot = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(upper[i][k]) > Math.abs(upper[pivot][k])) {
+        pivot = i;
+      }
+    }
+    if (pivot !== k) {
+      const row = Float64Array.from(upper[k]);
+      upper.setRow(k, upper[pivot]);
+      upper.setRow(pivot, row);
+      for (let j = 0; j < k; j++) {
+        const value = lower[k][j];
+        lower[k][j] = lower[pivot][j];
+        lower[pivot][j] = value;
+      }
+      [permutation[k], permutation[pivot]] = [permutation[pivot], permutation[k]];
+      sign = -sign;
+    }
+    if (upper[k][k] === 0) {
+      continue;
+    }
+    for (let i = k + 1; i < n; i++) {
+      const factor = upper[i][k] / upper[k][k];
+      lower[i][k] = factor;
+      for (let j = k; j < n; j++) {
+        upper[i][j] -= factor * upper[k][j];
+      }
+    }
+  }
+
+  return { lower, upper, permutation, sign };
+};
+
+/**
+ * Determinant of a square matrix
+ * @param {Matrix} a - square matrix
+ * @returns {number} determinant
+ */
+export const determinant = (a: Matrix): number => {
+  const { upper, sign } = luDecomposition(a);
+  let result = sign;
+  for (let i = 0; i < upper.numRows; i++) {
+    result *= upper[i][i];
+  }
+  return result;
+};
+
+const solveLU = (
+  { lower, upper, permutation }: LUDecomposition,
+  b: ArrayLike<number>,
+  operation: string,
+): Vector => {
+  const n = upper.numRows;
+  const scale = upper.norm() / (n * n);
+  for (let i = 0; i < n; i++) {
+    if (Math.abs(upper[i][i]) <= EPSILON * n * scale) {
+      throw new InvalidArgumentError('LINALG', 'Matrix is singular.', {
+        operation,
+        argument: 'a',
+      });
+    }
+  }
+  const y = Vector.allocate(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[permutation[i]];
+    for (let j = 0; j < i; j++) {
+      sum -= lower[i][j] * y[j];
+    }
+    y[i] = sum;
+  }
+  const x = Vector.allocate(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let j = i + 1; j < n; j++) {
+      sum -= upper[i][j] * x[j];
+    }
+    x[i] = sum / upper[i][i];
+  }
+  return x;
+};
+
+/**
+ * Solve the linear system `A·x = b`
+ * @param {Matrix} a - square, non-singular matrix
+ * @param {Vector} b - right hand side
+ * @returns {Vector} solution of the system
+ */
+export const solve = (a: Matrix, b: Vector): Vector => {
+  validateRightHandSide(a, b, 'solve');
+  return solveLU(luDecomposition(a), b, 'solve');
+};
+
+/**
+ * Inverse of a square matrix
+ * @param {Matrix} a - square, non-singular matrix
+ * @returns {Matrix} inverse matrix
+ */
+export const inverse = (a: Matrix): Matrix => {
+  const lu = luDecomposition(a);
+  const n = a.numRows;
+  const result = Matrix.zeros(n, n);
+  const unit = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    unit.fill(0);
+    unit[j] = 1;
+    result.setColumn(j, solveLU(lu, unit, 'inverse'));
+  }
+  return result;
+};
+
+/**
+ * QR decomposition using Householder reflections
+ * @param {Matrix} a - matrix to decompose
+ * @returns {QRDecomposition} orthogonal and upper triangular factors
+ */
+export const qrDecomposition = (a: Matrix): QRDecomposition => {
+  const m = a.numRows;
+  const n = a.numCols;
+  const r = copyOf(a);
+  const q = Matrix.identity(m);
+  const v = new Float64Array(m);
+
+  for (let k = 0; k < Math.min(m - 1, n); k++) {
+    let norm = 0;
+    for (let i = k; i < m; i++) {
+      norm += r[i][k] * r[i][k];
+    }
+    norm = Math.sqrt(norm);
+    if (norm === 0) {
+      continue;
+    }
+    const alpha = r[k][k] > 0 ? -norm : norm;
+    v.fill(0);
+    for (let i = k; i < m; i++) {
+      v[i] = r[i][k];
+    }
+    v[k] -= alpha;
+    let vNorm = 0;
+    for (let i = k; i < m; i++) {
+      vNorm += v[i] * v[i];
+    }
+    if (vNorm === 0) {
+      continue;
+    }
+
+    // R = (I - 2vv^T/v^Tv)·R
+    for (let j = 0; j < n; j++) {
+      let projection = 0;
+      for (let i = k; i < m; i++) {
+        projection += v[i] * r[i][j];
+      }
+      const factor = 2 * projection / vNorm;
+      for (let i = k; i < m; i++) {
+        r[i][j] -= factor * v[i];
+      }
+    }
+    // Q = Q·(I - 2vv^T/v^Tv)
+    for (let i = 0; i < m; i++) {
+      let projection = 0;
+      for (let j = k; j < m; j++) {
+        projection += q[i][j] * v[j];
+      }
+      const factor = 2 * projection / vNorm;
+      for (let j = k; j < m; j++) {
+        q[i][j] -= factor * v[j];
+      }
+    }
+  }
+  for (let i = 1; i < m; i++) {
+    for (let j = 0; j < Math.min(i, n); j++) {
+      r[i][j] = 0;
+    }
+  }
+
+  return { q, r };
+};
+
+/**
+ * Cholesky decomposition `A = L·L^T`
+ * @param {Matrix} a - symmetric positive definite matrix
+ * @returns {Matrix} lower triangular factor
+ */
+export const choleskyDecomposition = (a: Matrix): Matrix => {
+  validateSquare(a, 'Cholesky decomposition', 'choleskyDecomposition');
+  const n = a.numRows;
+  const lower = Matrix.zeros(n, n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      if (Math.abs(a[i][j] - a[j][i]) > 1e-10 * (Math.abs(a[i][j]) + 1)) {
+        throw new InvalidArgumentError('LINALG', 'Matrix must be symmetric to compute the Cholesky decomposition.', {
+          operation: 'choleskyDecomposition',
+          argument: 'a',
+        });
+      }
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        if (sum <= 0) {
+          throw new InvalidArgumentError('LINALG', 'Matrix must be positive definite to compute the Cholesky decomposition.', {
+            operation: 'choleskyDecomposition',
+            argument: 'a',
+          });
+        }
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+};
+
+/**
+ * Eigen decomposition of a symmetric matrix
+ * @remarks
+ * Uses the cyclic Jacobi eigenvalue algorithm, which is slow for
+ * large matrices but very accurate
+ * @param {Matrix} a - symmetric matrix
+ * @returns {EigenDecomposition} eigenvalues and eigenvectors
+ */
+export const symmetricEigen = (a: Matrix): EigenDecomposition => {
+  validateSquare(a, 'eigen decomposition', 'symmetricEigen');
+  const n = a.numRows;
+  const d = copyOf(a);
+  const vectors = Matrix.identity(n);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        offDiagonal += d[p][q] * d[p][q];
+      }
+    }
+    if (offDiagonal <= EPSILON * EPSILON * d.norm() ** 2) {
+      break;
+    }
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (d[p][q] === 0) {
+          continue;
+        }
+        const theta = (d[q][q] - d[p][p]) / (2 * d[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const dkp = d[k][p];
+          const dkq = d[k][q];
+          d[k][p] = c * dkp - s * dkq;
+          d[k][q] = s * dkp + c * dkq;
+        }
+        for (let k = 0; k < n; k++) {
+          const dpk = d[p][k];
+          const dqk = d[q][k];
+          d[p][k] = c * dpk - s * dqk;
+          d[q][k] = s * dpk + c * dqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = vectors[k][p];
+          const vkq = vectors[k][q];
+          vectors[k][p] = c * vkp - s * vkq;
+          vectors[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, idx) => idx)
+    .sort((i, j) => d[j][j] - d[i][i]);
+  const values = Vector.fromArray(order.map((idx) => d[idx][idx]));
+  const sorted = Matrix.zeros(n, n);
+  order.forEach((idx, column) => sorted.setColumn(column, vectors.getColumn(idx)));
+  return { values, vectors: sorted };
+};
+
+/**
+ * Thin singular value decomposition
+ * @remarks
+ * Uses one-sided Jacobi rotations on the columns of the matrix
+ * @param {Matrix} a - matrix to decompose
+ * @returns {SVDDecomposition} singular vectors and values
+ */
+export const svd = (a: Matrix): SVDDecomposition => {
+  if (a.numRows < a.numCols) {
+    const { u, singularValues, v } = svd(a.transpose());
+    return { u: v, singularValues, v: u };
+  }
+  const m = a.numRows;
+  const n = a.numCols;
+  const u = copyOf(a);
+  const v = Matrix.identity(n);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let rotated = false;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        let alpha = 0;
+        let beta = 0;
+        let gamma = 0;
+        for (let i = 0; i < m; i++) {
+          alpha += u[i][p] * u[i][p];
+          beta += u[i][q] * u[i][q];
+          gamma += u[i][p] * u[i][q];
+        }
+        if (Math.abs(gamma) <= EPSILON * Math.sqrt(alpha * beta)) {
+          continue;
+        }
+        rotated = true;
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t = Math.sign(zeta || 1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const s = c * t;
+        for (let i = 0; i < m; i++) {
+          const uip = u[i][p];
+          const uiq = u[i][q];
+          u[i][p] = c * uip - s * uiq;
+          u[i][q] = s * uip + c * uiq;
+        }
+        for (let i = 0; i < n; i++) {
+          const vip = v[i][p];
+          const viq = v[i][q];
+          v[i][p] = c * vip - s * viq;
+          v[i][q] = s * vip + c * viq;
+        }
+      }
+    }
+    if (!rotated) {
+      break;
+    }
+  }
+
+  const norms = Array.from({ length: n }, (_, j) => u.getColumn(j).norm());
+  const order = Array.from({ length: n }, (_, idx) => idx)
+    .sort((i, j) => norms[j] - norms[i]);
+  const left = Matrix.zeros(m, n);
+  const right = Matrix.zeros(n, n);
+  order.forEach((idx, column) => {
+    const norm = norms[idx];
+    const columnVector = u.getColumn(idx);
+    left.setColumn(column, norm > 0 ? columnVector.numberDot(1 / norm) : columnVector);
+    right.setColumn(column, v.getColumn(idx));
+  });
+
+  return {
+    u: left,
+    singularValues: Vector.fromArray(order.map((idx) => norms[idx])),
+    v: right,
+  };
+};
+
+const cutoffOf = (a: Matrix, singularValues: Vector, tolerance?: number): number => {
+  return tolerance ?? Math.max(a.numRows, a.numCols) * EPSILON * (singularValues[0] ?? 0);
+};
+
+/**
+ * Numerical rank of a matrix
+ * @param {Matrix} a - matrix
+ * @param {number} tolerance - singular values below it count as zero
+ * @returns {number} rank
+ */
+export const rank = (a: Matrix, tolerance?: number): number => {
+  const { singularValues } = svd(a);
+  const cutoff = cutoffOf(a, singularValues, tolerance);
+  return singularValues.filter((value) => value > cutoff).length;
+};
+
+/**
+ * Moore-Penrose pseudo-inverse
+ * @param {Matrix} a - matrix
+ * @param {number} tolerance - singular values below it count as zero
+ * @returns {Matrix} pseudo-inverse (n x m)
+ */
+export const pseudoInverse = (a: Matrix, tolerance?: number): Matrix => {
+  const { u, singularValues, v } = svd(a);
+  const cutoff = cutoffOf(a, singularValues, tolerance);
+  const scaled = copyOf(v);
+  for (let j = 0; j < singularValues.length; j++) {
+    const factor = singularValues[j] > cutoff ? 1 / singularValues[j] : 0;
+    for (let i = 0; i < scaled.numRows; i++) {
+      scaled[i][j] *= factor;
+    }
+  }
+  return scaled.dot(u.transpose());
+};
+
+/**
+ * Least-squares solution of `A·x = b`
+ * @remarks
+ * Minimizes `|A·x - b|`, returning the minimum norm solution when
+ * the matrix is rank deficient
+ * @param {Matrix} a - design matrix
+ * @param {Vector} b - observations
+ * @returns {Vector} least-squares solution
+ */
+export const leastSquares = (a: Matrix, b: Vector): Vector => {
+  validateRightHandSide(a, b, 'leastSquares');
+  return pseudoInverse(a).dot(b);
+};
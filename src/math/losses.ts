@@ -0,0 +1,211 @@
+import {
+  ImplementedLossFunction,
+  LossFunction,
+  LossGradient,
+} from '../interface';
+import { ShapeMismatchError } from '../errors';
+import { Matrix } from './matrix';
+import { Vector } from './vector';
+
+const EPSILON = 1e-12;
+const HUBER_DELTA = 1;
+
+const validateShapes = (prediction: Vector, target: Vector) => {
+  if (prediction.length !== target.length) {
+    throw new ShapeMismatchError('LOSS', `Prediction and target must have the same length (prediction = ${prediction.length}, target = ${target.length}).`, {
+      operation: 'loss',
+      shapes: [[prediction.length], [target.length]],
+    });
+  }
+};
+
+const validateSamples = (predictions: Matrix, targets: Matrix, operation: string) => {
+  if (predictions.numRows !== targets.numRows) {
+    throw new ShapeMismatchError('LOSS', `Predictions and targets must have the same number of samples (predictions = ${predictions.numRows}, targets = ${targets.numRows}).`, {
+      operation,
+      shapes: [[predictions.numRows, predictions.numCols], [targets.numRows, targets.numCols]],
+    });
+  }
+};
+
+const clip = (a: number): number => {
+  return Math.min(Math.max(a, EPSILON), 1 - EPSILON);
+};
+
+const mapPairs = (
+  prediction: Vector,
+  target: Vector,
+  f: (p: number, t: number) => number,
+): Vector => {
+  validateShapes(prediction, target);
+  const result: number[] = [];
+  for (let i = 0; i < prediction.length; i++) {
+    result[i] = f(prediction[i], target[i]);
+  }
+  return Vector.fromArray(result);
+};
+
+const meanPairs = (
+  prediction: Vector,
+  target: Vector,
+  f: (p: number, t: number) => number,
+): number => {
+  const terms = mapPairs(prediction, target, f);
+  let sum = 0;
+  for (let i = 0; i < terms.length; i++) {
+    sum += terms[i];
+  }
+  return sum / terms.length;
+};
+
+const meanSquaredError = (prediction: Vector, target: Vector): number => {
+  return meanPairs(prediction, target, (p, t) => (p - t) ** 2);
+};
+const meanSquaredErrorGradient = (prediction: Vector, target: Vector): Vector => {
+  const n = prediction.length;
+  return mapPairs(prediction, target, (p, t) => 2 * (p - t) / n);
+};
+
+const meanAbsoluteError = (prediction: Vector, target: Vector): number => {
+  return meanPairs(prediction, target, (p, t) => Math.abs(p - t));
+};
+const meanAbsoluteErrorGradient = (prediction: Vector, target: Vector): Vector => {
+  const n = prediction.length;
+  return mapPairs(prediction, target, (p, t) => Math.sign(p - t) / n);
+};
+
+const huber = (prediction: Vector, target: Vector): number => {
+  return meanPairs(prediction, target, (p, t) => {
+    const d = Math.abs(p - t);
+    return d <= HUBER_DELTA ?
+      0.5 * d * d :
+      HUBER_DELTA * (d - 0.5 * HUBER_DELTA);
+  });
+};
+const huberGradient = (prediction: Vector, target: Vector): Vector => {
+  const n = prediction.length;
+  return mapPairs(prediction, target, (p, t) => {
+    const d = p - t;
+    return Math.abs(d) <= HUBER_DELTA ?
+      d / n :
+      HUBER_DELTA * Math.sign(d) / n;
+  });
+};
+
+const binaryCrossEntropy = (prediction: Vector, target: Vector): number => {
+  return meanPairs(prediction, target, (p, t) => {
+    const q = clip(p);
+    return -(t * Math.log(q) + (1 - t) * Math.log(1 - q));
+  });
+};
+const binaryCrossEntropyGradient = (prediction: Vector, target: Vector): Vector => {
+  const n = prediction.length;
+  return mapPairs(prediction, target, (p, t) => {
+    const q = clip(p);
+    return (q - t) / (q * (1 - q)) / n;
+  });
+};
+
+const categoricalCrossEntropy = (prediction: Vector, target: Vector): number => {
+  const terms = mapPairs(prediction, target, (p, t) => -t * Math.log(clip(p)));
+  let sum = 0;
+  for (let i = 0; i < terms.length; i++) {
+    sum += terms[i];
+  }
+  return sum;
+};
+const categoricalCrossEntropyGradient = (prediction: Vector, target: Vector): Vector => {
+  return mapPairs(prediction, target, (p, t) => -t / clip(p));
+};
+
+const hinge = (prediction: Vector, target: Vector): number => {
+  return meanPairs(prediction, target, (p, t) => Math.max(0, 1 - t * p));
+};
+const hingeGradient = (prediction: Vector, target: Vector): Vector => {
+  const n = prediction.length;
+  return mapPairs(prediction, target, (p, t) => t * p < 1 ? -t / n : 0);
+};
+
+export const losses: Record<
+  ImplementedLossFunction, LossFunction
+> = {
+  meanSquaredError,
+  meanAbsoluteError,
+  huber,
+  binaryCrossEntropy,
+  categoricalCrossEntropy,
+  hinge,
+};
+
+export const lossGradients: Record<
+  ImplementedLossFunction, LossGradient
+> = {
+  meanSquaredError: meanSquaredErrorGradient,
+  meanAbsoluteError: meanAbsoluteErrorGradient,
+  huber: huberGradient,
+  binaryCrossEntropy: binaryCrossEntropyGradient,
+  categoricalCrossEntropy: categoricalCrossEntropyGradient,
+  hinge: hingeGradient,
+};
+
+export const getLossFunctionByKey = (
+  key: ImplementedLossFunction,
+): {
+  loss: LossFunction,
+  lossGradient: LossGradient,
+} => ({
+  loss: losses[key],
+  lossGradient: lossGradients[key],
+});
+
+/**
+ * Loss averaged over a batch
+ * @remarks
+ * Every row of the matrices is a sample
+ * @param {ImplementedLossFunction} key - loss to evaluate
+ * @param {Matrix} predictions - predicted values
+ * @param {Matrix} targets - expected values
+ * @returns {number} mean loss of the batch
+ */
+export const batchLoss = (
+  key: ImplementedLossFunction,
+  predictions: Matrix,
+  targets: Matrix,
+): number => {
+  validateSamples(predictions, targets, 'batchLoss');
+  const { loss } = getLossFunctionByKey(key);
+  let sum = 0;
+  for (let i = 0; i < predictions.numRows; i++) {
+    sum += loss(predictions.getRow(i), targets.getRow(i));
+  }
+  return sum / predictions.numRows;
+};
+
+/**
+ * Per-sample gradients of the loss over a batch
+ * @remarks
+ * Every row of the matrices is a sample, and every row of
+ * the result is the gradient of that sample's loss wrt its
+ * prediction. The batch backward passes average them
+ * @param {ImplementedLossFunction} key - loss to differentiate
+ * @param {Matrix} predictions - predicted values
+ * @param {Matrix} targets - expected values
+ * @returns {Matrix} gradient of every sample's loss
+ */
+export const batchLossGradient = (
+  key: ImplementedLossFunction,
+  predictions: Matrix,
+  targets: Matrix,
+): Matrix => {
+  validateSamples(predictions, targets, 'batchLossGradient');
+  const { lossGradient } = getLossFunctionByKey(key);
+  const { numRows, numCols } = predictions;
+  const result = new Float64Array(numRows * numCols);
+  for (let i = 0; i < numRows; i++) {
+    result.set(lossGradient(
+      predictions.getRow(i),
+      targets.getRow(i),
+    ), i * numCols);
+  }
+  return Matrix.fromBuffer(result, numRows, numCols);
+};
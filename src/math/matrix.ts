@@ -1,7 +1,33 @@
-import { ActivationFunction } from '../interface';
+import {
+  IndexOutOfBoundsError,
+  InvalidArgumentError,
+  ShapeMismatchError,
+  UnsupportedOperandError,
+  describeOperand,
+} from '../errors';
+import { ActivationFunction, ErrorCode } from '../interface';
+import {
+  EigenDecomposition,
+  LUDecomposition,
+  QRDecomposition,
+  SVDDecomposition,
+  choleskyDecomposition,
+  determinant,
+  inverse,
+  leastSquares,
+  luDecomposition,
+  pseudoInverse,
+  qrDecomposition,
+  rank,
+  solve,
+  svd,
+  symmetricEigen,
+} from './linalg';
+import { SeededRandom } from './random';
 import { Vector } from './vector';
 
-type NumberMatrix = Array<Array<number>>;
+type MatrixBuffer = Float64Array | Float32Array;
+type MatrixRow = Float64Array | Float32Array;
 type DotReturnType<T> =
   T extends Vector ? Vector :
   T extends Matrix ? Matrix :
@@ -10,9 +36,28 @@ type VectorizedFunction = (v: Vector) => Vector;
 type VectorizedAccFunction = (acc: Vector, v: Vector) => Vector;
 type AxisType = 'column' | 'row';
 
+const BLOCK_SIZE = 64;
+
+const dimensionMismatch = (operation: string, a: Matrix, b: Matrix) => (
+  new ShapeMismatchError('MATMUL', `Matrices must have consistent dimensions (a = [${a.numRows}, ${a.numCols}], b = [${b.numRows}, ${b.numCols}]).`, {
+    operation,
+    shapes: [[a.numRows, a.numCols], [b.numRows, b.numCols]],
+  })
+);
+
+const allocateLike = (data: MatrixBuffer, size: number): MatrixBuffer => {
+  if (data instanceof Float32Array) {
+    return new Float32Array(size);
+  }
+  return new Float64Array(size);
+};
+
 /**
  * Class for modelling Matrix elementary operations 
  * @remarks
+ * The entries are stored row-major in a contiguous `Float64Array`
+ * (or `Float32Array`) buffer, and every row is exposed as a view
+ * of that buffer, so `matrix[i][j]` reads and writes the buffer.
  * The operations implemented include:
  * 1. addition
  * 1. Multiplication
@@ -21,113 +66,433 @@ type AxisType = 'column' | 'row';
  *  1. multiplication by other matrix
  * 1. Transposition
  * 1. Matrix norm for computing distance
+ * 1. In-place addition and scaling
+ * 1. Entry-wise subtraction, product and division, with vectors
+ * broadcast along rows or columns
+ * 1. Sums, means, extrema and argmax along an axis
+ * 1. Frobenius and spectral norms
+ * 1. Slicing and stacking
+ * 1. Decompositions (LU, QR, Cholesky, eigen, SVD) and the
+ * operations built on them (determinant, inverse, solve, rank,
+ * least squares)
  */
 
-export class Matrix extends Array<Array<number>> {
+export class Matrix {
   /**
    * @property {number} numRows - Number of rows in the matrix
    * @property {number} numCols - Number of columns in the matrix
+   * @property {Float64Array | Float32Array} data - Row-major entries
   */
+  [row: number]: MatrixRow;
   numRows = 0;
   numCols = 0;
+  data: MatrixBuffer = new Float64Array(0);
 
   /**
    * Constructor of the Matrix
    * @remarks
    * The rows of the matrix are not supposed to change in size
    * in runtime. Only the components. It also validates that the
-   * array is in fact square
+   * array is in fact square. Large matrices should be built with
+   * `Matrix.fromBuffer`, which does not spread its argument
    * @param {Array<number>} rows - The actual rows of the matrix
   */
-  constructor(...rows: number[][]) {
+  constructor(...rows: ArrayLike<number>[]) {
     if (rows.length === 0 || rows.some(row => row.length !== rows[0].length)) {
-      throw new Error('Invalid matrix: Rows must have the same length.');
+      throw new ShapeMismatchError('MATRIX', 'Invalid matrix: Rows must have the same length.', {
+        operation: 'Matrix.constructor',
+        shapes: rows.map((row) => [row.length]),
+      });
     }
-    super(...rows);
-    this.numRows = rows.length;
-    this.numCols = rows[0]?.length ?? 0;
+    const numCols = rows[0]?.length ?? 0;
+    const data = new Float64Array(rows.length * numCols);
+    rows.forEach((row, idx) => data.set(row, idx * numCols));
+    this.bind(data, rows.length, numCols);
   }
 
   /**
-   * Addition of two matrices
+   * Build a matrix over an existing row-major buffer
    * @remarks
-   * Adds matrices using nested loop. Ideally, I would like to
-   * use a more efficient algorithm but this is for illustrative
-   * purposes
-   * @param {Matrix} other - The matrix to be added
-   * @returns {Matrix} The result of the addition
+   * The buffer is not copied, so the matrix and the buffer share
+   * their entries
+   * @param {Float64Array | Float32Array} data - Row-major entries
+   * @param {number} numRows - Number of rows
+   * @param {number} numCols - Number of columns
+   * @returns {Matrix} Matrix backed by the buffer
   */
-  add(other: Matrix): Matrix {
-    if (this.numRows !== other.numRows || this.numCols !== other.numCols) {
-      throw new Error(`[MATADD] Matrices must have the same dimensions (a = [${this.numRows}, ${this.numCols}], b = [${other.numRows}, ${other.numCols}]).`);
+  static fromBuffer(data: MatrixBuffer, numRows: number, numCols: number): Matrix {
+    if (numRows <= 0 || numCols <= 0 || data.length !== numRows * numCols) {
+      throw new ShapeMismatchError('MATRIX', `Invalid matrix: Buffer must have rows * cols entries (rows = ${numRows}, cols = ${numCols}, entries = ${data.length}).`, {
+        operation: 'Matrix.fromBuffer',
+        shapes: [[numRows, numCols], [data.length]],
+      });
+    }
+    const matrix: Matrix = Object.create(Matrix.prototype);
+    matrix.bind(data, numRows, numCols);
+    return matrix;
+  }
+
+  /**
+   * Matrix of zeros
+   * @param {number} numRows - Number of rows
+   * @param {number} numCols - Number of columns
+   * @returns {Matrix} matrix of zeros
+  */
+  static zeros(numRows: number, numCols: number): Matrix {
+    return Matrix.fromBuffer(new Float64Array(numRows * numCols), numRows, numCols);
+  }
+
+  /**
+   * Matrix of ones
+   * @param {number} numRows - Number of rows
+   * @param {number} numCols - Number of columns
+   * @returns {Matrix} matrix of ones
+  */
+  static ones(numRows: number, numCols: number): Matrix {
+    const data = new Float64Array(numRows * numCols);
+    data.fill(1);
+    return Matrix.fromBuffer(data, numRows, numCols);
+  }
+
+  /**
+   * Identity matrix
+   * @param {number} size - Number of rows and columns
+   * @returns {Matrix} identity matrix
+  */
+  static identity(size: number): Matrix {
+    const matrix = Matrix.zeros(size, size);
+    for (let i = 0; i < size; i++) {
+      matrix[i][i] = 1;
+    }
+    return matrix;
+  }
+
+  /**
+   * Matrix with uniform random entries in [min, max)
+   * @param {number} numRows - Number of rows
+   * @param {number} numCols - Number of columns
+   * @param {SeededRandom} rng - generator to draw from
+   * @param {number} min - lower bound
+   * @param {number} max - upper bound
+   * @returns {Matrix} random matrix
+  */
+  static random(
+    numRows: number,
+    numCols: number,
+    rng: SeededRandom = new SeededRandom(),
+    min = 0,
+    max = 1,
+  ): Matrix {
+    const data = new Float64Array(numRows * numCols);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = rng.uniform(min, max);
+    }
+    return Matrix.fromBuffer(data, numRows, numCols);
+  }
+
+  /**
+   * Stack matrices (and vectors, as rows) vertically
+   * @param {Array<Matrix | Vector>} blocks - Blocks with the same number of columns
+   * @returns {Matrix} Matrix with the rows of every block
+  */
+  static vstack(...blocks: Array<Matrix | Vector>): Matrix {
+    const matrices = blocks.map((block) => (
+      block instanceof Matrix ? block : Matrix.fromBuffer(Float64Array.from(block), 1, block.length)
+    ));
+    if (matrices.length === 0) {
+      throw new InvalidArgumentError('STACK', 'At least one block is needed to stack.', {
+        operation: 'Matrix.vstack',
+        argument: 'blocks',
+      });
     }
+    const { numCols } = matrices[0];
+    matrices.forEach((m) => {
+      if (m.numCols !== numCols) {
+        throw new ShapeMismatchError('STACK', `Blocks must have the same number of columns to be stacked vertically (a = ${numCols}, b = ${m.numCols}).`, {
+          operation: 'Matrix.vstack',
+          shapes: [[matrices[0].numRows, numCols], [m.numRows, m.numCols]],
+        });
+      }
+    });
+    const numRows = matrices.reduce((total, m) => total + m.numRows, 0);
+    const data = new Float64Array(numRows * numCols);
+    let offset = 0;
+    matrices.forEach((m) => {
+      data.set(m.data, offset);
+      offset += m.data.length;
+    });
+    return Matrix.fromBuffer(data, numRows, numCols);
+  }
 
-    const result: NumberMatrix = [];
+  /**
+   * Stack matrices (and vectors, as columns) horizontally
+   * @param {Array<Matrix | Vector>} blocks - Blocks with the same number of rows
+   * @returns {Matrix} Matrix with the columns of every block
+  */
+  static hstack(...blocks: Array<Matrix | Vector>): Matrix {
+    return Matrix.vstack(...blocks.map((block) => (
+      block instanceof Matrix ? block.transpose() : block
+    ))).transpose();
+  }
 
+  /**
+   * Join matrices along an axis
+   * @param {Array<Matrix | Vector>} blocks - Blocks to join
+   * @param {"row" | "column"} axis - `row` appends rows (as `vstack`),
+   * `column` appends columns (as `hstack`)
+   * @returns {Matrix} The joined matrix
+  */
+  static concat(blocks: Array<Matrix | Vector>, axis: AxisType = 'row'): Matrix {
+    return axis === 'row' ? Matrix.vstack(...blocks) : Matrix.hstack(...blocks);
+  }
+
+  /**
+   * Attach the buffer and expose its rows as views
+   * @param {Float64Array | Float32Array} data - Row-major entries
+   * @param {number} numRows - Number of rows
+   * @param {number} numCols - Number of columns
+  */
+  private bind(data: MatrixBuffer, numRows: number, numCols: number) {
+    this.data = data;
+    this.numRows = numRows;
+    this.numCols = numCols;
+    for (let i = 0; i < numRows; i++) {
+      this[i] = data.subarray(i * numCols, (i + 1) * numCols);
+    }
+  }
+
+  /**
+   * Number of rows, as for arrays of rows
+   * @returns {number} number of rows
+  */
+  get length(): number {
+    return this.numRows;
+  }
+
+  /**
+   * Iterate over the rows of the matrix
+   * @returns iterator over row views
+  */
+  *[Symbol.iterator](): IterableIterator<MatrixRow> {
+    for (let i = 0; i < this.numRows; i++) {
+      yield this[i];
+    }
+  }
+
+  /**
+   * Copy the entries into nested arrays
+   * @returns {number[][]} rows of the matrix
+  */
+  toArray(): number[][] {
+    const rows: number[][] = [];
+    for (let i = 0; i < this.numRows; i++) {
+      rows[i] = Array.from(this[i]);
+    }
+    return rows;
+  }
+
+  /**
+   * Entry-wise combination with a matrix or a broadcast vector
+   * @remarks
+   * A vector is combined with every row (axis `row`, one entry per
+   * column) or with every column (axis `column`, one entry per row)
+   * @param {Matrix | Vector} other - Second operand
+   * @param {function (number, number): number} f - Combination of two entries
+   * @param {"row" | "column"} axis - Axis along which a vector is broadcast
+   * @param {ErrorCode} code - Code of the errors
+   * @param {string} operation - Public operation, for the errors
+   * @returns {Matrix} The result of the combination
+  */
+  private combine(
+    other: Matrix | Vector,
+    f: (a: number, b: number) => number,
+    axis: AxisType,
+    code: ErrorCode,
+    operation: string,
+  ): Matrix {
+    const result = allocateLike(this.data, this.data.length);
+    if (other instanceof Matrix) {
+      if (this.numRows !== other.numRows || this.numCols !== other.numCols) {
+        throw new ShapeMismatchError(code, `Matrices must have the same dimensions (a = [${this.numRows}, ${this.numCols}], b = [${other.numRows}, ${other.numCols}]).`, {
+          operation,
+          shapes: [[this.numRows, this.numCols], [other.numRows, other.numCols]],
+        });
+      }
+      for (let i = 0; i < result.length; i++) {
+        result[i] = f(this.data[i], other.data[i]);
+      }
+      return Matrix.fromBuffer(result, this.numRows, this.numCols);
+    }
+
+    const expected = axis === 'row' ? this.numCols : this.numRows;
+    if (other.length !== expected) {
+      throw new ShapeMismatchError(code, `Vector must have one entry per ${axis === 'row' ? 'column' : 'row'} to be broadcast along the ${axis}s (a = [${this.numRows}, ${this.numCols}], b = ${other.length}).`, {
+        operation,
+        shapes: [[this.numRows, this.numCols], [other.length]],
+      });
+    }
     for (let i = 0; i < this.numRows; i++) {
-      result[i] = [];
       for (let j = 0; j < this.numCols; j++) {
-        result[i][j] = this[i][j] + other[i][j];
+        const idx = i * this.numCols + j;
+        result[idx] = f(this.data[idx], other[axis === 'row' ? j : i]);
       }
     }
+    return Matrix.fromBuffer(result, this.numRows, this.numCols);
+  }
 
-    return new Matrix(...result);
+  /**
+   * Addition of two matrices
+   * @remarks
+   * Adds matrices entry by entry over their buffers. A vector is
+   * added to every row (e.g. a bias) or to every column
+   * @param {Matrix | Vector} other - The matrix or vector to be added
+   * @param {"row" | "column"} axis - Axis along which a vector is broadcast
+   * @returns {Matrix} The result of the addition
+  */
+  add(other: Matrix | Vector, axis: AxisType = 'row'): Matrix {
+    return this.combine(other, (a, b) => a + b, axis, 'MATADD', 'Matrix.add');
+  }
+
+  /**
+   * Subtraction of two matrices
+   * @param {Matrix | Vector} other - The matrix or vector to subtract
+   * @param {"row" | "column"} axis - Axis along which a vector is broadcast
+   * @returns {Matrix} The result of the subtraction
+  */
+  subtract(other: Matrix | Vector, axis: AxisType = 'row'): Matrix {
+    return this.combine(other, (a, b) => a - b, axis, 'MATADD', 'Matrix.subtract');
+  }
+
+  /**
+   * Direct (element-wise) product of two matrices
+   * @param {Matrix | Vector} other - The matrix or vector to multiply by
+   * @param {"row" | "column"} axis - Axis along which a vector is broadcast
+   * @returns {Matrix} The element-wise product
+  */
+  directDot(other: Matrix | Vector, axis: AxisType = 'row'): Matrix {
+    return this.combine(other, (a, b) => a * b, axis, 'MATMUL', 'Matrix.directDot');
+  }
+
+  /**
+   * Element-wise division of two matrices
+   * @param {Matrix | Vector} other - The matrix or vector to divide by
+   * @param {"row" | "column"} axis - Axis along which a vector is broadcast
+   * @returns {Matrix} The element-wise quotient
+  */
+  divide(other: Matrix | Vector, axis: AxisType = 'row'): Matrix {
+    return this.combine(other, (a, b) => a / b, axis, 'MATMUL', 'Matrix.divide');
+  }
+
+  /**
+   * In-place addition of two matrices
+   * @remarks
+   * Avoids allocating a new matrix, e.g. in training loops
+   * @param {Matrix} other - The matrix to be added
+   * @returns {Matrix} this matrix, after the addition
+  */
+  addInPlace(other: Matrix): Matrix {
+    if (this.numRows !== other.numRows || this.numCols !== other.numCols) {
+      throw new ShapeMismatchError('MATADD', `Matrices must have the same dimensions (a = [${this.numRows}, ${this.numCols}], b = [${other.numRows}, ${other.numCols}]).`, {
+        operation: 'Matrix.addInPlace',
+        shapes: [[this.numRows, this.numCols], [other.numRows, other.numCols]],
+      });
+    }
+    for (let i = 0; i < this.data.length; i++) {
+      this.data[i] += other.data[i];
+    }
+    return this;
+  }
+
+  /**
+   * In-place multiplication by scalar
+   * @param {number} b - scalar to multiply with
+   * @returns {Matrix} this matrix, after the product
+  */
+  scaleInPlace(b: number): Matrix {
+    for (let i = 0; i < this.data.length; i++) {
+      this.data[i] *= b;
+    }
+    return this;
   }
 
   /**
    * Multiplication of two matrices
    * @remarks
-   * Multiplies matrices using nested loop. Ideally, I would like to
-   * use a more efficient algorithm but this is for illustrative
+   * Multiplies matrices by blocks, so that the rows of both
+   * operands and of the result are traversed contiguously
    * @param {Matrix} b - Matrix to multiply
    * @returns {Matrix} The result of the multiplication
    */
   normalDot(b: Matrix): Matrix {
     if (this.numCols !== b.numRows) {
-      throw new Error(`[MATMUL] Matrices must have consistent dimensions (a = [${this.numRows}, ${this.numCols}], b = [${b.numRows}, ${b.numCols}]).`);
+      throw dimensionMismatch('Matrix.normalDot', this, b);
     }
-    const result: NumberMatrix = [];
+    const rows = this.numRows;
+    const inner = this.numCols;
+    const cols = b.numCols;
+    const a = this.data;
+    const other = b.data;
+    const result = allocateLike(a, rows * cols);
 
-    for (let i = 0; i < this.numRows; i++) {
-      result[i] = [];
-      for (let j = 0; j < b.numCols; j++) {
-        let sum = 0;
-        for (let k = 0; k < this.numCols; k++) {
-          sum += this[i][k] * b[k][j];
+    for (let ii = 0; ii < rows; ii += BLOCK_SIZE) {
+      const iEnd = Math.min(ii + BLOCK_SIZE, rows);
+      for (let kk = 0; kk < inner; kk += BLOCK_SIZE) {
+        const kEnd = Math.min(kk + BLOCK_SIZE, inner);
+        for (let jj = 0; jj < cols; jj += BLOCK_SIZE) {
+          const jEnd = Math.min(jj + BLOCK_SIZE, cols);
+          for (let i = ii; i < iEnd; i++) {
+            for (let k = kk; k < kEnd; k++) {
+              const aik = a[i * inner + k];
+              for (let j = jj; j < jEnd; j++) {
+                result[i * cols + j] += aik * other[k * cols + j];
+              }
+            }
+          }
         }
-        result[i][j] = sum;
       }
     }
 
-    return new Matrix(...result);
+    return Matrix.fromBuffer(result, rows, cols);
   }
 
   /**
    * Multiplication of two matrices (with first one transposed)
    * @remarks
-   * Multiplies matrices using nested loop. Ideally, I would like to
-   * use a more efficient algorithm but this is for illustrative
+   * Multiplies matrices by blocks without materializing the
+   * transpose, traversing the rows of both operands contiguously
    * @param {Matrix} b - Matrix to multiply
    * @returns {Matrix} The result of the product
   */
   transposedDot(b: Matrix): Matrix {
     if (this.numRows !== b.numRows) {
-      throw new Error(`[MATMUL] Matrices must have consistent dimensions (a = [${this.numRows}, ${this.numCols}], b = [${b.numRows}, ${b.numCols}]).`);
+      throw dimensionMismatch('Matrix.transposedDot', this, b);
     }
-    const result: NumberMatrix = [];
+    const rows = this.numCols;
+    const inner = this.numRows;
+    const cols = b.numCols;
+    const a = this.data;
+    const other = b.data;
+    const result = allocateLike(a, rows * cols);
 
-    for (let i = 0; i < this.numCols; i++) {
-      result[i] = [];
-      for (let j = 0; j < b.numCols; j++) {
-        let sum = 0;
-        for (let k = 0; k < this.numRows; k++) {
-          sum += this[k][i] * b[k][j];
+    for (let kk = 0; kk < inner; kk += BLOCK_SIZE) {
+      const kEnd = Math.min(kk + BLOCK_SIZE, inner);
+      for (let ii = 0; ii < rows; ii += BLOCK_SIZE) {
+        const iEnd = Math.min(ii + BLOCK_SIZE, rows);
+        for (let jj = 0; jj < cols; jj += BLOCK_SIZE) {
+          const jEnd = Math.min(jj + BLOCK_SIZE, cols);
+          for (let k = kk; k < kEnd; k++) {
+            for (let i = ii; i < iEnd; i++) {
+              const aki = a[k * rows + i];
+              for (let j = jj; j < jEnd; j++) {
+                result[i * cols + j] += aki * other[k * cols + j];
+              }
+            }
+          }
         }
-        result[i][j] = sum;
       }
     }
 
-    return new Matrix(...result);
+    return Matrix.fromBuffer(result, rows, cols);
   }
 
   /**
@@ -156,20 +521,24 @@ export class Matrix extends Array<Array<number>> {
   */
   vectorDot(b: Vector): Vector {
     if (this.numCols !== b.length) {
-      throw new Error(`[VECMUL] Vectors must have the same length (a = [${this.numCols}], b = [${b.length}]).`);
+      throw new ShapeMismatchError('VECMUL', `Vectors must have the same length (a = [${this.numCols}], b = [${b.length}]).`, {
+        operation: 'Matrix.vectorDot',
+        shapes: [[this.numRows, this.numCols], [b.length]],
+      });
     }
 
-    const result: number[] = [];
+    const result = Vector.allocate(this.numRows);
 
-    for (let i = 0; i < this.length; i++) {
+    for (let i = 0; i < this.numRows; i++) {
+      const offset = i * this.numCols;
       let sum = 0;
-      for (let j = 0; j < this[0].length; j++) {
-        sum += this[i][j] * b[j];
+      for (let j = 0; j < this.numCols; j++) {
+        sum += this.data[offset + j] * b[j];
       }
       result[i] = sum;
     }
 
-    return new Vector(...result);
+    return result;
   }
 
   /**
@@ -181,14 +550,11 @@ export class Matrix extends Array<Array<number>> {
    * @returns {Matrix} The result of multiplication
   */
   numberDot(b: number): Matrix {
-    const result: NumberMatrix = [];
-    for (let i = 0; i < this.numRows; i++) {
-      result[i] = [];
-      for (let j = 0; j < this.numCols; j++) {
-        result[i][j] = this[i][j] * b;
-      }
+    const result = allocateLike(this.data, this.data.length);
+    for (let i = 0; i < result.length; i++) {
+      result[i] = this.data[i] * b;
     }
-    return new Matrix(...result);
+    return Matrix.fromBuffer(result, this.numRows, this.numCols);
   }
 
   /**
@@ -211,7 +577,10 @@ export class Matrix extends Array<Array<number>> {
     if (typeof b === 'number') {
       return this.numberDot(b) as DotReturnType<T>;
     }
-    throw new Error('[MATMUL] Vectors must be of type Matrix or Vector or Number.');
+    throw new UnsupportedOperandError('MATMUL', 'Vectors must be of type Matrix or Vector or Number.', {
+      operation: 'Matrix.dot',
+      operand: describeOperand(b),
+    });
   }
 
   /**
@@ -222,16 +591,15 @@ export class Matrix extends Array<Array<number>> {
     const rows = this.numRows;
     const cols = this.numCols;
 
-    const transposedMatrix: NumberMatrix = [];
+    const transposedMatrix = allocateLike(this.data, this.data.length);
 
-    for (let j = 0; j < cols; j++) {
-      transposedMatrix[j] = [];
-      for (let i = 0; i < rows; i++) {
-        transposedMatrix[j][i] = this[i][j];
+    for (let i = 0; i < rows; i++) {
+      for (let j = 0; j < cols; j++) {
+        transposedMatrix[j * rows + i] = this.data[i * cols + j];
       }
     }
 
-    return new Matrix(...transposedMatrix);
+    return Matrix.fromBuffer(transposedMatrix, cols, rows);
   }
 
   /**
@@ -243,12 +611,160 @@ export class Matrix extends Array<Array<number>> {
   */
   norm(): number {
     let sum = 0;
-    for (let i = 0; i < this.numRows; i++) {
+    for (let i = 0; i < this.data.length; i++) {
+      sum += Math.abs(this.data[i]);
+    }
+    return sum;
+  }
+
+  /**
+   * Frobenius norm
+   * @returns {number} square root of the sum of the squared entries
+  */
+  frobeniusNorm(): number {
+    let sum = 0;
+    for (let i = 0; i < this.data.length; i++) {
+      sum += this.data[i] * this.data[i];
+    }
+    return Math.sqrt(sum);
+  }
+
+  /**
+   * Spectral norm
+   * @returns {number} largest singular value
+  */
+  spectralNorm(): number {
+    return this.svd().singularValues[0];
+  }
+
+  /**
+   * Reduce the entries along an axis, or all of them
+   * @remarks
+   * Along the `row` axis the rows are reduced together (one value
+   * per column), as in `vectorReduce`, and along the `column` axis
+   * the columns are (one value per row)
+   * @param {function} reducer - Reduction of `count` entries read by `at`
+   * @param {"row" | "column"} axis - Axis to reduce (every entry when omitted)
+   * @returns {number | Vector} Reduced values
+  */
+  private reduceAxis(
+    reducer: (at: (k: number) => number, count: number) => number,
+    axis?: AxisType,
+  ): number | Vector {
+    if (axis === undefined) {
+      return reducer((k) => this.data[k], this.data.length);
+    }
+    if (axis === 'row') {
+      const result = Vector.allocate(this.numCols);
       for (let j = 0; j < this.numCols; j++) {
-        sum += Math.abs(this[i][j]);
+        result[j] = reducer((k) => this.data[k * this.numCols + j], this.numRows);
       }
+      return result;
     }
-    return sum;
+    const result = Vector.allocate(this.numRows);
+    for (let i = 0; i < this.numRows; i++) {
+      result[i] = reducer((k) => this.data[i * this.numCols + k], this.numCols);
+    }
+    return result;
+  }
+
+  /**
+   * Sum of the entries
+   * @param {"row" | "column"} axis - Axis to reduce (every entry when omitted)
+   * @returns {number | Vector} Sum of every column (row axis), of every
+   * row (column axis), or of the whole matrix
+  */
+  sum(): number;
+  sum(axis: AxisType): Vector;
+  sum(axis?: AxisType): number | Vector {
+    return this.reduceAxis((at, count) => {
+      let total = 0;
+      for (let k = 0; k < count; k++) {
+        total += at(k);
+      }
+      return total;
+    }, axis);
+  }
+
+  /**
+   * Mean of the entries
+   * @param {"row" | "column"} axis - Axis to reduce (every entry when omitted)
+   * @returns {number | Vector} Mean of every column (row axis), of every
+   * row (column axis), or of the whole matrix
+  */
+  mean(): number;
+  mean(axis: AxisType): Vector;
+  mean(axis?: AxisType): number | Vector {
+    return this.reduceAxis((at, count) => {
+      let total = 0;
+      for (let k = 0; k < count; k++) {
+        total += at(k);
+      }
+      return total / count;
+    }, axis);
+  }
+
+  /**
+   * Maximum of the entries
+   * @param {"row" | "column"} axis - Axis to reduce (every entry when omitted)
+   * @returns {number | Vector} Maximum of every column (row axis), of
+   * every row (column axis), or of the whole matrix
+  */
+  max(): number;
+  max(axis: AxisType): Vector;
+  max(axis?: AxisType): number | Vector {
+    return this.reduceAxis((at, count) => {
+      let best = -Infinity;
+      for (let k = 0; k < count; k++) {
+        best = Math.max(best, at(k));
+      }
+      return best;
+    }, axis);
+  }
+
+  /**
+   * Minimum of the entries
+   * @param {"row" | "column"} axis - Axis to reduce (every entry when omitted)
+   * @returns {number | Vector} Minimum of every column (row axis), of
+   * every row (column axis), or of the whole matrix
+  */
+  min(): number;
+  min(axis: AxisType): Vector;
+  min(axis?: AxisType): number | Vector {
+    return this.reduceAxis((at, count) => {
+      let best = Infinity;
+      for (let k = 0; k < count; k++) {
+        best = Math.min(best, at(k));
+      }
+      return best;
+    }, axis);
+  }
+
+  /**
+   * Position of the maximum
+   * @remarks
+   * Ties resolve to the first position
+   * @param {"row" | "column"} axis - Axis to reduce (every entry when omitted)
+   * @returns {[number, number] | Vector} Row of the maximum of every column
+   * (row axis), column of the maximum of every row (column axis), or
+   * [row, column] of the maximum of the whole matrix
+  */
+  argmax(): [number, number];
+  argmax(axis: AxisType): Vector;
+  argmax(axis?: AxisType): [number, number] | Vector {
+    const reduced = this.reduceAxis((at, count) => {
+      let best = 0;
+      for (let k = 1; k < count; k++) {
+        if (at(k) > at(best)) {
+          best = k;
+        }
+      }
+      return best;
+    }, axis);
+    if (typeof reduced === 'number') {
+      return [Math.floor(reduced / this.numCols), reduced % this.numCols];
+    }
+    return reduced;
   }
 
   /**
@@ -264,14 +780,11 @@ export class Matrix extends Array<Array<number>> {
    * a matrix
   */
   apply(f: ActivationFunction): Matrix {
-    const result: NumberMatrix = [];
-    for (let i = 0; i < this.numRows; i++) {
-      result[i] = [];
-      for (let j = 0; j < this.numCols; j++) {
-        result[i][j] = f(this[i][j]);
-      }
+    const result = allocateLike(this.data, this.data.length);
+    for (let i = 0; i < result.length; i++) {
+      result[i] = f(this.data[i]);
     }
-    return new Matrix(...result);
+    return Matrix.fromBuffer(result, this.numRows, this.numCols);
   }
 
   /**
@@ -281,9 +794,13 @@ export class Matrix extends Array<Array<number>> {
    */
   getRow(idx: number): Vector {
     if (idx < 0 || idx >= this.numRows) {
-      throw new Error(`[ROW] Row index out of bounds (rows = ${this.numRows}).`);
+      throw new IndexOutOfBoundsError('ROW', `Row index out of bounds (row = ${idx}, rows = ${this.numRows}).`, {
+        operation: 'Matrix.getRow',
+        index: [idx],
+        shape: [this.numRows, this.numCols],
+      });
     }
-    return new Vector(...this[idx]);
+    return Vector.fromArray(this[idx]);
   }
 
   /**
@@ -291,13 +808,21 @@ export class Matrix extends Array<Array<number>> {
    * @param {number} idx - index of row to update
    * @param {number[]} col - vector for updating row
    */
-  setRow(idx: number, row: number[]) {
-    if (row.length !== this.numCols) {
-      throw new Error(`[ROW] Column must have the same length (cols = ${this.numRows}).`);
+  setRow(idx: number, row: ArrayLike<number>) {
+    if (idx < 0 || idx >= this.numRows) {
+      throw new IndexOutOfBoundsError('ROW', `Row index out of bounds (row = ${idx}, rows = ${this.numRows}).`, {
+        operation: 'Matrix.setRow',
+        index: [idx],
+        shape: [this.numRows, this.numCols],
+      });
     }
-    for (let jdx = 0; jdx < this.numCols; jdx++) {
-      this[idx][jdx] = row[jdx];
+    if (row.length !== this.numCols) {
+      throw new ShapeMismatchError('ROW', `Row must have one entry per column (cols = ${this.numCols}, row = ${row.length}).`, {
+        operation: 'Matrix.setRow',
+        shapes: [[this.numRows, this.numCols], [row.length]],
+      });
     }
+    this[idx].set(row);
   }
 
   /**
@@ -306,14 +831,18 @@ export class Matrix extends Array<Array<number>> {
    * @returns {Vector} column vector
    */
   getColumn(idx: number): Vector {
-    if (idx < 0 || idx >= this.numRows) {
-      throw new Error(`[COL] Row index out of bounds (rows = ${this.numRows}).`);
+    if (idx < 0 || idx >= this.numCols) {
+      throw new IndexOutOfBoundsError('COL', `Column index out of bounds (col = ${idx}, cols = ${this.numCols}).`, {
+        operation: 'Matrix.getColumn',
+        index: [idx],
+        shape: [this.numRows, this.numCols],
+      });
     }
-    const col: number[] = [];
+    const col = Vector.allocate(this.numRows);
     for (let jdx = 0; jdx < this.numRows; jdx++) {
-      col[jdx] = this[jdx][idx];
+      col[jdx] = this.data[jdx * this.numCols + idx];
     }
-    return new Vector(...col);
+    return col;
   }
 
   /**
@@ -321,15 +850,63 @@ export class Matrix extends Array<Array<number>> {
    * @param {number} idx - index of col to update
    * @param {number[]} col - vector for updating col
    */
-  setColumn(idx: number, col: number[]) {
+  setColumn(idx: number, col: ArrayLike<number>) {
+    if (idx < 0 || idx >= this.numCols) {
+      throw new IndexOutOfBoundsError('COL', `Column index out of bounds (col = ${idx}, cols = ${this.numCols}).`, {
+        operation: 'Matrix.setColumn',
+        index: [idx],
+        shape: [this.numRows, this.numCols],
+      });
+    }
     if (col.length !== this.numRows) {
-      throw new Error(`[ROW] Column must have the same length (cols = ${this.numRows}).`);
+      throw new ShapeMismatchError('COL', `Column must have one entry per row (rows = ${this.numRows}, col = ${col.length}).`, {
+        operation: 'Matrix.setColumn',
+        shapes: [[this.numRows, this.numCols], [col.length]],
+      });
     }
     for (let jdx = 0; jdx < this.numRows; jdx++) {
-      this[jdx][idx] = col[jdx];
+      this.data[jdx * this.numCols + idx] = col[jdx];
     }
   }
 
+  /**
+   * Copy of a block of the matrix
+   * @remarks
+   * Bounds follow `Array.prototype.slice`: the end is excluded and
+   * negative bounds count from the end
+   * @param {number} rowStart - First row
+   * @param {number} rowEnd - Row after the last one
+   * @param {number} colStart - First column
+   * @param {number} colEnd - Column after the last one
+   * @returns {Matrix} The sub-matrix
+   */
+  slice(
+    rowStart = 0,
+    rowEnd = this.numRows,
+    colStart = 0,
+    colEnd = this.numCols,
+  ): Matrix {
+    const clamp = (bound: number, size: number) => (
+      Math.min(Math.max(bound < 0 ? bound + size : bound, 0), size)
+    );
+    const top = clamp(rowStart, this.numRows);
+    const left = clamp(colStart, this.numCols);
+    const rows = clamp(rowEnd, this.numRows) - top;
+    const cols = clamp(colEnd, this.numCols) - left;
+    if (rows <= 0 || cols <= 0) {
+      throw new InvalidArgumentError('SLICE', `Slice must select at least one row and one column (rows = [${rowStart}, ${rowEnd}], cols = [${colStart}, ${colEnd}]).`, {
+        operation: 'Matrix.slice',
+        argument: rows <= 0 ? 'rowEnd' : 'colEnd',
+      });
+    }
+    const result = allocateLike(this.data, rows * cols);
+    for (let i = 0; i < rows; i++) {
+      const offset = (top + i) * this.numCols + left;
+      result.set(this.data.subarray(offset, offset + cols), i * cols);
+    }
+    return Matrix.fromBuffer(result, rows, cols);
+  }
+
   /**
    * Axis-wise operation on matrix
    * @remarks
@@ -344,14 +921,23 @@ export class Matrix extends Array<Array<number>> {
    */
   vectorApply(f: VectorizedFunction, axis: AxisType = 'row'): Matrix {
     if (axis === 'row') {
-      const result: NumberMatrix = [];
+      const rows: Vector[] = [];
       for (let idx = 0; idx < this.numRows; idx++) {
-        result[idx] = f(this.getRow(1));
+        rows[idx] = f(this.getRow(idx));
       }
-      return new Matrix(...result);
+      const numCols = rows[0].length;
+      if (rows.some((row) => row.length !== numCols)) {
+        throw new ShapeMismatchError('MATRIX', 'Invalid matrix: Rows must have the same length.', {
+          operation: 'Matrix.vectorApply',
+          shapes: rows.map((row) => [row.length]),
+        });
+      }
+      const result = new Float64Array(this.numRows * numCols);
+      rows.forEach((row, idx) => result.set(row, idx * numCols));
+      return Matrix.fromBuffer(result, this.numRows, numCols);
     }
 
-    const copy = new Matrix(...this);
+    const copy = Matrix.fromBuffer(Float64Array.from(this.data), this.numRows, this.numCols);
     for (let idx = 0; idx < this.numCols; idx++) {
       copy.setColumn(idx, f(this.getColumn(idx)));
     }
@@ -363,33 +949,116 @@ export class Matrix extends Array<Array<number>> {
    * Vectorized accumulation function
    * @remarks
    * Similar to simple arrays accumulation function, but
-   * can be applied to a given axis
+   * can be applied to a given axis. A matrix with a single
+   * row (or column) reduces to that row (or column)
    * @param {function (Vector): Vector} f - Accumulation function
    * @param {"row" | "column"} axis 
    * @returns {Vector} Accumulated vector
    */
   vectorReduce(f: VectorizedAccFunction, axis: AxisType = 'row'): Vector {
     if (axis === 'row') {
-      if (this.numRows === 1) {
-        throw new Error(
-          '[MATACC] Unable to accumulate because matrix has less than two rows',
-        );
-      }
-      let result = new Vector(...this.getRow(0));
+      let result = this.getRow(0);
       for (let idx = 1; idx < this.numRows; idx++) {
         result = f(result, this.getRow(idx));
       }
       return result;
     }
-    if (this.numCols === 1) {
-      throw new Error(
-        '[MATACC] Unable to accumulate because matrix has less than two columns',
-      );
-    }
-    let result = new Vector(...this.getColumn(0));
+    let result = this.getColumn(0);
     for (let idx = 1; idx < this.numCols; idx++) {
       result = f(result, this.getColumn(idx));
     }
     return result;
   }
-}
\ No newline at end of file
+
+  /**
+   * LU decomposition with partial pivoting
+   * @returns {LUDecomposition} factors such that `P·A = L·U`
+   */
+  lu(): LUDecomposition {
+    return luDecomposition(this);
+  }
+
+  /**
+   * QR decomposition using Householder reflections
+   * @returns {QRDecomposition} factors such that `A = Q·R`
+   */
+  qr(): QRDecomposition {
+    return qrDecomposition(this);
+  }
+
+  /**
+   * Cholesky decomposition of a symmetric positive definite matrix
+   * @returns {Matrix} lower triangular `L` such that `A = L·L^T`
+   */
+  cholesky(): Matrix {
+    return choleskyDecomposition(this);
+  }
+
+  /**
+   * Eigen decomposition of a symmetric matrix
+   * @returns {EigenDecomposition} eigenvalues and eigenvectors
+   */
+  eigen(): EigenDecomposition {
+    return symmetricEigen(this);
+  }
+
+  /**
+   * Thin singular value decomposition
+   * @returns {SVDDecomposition} factors such that `A = U·diag(s)·V^T`
+   */
+  svd(): SVDDecomposition {
+    return svd(this);
+  }
+
+  /**
+   * Determinant of a square matrix
+   * @returns {number} determinant
+   */
+  determinant(): number {
+    return determinant(this);
+  }
+
+  /**
+   * Inverse of a square matrix
+   * @returns {Matrix} inverse matrix
+   */
+  inverse(): Matrix {
+    return inverse(this);
+  }
+
+  /**
+   * Solve the linear system `A·x = b`
+   * @param {Vector} b - right hand side
+   * @returns {Vector} solution of the system
+   */
+  solve(b: Vector): Vector {
+    return solve(this, b);
+  }
+
+  /**
+   * Numerical rank
+   * @param {number} tolerance - singular values below it count as zero
+   * @returns {number} rank of the matrix
+   */
+  rank(tolerance?: number): number {
+    return rank(this, tolerance);
+  }
+
+  /**
+   * Moore-Penrose pseudo-inverse
+   * @param {number} tolerance - singular values below it count as zero
+   * @returns {Matrix} pseudo-inverse
+   */
+  pseudoInverse(tolerance?: number): Matrix {
+    return pseudoInverse(this, tolerance);
+  }
+
+  /**
+   * Least-squares solution of `A·x = b`
+   * @param {Vector} b - observations
+   * @returns {Vector} minimum norm least-squares solution
+   */
+  leastSquares(b: Vector): Vector {
+    return leastSquares(this, b);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Class for generating reproducible pseudo-random numbers
+ * @remarks
+ * Implements the mulberry32 generator, which is small and fast
+ * and good enough for initializing weights and shuffling data.
+ * Two generators built with the same seed produce the same
+ * sequence of numbers
+ */
+export class SeededRandom {
+  /**
+   * @property {number} seed - Seed the generator was built with
+  */
+  seed: number;
+  private state: number;
+  private spareNormal: number | null = null;
+
+  /**
+   * Constructor of the generator
+   * @param {number} seed - 32-bit seed. A random one is drawn when omitted
+  */
+  constructor(seed?: number) {
+    this.seed = seed ?? Math.floor(Math.random() * 2 ** 32);
+    this.state = this.seed >>> 0;
+  }
+
+  /**
+   * Uniform sample in [0, 1)
+   * @returns {number} next pseudo-random number
+  */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform sample in [min, max)
+   * @param {number} min - lower bound
+   * @param {number} max - upper bound
+   * @returns {number} pseudo-random number
+  */
+  uniform(min = 0, max = 1): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Normal sample using the Box-Muller transform
+   * @param {number} mean - mean of the distribution
+   * @param {number} std - standard deviation of the distribution
+   * @returns {number} pseudo-random number
+  */
+  normal(mean = 0, std = 1): number {
+    if (this.spareNormal !== null) {
+      const spare = this.spareNormal;
+      this.spareNormal = null;
+      return mean + std * spare;
+    }
+    let u = 0;
+    while (u === 0) {
+      u = this.next();
+    }
+    const v = this.next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    this.spareNormal = radius * Math.sin(2 * Math.PI * v);
+    return mean + std * radius * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Uniform integer in [0, max)
+   * @param {number} max - upper bound
+   * @returns {number} pseudo-random integer
+  */
+  integer(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
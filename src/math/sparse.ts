@@ -0,0 +1,495 @@
+import {
+  IndexOutOfBoundsError,
+  InvalidArgumentError,
+  ShapeMismatchError,
+  UnsupportedOperandError,
+  describeOperand,
+} from '../errors';
+import { COOEntries } from '../interface';
+import { Matrix } from './matrix';
+import { Vector } from './vector';
+
+type SparseDotReturnType<T> =
+  T extends Vector ? Vector :
+  T extends Matrix ? Matrix : unknown;
+
+const invalidCSR = (message: string, argument: string) => (
+  new InvalidArgumentError('SPARSE', message, {
+    operation: 'SparseMatrix.constructor',
+    argument,
+  })
+);
+
+const rowOutOfBounds = (operation: string, idx: number, matrix: SparseMatrix) => (
+  new IndexOutOfBoundsError('ROW', `Row index out of bounds (row = ${idx}, rows = ${matrix.numRows}).`, {
+    operation,
+    index: [idx],
+    shape: [matrix.numRows, matrix.numCols],
+  })
+);
+
+const dimensionMismatch = (operation: string, a: SparseMatrix, b: Matrix) => (
+  new ShapeMismatchError('MATMUL', `Matrices must have consistent dimensions (a = [${a.numRows}, ${a.numCols}], b = [${b.numRows}, ${b.numCols}]).`, {
+    operation,
+    shapes: [[a.numRows, a.numCols], [b.numRows, b.numCols]],
+  })
+);
+
+/**
+ * Class for modelling sparse matrices
+ * @remarks
+ * The entries are stored in compressed sparse row (CSR) format:
+ * the non-zeros of row i are `values[k]` at column `columnIndices[k]`
+ * for `rowPointers[i] <= k < rowPointers[i + 1]`, sorted by column.
+ * Matrices in coordinate (COO) format are converted with `fromCOO`
+ * and `toCOO`, and dense matrices with `fromMatrix` and `toMatrix`.
+ * Products only visit the stored entries, so a sparse matrix can be
+ * the input of `DenseVectorLayer.batchForwardPass` and
+ * `batchBackwardPass`. The operations implemented include:
+ * 1. Multiplication by a dense vector or matrix
+ * 1. Multiplication of the transpose by a dense vector or matrix
+ * 1. Transposition
+ * 1. Multiplication by scalar
+ * 1. Row selection
+ */
+export class SparseMatrix {
+  /**
+   * @property {number} numRows - Number of rows in the matrix
+   * @property {number} numCols - Number of columns in the matrix
+   * @property {Int32Array} rowPointers - Offset of every row in the entries
+   * @property {Int32Array} columnIndices - Column of every entry
+   * @property {Float64Array} values - Value of every entry
+  */
+  numRows: number;
+  numCols: number;
+  rowPointers: Int32Array;
+  columnIndices: Int32Array;
+  values: Float64Array;
+
+  /**
+   * Constructor of the SparseMatrix
+   * @remarks
+   * The arrays are not copied. They are validated, so the columns
+   * of every row must be in bounds and strictly increasing
+   * @param {number} numRows - Number of rows
+   * @param {number} numCols - Number of columns
+   * @param {Int32Array} rowPointers - `numRows + 1` offsets, from 0 to the number of entries
+   * @param {Int32Array} columnIndices - Column of every entry
+   * @param {Float64Array} values - Value of every entry
+  */
+  constructor(
+    numRows: number,
+    numCols: number,
+    rowPointers: Int32Array,
+    columnIndices: Int32Array,
+    values: Float64Array,
+  ) {
+    if (!Number.isInteger(numRows) || numRows <= 0 || !Number.isInteger(numCols) || numCols <= 0) {
+      throw invalidCSR(`Dimensions must be positive integers (rows = ${numRows}, cols = ${numCols}).`, 'numRows');
+    }
+    const numEntries = values.length;
+    if (
+      rowPointers.length !== numRows + 1 ||
+      rowPointers[0] !== 0 ||
+      rowPointers[numRows] !== numEntries ||
+      columnIndices.length !== numEntries
+    ) {
+      throw invalidCSR(`Row pointers must go from 0 to the number of entries (rows = ${numRows}, pointers = ${rowPointers.length}, entries = ${numEntries}).`, 'rowPointers');
+    }
+    for (let i = 0; i < numRows; i++) {
+      if (rowPointers[i] > rowPointers[i + 1]) {
+        throw invalidCSR(`Row pointers must be non-decreasing (row = ${i}).`, 'rowPointers');
+      }
+      for (let k = rowPointers[i]; k < rowPointers[i + 1]; k++) {
+        const col = columnIndices[k];
+        if (col < 0 || col >= numCols || (k > rowPointers[i] && col <= columnIndices[k - 1])) {
+          throw invalidCSR(`Columns must be in bounds and increasing within a row (row = ${i}, col = ${col}, cols = ${numCols}).`, 'columnIndices');
+        }
+      }
+    }
+    this.numRows = numRows;
+    this.numCols = numCols;
+    this.rowPointers = rowPointers;
+    this.columnIndices = columnIndices;
+    this.values = values;
+  }
+
+  /**
+   * Build a sparse matrix from coordinate entries
+   * @remarks
+   * The entries are bucketed by row and sorted by column, and
+   * duplicated coordinates are summed
+   * @param {COOEntries} entries - Rows, columns and values of the entries
+   * @param {number} numRows - Number of rows
+   * @param {number} numCols - Number of columns
+   * @returns {SparseMatrix} Matrix in CSR format
+  */
+  static fromCOO(
+    { rows, columns, values }: COOEntries,
+    numRows: number,
+    numCols: number,
+  ): SparseMatrix {
+    if (rows.length !== values.length || columns.length !== values.length) {
+      throw new ShapeMismatchError('SPARSE', `Coordinates must have the same length (rows = ${rows.length}, cols = ${columns.length}, values = ${values.length}).`, {
+        operation: 'SparseMatrix.fromCOO',
+        shapes: [[rows.length], [columns.length], [values.length]],
+      });
+    }
+    const counts = new Int32Array(numRows + 1);
+    for (let k = 0; k < rows.length; k++) {
+      const row = rows[k];
+      const col = columns[k];
+      if (!Number.isInteger(row) || row < 0 || row >= numRows ||
+        !Number.isInteger(col) || col < 0 || col >= numCols) {
+        throw new IndexOutOfBoundsError('SPARSE', `Coordinate out of bounds (row = ${row}, col = ${col}, shape = [${numRows}, ${numCols}]).`, {
+          operation: 'SparseMatrix.fromCOO',
+          index: [row, col],
+          shape: [numRows, numCols],
+        });
+      }
+      counts[row + 1] += 1;
+    }
+    for (let i = 0; i < numRows; i++) {
+      counts[i + 1] += counts[i];
+    }
+    const order = new Int32Array(values.length);
+    const next = counts.slice(0, numRows);
+    for (let k = 0; k < rows.length; k++) {
+      order[next[rows[k]]++] = k;
+    }
+
+    const rowPointers = new Int32Array(numRows + 1);
+    const columnIndices: number[] = [];
+    const merged: number[] = [];
+    for (let i = 0; i < numRows; i++) {
+      const entries = Array.from(order.subarray(counts[i], counts[i + 1]))
+        .sort((a, b) => columns[a] - columns[b]);
+      entries.forEach((k) => {
+        const last = columnIndices.length - 1;
+        if (last >= rowPointers[i] && columnIndices[last] === columns[k]) {
+          merged[last] += values[k];
+        } else {
+          columnIndices.push(columns[k]);
+          merged.push(values[k]);
+        }
+      });
+      rowPointers[i + 1] = columnIndices.length;
+    }
+    return new SparseMatrix(
+      numRows,
+      numCols,
+      rowPointers,
+      Int32Array.from(columnIndices),
+      Float64Array.from(merged),
+    );
+  }
+
+  /**
+   * Build a sparse matrix from the non-zeros of a dense matrix
+   * @param {Matrix} matrix - Dense matrix
+   * @param {number} tolerance - Entries whose magnitude is at most the
+   * tolerance are dropped
+   * @returns {SparseMatrix} Matrix in CSR format
+  */
+  static fromMatrix(matrix: Matrix, tolerance = 0): SparseMatrix {
+    const { numRows, numCols, data } = matrix;
+    const rowPointers = new Int32Array(numRows + 1);
+    const columnIndices: number[] = [];
+    const values: number[] = [];
+    for (let i = 0; i < numRows; i++) {
+      for (let j = 0; j < numCols; j++) {
+        const value = data[i * numCols + j];
+        if (Math.abs(value) > tolerance) {
+          columnIndices.push(j);
+          values.push(value);
+        }
+      }
+      rowPointers[i + 1] = values.length;
+    }
+    return new SparseMatrix(
+      numRows,
+      numCols,
+      rowPointers,
+      Int32Array.from(columnIndices),
+      Float64Array.from(values),
+    );
+  }
+
+  /**
+   * Number of stored entries
+   * @returns {number} number of non-zeros
+  */
+  get nnz(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Fraction of the entries that are stored
+   * @returns {number} `nnz / (rows * cols)`
+  */
+  get density(): number {
+    return this.nnz / (this.numRows * this.numCols);
+  }
+
+  /**
+   * Coordinate representation of the matrix
+   * @returns {COOEntries} Entries sorted by row, then column
+  */
+  toCOO(): { rows: Int32Array; columns: Int32Array; values: Float64Array } {
+    const rows = new Int32Array(this.nnz);
+    for (let i = 0; i < this.numRows; i++) {
+      rows.fill(i, this.rowPointers[i], this.rowPointers[i + 1]);
+    }
+    return {
+      rows,
+      columns: this.columnIndices.slice(),
+      values: this.values.slice(),
+    };
+  }
+
+  /**
+   * Dense copy of the matrix
+   * @returns {Matrix} Matrix with the same entries
+  */
+  toMatrix(): Matrix {
+    const result = Matrix.zeros(this.numRows, this.numCols);
+    for (let i = 0; i < this.numRows; i++) {
+      for (let k = this.rowPointers[i]; k < this.rowPointers[i + 1]; k++) {
+        result.data[i * this.numCols + this.columnIndices[k]] = this.values[k];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Entry of the matrix
+   * @param {number} row - Row of the entry
+   * @param {number} col - Column of the entry
+   * @returns {number} The entry, 0 when it is not stored
+  */
+  get(row: number, col: number): number {
+    if (row < 0 || row >= this.numRows || col < 0 || col >= this.numCols) {
+      throw new IndexOutOfBoundsError('SPARSE', `Index out of bounds (row = ${row}, col = ${col}, shape = [${this.numRows}, ${this.numCols}]).`, {
+        operation: 'SparseMatrix.get',
+        index: [row, col],
+        shape: [this.numRows, this.numCols],
+      });
+    }
+    let low = this.rowPointers[row];
+    let high = this.rowPointers[row + 1] - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const current = this.columnIndices[mid];
+      if (current === col) {
+        return this.values[mid];
+      }
+      if (current < col) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Fetch a dense row by index
+   * @param {number} idx - index of row to fetch
+   * @returns {Vector} row vector
+  */
+  getRow(idx: number): Vector {
+    if (idx < 0 || idx >= this.numRows) {
+      throw rowOutOfBounds('SparseMatrix.getRow', idx, this);
+    }
+    const row = Vector.zeros(this.numCols);
+    for (let k = this.rowPointers[idx]; k < this.rowPointers[idx + 1]; k++) {
+      row[this.columnIndices[k]] = this.values[k];
+    }
+    return row;
+  }
+
+  /**
+   * Sparse matrix made of some of the rows
+   * @remarks
+   * Rows may be repeated, which makes it suitable for shuffled
+   * mini-batches
+   * @param {ArrayLike<number>} indices - Rows to keep, in order
+   * @returns {SparseMatrix} Matrix with one row per index
+  */
+  selectRows(indices: ArrayLike<number>): SparseMatrix {
+    const rowPointers = new Int32Array(indices.length + 1);
+    for (let i = 0; i < indices.length; i++) {
+      const idx = indices[i];
+      if (!Number.isInteger(idx) || idx < 0 || idx >= this.numRows) {
+        throw rowOutOfBounds('SparseMatrix.selectRows', idx, this);
+      }
+      rowPointers[i + 1] = rowPointers[i] + this.rowPointers[idx + 1] - this.rowPointers[idx];
+    }
+    const columnIndices = new Int32Array(rowPointers[indices.length]);
+    const values = new Float64Array(rowPointers[indices.length]);
+    for (let i = 0; i < indices.length; i++) {
+      const start = this.rowPointers[indices[i]];
+      const end = this.rowPointers[indices[i] + 1];
+      columnIndices.set(this.columnIndices.subarray(start, end), rowPointers[i]);
+      values.set(this.values.subarray(start, end), rowPointers[i]);
+    }
+    return new SparseMatrix(indices.length, this.numCols, rowPointers, columnIndices, values);
+  }
+
+  /**
+   * Transpose matrix
+   * @returns {SparseMatrix} The matrix transposed, in CSR format
+  */
+  transpose(): SparseMatrix {
+    const rowPointers = new Int32Array(this.numCols + 1);
+    for (let k = 0; k < this.nnz; k++) {
+      rowPointers[this.columnIndices[k] + 1] += 1;
+    }
+    for (let j = 0; j < this.numCols; j++) {
+      rowPointers[j + 1] += rowPointers[j];
+    }
+    const next = rowPointers.slice(0, this.numCols);
+    const columnIndices = new Int32Array(this.nnz);
+    const values = new Float64Array(this.nnz);
+    // Rows are visited in order, so the columns of the transpose stay sorted
+    for (let i = 0; i < this.numRows; i++) {
+      for (let k = this.rowPointers[i]; k < this.rowPointers[i + 1]; k++) {
+        const position = next[this.columnIndices[k]]++;
+        columnIndices[position] = i;
+        values[position] = this.values[k];
+      }
+    }
+    return new SparseMatrix(this.numCols, this.numRows, rowPointers, columnIndices, values);
+  }
+
+  /**
+   * Multiplication by scalar
+   * @param {number} b - scalar to multiply with
+   * @returns {SparseMatrix} Matrix with the same sparsity pattern
+  */
+  scale(b: number): SparseMatrix {
+    return new SparseMatrix(
+      this.numRows,
+      this.numCols,
+      this.rowPointers.slice(),
+      this.columnIndices.slice(),
+      this.values.map((value) => value * b),
+    );
+  }
+
+  /**
+   * Multiplication with a dense vector
+   * @param {Vector} b - The vector to multiply by right
+   * @returns {Vector} The result of multiplication
+  */
+  vectorDot(b: Vector): Vector {
+    if (this.numCols !== b.length) {
+      throw new ShapeMismatchError('VECMUL', `Vectors must have the same length (a = [${this.numCols}], b = [${b.length}]).`, {
+        operation: 'SparseMatrix.vectorDot',
+        shapes: [[this.numRows, this.numCols], [b.length]],
+      });
+    }
+    const result = Vector.allocate(this.numRows);
+    for (let i = 0; i < this.numRows; i++) {
+      let sum = 0;
+      for (let k = this.rowPointers[i]; k < this.rowPointers[i + 1]; k++) {
+        sum += this.values[k] * b[this.columnIndices[k]];
+      }
+      result[i] = sum;
+    }
+    return result;
+  }
+
+  /**
+   * Multiplication with a dense matrix
+   * @remarks
+   * Every stored entry scales a row of the dense matrix, which is
+   * traversed contiguously
+   * @param {Matrix} b - Matrix to multiply
+   * @returns {Matrix} The result of the multiplication
+  */
+  matrixDot(b: Matrix): Matrix {
+    if (this.numCols !== b.numRows) {
+      throw dimensionMismatch('SparseMatrix.matrixDot', this, b);
+    }
+    const cols = b.numCols;
+    const result = new Float64Array(this.numRows * cols);
+    for (let i = 0; i < this.numRows; i++) {
+      const offset = i * cols;
+      for (let k = this.rowPointers[i]; k < this.rowPointers[i + 1]; k++) {
+        const aik = this.values[k];
+        const other = this.columnIndices[k] * cols;
+        for (let j = 0; j < cols; j++) {
+          result[offset + j] += aik * b.data[other + j];
+        }
+      }
+    }
+    return Matrix.fromBuffer(result, this.numRows, cols);
+  }
+
+  /**
+   * Multiplication of the transpose with a dense vector or matrix
+   * @remarks
+   * Computes `A^T · b` without materializing the transpose, as needed
+   * for the weight gradients of a layer fed with sparse inputs
+   * @param {Vector | Matrix} b - Vector or matrix to multiply by right
+   * @returns {Vector | Matrix} The result of the product
+  */
+  transposedDot(b: Vector): Vector;
+  transposedDot(b: Matrix): Matrix;
+  transposedDot(b: Vector | Matrix): Vector | Matrix {
+    if (b instanceof Vector) {
+      if (this.numRows !== b.length) {
+        throw new ShapeMismatchError('VECMUL', `Vectors must have the same length (a = [${this.numRows}], b = [${b.length}]).`, {
+          operation: 'SparseMatrix.transposedDot',
+          shapes: [[this.numRows, this.numCols], [b.length]],
+        });
+      }
+      const result = Vector.allocate(this.numCols);
+      for (let i = 0; i < this.numRows; i++) {
+        for (let k = this.rowPointers[i]; k < this.rowPointers[i + 1]; k++) {
+          result[this.columnIndices[k]] += this.values[k] * b[i];
+        }
+      }
+      return result;
+    }
+    if (this.numRows !== b.numRows) {
+      throw dimensionMismatch('SparseMatrix.transposedDot', this, b);
+    }
+    const cols = b.numCols;
+    const result = new Float64Array(this.numCols * cols);
+    for (let i = 0; i < this.numRows; i++) {
+      const other = i * cols;
+      for (let k = this.rowPointers[i]; k < this.rowPointers[i + 1]; k++) {
+        const aki = this.values[k];
+        const offset = this.columnIndices[k] * cols;
+        for (let j = 0; j < cols; j++) {
+          result[offset + j] += aki * b.data[other + j];
+        }
+      }
+    }
+    return Matrix.fromBuffer(result, this.numCols, cols);
+  }
+
+  /**
+   * Generic dot operation (Multiplication)
+   * @remarks
+   * If the argument is vector, returns vector multiplication
+   * If the argument is matrix, returns matrix multiplication
+   * @param {T} b - object to multiply by right
+   * @param transpose - Whether to transpose the sparse matrix
+   * @returns {SparseDotReturnType<T>} The result of the multiplication
+  */
+  dot<T>(b: T, transpose = false): SparseDotReturnType<T> {
+    if (b instanceof Matrix) {
+      return (transpose ? this.transposedDot(b) : this.matrixDot(b)) as SparseDotReturnType<T>;
+    }
+    if (b instanceof Vector) {
+      return (transpose ? this.transposedDot(b) : this.vectorDot(b)) as SparseDotReturnType<T>;
+    }
+    throw new UnsupportedOperandError('MATMUL', 'Sparse matrices multiply Matrix or Vector only.', {
+      operation: 'SparseMatrix.dot',
+      operand: describeOperand(b),
+    });
+  }
+}
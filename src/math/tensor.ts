@@ -0,0 +1,885 @@
+import {
+  IndexOutOfBoundsError,
+  InvalidArgumentError,
+  ShapeMismatchError,
+} from '../errors';
+import { ActivationFunction, NestedArray, TensorSlice } from '../interface';
+import { Matrix } from './matrix';
+import { SeededRandom } from './random';
+import { Vector } from './vector';
+
+type BinaryFunction = (a: number, b: number) => number;
+type Reducer = (values: Float64Array, start: number, length: number) => number;
+
+/**
+ * Strided access to a buffer
+ * @property {number[]} strides - Step in the buffer along every axis
+ * @property {number} offset - Position of the first entry
+ */
+interface StridedView {
+  strides: number[];
+  offset: number;
+}
+
+const sizeOfShape = (shape: number[]): number => (
+  shape.reduce((size, dim) => size * dim, 1)
+);
+
+const contiguousStrides = (shape: number[]): number[] => {
+  const strides: number[] = [];
+  let stride = 1;
+  for (let axis = shape.length - 1; axis >= 0; axis--) {
+    strides[axis] = stride;
+    stride *= shape[axis];
+  }
+  return strides;
+};
+
+const validateShape = (shape: number[], operation: string) => {
+  if (shape.some((dim) => !Number.isInteger(dim) || dim <= 0)) {
+    throw new InvalidArgumentError('TENSOR', `Dimensions must be positive integers (shape = [${shape}]).`, {
+      operation,
+      argument: 'shape',
+    });
+  }
+};
+
+/**
+ * Visit every entry of a shape in row-major order
+ * @remarks
+ * The positions of every view are updated incrementally, so that
+ * strided (transposed, sliced, broadcast) views are traversed without
+ * computing a full offset per entry
+ * @param {number[]} shape - Shape to traverse
+ * @param {StridedView[]} views - Views to follow along the traversal
+ * @param {function} f - Receives the position in every view and the
+ * row-major index of the entry
+ */
+const traverse = (
+  shape: number[],
+  views: StridedView[],
+  f: (positions: number[], idx: number) => void,
+) => {
+  const size = sizeOfShape(shape);
+  const index = Array(shape.length).fill(0);
+  const positions = views.map(({ offset }) => offset);
+  for (let i = 0; i < size; i++) {
+    f(positions, i);
+    for (let axis = shape.length - 1; axis >= 0; axis--) {
+      index[axis] += 1;
+      views.forEach(({ strides }, v) => {
+        positions[v] += strides[axis];
+      });
+      if (index[axis] < shape[axis]) {
+        break;
+      }
+      views.forEach(({ strides }, v) => {
+        positions[v] -= strides[axis] * shape[axis];
+      });
+      index[axis] = 0;
+    }
+  }
+};
+
+/**
+ * Shape of the result of broadcasting two shapes
+ * @remarks
+ * Follows the NumPy rules: shapes are aligned on their last axis,
+ * and two dimensions are compatible when they are equal or one of
+ * them is 1
+ * @param {number[]} a - First shape
+ * @param {number[]} b - Second shape
+ * @returns {number[]} Broadcast shape
+ */
+export const broadcastShapes = (a: number[], b: number[]): number[] => {
+  const ndim = Math.max(a.length, b.length);
+  const shape: number[] = [];
+  for (let i = 0; i < ndim; i++) {
+    const dimA = a[a.length - ndim + i] ?? 1;
+    const dimB = b[b.length - ndim + i] ?? 1;
+    if (dimA !== dimB && dimA !== 1 && dimB !== 1) {
+      throw new ShapeMismatchError('BROADCAST', `Shapes cannot be broadcast together (a = [${a}], b = [${b}]).`, {
+        operation: 'broadcastShapes',
+        shapes: [a, b],
+      });
+    }
+    shape[i] = Math.max(dimA, dimB);
+  }
+  return shape;
+};
+
+/**
+ * Class for modelling N-dimensional arrays
+ * @remarks
+ * The entries live in a `Float64Array` buffer, and the tensor reads
+ * them through a shape, strides and an offset. Reshaping (of
+ * contiguous tensors), transposing, slicing and expanding are views
+ * that share the buffer, while the other operations return new
+ * contiguous tensors. The operations implemented include:
+ * 1. Element-wise arithmetic with NumPy-style broadcasting
+ * 1. Reductions (sum, mean, max, min, argmax) along any axis
+ * 1. Reshape, transpose over arbitrary axes, squeeze and expansion
+ * 1. Slicing, concatenation and stacking
+ * 1. Lossless conversion to and from `Matrix` and `Vector`
+ */
+export class Tensor {
+  /**
+   * @property {Float64Array} data - Buffer holding the entries
+   * @property {number[]} shape - Size of every axis
+   * @property {number[]} strides - Step in the buffer along every axis
+   * @property {number} offset - Position of the first entry in the buffer
+  */
+  data: Float64Array;
+  shape: number[];
+  strides: number[];
+  offset: number;
+
+  /**
+   * Constructor of the Tensor
+   * @param {Float64Array} data - Row-major entries (not copied)
+   * @param {number[]} shape - Size of every axis
+  */
+  constructor(data: Float64Array, shape: number[]) {
+    validateShape(shape, 'Tensor.constructor');
+    if (data.length !== sizeOfShape(shape)) {
+      throw new ShapeMismatchError('TENSOR', `Buffer must have one entry per element (shape = [${shape}], entries = ${data.length}).`, {
+        operation: 'Tensor.constructor',
+        shapes: [shape, [data.length]],
+      });
+    }
+    this.data = data;
+    this.shape = [...shape];
+    this.strides = contiguousStrides(shape);
+    this.offset = 0;
+  }
+
+  /**
+   * Build a view over an existing buffer
+   * @param {Float64Array} data - Buffer holding the entries
+   * @param {number[]} shape - Size of every axis
+   * @param {number[]} strides - Step in the buffer along every axis
+   * @param {number} offset - Position of the first entry
+   * @returns {Tensor} View sharing the buffer
+  */
+  private static view(
+    data: Float64Array,
+    shape: number[],
+    strides: number[],
+    offset: number,
+  ): Tensor {
+    const tensor: Tensor = Object.create(Tensor.prototype);
+    tensor.data = data;
+    tensor.shape = shape;
+    tensor.strides = strides;
+    tensor.offset = offset;
+    return tensor;
+  }
+
+  /**
+   * Build a tensor by copying nested arrays of numbers
+   * @param {NestedArray} values - Nested arrays with a regular shape
+   * @returns {Tensor} Tensor with the same entries
+  */
+  static fromArray(values: NestedArray): Tensor {
+    const shape: number[] = [];
+    let level: NestedArray = values;
+    while (Array.isArray(level)) {
+      shape.push(level.length);
+      level = level[0];
+    }
+    const data = new Float64Array(sizeOfShape(shape));
+    let idx = 0;
+    const irregular = () => new InvalidArgumentError('TENSOR', `Nested arrays must have a regular shape (shape = [${shape}]).`, {
+      operation: 'Tensor.fromArray',
+      argument: 'values',
+    });
+    const visit = (value: NestedArray, axis: number) => {
+      if (axis === shape.length) {
+        if (typeof value !== 'number') {
+          throw irregular();
+        }
+        data[idx++] = value;
+        return;
+      }
+      if (!Array.isArray(value) || value.length !== shape[axis]) {
+        throw irregular();
+      }
+      value.forEach((item) => visit(item, axis + 1));
+    };
+    visit(values, 0);
+    return new Tensor(data, shape);
+  }
+
+  /**
+   * Tensor filled with a value
+   * @param {number[]} shape - Size of every axis
+   * @param {number} value - Value of every entry
+   * @returns {Tensor} Constant tensor
+  */
+  static full(shape: number[], value: number): Tensor {
+    validateShape(shape, 'Tensor.full');
+    const data = new Float64Array(sizeOfShape(shape));
+    data.fill(value);
+    return new Tensor(data, shape);
+  }
+
+  /**
+   * Tensor of zeros
+   * @param {number[]} shape - Size of every axis
+   * @returns {Tensor} Tensor of zeros
+  */
+  static zeros(shape: number[]): Tensor {
+    return Tensor.full(shape, 0);
+  }
+
+  /**
+   * Tensor of ones
+   * @param {number[]} shape - Size of every axis
+   * @returns {Tensor} Tensor of ones
+  */
+  static ones(shape: number[]): Tensor {
+    return Tensor.full(shape, 1);
+  }
+
+  /**
+   * Tensor with uniform random entries in [min, max)
+   * @param {number[]} shape - Size of every axis
+   * @param {SeededRandom} rng - generator to draw from
+   * @param {number} min - lower bound
+   * @param {number} max - upper bound
+   * @returns {Tensor} random tensor
+  */
+  static random(
+    shape: number[],
+    rng: SeededRandom = new SeededRandom(),
+    min = 0,
+    max = 1,
+  ): Tensor {
+    const tensor = Tensor.zeros(shape);
+    for (let i = 0; i < tensor.data.length; i++) {
+      tensor.data[i] = rng.uniform(min, max);
+    }
+    return tensor;
+  }
+
+  /**
+   * Two-dimensional tensor with the entries of a matrix
+   * @param {Matrix} m - Matrix to copy
+   * @returns {Tensor} Tensor of shape [rows, columns]
+  */
+  static fromMatrix(m: Matrix): Tensor {
+    return new Tensor(Float64Array.from(m.data), [m.numRows, m.numCols]);
+  }
+
+  /**
+   * One-dimensional tensor with the components of a vector
+   * @param {Vector} v - Vector to copy
+   * @returns {Tensor} Tensor of shape [length]
+  */
+  static fromVector(v: Vector): Tensor {
+    return new Tensor(Float64Array.from(v), [v.length]);
+  }
+
+  /**
+   * Join tensors along an existing axis
+   * @param {Tensor[]} tensors - Tensors with the same shape except on the axis
+   * @param {number} axis - Axis to join along
+   * @returns {Tensor} Concatenated tensor
+  */
+  static concat(tensors: Tensor[], axis = 0): Tensor {
+    if (tensors.length === 0) {
+      throw new InvalidArgumentError('TENSOR', 'At least one tensor is needed to concatenate.', {
+        operation: 'Tensor.concat',
+        argument: 'tensors',
+      });
+    }
+    const [first] = tensors;
+    const ax = first.normalizeAxis(axis, 'Tensor.concat');
+    tensors.forEach(({ shape }) => {
+      if (shape.length !== first.ndim ||
+        shape.some((dim, i) => i !== ax && dim !== first.shape[i])) {
+        throw new ShapeMismatchError('TENSOR', `Tensors must have the same shape except on the concatenation axis (a = [${first.shape}], b = [${shape}]).`, {
+          operation: 'Tensor.concat',
+          shapes: [first.shape, shape],
+        });
+      }
+    });
+
+    const shape = [...first.shape];
+    shape[ax] = tensors.reduce((total, tensor) => total + tensor.shape[ax], 0);
+    const outer = sizeOfShape(first.shape.slice(0, ax));
+    const inner = sizeOfShape(first.shape.slice(ax + 1));
+    const blocks = tensors.map((tensor) => tensor.values());
+    const data = new Float64Array(sizeOfShape(shape));
+    let position = 0;
+    for (let o = 0; o < outer; o++) {
+      blocks.forEach((block, t) => {
+        const length = tensors[t].shape[ax] * inner;
+        data.set(block.subarray(o * length, (o + 1) * length), position);
+        position += length;
+      });
+    }
+    return new Tensor(data, shape);
+  }
+
+  /**
+   * Join tensors along a new axis
+   * @param {Tensor[]} tensors - Tensors with the same shape
+   * @param {number} axis - Position of the new axis
+   * @returns {Tensor} Stacked tensor
+  */
+  static stack(tensors: Tensor[], axis = 0): Tensor {
+    if (tensors.length === 0) {
+      throw new InvalidArgumentError('TENSOR', 'At least one tensor is needed to stack.', {
+        operation: 'Tensor.stack',
+        argument: 'tensors',
+      });
+    }
+    tensors.forEach(({ shape }) => {
+      if (shape.length !== tensors[0].ndim ||
+        shape.some((dim, i) => dim !== tensors[0].shape[i])) {
+        throw new ShapeMismatchError('TENSOR', `Tensors must have the same shape to be stacked (a = [${tensors[0].shape}], b = [${shape}]).`, {
+          operation: 'Tensor.stack',
+          shapes: [tensors[0].shape, shape],
+        });
+      }
+    });
+    return Tensor.concat(tensors.map((tensor) => tensor.expandDims(axis)), axis);
+  }
+
+  /**
+   * Number of axes
+   * @returns {number} length of the shape
+  */
+  get ndim(): number {
+    return this.shape.length;
+  }
+
+  /**
+   * Number of entries
+   * @returns {number} product of the dimensions
+  */
+  get size(): number {
+    return sizeOfShape(this.shape);
+  }
+
+  /**
+   * Resolve a possibly negative axis
+   * @param {number} axis - Axis, counted from the end when negative
+   * @param {string} operation - Public operation, for the errors
+   * @param {number} ndim - Number of axes it refers to
+   * @returns {number} Axis in [0, ndim)
+  */
+  private normalizeAxis(axis: number, operation: string, ndim = this.ndim): number {
+    const ax = axis < 0 ? axis + ndim : axis;
+    if (!Number.isInteger(ax) || ax < 0 || ax >= ndim) {
+      throw new InvalidArgumentError('TENSOR', `Axis out of bounds (axis = ${axis}, ndim = ${ndim}).`, {
+        operation,
+        argument: 'axis',
+      });
+    }
+    return ax;
+  }
+
+  /**
+   * Position of an entry in the buffer
+   * @param {number[]} indices - Index along every axis
+   * @param {string} operation - Public operation, for the errors
+   * @returns {number} position in the buffer
+  */
+  private position(indices: number[], operation: string): number {
+    if (indices.length !== this.ndim) {
+      throw new InvalidArgumentError('TENSOR', `One index is needed per axis (indices = ${indices.length}, ndim = ${this.ndim}).`, {
+        operation,
+        argument: 'indices',
+      });
+    }
+    let position = this.offset;
+    indices.forEach((idx, axis) => {
+      if (!Number.isInteger(idx) || idx < 0 || idx >= this.shape[axis]) {
+        throw new IndexOutOfBoundsError('TENSOR', `Index out of bounds (axis = ${axis}, index = ${idx}, dim = ${this.shape[axis]}).`, {
+          operation,
+          index: indices,
+          shape: this.shape,
+        });
+      }
+      position += idx * this.strides[axis];
+    });
+    return position;
+  }
+
+  /**
+   * Fetch an entry
+   * @param {number[]} indices - Index along every axis
+   * @returns {number} The entry
+  */
+  get(indices: number[]): number {
+    return this.data[this.position(indices, 'Tensor.get')];
+  }
+
+  /**
+   * Update an entry
+   * @param {number[]} indices - Index along every axis
+   * @param {number} value - New value of the entry
+  */
+  set(indices: number[], value: number) {
+    this.data[this.position(indices, 'Tensor.set')] = value;
+  }
+
+  /**
+   * Whether the entries are stored row-major without gaps
+   * @returns {boolean} true when the tensor can be reshaped as a view
+  */
+  isContiguous(): boolean {
+    const strides = contiguousStrides(this.shape);
+    return this.shape.every((dim, axis) => dim === 1 || this.strides[axis] === strides[axis]);
+  }
+
+  /**
+   * Copy the entries in row-major order
+   * @returns {Float64Array} contiguous entries
+  */
+  values(): Float64Array {
+    if (this.isContiguous()) {
+      return this.data.slice(this.offset, this.offset + this.size);
+    }
+    const result = new Float64Array(this.size);
+    traverse(this.shape, [this], ([position], idx) => {
+      result[idx] = this.data[position];
+    });
+    return result;
+  }
+
+  /**
+   * Contiguous copy of the tensor
+   * @returns {Tensor} tensor owning its buffer
+  */
+  clone(): Tensor {
+    return new Tensor(this.values(), this.shape);
+  }
+
+  /**
+   * Copy the entries into nested arrays
+   * @returns {NestedArray} nested arrays (a number for 0-d tensors)
+  */
+  toArray(): NestedArray {
+    const values = this.values();
+    const build = (axis: number, start: number): NestedArray => {
+      if (axis === this.ndim) {
+        return values[start];
+      }
+      const step = sizeOfShape(this.shape.slice(axis + 1));
+      const result: NestedArray[] = [];
+      for (let i = 0; i < this.shape[axis]; i++) {
+        result[i] = build(axis + 1, start + i * step);
+      }
+      return result;
+    };
+    return build(0, 0);
+  }
+
+  /**
+   * Matrix with the entries of a two-dimensional tensor
+   * @returns {Matrix} Matrix of shape [rows, columns]
+  */
+  toMatrix(): Matrix {
+    if (this.ndim !== 2) {
+      throw new ShapeMismatchError('TENSOR', `Only two-dimensional tensors convert to matrices (shape = [${this.shape}]).`, {
+        operation: 'Tensor.toMatrix',
+        shapes: [this.shape],
+      });
+    }
+    return Matrix.fromBuffer(this.values(), this.shape[0], this.shape[1]);
+  }
+
+  /**
+   * Vector with the entries of a one-dimensional tensor
+   * @returns {Vector} Vector of the same length
+  */
+  toVector(): Vector {
+    if (this.ndim !== 1) {
+      throw new ShapeMismatchError('TENSOR', `Only one-dimensional tensors convert to vectors (shape = [${this.shape}]).`, {
+        operation: 'Tensor.toVector',
+        shapes: [this.shape],
+      });
+    }
+    return Vector.fromArray(this.values());
+  }
+
+  /**
+   * Same entries with another shape
+   * @remarks
+   * One dimension may be -1, and is then inferred. Contiguous
+   * tensors are reshaped as views, the others are copied first
+   * @param {number[]} shape - New shape
+   * @returns {Tensor} Reshaped tensor
+  */
+  reshape(shape: number[]): Tensor {
+    const inferred = shape.indexOf(-1);
+    const resolved = [...shape];
+    if (inferred !== -1) {
+      const known = sizeOfShape(shape.filter((_, axis) => axis !== inferred));
+      resolved[inferred] = this.size / known;
+    }
+    validateShape(resolved, 'Tensor.reshape');
+    if (sizeOfShape(resolved) !== this.size) {
+      throw new ShapeMismatchError('TENSOR', `Cannot reshape without changing the number of entries (shape = [${this.shape}], new shape = [${shape}]).`, {
+        operation: 'Tensor.reshape',
+        shapes: [this.shape, shape],
+      });
+    }
+    const source = this.isContiguous() ? this : this.clone();
+    return Tensor.view(source.data, resolved, contiguousStrides(resolved), source.offset);
+  }
+
+  /**
+   * Permute the axes
+   * @param {number[]} axes - New order of the axes (reversed by default)
+   * @returns {Tensor} View with permuted axes
+  */
+  transpose(axes?: number[]): Tensor {
+    const order = axes ?? this.shape.map((_, axis) => this.ndim - 1 - axis);
+    const normalized = order.map((axis) => this.normalizeAxis(axis, 'Tensor.transpose'));
+    if (normalized.length !== this.ndim ||
+      new Set(normalized).size !== this.ndim) {
+      throw new InvalidArgumentError('TENSOR', `Axes must be a permutation of the tensor axes (axes = [${order}], ndim = ${this.ndim}).`, {
+        operation: 'Tensor.transpose',
+        argument: 'axes',
+      });
+    }
+    return Tensor.view(
+      this.data,
+      normalized.map((axis) => this.shape[axis]),
+      normalized.map((axis) => this.strides[axis]),
+      this.offset,
+    );
+  }
+
+  /**
+   * Insert an axis of size 1
+   * @param {number} axis - Position of the new axis
+   * @returns {Tensor} View with one more axis
+  */
+  expandDims(axis: number): Tensor {
+    const ax = this.normalizeAxis(axis, 'Tensor.expandDims', this.ndim + 1);
+    const shape = [...this.shape];
+    const strides = [...this.strides];
+    shape.splice(ax, 0, 1);
+    strides.splice(ax, 0, 0);
+    return Tensor.view(this.data, shape, strides, this.offset);
+  }
+
+  /**
+   * Remove axes of size 1
+   * @param {number} axis - Axis to remove (every axis of size 1 by default)
+   * @returns {Tensor} View with fewer axes
+  */
+  squeeze(axis?: number): Tensor {
+    let keep = this.shape.map((dim) => dim !== 1);
+    if (axis !== undefined) {
+      const ax = this.normalizeAxis(axis, 'Tensor.squeeze');
+      if (this.shape[ax] !== 1) {
+        throw new InvalidArgumentError('TENSOR', `Only axes of size 1 can be squeezed (axis = ${axis}, dim = ${this.shape[ax]}).`, {
+          operation: 'Tensor.squeeze',
+          argument: 'axis',
+        });
+      }
+      keep = this.shape.map((_, i) => i !== ax);
+    }
+    return Tensor.view(
+      this.data,
+      this.shape.filter((_, i) => keep[i]),
+      this.strides.filter((_, i) => keep[i]),
+      this.offset,
+    );
+  }
+
+  /**
+   * Select a sub-tensor
+   * @remarks
+   * One selection per leading axis, the remaining axes are kept
+   * whole. For instance `t.slice(0, [1, 3], null)` picks the first
+   * entry of axis 0 and the entries 1 and 2 of axis 1
+   * @param {TensorSlice[]} selections - Selection of every leading axis
+   * @returns {Tensor} View of the selected entries
+  */
+  slice(...selections: TensorSlice[]): Tensor {
+    if (selections.length > this.ndim) {
+      throw new InvalidArgumentError('TENSOR', `Too many selections for the tensor (selections = ${selections.length}, ndim = ${this.ndim}).`, {
+        operation: 'Tensor.slice',
+        argument: 'selections',
+      });
+    }
+    const shape: number[] = [];
+    const strides: number[] = [];
+    let { offset } = this;
+    this.shape.forEach((dim, axis) => {
+      const selection = selections[axis] ?? null;
+      const stride = this.strides[axis];
+      if (typeof selection === 'number') {
+        const idx = selection < 0 ? selection + dim : selection;
+        if (!Number.isInteger(idx) || idx < 0 || idx >= dim) {
+          throw new IndexOutOfBoundsError('TENSOR', `Index out of bounds (axis = ${axis}, index = ${selection}, dim = ${dim}).`, {
+            operation: 'Tensor.slice',
+            index: [selection],
+            shape: [dim],
+          });
+        }
+        offset += idx * stride;
+        return;
+      }
+      const [start = 0, end = dim, step = 1] = selection ?? [];
+      if (!Number.isInteger(step) || step <= 0) {
+        throw new InvalidArgumentError('TENSOR', `Slice step must be a positive integer (step = ${step}).`, {
+          operation: 'Tensor.slice',
+          argument: 'selections',
+        });
+      }
+      const clamp = (bound: number) => Math.min(Math.max(bound < 0 ? bound + dim : bound, 0), dim);
+      const from = clamp(start);
+      const length = Math.ceil((clamp(end) - from) / step);
+      if (length <= 0) {
+        throw new InvalidArgumentError('TENSOR', `Slice must select at least one entry (axis = ${axis}, start = ${start}, end = ${end}).`, {
+          operation: 'Tensor.slice',
+          argument: 'selections',
+        });
+      }
+      offset += from * stride;
+      shape.push(length);
+      strides.push(stride * step);
+    });
+    return Tensor.view(this.data, shape, strides, offset);
+  }
+
+  /**
+   * Vectorized operation
+   * @param {function (number): number} f - Callback applied to every entry
+   * @returns {Tensor} New tensor with the results
+  */
+  apply(f: ActivationFunction): Tensor {
+    const values = this.values();
+    for (let i = 0; i < values.length; i++) {
+      values[i] = f(values[i]);
+    }
+    return new Tensor(values, this.shape);
+  }
+
+  /**
+   * Element-wise combination with broadcasting
+   * @param {Tensor | number} other - Second operand
+   * @param {function (number, number): number} f - Combination of two entries
+   * @returns {Tensor} New tensor with the broadcast shape
+  */
+  combine(other: Tensor | number, f: BinaryFunction): Tensor {
+    const b = typeof other === 'number' ? Tensor.full([], other) : other;
+    const shape = broadcastShapes(this.shape, b.shape);
+    const result = new Float64Array(sizeOfShape(shape));
+    traverse(
+      shape,
+      [this.broadcastView(shape), b.broadcastView(shape)],
+      ([i, j], idx) => {
+        result[idx] = f(this.data[i], b.data[j]);
+      },
+    );
+    return new Tensor(result, shape);
+  }
+
+  /**
+   * Strides reading the tensor as if it had a broadcast shape
+   * @param {number[]} shape - Broadcast shape
+   * @returns {StridedView} Strides (0 along broadcast axes) and offset
+  */
+  private broadcastView(shape: number[]): StridedView {
+    const lead = shape.length - this.ndim;
+    return {
+      strides: shape.map((dim, axis) => {
+        if (axis < lead || this.shape[axis - lead] !== dim) {
+          return 0;
+        }
+        return this.strides[axis - lead];
+      }),
+      offset: this.offset,
+    };
+  }
+
+  /**
+   * Read the tensor with a broadcast shape
+   * @param {number[]} shape - Shape compatible with the tensor
+   * @returns {Tensor} View repeating entries along broadcast axes
+  */
+  broadcastTo(shape: number[]): Tensor {
+    const target = broadcastShapes(this.shape, shape);
+    if (target.length !== shape.length || target.some((dim, i) => dim !== shape[i])) {
+      throw new ShapeMismatchError('BROADCAST', `Tensor cannot be broadcast to the shape (shape = [${this.shape}], target = [${shape}]).`, {
+        operation: 'Tensor.broadcastTo',
+        shapes: [this.shape, shape],
+      });
+    }
+    const { strides, offset } = this.broadcastView(target);
+    return Tensor.view(this.data, target, strides, offset);
+  }
+
+  /**
+   * Element-wise addition with broadcasting
+   * @param {Tensor | number} other - Tensor or scalar to add
+   * @returns {Tensor} The sum
+  */
+  add(other: Tensor | number): Tensor {
+    return this.combine(other, (a, b) => a + b);
+  }
+
+  /**
+   * Element-wise subtraction with broadcasting
+   * @param {Tensor | number} other - Tensor or scalar to subtract
+   * @returns {Tensor} The difference
+  */
+  subtract(other: Tensor | number): Tensor {
+    return this.combine(other, (a, b) => a - b);
+  }
+
+  /**
+   * Element-wise multiplication with broadcasting
+   * @param {Tensor | number} other - Tensor or scalar to multiply by
+   * @returns {Tensor} The product
+  */
+  multiply(other: Tensor | number): Tensor {
+    return this.combine(other, (a, b) => a * b);
+  }
+
+  /**
+   * Element-wise division with broadcasting
+   * @param {Tensor | number} other - Tensor or scalar to divide by
+   * @returns {Tensor} The quotient
+  */
+  divide(other: Tensor | number): Tensor {
+    return this.combine(other, (a, b) => a / b);
+  }
+
+  /**
+   * Reduce the entries along an axis, or all of them
+   * @param {Reducer} reducer - Reduction of a contiguous run of entries
+   * @param {number} axis - Axis to reduce (every entry when omitted)
+   * @param {boolean} keepDims - Whether to keep the axis with size 1
+   * @param {string} operation - Public operation, for the errors
+   * @returns {Tensor | number} Reduced tensor, or a number
+  */
+  private reduce(
+    reducer: Reducer,
+    axis: number | undefined,
+    keepDims: boolean,
+    operation: string,
+  ): Tensor | number {
+    if (axis === undefined) {
+      const values = this.values();
+      return reducer(values, 0, values.length);
+    }
+    const ax = this.normalizeAxis(axis, operation);
+    const order = this.shape.map((_, i) => i).filter((i) => i !== ax);
+    const moved = this.transpose([...order, ax]).values();
+    const length = this.shape[ax];
+    const shape = order.map((i) => this.shape[i]);
+    const result = new Float64Array(sizeOfShape(shape));
+    for (let i = 0; i < result.length; i++) {
+      result[i] = reducer(moved, i * length, length);
+    }
+    if (keepDims) {
+      shape.splice(ax, 0, 1);
+    }
+    return new Tensor(result, shape);
+  }
+
+  /**
+   * Sum of the entries
+   * @param {number} axis - Axis to reduce (every entry when omitted)
+   * @param {boolean} keepDims - Whether to keep the axis with size 1
+   * @returns {Tensor | number} Sums along the axis, or the total sum
+  */
+  sum(): number;
+  sum(axis: number, keepDims?: boolean): Tensor;
+  sum(axis?: number, keepDims = false): Tensor | number {
+    return this.reduce((values, start, length) => {
+      let total = 0;
+      for (let i = start; i < start + length; i++) {
+        total += values[i];
+      }
+      return total;
+    }, axis, keepDims, 'Tensor.sum');
+  }
+
+  /**
+   * Mean of the entries
+   * @param {number} axis - Axis to reduce (every entry when omitted)
+   * @param {boolean} keepDims - Whether to keep the axis with size 1
+   * @returns {Tensor | number} Means along the axis, or the total mean
+  */
+  mean(): number;
+  mean(axis: number, keepDims?: boolean): Tensor;
+  mean(axis?: number, keepDims = false): Tensor | number {
+    return this.reduce((values, start, length) => {
+      let total = 0;
+      for (let i = start; i < start + length; i++) {
+        total += values[i];
+      }
+      return total / length;
+    }, axis, keepDims, 'Tensor.mean');
+  }
+
+  /**
+   * Maximum of the entries
+   * @param {number} axis - Axis to reduce (every entry when omitted)
+   * @param {boolean} keepDims - Whether to keep the axis with size 1
+   * @returns {Tensor | number} Maxima along the axis, or the maximum
+  */
+  max(): number;
+  max(axis: number, keepDims?: boolean): Tensor;
+  max(axis?: number, keepDims = false): Tensor | number {
+    return this.reduce((values, start, length) => {
+      let best = -Infinity;
+      for (let i = start; i < start + length; i++) {
+        best = Math.max(best, values[i]);
+      }
+      return best;
+    }, axis, keepDims, 'Tensor.max');
+  }
+
+  /**
+   * Minimum of the entries
+   * @param {number} axis - Axis to reduce (every entry when omitted)
+   * @param {boolean} keepDims - Whether to keep the axis with size 1
+   * @returns {Tensor | number} Minima along the axis, or the minimum
+  */
+  min(): number;
+  min(axis: number, keepDims?: boolean): Tensor;
+  min(axis?: number, keepDims = false): Tensor | number {
+    return this.reduce((values, start, length) => {
+      let best = Infinity;
+      for (let i = start; i < start + length; i++) {
+        best = Math.min(best, values[i]);
+      }
+      return best;
+    }, axis, keepDims, 'Tensor.min');
+  }
+
+  /**
+   * Index of the maximum
+   * @remarks
+   * Ties resolve to the first index. Without an axis, the index is
+   * the row-major position in the whole tensor
+   * @param {number} axis - Axis to reduce (every entry when omitted)
+   * @param {boolean} keepDims - Whether to keep the axis with size 1
+   * @returns {Tensor | number} Indices along the axis, or the flat index
+  */
+  argmax(): number;
+  argmax(axis: number, keepDims?: boolean): Tensor;
+  argmax(axis?: number, keepDims = false): Tensor | number {
+    return this.reduce((values, start, length) => {
+      let best = 0;
+      for (let i = 1; i < length; i++) {
+        if (values[start + i] > values[start + best]) {
+          best = i;
+        }
+      }
+      return best;
+    }, axis, keepDims, 'Tensor.argmax');
+  }
+}
@@ -1,23 +1,133 @@
-import { ActivationFunction } from '../interface';
+import { ShapeMismatchError, UnsupportedOperandError, describeOperand } from '../errors';
+import { ActivationFunction, ErrorCode } from '../interface';
 import { Matrix } from './matrix';
+import { SeededRandom } from './random';
 
-type NumberMatrix = Array<Array<number>>;
 type DotReturnType<T> =
   T extends Vector ? number :
   T extends number ? Vector : unknown;
 
+const lengthMismatch = (code: ErrorCode, operation: string, a: number, b: number) => (
+  new ShapeMismatchError(code, `Vectors must have the same length (a = ${a}, b = ${b}).`, {
+    operation,
+    shapes: [[a], [b]],
+  })
+);
+
 /**
  * Class for modelling Vector elementary
  * operations
  * @remarks
+ * The components are stored in a contiguous `Float64Array`.
  * The operations implemented include
  * 1. addition of vectors
  * 1. dot product
  * 1. multiplication by scalar
  * 1. outer product
  * 1. Euclidean norm
+ * 1. in-place addition and scaling
+ * 1. subtraction and element-wise division
+ * 1. sum, mean, extrema and argmax
 */
-export class Vector extends Array<number> {
+export class Vector extends Float64Array {
+  /**
+   * Constructor of the Vector
+   * @remarks
+   * The components are copied instead of forwarded to the typed
+   * array constructor, because `Float64Array(n)` with a single
+   * numeric argument allocates `n` zeros instead of a one-component
+   * vector. Large vectors should be built with `Vector.fromArray`,
+   * which does not spread its argument
+   * @param {number[]} components - The components of the vector
+  */
+  constructor(...components: number[]) {
+    super(components.length);
+    this.set(components);
+  }
+
+  /**
+   * Derived arrays (map, filter, subarray) are plain typed arrays
+  */
+  static get [Symbol.species](): Float64ArrayConstructor {
+    return Float64Array;
+  }
+
+  /**
+   * Build a vector by copying an array-like of numbers
+   * @param {ArrayLike<number>} values - components of the vector
+   * @returns {Vector} vector with the same components
+  */
+  static fromArray(values: ArrayLike<number>): Vector {
+    const result = Vector.allocate(values.length);
+    result.set(values);
+    return result;
+  }
+
+  /**
+   * Build a vector of zeros without spreading
+   * @param {number} size - number of components
+   * @returns {Vector} vector of zeros
+  */
+  static allocate(size: number): Vector {
+    return Reflect.construct(Float64Array, [size], Vector) as Vector;
+  }
+
+  /**
+   * Vector of zeros
+   * @param {number} size - number of components
+   * @returns {Vector} vector of zeros
+  */
+  static zeros(size: number): Vector {
+    return Vector.allocate(size);
+  }
+
+  /**
+   * Vector of ones
+   * @param {number} size - number of components
+   * @returns {Vector} vector of ones
+  */
+  static ones(size: number): Vector {
+    const result = Vector.allocate(size);
+    result.fill(1);
+    return result;
+  }
+
+  /**
+   * Vector with uniform random components in [min, max)
+   * @param {number} size - number of components
+   * @param {SeededRandom} rng - generator to draw from
+   * @param {number} min - lower bound
+   * @param {number} max - upper bound
+   * @returns {Vector} random vector
+  */
+  static random(
+    size: number,
+    rng: SeededRandom = new SeededRandom(),
+    min = 0,
+    max = 1,
+  ): Vector {
+    const result = Vector.allocate(size);
+    for (let i = 0; i < size; i++) {
+      result[i] = rng.uniform(min, max);
+    }
+    return result;
+  }
+
+  /**
+   * Join vectors end to end
+   * @param {Vector[]} vectors - Vectors to join
+   * @returns {Vector} vector with the components of every vector
+  */
+  static concat(...vectors: ArrayLike<number>[]): Vector {
+    const result = Vector.allocate(vectors.reduce((total, v) => total + v.length, 0));
+    let offset = 0;
+    vectors.forEach((v) => {
+      result.set(v, offset);
+      offset += v.length;
+    });
+    return result;
+  }
+
   /**
    * Dot product of two vectors
    * @param {Vector} b - Vector for dot product
@@ -25,7 +135,7 @@ export class Vector extends Array<number> {
    */
   vectorDot(b: Vector): number {
     if (this.length !== b.length) {
-      throw new Error(`[VECMUL] Vectors must have the same length (a = ${this.length}, b = ${b.length})`);
+      throw lengthMismatch('VECMUL', 'Vector.vectorDot', this.length, b.length);
     }
     let sum = 0;
     for (let i = 0; i < this.length; i++) {
@@ -44,14 +154,14 @@ export class Vector extends Array<number> {
    * @returns {Matrix} Matrix with products of elements
    */
   outerDot(b: Vector): Matrix {
-    const result: NumberMatrix = [];
+    const result = new Float64Array(this.length * b.length);
     for (let i = 0; i < this.length; i++) {
-      result[i] = [];
+      const offset = i * b.length;
       for (let j = 0; j < b.length; j++) {
-        result[i][j] = this[i] * b[j];
+        result[offset + j] = this[i] * b[j];
       }
     }
-    return new Matrix(...result);
+    return Matrix.fromBuffer(result, this.length, b.length);
   }
 
   /**
@@ -60,11 +170,11 @@ export class Vector extends Array<number> {
    * @returns {Vector} Vector multiplied by scalar
   */
   numberDot(b: number): Vector {
-    const prod: number[] = [];
+    const prod = Vector.allocate(this.length);
     for (let i = 0; i < this.length; i++) {
       prod[i] = this[i] * b;
     }
-    return new Vector(...prod);
+    return prod;
   }
 
   /**
@@ -82,7 +192,10 @@ export class Vector extends Array<number> {
     if (typeof b === 'number') {
       return this.numberDot(b) as DotReturnType<T>;
     }
-    throw new Error('[VECMUL] Input must be vectors or numbers');
+    throw new UnsupportedOperandError('VECMUL', 'Input must be vectors or numbers.', {
+      operation: 'Vector.dot',
+      operand: describeOperand(b),
+    });
   }
 
   /**
@@ -92,13 +205,13 @@ export class Vector extends Array<number> {
   */
   directDot(b: Vector): Vector {
     if (b.length !== this.length) {
-      throw new Error(`[VECMUL] Vectors must have the same length (a = ${this.length}, b = ${b.length})`);
+      throw lengthMismatch('VECMUL', 'Vector.directDot', this.length, b.length);
     }
-    const result: number[] = [];
+    const result = Vector.allocate(this.length);
     for (let i = 0; i < this.length; i++) {
       result[i] = b[i] * this[i];
     }
-    return new Vector(...result);
+    return result;
   }
 
   /**
@@ -108,13 +221,74 @@ export class Vector extends Array<number> {
   */
   add(b: Vector): Vector {
     if (this.length !== b.length) {
-      throw new Error(`[VECADD] Vectors must have the same length (a = ${this.length}, b = ${b.length})`);
+      throw lengthMismatch('VECADD', 'Vector.add', this.length, b.length);
     }
-    const sum: number[] = [];
+    const sum = Vector.allocate(this.length);
     for (let i = 0; i < this.length; i++) {
       sum[i] = this[i] + b[i];
     }
-    return new Vector(...sum);
+    return sum;
+  }
+
+  /**
+   * Vector subtraction
+   * @param {Vector} b - Vector to subtract
+   * @returns {Vector} result of vector subtraction
+  */
+  subtract(b: Vector): Vector {
+    if (this.length !== b.length) {
+      throw lengthMismatch('VECADD', 'Vector.subtract', this.length, b.length);
+    }
+    const difference = Vector.allocate(this.length);
+    for (let i = 0; i < this.length; i++) {
+      difference[i] = this[i] - b[i];
+    }
+    return difference;
+  }
+
+  /**
+   * Element-wise division of two vectors
+   * @param {Vector} b - Vector to divide by
+   * @returns {Vector} The element-wise quotient
+  */
+  divide(b: Vector): Vector {
+    if (b.length !== this.length) {
+      throw lengthMismatch('VECMUL', 'Vector.divide', this.length, b.length);
+    }
+    const result = Vector.allocate(this.length);
+    for (let i = 0; i < this.length; i++) {
+      result[i] = this[i] / b[i];
+    }
+    return result;
+  }
+
+  /**
+   * In-place vector addition
+   * @remarks
+   * Avoids allocating a new vector, e.g. in training loops
+   * @param {Vector} b - Vector to add to this one
+   * @returns {Vector} this vector, after the addition
+  */
+  addInPlace(b: Vector): Vector {
+    if (this.length !== b.length) {
+      throw lengthMismatch('VECADD', 'Vector.addInPlace', this.length, b.length);
+    }
+    for (let i = 0; i < this.length; i++) {
+      this[i] += b[i];
+    }
+    return this;
+  }
+
+  /**
+   * In-place multiplication by scalar
+   * @param {number} b - Scalar for product
+   * @returns {Vector} this vector, after the product
+  */
+  scaleInPlace(b: number): Vector {
+    for (let i = 0; i < this.length; i++) {
+      this[i] *= b;
+    }
+    return this;
   }
 
   /**
@@ -129,16 +303,72 @@ export class Vector extends Array<number> {
     return Math.sqrt(sum);
   }
 
+  /**
+   * Sum of the components
+   * @returns {number} sum
+  */
+  sum(): number {
+    let total = 0;
+    for (let i = 0; i < this.length; i++) {
+      total += this[i];
+    }
+    return total;
+  }
+
+  /**
+   * Mean of the components
+   * @returns {number} mean
+  */
+  mean(): number {
+    return this.sum() / this.length;
+  }
+
+  /**
+   * Largest component
+   * @returns {number} maximum
+  */
+  max(): number {
+    return this[this.argmax()];
+  }
+
+  /**
+   * Smallest component
+   * @returns {number} minimum
+  */
+  min(): number {
+    let best = Infinity;
+    for (let i = 0; i < this.length; i++) {
+      best = Math.min(best, this[i]);
+    }
+    return best;
+  }
+
+  /**
+   * Index of the largest component
+   * @remarks
+   * Ties resolve to the first index
+   * @returns {number} index of the maximum
+  */
+  argmax(): number {
+    let best = 0;
+    for (let i = 1; i < this.length; i++) {
+      if (this[i] > this[best]) {
+        best = i;
+      }
+    }
+    return best;
+  }
+
   /**
    * Vectorized operator
    * @param {ActivationFunction} Function to map over the vector
    * @returns {Vector} vector after element-wise application of function
   */
   apply(f: ActivationFunction): Vector {
-    const v: Array<number> = [];
+    const v = Vector.allocate(this.length);
     for (let i = 0; i < this.length; i++) {
       v[i] = f(this[i]);
     }
-    return new Vector(...v);
+    return v;
   }
 }
\ No newline at end of file
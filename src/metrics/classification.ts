@@ -0,0 +1,407 @@
+import {
+  IndexOutOfBoundsError,
+  InvalidArgumentError,
+  ShapeMismatchError,
+} from '../errors';
+import { MetricAverage, MetricInput } from '../interface';
+import { Matrix, Vector } from '../math';
+
+const EPSILON = 1e-15;
+
+/**
+ * Per-class scores of a classifier
+ * @property {Vector} precision - Precision of every class
+ * @property {Vector} recall - Recall of every class
+ * @property {Vector} f1 - F1 score of every class
+ * @property {Vector} support - Number of samples of every class
+ */
+export interface ClassScores {
+  precision: Vector;
+  recall: Vector;
+  f1: Vector;
+  support: Vector;
+}
+
+/**
+ * Points of a ROC curve, by decreasing threshold
+ * @property {Vector} falsePositiveRates - x coordinates of the curve
+ * @property {Vector} truePositiveRates - y coordinates of the curve
+ * @property {Vector} thresholds - Score threshold of every point
+ */
+export interface RocCurve {
+  falsePositiveRates: Vector;
+  truePositiveRates: Vector;
+  thresholds: Vector;
+}
+
+const numSamples = (x: MetricInput): number => {
+  return x instanceof Matrix ? x.numRows : x.length;
+};
+
+const numColumns = (x: MetricInput): number => {
+  return x instanceof Matrix ? x.numCols : 1;
+};
+
+const validateSamples = (predictions: MetricInput, targets: MetricInput, operation: string) => {
+  const p = numSamples(predictions);
+  const t = numSamples(targets);
+  if (p !== t) {
+    throw new ShapeMismatchError('METRIC', `Predictions and targets must have the same number of samples (predictions = ${p}, targets = ${t}).`, {
+      operation,
+      shapes: [[p, numColumns(predictions)], [t, numColumns(targets)]],
+    });
+  }
+  if (p === 0) {
+    throw new InvalidArgumentError('METRIC', 'Metrics need at least one sample.', {
+      operation,
+      argument: 'predictions',
+    });
+  }
+};
+
+const column = (x: MetricInput, idx = 0): number[] => {
+  if (x instanceof Matrix) {
+    return Array.from({ length: x.numRows }, (_, i) => x[i][idx]);
+  }
+  return Array.from(x);
+};
+
+/**
+ * Class labels of predictions or targets
+ * @remarks
+ * Rows of a matrix with several columns are scores or one-hot
+ * vectors, and their label is the index of the largest entry.
+ * A vector (or single column) holds either integer labels, which
+ * are kept, or probabilities of the positive class, which are
+ * compared with the threshold
+ * @param {MetricInput} x - Predictions or targets
+ * @param {number} threshold - Decision threshold of binary probabilities
+ * @returns {number[]} Label of every sample
+ */
+export const toLabels = (x: MetricInput, threshold = 0.5): number[] => {
+  if (x instanceof Matrix && x.numCols > 1) {
+    return Array.from({ length: x.numRows }, (_, i) => {
+      const row = x[i];
+      let best = 0;
+      for (let j = 1; j < row.length; j++) {
+        if (row[j] > row[best]) {
+          best = j;
+        }
+      }
+      return best;
+    });
+  }
+  return column(x).map((a) => {
+    if (Number.isInteger(a)) {
+      if (a < 0) {
+        throw new InvalidArgumentError('METRIC', `Labels must be non-negative integers (label = ${a}).`, {
+          operation: 'toLabels',
+          argument: 'x',
+        });
+      }
+      return a;
+    }
+    return a >= threshold ? 1 : 0;
+  });
+};
+
+const countClasses = (
+  predictions: MetricInput,
+  targets: MetricInput,
+  predicted: number[],
+  actual: number[],
+): number => {
+  let numClasses = Math.max(
+    numColumns(predictions) > 1 ? numColumns(predictions) : 0,
+    numColumns(targets) > 1 ? numColumns(targets) : 0,
+    2,
+  );
+  for (let i = 0; i < predicted.length; i++) {
+    numClasses = Math.max(numClasses, predicted[i] + 1);
+  }
+  for (let i = 0; i < actual.length; i++) {
+    numClasses = Math.max(numClasses, actual[i] + 1);
+  }
+  return numClasses;
+};
+
+/**
+ * Fraction of correctly classified samples
+ * @param {MetricInput} predictions - Predicted scores or labels
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @returns {number} accuracy in [0, 1]
+ */
+export const accuracy = (
+  predictions: MetricInput,
+  targets: MetricInput,
+): number => {
+  validateSamples(predictions, targets, 'accuracy');
+  const predicted = toLabels(predictions);
+  const actual = toLabels(targets);
+  let correct = 0;
+  for (let i = 0; i < actual.length; i++) {
+    if (predicted[i] === actual[i]) {
+      correct += 1;
+    }
+  }
+  return correct / actual.length;
+};
+
+/**
+ * Confusion matrix of a classifier
+ * @remarks
+ * Entry [i][j] counts the samples of class i predicted as class j
+ * @param {MetricInput} predictions - Predicted scores or labels
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @param {number} numClasses - Number of classes, inferred when omitted
+ * @returns {Matrix} numClasses x numClasses counts
+ */
+export const confusionMatrix = (
+  predictions: MetricInput,
+  targets: MetricInput,
+  numClasses?: number,
+): Matrix => {
+  validateSamples(predictions, targets, 'confusionMatrix');
+  const predicted = toLabels(predictions);
+  const actual = toLabels(targets);
+  const size = numClasses ?? countClasses(predictions, targets, predicted, actual);
+  const counts = Matrix.zeros(size, size);
+  for (let i = 0; i < actual.length; i++) {
+    if (actual[i] >= size || predicted[i] >= size) {
+      throw new IndexOutOfBoundsError('METRIC', `Label is out of range (label = ${Math.max(actual[i], predicted[i])}, classes = ${size}).`, {
+        operation: 'confusionMatrix',
+        index: [Math.max(actual[i], predicted[i])],
+        shape: [size],
+      });
+    }
+    counts[actual[i]][predicted[i]] += 1;
+  }
+  return counts;
+};
+
+const ratio = (a: number, b: number): number => (b === 0 ? 0 : a / b);
+
+/**
+ * Precision, recall and F1 score of every class
+ * @remarks
+ * Scores of a class with no predicted (or no actual) samples are 0
+ * @param {MetricInput} predictions - Predicted scores or labels
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @param {number} numClasses - Number of classes, inferred when omitted
+ * @returns {ClassScores} Per-class scores
+ */
+export const classScores = (
+  predictions: MetricInput,
+  targets: MetricInput,
+  numClasses?: number,
+): ClassScores => {
+  const counts = confusionMatrix(predictions, targets, numClasses);
+  const size = counts.numRows;
+  const precision = Vector.zeros(size);
+  const recall = Vector.zeros(size);
+  const f1 = Vector.zeros(size);
+  const support = Vector.zeros(size);
+  for (let c = 0; c < size; c++) {
+    let predicted = 0;
+    let actual = 0;
+    for (let k = 0; k < size; k++) {
+      predicted += counts[k][c];
+      actual += counts[c][k];
+    }
+    const truePositives = counts[c][c];
+    precision[c] = ratio(truePositives, predicted);
+    recall[c] = ratio(truePositives, actual);
+    f1[c] = ratio(2 * precision[c] * recall[c], precision[c] + recall[c]);
+    support[c] = actual;
+  }
+  return { precision, recall, f1, support };
+};
+
+const mean = (v: Vector): number => {
+  let sum = 0;
+  for (let i = 0; i < v.length; i++) {
+    sum += v[i];
+  }
+  return sum / v.length;
+};
+
+/**
+ * Share of the predictions of a class that are correct
+ * @remarks
+ * The macro average is the mean of the per-class precisions, the
+ * micro average is computed from the counts of every class, which
+ * for single-label data equals the accuracy
+ * @param {MetricInput} predictions - Predicted scores or labels
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @param {MetricAverage} average - How to average over the classes
+ * @returns {number} averaged precision
+ */
+export const precision = (
+  predictions: MetricInput,
+  targets: MetricInput,
+  average: MetricAverage = 'macro',
+): number => {
+  return average === 'micro' ?
+    accuracy(predictions, targets) :
+    mean(classScores(predictions, targets).precision);
+};
+
+/**
+ * Share of the samples of a class that are found
+ * @param {MetricInput} predictions - Predicted scores or labels
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @param {MetricAverage} average - How to average over the classes
+ * @returns {number} averaged recall
+ */
+export const recall = (
+  predictions: MetricInput,
+  targets: MetricInput,
+  average: MetricAverage = 'macro',
+): number => {
+  return average === 'micro' ?
+    accuracy(predictions, targets) :
+    mean(classScores(predictions, targets).recall);
+};
+
+/**
+ * Harmonic mean of precision and recall
+ * @param {MetricInput} predictions - Predicted scores or labels
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @param {MetricAverage} average - How to average over the classes
+ * @returns {number} averaged F1 score
+ */
+export const f1Score = (
+  predictions: MetricInput,
+  targets: MetricInput,
+  average: MetricAverage = 'macro',
+): number => {
+  return average === 'micro' ?
+    accuracy(predictions, targets) :
+    mean(classScores(predictions, targets).f1);
+};
+
+/**
+ * Cross-entropy of predicted probabilities
+ * @remarks
+ * A vector (or single column) of predictions holds the probability
+ * of the positive class, a matrix holds one probability per class.
+ * Probabilities are clipped away from 0 and 1
+ * @param {MetricInput} predictions - Predicted probabilities
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @returns {number} mean negative log-likelihood
+ */
+export const logLoss = (
+  predictions: MetricInput,
+  targets: MetricInput,
+): number => {
+  validateSamples(predictions, targets, 'logLoss');
+  const actual = toLabels(targets);
+  const clip = (a: number) => Math.min(Math.max(a, EPSILON), 1 - EPSILON);
+  let sum = 0;
+  if (numColumns(predictions) === 1) {
+    const p = column(predictions);
+    for (let i = 0; i < p.length; i++) {
+      sum -= Math.log(actual[i] === 1 ? clip(p[i]) : 1 - clip(p[i]));
+    }
+    return sum / p.length;
+  }
+  const p = predictions as Matrix;
+  for (let i = 0; i < p.numRows; i++) {
+    if (actual[i] >= p.numCols) {
+      throw new IndexOutOfBoundsError('METRIC', `Label is out of range (label = ${actual[i]}, classes = ${p.numCols}).`, {
+        operation: 'logLoss',
+        index: [actual[i]],
+        shape: [p.numCols],
+      });
+    }
+    sum -= Math.log(clip(p[i][actual[i]]));
+  }
+  return sum / p.numRows;
+};
+
+/**
+ * ROC curve of a binary classifier
+ * @remarks
+ * Every distinct score is used as a threshold, from the highest to
+ * the lowest, and the curve starts at (0, 0) with an infinite one
+ * @param {MetricInput} scores - Predicted scores of the positive class
+ * @param {MetricInput} targets - Expected labels (0 or 1)
+ * @returns {RocCurve} points of the curve
+ */
+export const rocCurve = (
+  scores: MetricInput,
+  targets: MetricInput,
+): RocCurve => {
+  validateSamples(scores, targets, 'rocCurve');
+  const s = column(scores);
+  const actual = toLabels(targets);
+  const positives = actual.filter((label) => label === 1).length;
+  const negatives = actual.length - positives;
+  if (positives === 0 || negatives === 0) {
+    throw new InvalidArgumentError('METRIC', `ROC curve needs positive and negative samples (positives = ${positives}, negatives = ${negatives}).`, {
+      operation: 'rocCurve',
+      argument: 'targets',
+    });
+  }
+  const order = s.map((_, i) => i).sort((a, b) => s[b] - s[a]);
+  const fpr = [0];
+  const tpr = [0];
+  const thresholds = [Infinity];
+  let truePositives = 0;
+  let falsePositives = 0;
+  order.forEach((idx, k) => {
+    if (actual[idx] === 1) {
+      truePositives += 1;
+    } else {
+      falsePositives += 1;
+    }
+    const next = order[k + 1];
+    if (next === undefined || s[next] !== s[idx]) {
+      fpr.push(falsePositives / negatives);
+      tpr.push(truePositives / positives);
+      thresholds.push(s[idx]);
+    }
+  });
+  return {
+    falsePositiveRates: Vector.fromArray(fpr),
+    truePositiveRates: Vector.fromArray(tpr),
+    thresholds: Vector.fromArray(thresholds),
+  };
+};
+
+/**
+ * Area under the ROC curve
+ * @remarks
+ * Integrates the curve with the trapezoidal rule. With one score per
+ * class, it is the macro average of the one-vs-rest areas
+ * @param {MetricInput} scores - Predicted scores
+ * @param {MetricInput} targets - Expected one-hot vectors or labels
+ * @returns {number} area in [0, 1]
+ */
+export const rocAuc = (
+  scores: MetricInput,
+  targets: MetricInput,
+): number => {
+  const area = (s: number[], labels: number[]) => {
+    const { falsePositiveRates: x, truePositiveRates: y } = rocCurve(
+      Vector.fromArray(s),
+      Vector.fromArray(labels),
+    );
+    let sum = 0;
+    for (let i = 1; i < x.length; i++) {
+      sum += (x[i] - x[i - 1]) * (y[i] + y[i - 1]) / 2;
+    }
+    return sum;
+  };
+  validateSamples(scores, targets, 'rocAuc');
+  const actual = toLabels(targets);
+  if (numColumns(scores) === 1) {
+    return area(column(scores), actual);
+  }
+  const numClasses = numColumns(scores);
+  let sum = 0;
+  for (let c = 0; c < numClasses; c++) {
+    sum += area(column(scores, c), actual.map((label) => (label === c ? 1 : 0)));
+  }
+  return sum / numClasses;
+};
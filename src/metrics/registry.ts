@@ -0,0 +1,40 @@
+import { InvalidArgumentError } from '../errors';
+import { ImplementedMetric, Metric } from '../interface';
+import {
+  accuracy,
+  f1Score,
+  logLoss,
+  precision,
+  recall,
+  rocAuc,
+} from './classification';
+import {
+  meanAbsoluteError,
+  meanSquaredError,
+  r2Score,
+  rootMeanSquaredError,
+} from './regression';
+
+export const metrics: Record<ImplementedMetric, Metric> = {
+  accuracy,
+  precision: (p, t) => precision(p, t),
+  recall: (p, t) => recall(p, t),
+  f1Score: (p, t) => f1Score(p, t),
+  logLoss,
+  rocAuc,
+  meanSquaredError,
+  meanAbsoluteError,
+  rootMeanSquaredError,
+  r2Score,
+};
+
+export const getMetricByKey = (key: ImplementedMetric): Metric => {
+  const metric = metrics[key];
+  if (!metric) {
+    throw new InvalidArgumentError('METRIC', `Unknown metric (key = ${key}).`, {
+      operation: 'getMetricByKey',
+      argument: 'key',
+    });
+  }
+  return metric;
+};
@@ -0,0 +1,122 @@
+import { InvalidArgumentError, ShapeMismatchError } from '../errors';
+import { MetricInput } from '../interface';
+import { Matrix } from '../math';
+
+const shapeOf = (x: MetricInput): [number, number] => {
+  return x instanceof Matrix ? [x.numRows, x.numCols] : [x.length, 1];
+};
+
+const valuesOf = (x: MetricInput): ArrayLike<number> => {
+  return x instanceof Matrix ? x.data : x;
+};
+
+const validateShapes = (predictions: MetricInput, targets: MetricInput, operation: string) => {
+  const [pRows, pCols] = shapeOf(predictions);
+  const [tRows, tCols] = shapeOf(targets);
+  if (pRows !== tRows || pCols !== tCols) {
+    throw new ShapeMismatchError('METRIC', `Predictions and targets must have the same shape (predictions = [${pRows}, ${pCols}], targets = [${tRows}, ${tCols}]).`, {
+      operation,
+      shapes: [[pRows, pCols], [tRows, tCols]],
+    });
+  }
+  if (pRows === 0) {
+    throw new InvalidArgumentError('METRIC', 'Metrics need at least one sample.', {
+      operation,
+      argument: 'predictions',
+    });
+  }
+};
+
+const meanOfPairs = (
+  predictions: MetricInput,
+  targets: MetricInput,
+  f: (p: number, t: number) => number,
+  operation: string,
+): number => {
+  validateShapes(predictions, targets, operation);
+  const p = valuesOf(predictions);
+  const t = valuesOf(targets);
+  let sum = 0;
+  for (let i = 0; i < p.length; i++) {
+    sum += f(p[i], t[i]);
+  }
+  return sum / p.length;
+};
+
+/**
+ * Mean of the squared errors over every output of every sample
+ * @param {MetricInput} predictions - Predicted values
+ * @param {MetricInput} targets - Expected values
+ * @returns {number} mean squared error
+ */
+export const meanSquaredError = (
+  predictions: MetricInput,
+  targets: MetricInput,
+): number => {
+  return meanOfPairs(predictions, targets, (p, t) => (p - t) ** 2, 'meanSquaredError');
+};
+
+/**
+ * Mean of the absolute errors over every output of every sample
+ * @param {MetricInput} predictions - Predicted values
+ * @param {MetricInput} targets - Expected values
+ * @returns {number} mean absolute error
+ */
+export const meanAbsoluteError = (
+  predictions: MetricInput,
+  targets: MetricInput,
+): number => {
+  return meanOfPairs(predictions, targets, (p, t) => Math.abs(p - t), 'meanAbsoluteError');
+};
+
+/**
+ * Square root of the mean squared error
+ * @param {MetricInput} predictions - Predicted values
+ * @param {MetricInput} targets - Expected values
+ * @returns {number} root mean squared error
+ */
+export const rootMeanSquaredError = (
+  predictions: MetricInput,
+  targets: MetricInput,
+): number => {
+  return Math.sqrt(meanSquaredError(predictions, targets));
+};
+
+/**
+ * Coefficient of determination
+ * @remarks
+ * Computed for every output and averaged. An output whose targets
+ * are constant scores 1 when predicted exactly and 0 otherwise
+ * @param {MetricInput} predictions - Predicted values
+ * @param {MetricInput} targets - Expected values
+ * @returns {number} R² (1 is a perfect fit, and it can be negative)
+ */
+export const r2Score = (
+  predictions: MetricInput,
+  targets: MetricInput,
+): number => {
+  validateShapes(predictions, targets, 'r2Score');
+  const [rows, cols] = shapeOf(targets);
+  const p = valuesOf(predictions);
+  const t = valuesOf(targets);
+  let sum = 0;
+  for (let j = 0; j < cols; j++) {
+    let mean = 0;
+    for (let i = 0; i < rows; i++) {
+      mean += t[i * cols + j];
+    }
+    mean /= rows;
+    let residual = 0;
+    let total = 0;
+    for (let i = 0; i < rows; i++) {
+      residual += (t[i * cols + j] - p[i * cols + j]) ** 2;
+      total += (t[i * cols + j] - mean) ** 2;
+    }
+    if (total === 0) {
+      sum += residual === 0 ? 1 : 0;
+    } else {
+      sum += 1 - residual / total;
+    }
+  }
+  return sum / cols;
+};
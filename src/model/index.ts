@@ -0,0 +1,4 @@
+export * from './mlp';
+export * from './serialization';
+export * from './onnx';
+export * from './tfjs';
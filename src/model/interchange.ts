@@ -0,0 +1,52 @@
+import { ErrorCode, SerializedLayer } from '../interface';
+import { UnsupportedOperandError } from '../errors';
+import { MLP, MLP_SCHEMA_VERSION } from './mlp';
+
+/**
+ * Throw unless a network only holds dense layers that other runtimes
+ * can evaluate
+ * @remarks
+ * Normalization layers and the sparsemax activation have no
+ * counterpart in the exchange formats. Dropout, regularization and
+ * max-norm constraints only matter during training and are dropped
+ * @param {MLP} model - network to export
+ * @param {ErrorCode} code - code of the format
+ * @param {string} operation - exporter, for error reports
+ */
+export const validateExportable = (model: MLP, code: ErrorCode, operation: string) => {
+  model.layers.slice(1).forEach(({ activation, normalization }, l) => {
+    if (normalization) {
+      throw new UnsupportedOperandError(code, `Normalization layers cannot be exported (layer = ${l + 1}, normalization = ${normalization}).`, {
+        operation,
+        operand: normalization,
+      });
+    }
+    if (activation === 'sparsemax') {
+      throw new UnsupportedOperandError(code, `Activation cannot be exported (layer = ${l + 1}, activation = ${activation}).`, {
+        operation,
+        operand: activation,
+      });
+    }
+  });
+};
+
+/**
+ * Network rebuilt from the dense layers read by an importer
+ * @remarks
+ * The weights and biases go through `MLP.fromJSON`, which checks that
+ * they chain correctly
+ * @param {SerializedLayer[]} layers - every non-input layer
+ * @param {number[][][]} weights - weights of every layer, [out, in]
+ * @param {number[][]} biases - biases of every layer
+ * @returns {MLP} the network, in inference mode
+ */
+export const buildDenseModel = (
+  layers: SerializedLayer[],
+  weights: number[][][],
+  biases: number[][],
+): MLP => MLP.fromJSON({
+  schemaVersion: MLP_SCHEMA_VERSION,
+  layers: [{ numNeurons: weights[0][0].length, activation: 'linear' }, ...layers],
+  weights,
+  biases,
+});
@@ -0,0 +1,616 @@
+import {
+  LayerDefinition,
+  SerializedMLP,
+  SerializedNormalization,
+} from '../interface';
+import {
+  InvalidArgumentError,
+  InvalidLayerError,
+  InvalidStateError,
+  ShapeMismatchError,
+} from '../errors';
+import {
+  DenseVectorLayer,
+  Dropout,
+  NormalizationLayer,
+  createNormalization,
+} from '../layer';
+import {
+  Matrix,
+  SeededRandom,
+  SparseMatrix,
+  Vector,
+  getDefaultInitializerKey,
+  getInitializerByKey,
+} from '../math';
+import { FitOptions, TrainingHistory, fit } from '../training';
+
+export const MLP_SCHEMA_VERSION = 1;
+
+const invalidateJSON = (message: string) => {
+  throw new InvalidArgumentError('MLPJ', message, {
+    operation: 'MLP.fromJSON',
+    argument: 'json',
+  });
+};
+
+const invalidateLayers = (message: string) => {
+  throw new InvalidLayerError('MLPC', message, {
+    operation: 'MLP.constructor',
+    argument: 'layers',
+  });
+};
+
+const backwardBeforeForward = (operation: string) => (
+  new InvalidStateError('MLPB', 'A forward pass must be run before the backward pass.', { operation })
+);
+
+/**
+ * Per-layer gradients produced by a backward pass
+ * @property {Matrix[]} weights - Gradient of the loss wrt each weight matrix
+ * @property {Vector[]} biases - Gradient of the loss wrt each bias vector
+ * @property {Array} normalizations - Gradient of the loss wrt the gamma
+ * and beta of each normalization layer (null for layers without one)
+ * @property {Vector} input - Gradient of the loss wrt the network input
+ */
+export interface MLPGradients {
+  weights: Matrix[];
+  biases: Vector[];
+  normalizations: Array<{ gamma: Vector; beta: Vector } | null>;
+  input: Vector;
+}
+
+/**
+ * Per-layer gradients produced by a mini-batch backward pass
+ * @property {Matrix[]} weights - Batch-averaged gradient of each weight matrix
+ * @property {Vector[]} biases - Batch-averaged gradient of each bias vector
+ * @property {Array} normalizations - Batch-averaged gradient of the gamma
+ * and beta of each normalization layer (null for layers without one)
+ * @property {Matrix} input - Per-sample gradient wrt the inputs (one per row)
+ */
+export interface MLPBatchGradients {
+  weights: Matrix[];
+  biases: Vector[];
+  normalizations: Array<{ gamma: Vector; beta: Vector } | null>;
+  input: Matrix;
+}
+
+/**
+ * Class for modelling a fully connected multi-layer perceptron
+ * @remarks
+ * The first layer definition describes the input layer, so its
+ * activation is never applied. Every other definition describes
+ * a dense layer whose weights connect it with the previous one:
+ * ```
+ * z[l] = W[l - 1]·a[l - 1] + b[l - 1]
+ * a[l] = f[l](z[l])
+ * ```
+ * A layer with a normalization standardizes z[l] before its activation
+ */
+export class MLP {
+  /**
+   * @property {LayerDefinition[]} layers - Definitions of every layer
+   * @property {Matrix[]} weights - Weight matrix between consecutive layers
+   * @property {Vector[]} biases - Bias vector of every non-input layer
+   * @property {DenseVectorLayer[]} preActivations - Cached z values of the
+   * last forward pass (one per non-input layer)
+   * @property {Vector[]} activations - Cached a values of the last forward
+   * pass (including the input)
+   * @property {Matrix[]} batchPreActivations - Cached z values of the last
+   * mini-batch forward pass (one row per sample)
+   * @property {Array<Matrix | SparseMatrix>} batchActivations - Cached a
+   * values of the last mini-batch forward pass (including the inputs,
+   * which may be sparse)
+   * @property {Array<NormalizationLayer | null>} normalizations - Normalization
+   * of the pre-activations of every non-input layer, if any
+   * @property {Array<Dropout | null>} dropouts - Dropout applied to the
+   * outputs of every non-input layer, if any
+   * @property {boolean} training - Whether the network is in training mode,
+   * where dropout is active and batch normalization uses batch statistics
+   * @property {SeededRandom} rng - Generator used for the initialization
+   * and the dropout masks
+  */
+  layers: LayerDefinition[];
+  weights: Matrix[] = [];
+  biases: Vector[] = [];
+  preActivations: DenseVectorLayer[] = [];
+  activations: Vector[] = [];
+  batchPreActivations: Matrix[] = [];
+  batchActivations: Array<Matrix | SparseMatrix> = [];
+  normalizations: Array<NormalizationLayer | null> = [];
+  dropouts: Array<Dropout | null> = [];
+  training = false;
+  rng: SeededRandom;
+
+  /**
+   * Constructor of the MLP
+   * @remarks
+   * Weights are drawn with the initializer of each layer definition,
+   * or with a default picked from its activation, and biases start
+   * at zero. Passing a seed makes the initialization and the dropout
+   * masks reproducible. The network starts in inference mode
+   * @param {LayerDefinition[]} layers - Definitions of every layer,
+   * starting with the input layer
+   * @param {number} seed - Seed of the random generator
+  */
+  constructor(layers: LayerDefinition[], { seed }: { seed?: number } = {}) {
+    if (layers.length < 2) {
+      invalidateLayers(`Network must have at least two layers (layers = ${layers.length}).`);
+    }
+    if (layers.some(({ numNeurons }) => numNeurons <= 0)) {
+      invalidateLayers('Every layer must have at least one neuron.');
+    }
+    const {
+      regularization,
+      dropout,
+      maxNorm,
+      normalization,
+    } = layers[0];
+    if (regularization || dropout !== undefined || maxNorm !== undefined || normalization) {
+      invalidateLayers('Input layer cannot have regularization, dropout, max-norm or normalization.');
+    }
+    this.layers = layers.map((layer) => ({ ...layer }));
+    this.rng = new SeededRandom(seed);
+
+    for (let l = 1; l < layers.length; l++) {
+      const { numNeurons, activation, initializer } = layers[l];
+      const initialize = getInitializerByKey(
+        initializer ?? getDefaultInitializerKey(activation),
+      );
+      this.weights.push(
+        initialize(numNeurons, layers[l - 1].numNeurons, this.rng),
+      );
+      this.biases.push(Vector.zeros(numNeurons));
+    }
+    this.normalizations = layers.slice(1).map((layer) => (
+      layer.normalization ?
+        createNormalization(layer.normalization, layer.numNeurons, layer.normalizationParams) :
+        null
+    ));
+    this.dropouts = layers.slice(1).map(({ dropout }) => (
+      dropout ? new Dropout({ rate: dropout, rng: this.rng }) : null
+    ));
+    this.eval();
+  }
+
+  /**
+   * Number of inputs expected by the network
+   * @returns {number} size of the input layer
+  */
+  get inputSize(): number {
+    return this.layers[0].numNeurons;
+  }
+
+  /**
+   * Number of outputs produced by the network
+   * @returns {number} size of the output layer
+  */
+  get outputSize(): number {
+    return this.layers[this.layers.length - 1].numNeurons;
+  }
+
+  /**
+   * Trainable parameters of the network
+   * @remarks
+   * The weights come first, followed by the biases and the gamma and
+   * beta of every normalization layer, in the same order as
+   * `parameterGradients`
+   * @returns {Array<Matrix | Vector>} weights, biases and normalization
+   * parameters
+  */
+  parameters(): Array<Matrix | Vector> {
+    const params: Array<Matrix | Vector> = [...this.weights, ...this.biases];
+    this.normalizations.forEach((normalization) => {
+      if (normalization) {
+        params.push(...normalization.parameters());
+      }
+    });
+    return params;
+  }
+
+  /**
+   * Gradients of a backward pass in the order of `parameters()`
+   * @param {MLPGradients | MLPBatchGradients} gradients - output of a
+   * backward pass
+   * @returns {Array<Matrix | Vector>} one gradient per parameter
+  */
+  parameterGradients(gradients: MLPGradients | MLPBatchGradients): Array<Matrix | Vector> {
+    const result: Array<Matrix | Vector> = [...gradients.weights, ...gradients.biases];
+    gradients.normalizations.forEach((normalization) => {
+      if (normalization) {
+        result.push(normalization.gamma, normalization.beta);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Switch to training mode, where dropout is active and batch
+   * normalization uses batch statistics
+  */
+  train() {
+    this.training = true;
+    this.normalizations.forEach((normalization) => normalization?.train());
+    this.dropouts.forEach((dropout) => dropout?.train());
+  }
+
+  /**
+   * Switch to inference mode, where dropout is the identity and batch
+   * normalization uses running statistics
+  */
+  eval() {
+    this.training = false;
+    this.normalizations.forEach((normalization) => normalization?.eval());
+    this.dropouts.forEach((dropout) => dropout?.eval());
+  }
+
+  /**
+   * L1/L2 penalty of every weight matrix
+   * @returns {number} term to add to the loss
+  */
+  regularizationLoss(): number {
+    let penalty = 0;
+    this.weights.forEach((weights, l) => {
+      const { regularization } = this.layers[l + 1];
+      if (regularization) {
+        penalty += DenseVectorLayer.regularizationPenalty(weights, regularization);
+      }
+    });
+    return penalty;
+  }
+
+  /**
+   * Apply the max-norm constraints of every layer to its weights
+   * @remarks
+   * Meant to run after every update of the parameters
+  */
+  applyConstraints() {
+    this.weights.forEach((weights, l) => {
+      const { maxNorm } = this.layers[l + 1];
+      if (maxNorm !== undefined) {
+        DenseVectorLayer.applyMaxNorm(weights, maxNorm);
+      }
+    });
+  }
+
+  /**
+   * Add the gradient of the L1/L2 penalty of a layer
+   * @param {Matrix} gradient - Gradient of the loss wrt the weights
+   * @param {number} l - Index of the weights
+   * @returns {Matrix} The gradient, updated in place
+  */
+  private regularize(gradient: Matrix, l: number): Matrix {
+    const { regularization } = this.layers[l + 1];
+    if (!regularization) {
+      return gradient;
+    }
+    return gradient.addInPlace(
+      DenseVectorLayer.regularizationGradient(this.weights[l], regularization),
+    );
+  }
+
+  /**
+   * Full forward pass
+   * @remarks
+   * Caches the pre-activations and activations of every layer,
+   * so that a later backward pass can reuse them
+   * @param {Vector} input - Values of the input layer
+   * @returns {Vector} Activations of the output layer
+  */
+  forward(input: Vector): Vector {
+    if (input.length !== this.inputSize) {
+      throw new ShapeMismatchError('MLPF', `Input must match the input layer (input = ${input.length}, layer = ${this.inputSize}).`, {
+        operation: 'MLP.forward',
+        shapes: [[input.length], [this.inputSize]],
+      });
+    }
+
+    this.activations = [Vector.fromArray(input)];
+    this.preActivations = [];
+    for (let l = 0; l < this.weights.length; l++) {
+      const normalization = this.normalizations[l];
+      const affine = this.biases[l].add(this.weights[l].dot(this.activations[l]));
+      const z = new DenseVectorLayer({
+        numNeurons: this.layers[l + 1].numNeurons,
+        initialValues: normalization ? normalization.forward(affine) : affine,
+        activation: this.layers[l + 1].activation,
+        activationParams: this.layers[l + 1].activationParams,
+      });
+      this.preActivations.push(z);
+      const a = z.activation(z);
+      const dropout = this.dropouts[l];
+      this.activations.push(dropout ? dropout.forward(a) : a);
+    }
+
+    return this.activations[this.activations.length - 1];
+  }
+
+  /**
+   * Full backward pass
+   * @remarks
+   * Backpropagates the gradient of the loss wrt the output activations
+   * through every layer of the last forward pass. The weight
+   * gradients include the L1/L2 penalties
+   * @param {Vector} lossGradient - Gradient of the loss wrt the output
+   * @returns {MLPGradients} Gradients of every weight and bias
+  */
+  backward(lossGradient: Vector): MLPGradients {
+    if (this.preActivations.length === 0) {
+      throw backwardBeforeForward('MLP.backward');
+    }
+    if (lossGradient.length !== this.outputSize) {
+      throw new ShapeMismatchError('MLPB', `Loss gradient must match the output layer (gradient = ${lossGradient.length}, layer = ${this.outputSize}).`, {
+        operation: 'MLP.backward',
+        shapes: [[lossGradient.length], [this.outputSize]],
+      });
+    }
+
+    const numLinks = this.weights.length;
+    const weights: Matrix[] = Array(numLinks);
+    const biases: Vector[] = Array(numLinks);
+    const normalizations: MLPGradients['normalizations'] = Array(numLinks).fill(null);
+
+    let gradient = lossGradient;
+    for (let l = numLinks - 1; l >= 0; l--) {
+      const z = this.preActivations[l];
+      const dropout = this.dropouts[l];
+      let delta = z.activationJacobianProduct(
+        z,
+        dropout ? dropout.backward(gradient) : gradient,
+      );
+      const normalization = this.normalizations[l];
+      if (normalization) {
+        const { input, gamma, beta } = normalization.backward(delta);
+        normalizations[l] = { gamma, beta };
+        delta = input;
+      }
+      weights[l] = this.regularize(delta.outerDot(this.activations[l]), l);
+      biases[l] = delta;
+      gradient = this.weights[l].transpose().dot(delta);
+    }
+
+    return {
+      weights,
+      biases,
+      normalizations,
+      input: gradient,
+    };
+  }
+
+  /**
+   * Full forward pass over a mini-batch
+   * @remarks
+   * Every row of the inputs is a sample. Caches the pre-activations
+   * and activations of every layer for `backwardBatch`
+   * @param {Matrix | SparseMatrix} inputs - Samples of the batch
+   * @returns {Matrix} Activations of the output layer (one row per sample)
+  */
+  forwardBatch(inputs: Matrix | SparseMatrix): Matrix {
+    if (inputs.numCols !== this.inputSize) {
+      throw new ShapeMismatchError('MLPF', `Input must match the input layer (input = ${inputs.numCols}, layer = ${this.inputSize}).`, {
+        operation: 'MLP.forwardBatch',
+        shapes: [[inputs.numRows, inputs.numCols], [this.inputSize]],
+      });
+    }
+
+    this.batchActivations = [inputs];
+    this.batchPreActivations = [];
+    for (let l = 0; l < this.weights.length; l++) {
+      const { activation, activationParams } = this.layers[l + 1];
+      const normalization = this.normalizations[l];
+      let { preActivations, outputs } = DenseVectorLayer.batchForwardPass({
+        inputs: this.batchActivations[l],
+        weights: this.weights[l],
+        bias: this.biases[l],
+        activation: normalization ? 'linear' : activation,
+        activationParams,
+      });
+      if (normalization) {
+        preActivations = normalization.forwardBatch(preActivations);
+        outputs = DenseVectorLayer.batchActivate({
+          preActivations,
+          activation,
+          activationParams,
+        });
+      }
+      this.batchPreActivations.push(preActivations);
+      const dropout = this.dropouts[l];
+      this.batchActivations.push(dropout ? dropout.forwardBatch(outputs) : outputs);
+    }
+
+    // Only the inputs may be sparse, and there is at least one link
+    return this.batchActivations[this.batchActivations.length - 1] as Matrix;
+  }
+
+  /**
+   * Full backward pass over a mini-batch
+   * @remarks
+   * Every row of the loss gradient is the gradient of one sample's
+   * loss wrt its outputs. Weight and bias gradients are averaged
+   * over the batch, and the L1/L2 penalties are added once
+   * @param {Matrix} lossGradients - Gradient of the loss wrt the outputs
+   * @returns {MLPBatchGradients} Gradients of every weight and bias
+  */
+  backwardBatch(lossGradients: Matrix): MLPBatchGradients {
+    if (this.batchPreActivations.length === 0) {
+      throw backwardBeforeForward('MLP.backwardBatch');
+    }
+    if (lossGradients.numCols !== this.outputSize) {
+      throw new ShapeMismatchError('MLPB', `Loss gradient must match the output layer (gradient = ${lossGradients.numCols}, layer = ${this.outputSize}).`, {
+        operation: 'MLP.backwardBatch',
+        shapes: [[lossGradients.numRows, lossGradients.numCols], [this.outputSize]],
+      });
+    }
+
+    const numLinks = this.weights.length;
+    const weights: Matrix[] = Array(numLinks);
+    const biases: Vector[] = Array(numLinks);
+    const normalizations: MLPBatchGradients['normalizations'] = Array(numLinks).fill(null);
+
+    let incomingGradient = lossGradients;
+    for (let l = numLinks - 1; l >= 0; l--) {
+      const { activation, activationParams } = this.layers[l + 1];
+      const preActivations = this.batchPreActivations[l];
+      const dropout = this.dropouts[l];
+      let gradient = dropout ?
+        dropout.backwardBatch(incomingGradient) :
+        incomingGradient;
+      const normalization = this.normalizations[l];
+      if (normalization) {
+        const { input, gamma, beta } = normalization.backwardBatch(
+          DenseVectorLayer.batchActivationBackward({
+            preActivations,
+            incomingGradient: gradient,
+            activation,
+            activationParams,
+          }),
+        );
+        normalizations[l] = { gamma, beta };
+        gradient = input;
+      }
+      const gradients = DenseVectorLayer.batchBackwardPass({
+        inputs: this.batchActivations[l],
+        preActivations,
+        weights: this.weights[l],
+        incomingGradient: gradient,
+        activation: normalization ? 'linear' : activation,
+        activationParams,
+      });
+      weights[l] = this.regularize(gradients.weights, l);
+      biases[l] = gradients.bias;
+      incomingGradient = gradients.input;
+    }
+
+    return {
+      weights,
+      biases,
+      normalizations,
+      input: incomingGradient,
+    };
+  }
+
+  /**
+   * Train the network with mini-batch gradient descent
+   * @remarks
+   * Shorthand for `fit(model, x, y, options)`
+   * @param {Matrix} x - Training inputs (one row per sample)
+   * @param {Matrix} y - Training targets (one row per sample)
+   * @param {FitOptions} options - Options of the training
+   * @returns {TrainingHistory} Logs of every epoch
+  */
+  fit(x: Matrix, y: Matrix, options: FitOptions = {}): TrainingHistory {
+    return fit(this, x, y, options);
+  }
+
+  /**
+   * JSON representation of the network
+   * @remarks
+   * Records the schema version, the definition of every layer, the
+   * weights and biases and the state of the normalization layers, so that `MLP.fromJSON` rebuilds the
+   * exact same network
+   * @returns {SerializedMLP} plain object ready for `JSON.stringify`
+  */
+  toJSON(): SerializedMLP {
+    return {
+      schemaVersion: MLP_SCHEMA_VERSION,
+      layers: this.layers.map(({
+        numNeurons,
+        activation,
+        activationParams,
+        initializer,
+        regularization,
+        dropout,
+        maxNorm,
+        normalization,
+        normalizationParams,
+      }) => ({
+        numNeurons,
+        activation,
+        ...(activationParams ? { activationParams: { ...activationParams } } : {}),
+        ...(initializer ? { initializer } : {}),
+        ...(regularization ? { regularization: { ...regularization } } : {}),
+        ...(dropout !== undefined ? { dropout } : {}),
+        ...(maxNorm !== undefined ? { maxNorm } : {}),
+        ...(normalization ? { normalization } : {}),
+        ...(normalizationParams ? { normalizationParams: { ...normalizationParams } } : {}),
+      })),
+      weights: this.weights.map((weights) => weights.toArray()),
+      biases: this.biases.map((bias) => Array.from(bias)),
+      ...(this.normalizations.some((normalization) => normalization) ? {
+        normalizations: this.normalizations.map((normalization) => (
+          normalization ? normalization.toJSON() : null
+        )),
+      } : {}),
+    };
+  }
+
+  /**
+   * Rebuild a network from its JSON representation
+   * @remarks
+   * Validates the schema version and that every weight matrix and
+   * bias vector is consistent with the sizes of the layers it connects
+   * @param {SerializedMLP} json - output of `toJSON`
+   * @returns {MLP} the network
+  */
+  static fromJSON(json: SerializedMLP): MLP {
+    if (!json || typeof json !== 'object') {
+      invalidateJSON('Model must be an object.');
+    }
+    if (json.schemaVersion !== MLP_SCHEMA_VERSION) {
+      invalidateJSON(`Unsupported schema version (version = ${json.schemaVersion}, supported = ${MLP_SCHEMA_VERSION}).`);
+    }
+    const { layers, weights, biases } = json;
+    if (!Array.isArray(layers) || !Array.isArray(weights) || !Array.isArray(biases)) {
+      invalidateJSON('Model must have layers, weights and biases arrays.');
+    }
+    if (weights.length !== layers.length - 1 || biases.length !== layers.length - 1) {
+      invalidateJSON(`Model must have one weight matrix and bias vector per non-input layer (layers = ${layers.length}, weights = ${weights.length}, biases = ${biases.length}).`);
+    }
+
+    const model = new MLP(layers.map((layer) => ({ ...layer })));
+    for (let l = 0; l < weights.length; l++) {
+      const rows = layers[l + 1].numNeurons;
+      const cols = layers[l].numNeurons;
+      const matrix = weights[l];
+      const actualRows = Array.isArray(matrix) ? matrix.length : 0;
+      const actualCols = actualRows > 0 && Array.isArray(matrix[0]) ? matrix[0].length : 0;
+      const consistent = actualRows === rows &&
+        matrix.every((row) => Array.isArray(row) && row.length === cols);
+      if (!consistent) {
+        throw new ShapeMismatchError('MATMUL', `Weights ${l} must connect layers ${l} and ${l + 1} (weights = [${actualRows}, ${actualCols}], expected = [${rows}, ${cols}]).`, {
+          operation: 'MLP.fromJSON',
+          shapes: [[actualRows, actualCols], [rows, cols]],
+        });
+      }
+      const bias = biases[l];
+      const biasLength = Array.isArray(bias) ? bias.length : 0;
+      if (biasLength !== rows) {
+        throw new ShapeMismatchError('VECADD', `Bias ${l} must match layer ${l + 1} (bias = ${biasLength}, expected = ${rows}).`, {
+          operation: 'MLP.fromJSON',
+          shapes: [[biasLength], [rows]],
+        });
+      }
+      const data = new Float64Array(rows * cols);
+      matrix.forEach((row, i) => data.set(row, i * cols));
+      model.weights[l] = Matrix.fromBuffer(data, rows, cols);
+      model.biases[l] = Vector.fromArray(bias);
+    }
+    if (model.normalizations.some((normalization) => normalization)) {
+      const { normalizations } = json;
+      if (!Array.isArray(normalizations) || normalizations.length !== layers.length - 1) {
+        invalidateJSON('Model must have one normalization state per non-input layer.');
+      }
+      model.normalizations.forEach((normalization, l) => {
+        const state = normalizations?.[l];
+        if (!normalization) {
+          return;
+        }
+        if (!state) {
+          invalidateJSON(`Normalization state of layer ${l + 1} is missing.`);
+        }
+        normalization.loadJSON(state as SerializedNormalization);
+      });
+    }
+    return model;
+  }
+}
@@ -0,0 +1,482 @@
+import { promises as fs } from 'fs';
+import {
+  ImplementedActivationFunction,
+  SerializedLayer,
+} from '../interface';
+import { InvalidArgumentError, UnsupportedOperandError } from '../errors';
+import { DEFAULT_ELU_ALPHA, DEFAULT_LEAKY_SLOPE } from '../math';
+import { buildDenseModel, validateExportable } from './interchange';
+import { MLP } from './mlp';
+import {
+  ProtoMessage,
+  ProtoWriter,
+  decodeProto,
+  protoBytes,
+  protoFloat,
+  protoInt,
+  protoInts,
+  protoMessages,
+  protoReals,
+  protoString,
+  protoStrings,
+} from './protobuf';
+
+// Field numbers of the messages of onnx.proto
+const MODEL = { irVersion: 1, producerName: 2, producerVersion: 3, graph: 7, opsetImport: 8 };
+const OPSET = { domain: 1, version: 2 };
+const GRAPH = { node: 1, name: 2, initializer: 5, input: 11, output: 12 };
+const NODE = { input: 1, output: 2, name: 3, opType: 4, attribute: 5, domain: 7 };
+const ATTRIBUTE = { name: 1, f: 2, i: 3, s: 4, type: 20 };
+const TENSOR = { dims: 1, dataType: 2, floatData: 4, name: 8, rawData: 9, doubleData: 10, dataLocation: 14 };
+const VALUE_INFO = { name: 1, type: 2 };
+const TYPE = { tensorType: 1 };
+const TENSOR_TYPE = { elemType: 1, shape: 2 };
+const SHAPE = { dim: 1 };
+const DIMENSION = { value: 1, param: 2 };
+
+const DATA_TYPE_FLOAT = 1;
+const DATA_TYPE_DOUBLE = 11;
+const ATTRIBUTE_FLOAT = 1;
+const ATTRIBUTE_INT = 2;
+const ATTRIBUTE_STRING = 3;
+const DATA_LOCATION_EXTERNAL = 1;
+
+const HARD_SIGMOID_ALPHA = 0.2;
+const HARD_SIGMOID_BETA = 0.5;
+// Precision of attributes, which ONNX stores as 32-bit floats
+const FLOAT_TOLERANCE = 1e-6;
+
+/**
+ * Operators of the activations with a single ONNX counterpart
+ */
+const OPERATORS: Partial<Record<ImplementedActivationFunction, string>> = {
+  sigmoid: 'Sigmoid',
+  tanh: 'Tanh',
+  reLU: 'Relu',
+  leakyReLU: 'LeakyRelu',
+  elu: 'Elu',
+  selu: 'Selu',
+  gelu: 'Gelu',
+  softplus: 'Softplus',
+  hardSigmoid: 'HardSigmoid',
+  mish: 'Mish',
+  softmax: 'Softmax',
+  logSoftmax: 'LogSoftmax',
+};
+
+// Opset that introduced the operator, when newer than the default one
+const MINIMUM_OPSETS: Partial<Record<ImplementedActivationFunction, number>> = {
+  mish: 18,
+  gelu: 20,
+};
+const DEFAULT_OPSET = 13;
+
+const invalidModel = (message: string) => (
+  new InvalidArgumentError('ONNX', message, {
+    operation: 'importONNX',
+    argument: 'bytes',
+  })
+);
+
+const unsupported = (message: string, operand: string) => (
+  new UnsupportedOperandError('ONNX', message, {
+    operation: 'importONNX',
+    operand,
+  })
+);
+
+const attribute = (name: string, value: number | string, type: number): ProtoWriter => {
+  const writer = new ProtoWriter().string(ATTRIBUTE.name, name).int(ATTRIBUTE.type, type);
+  if (type === ATTRIBUTE_FLOAT) {
+    return writer.float(ATTRIBUTE.f, value as number);
+  }
+  if (type === ATTRIBUTE_INT) {
+    return writer.int(ATTRIBUTE.i, value as number);
+  }
+  return writer.string(ATTRIBUTE.s, value as string);
+};
+
+const node = (
+  opType: string,
+  inputs: string[],
+  output: string,
+  attributes: ProtoWriter[] = [],
+): ProtoWriter => {
+  const writer = new ProtoWriter();
+  inputs.forEach((input) => writer.string(NODE.input, input));
+  writer.string(NODE.output, output).string(NODE.name, `${output}/${opType}`).string(NODE.opType, opType);
+  attributes.forEach((attr) => writer.message(NODE.attribute, attr));
+  return writer;
+};
+
+const tensor = (name: string, dims: number[], values: ArrayLike<number>): ProtoWriter => {
+  const raw = new Uint8Array(values.length * 4);
+  const view = new DataView(raw.buffer);
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat32(4 * i, values[i], true);
+  }
+  const writer = new ProtoWriter();
+  dims.forEach((dim) => writer.int(TENSOR.dims, dim));
+  return writer
+    .int(TENSOR.dataType, DATA_TYPE_FLOAT)
+    .string(TENSOR.name, name)
+    .bytesField(TENSOR.rawData, raw);
+};
+
+// Float matrix of shape [batch, size], with a symbolic batch size
+const valueInfo = (name: string, size: number): ProtoWriter => {
+  const shape = new ProtoWriter()
+    .message(SHAPE.dim, new ProtoWriter().string(DIMENSION.param, 'batch'))
+    .message(SHAPE.dim, new ProtoWriter().int(DIMENSION.value, size));
+  const tensorType = new ProtoWriter()
+    .int(TENSOR_TYPE.elemType, DATA_TYPE_FLOAT)
+    .message(TENSOR_TYPE.shape, shape);
+  return new ProtoWriter()
+    .string(VALUE_INFO.name, name)
+    .message(VALUE_INFO.type, new ProtoWriter().message(TYPE.tensorType, tensorType));
+};
+
+// Nodes computing an activation (none for the linear one)
+const activationNodes = (
+  { activation, activationParams = {} }: SerializedLayer,
+  input: string,
+  output: string,
+): ProtoWriter[] => {
+  switch (activation) {
+  case 'linear':
+    return [];
+  case 'swish':
+    return [
+      node('Sigmoid', [input], `${input}/sigmoid`),
+      node('Mul', [input, `${input}/sigmoid`], output),
+    ];
+  case 'leakyReLU':
+    return [node('LeakyRelu', [input], output, [
+      attribute('alpha', activationParams.slope ?? DEFAULT_LEAKY_SLOPE, ATTRIBUTE_FLOAT),
+    ])];
+  case 'elu':
+    return [node('Elu', [input], output, [
+      attribute('alpha', activationParams.alpha ?? DEFAULT_ELU_ALPHA, ATTRIBUTE_FLOAT),
+    ])];
+  case 'gelu':
+    return [node('Gelu', [input], output, [attribute('approximate', 'tanh', ATTRIBUTE_STRING)])];
+  case 'hardSigmoid':
+    return [node('HardSigmoid', [input], output, [
+      attribute('alpha', HARD_SIGMOID_ALPHA, ATTRIBUTE_FLOAT),
+      attribute('beta', HARD_SIGMOID_BETA, ATTRIBUTE_FLOAT),
+    ])];
+  case 'softmax':
+  case 'logSoftmax':
+    return [node(OPERATORS[activation] as string, [input], output, [attribute('axis', -1, ATTRIBUTE_INT)])];
+  default:
+    return [node(OPERATORS[activation] as string, [input], output)];
+  }
+};
+
+/**
+ * Encode a network as an ONNX model
+ * @remarks
+ * Every layer becomes a `Gemm` node, with its weights stored as a
+ * float32 initializer of shape [out, in] (`transB = 1`), followed by
+ * the nodes of its activation. The input is named `input`, the output
+ * `output`, and both have a symbolic batch dimension. The opset is the
+ * oldest one that has every operator used (13 at least). Dropout,
+ * regularization and max-norm constraints are training-only and are
+ * not exported
+ * @param {MLP} model - network to export
+ * @returns {Uint8Array} serialized `ModelProto`
+ */
+export const exportONNX = (model: MLP): Uint8Array => {
+  validateExportable(model, 'ONNX', 'exportONNX');
+  const layers = model.toJSON().layers.slice(1);
+  const graph = new ProtoWriter();
+  let current = 'input';
+  layers.forEach((layer, l) => {
+    const prefix = `dense_${l}`;
+    const output = l === layers.length - 1 ? 'output' : `${prefix}/output`;
+    const linear = layer.activation === 'linear' ? output : `${prefix}/linear`;
+    graph.message(GRAPH.node, node(
+      'Gemm',
+      [current, `${prefix}.weight`, `${prefix}.bias`],
+      linear,
+      [attribute('transB', 1, ATTRIBUTE_INT)],
+    ));
+    activationNodes(layer, linear, output).forEach((activation) => (
+      graph.message(GRAPH.node, activation)
+    ));
+    current = output;
+  });
+  graph.string(GRAPH.name, 'perceptron');
+  model.weights.forEach((weights, l) => {
+    graph.message(GRAPH.initializer, tensor(`dense_${l}.weight`, [weights.numRows, weights.numCols], weights.data));
+    graph.message(GRAPH.initializer, tensor(`dense_${l}.bias`, [model.biases[l].length], model.biases[l]));
+  });
+  graph
+    .message(GRAPH.input, valueInfo('input', model.inputSize))
+    .message(GRAPH.output, valueInfo('output', model.outputSize));
+
+  const opset = Math.max(DEFAULT_OPSET, ...layers.map(({ activation }) => (
+    MINIMUM_OPSETS[activation] ?? DEFAULT_OPSET
+  )));
+  // Oldest IR version that supports the opset
+  const irVersion = opset >= 19 ? 9 : opset >= 15 ? 8 : 7;
+  return new ProtoWriter()
+    .int(MODEL.irVersion, irVersion)
+    .string(MODEL.producerName, 'perceptron.js')
+    .message(MODEL.graph, graph)
+    .message(MODEL.opsetImport, new ProtoWriter().string(OPSET.domain, '').int(OPSET.version, opset))
+    .finish();
+};
+
+interface ONNXTensor {
+  dims: number[];
+  values: number[];
+}
+
+const readTensor = (message: ProtoMessage): ONNXTensor => {
+  const operation = 'importONNX';
+  const name = protoString(message, TENSOR.name, operation);
+  const dims = protoInts(message, TENSOR.dims, operation);
+  const dataType = protoInt(message, TENSOR.dataType, operation);
+  if (protoInt(message, TENSOR.dataLocation, operation) === DATA_LOCATION_EXTERNAL) {
+    throw unsupported(`Tensors stored in external files are not supported (tensor = ${name}).`, 'external');
+  }
+  if (dataType !== DATA_TYPE_FLOAT && dataType !== DATA_TYPE_DOUBLE) {
+    throw unsupported(`Tensors must hold float or double values (tensor = ${name}, dataType = ${dataType}).`, `dataType ${dataType}`);
+  }
+  const size = dataType === DATA_TYPE_FLOAT ? 4 : 8;
+  const raw = protoBytes(message, TENSOR.rawData, operation);
+  let values: number[];
+  if (raw) {
+    if (raw.length % size !== 0) {
+      throw invalidModel(`Raw data of tensor ${name} has a partial value (bytes = ${raw.length}).`);
+    }
+    const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+    values = Array.from({ length: raw.length / size }, (_, i) => (
+      size === 4 ? view.getFloat32(size * i, true) : view.getFloat64(size * i, true)
+    ));
+  } else {
+    values = size === 4 ?
+      protoReals(message, TENSOR.floatData, 4, operation) :
+      protoReals(message, TENSOR.doubleData, 8, operation);
+  }
+  const expected = dims.reduce((acc, dim) => acc * dim, 1);
+  if (values.length !== expected) {
+    throw invalidModel(`Tensor ${name} must have one value per entry (values = ${values.length}, dims = [${dims}]).`);
+  }
+  return { dims, values };
+};
+
+// Bias of a layer, stored as [out] or [1, out]
+const readBias = ({ dims, values }: ONNXTensor, size: number): number[] => {
+  if (values.length !== size || dims.length > 2 || (dims.length === 2 && dims[0] !== 1)) {
+    throw invalidModel(`Bias must have one value per neuron (dims = [${dims}], neurons = ${size}).`);
+  }
+  return values;
+};
+
+// Attributes of a node by name
+const readAttributes = (message: ProtoMessage): Map<string, ProtoMessage> => {
+  const attributes = new Map<string, ProtoMessage>();
+  protoMessages(message, NODE.attribute, 'importONNX').forEach((attr) => {
+    attributes.set(protoString(attr, ATTRIBUTE.name, 'importONNX'), attr);
+  });
+  return attributes;
+};
+
+const floatAttribute = (attributes: Map<string, ProtoMessage>, name: string, fallback: number): number => {
+  const attr = attributes.get(name);
+  return attr ? protoFloat(attr, ATTRIBUTE.f, 'importONNX', fallback) : fallback;
+};
+
+const intAttribute = (attributes: Map<string, ProtoMessage>, name: string, fallback: number): number => {
+  const attr = attributes.get(name);
+  return attr ? protoInt(attr, ATTRIBUTE.i, 'importONNX', fallback) : fallback;
+};
+
+const stringAttribute = (attributes: Map<string, ProtoMessage>, name: string, fallback: string): string => {
+  const attr = attributes.get(name);
+  return attr ? protoString(attr, ATTRIBUTE.s, 'importONNX') : fallback;
+};
+
+const close = (a: number, b: number) => Math.abs(a - b) <= FLOAT_TOLERANCE;
+
+// Activation of a node, or null for nodes that are not activations
+const readActivation = (
+  opType: string,
+  attributes: Map<string, ProtoMessage>,
+): Pick<SerializedLayer, 'activation' | 'activationParams'> | null => {
+  const [activation] = (Object.keys(OPERATORS) as ImplementedActivationFunction[])
+    .filter((key) => OPERATORS[key] === opType);
+  if (!activation) {
+    return null;
+  }
+  switch (activation) {
+  case 'leakyReLU':
+    return { activation, activationParams: { slope: floatAttribute(attributes, 'alpha', DEFAULT_LEAKY_SLOPE) } };
+  case 'elu':
+    return { activation, activationParams: { alpha: floatAttribute(attributes, 'alpha', DEFAULT_ELU_ALPHA) } };
+  case 'gelu':
+    if (stringAttribute(attributes, 'approximate', 'none') !== 'tanh') {
+      throw unsupported('Only the tanh approximation of GELU is supported.', opType);
+    }
+    return { activation };
+  case 'hardSigmoid':
+    if (!close(floatAttribute(attributes, 'alpha', HARD_SIGMOID_ALPHA), HARD_SIGMOID_ALPHA) ||
+      !close(floatAttribute(attributes, 'beta', HARD_SIGMOID_BETA), HARD_SIGMOID_BETA)) {
+      throw unsupported(`HardSigmoid must have alpha = ${HARD_SIGMOID_ALPHA} and beta = ${HARD_SIGMOID_BETA}.`, opType);
+    }
+    return { activation };
+  case 'selu':
+    if (attributes.has('alpha') || attributes.has('gamma')) {
+      throw unsupported('Selu must use the default alpha and gamma.', opType);
+    }
+    return { activation };
+  case 'softmax':
+  case 'logSoftmax': {
+    const axis = intAttribute(attributes, 'axis', -1);
+    if (axis !== -1 && axis !== 1) {
+      throw unsupported(`${opType} must be applied over the features (axis = ${axis}).`, opType);
+    }
+    return { activation };
+  }
+  default:
+    return { activation };
+  }
+};
+
+/**
+ * Decode an ONNX model made of dense layers
+ * @remarks
+ * The graph must be a chain from its single input to its single
+ * output, where every layer is a `Gemm` node (`alpha = beta = 1`,
+ * `transA = 0`) or a `MatMul` node optionally followed by an `Add` of
+ * the bias, then at most one activation. `Identity` and `Dropout`
+ * nodes are skipped, and `Sigmoid` followed by `Mul` with its input is
+ * read as swish. Weights must be float or double initializers stored
+ * in the model
+ * @param {Uint8Array} bytes - serialized `ModelProto`
+ * @returns {MLP} the network, in inference mode
+ */
+export const importONNX = (bytes: Uint8Array): MLP => {
+  const operation = 'importONNX';
+  const [graph] = protoMessages(decodeProto(bytes, operation), MODEL.graph, operation);
+  if (!graph) {
+    throw invalidModel('Model has no graph.');
+  }
+  const initializers = new Map<string, ONNXTensor>();
+  protoMessages(graph, GRAPH.initializer, operation).forEach((message) => {
+    initializers.set(protoString(message, TENSOR.name, operation), readTensor(message));
+  });
+  // Older exporters also list the initializers as inputs
+  const inputs = protoMessages(graph, GRAPH.input, operation)
+    .map((info) => protoString(info, VALUE_INFO.name, operation))
+    .filter((name) => !initializers.has(name));
+  const outputs = protoMessages(graph, GRAPH.output, operation)
+    .map((info) => protoString(info, VALUE_INFO.name, operation));
+  if (inputs.length !== 1 || outputs.length !== 1) {
+    throw unsupported(`Graph must have a single input and a single output (inputs = ${inputs.length}, outputs = ${outputs.length}).`, 'graph');
+  }
+
+  const initializer = (name: string, opType: string): ONNXTensor => {
+    const value = initializers.get(name);
+    if (!value) {
+      throw unsupported(`Parameters of ${opType} must be initializers (input = ${name}).`, opType);
+    }
+    return value;
+  };
+  const layers: SerializedLayer[] = [];
+  const weights: number[][][] = [];
+  const biases: number[][] = [];
+  let current = inputs[0];
+  // Whether the last layer can still take a bias, and an activation
+  let biasOpen = false;
+  let activationOpen = false;
+  let sigmoidInput: string | null = null;
+
+  protoMessages(graph, GRAPH.node, operation).forEach((message) => {
+    const opType = protoString(message, NODE.opType, operation);
+    const nodeInputs = protoStrings(message, NODE.input, operation);
+    const [output] = protoStrings(message, NODE.output, operation);
+    const attributes = readAttributes(message);
+    const previous = sigmoidInput;
+    sigmoidInput = null;
+    const swish = opType === 'Mul' && previous !== null && nodeInputs.length === 2 &&
+      nodeInputs.includes(current) && nodeInputs.includes(previous);
+    if (!swish && nodeInputs[0] !== current && !(opType === 'Add' && nodeInputs[1] === current)) {
+      throw unsupported(`Graph must be a chain of dense layers (node = ${protoString(message, NODE.name, operation)}, op = ${opType}).`, opType);
+    }
+
+    if (opType === 'Gemm' || opType === 'MatMul') {
+      const { dims, values } = initializer(nodeInputs[1], opType);
+      const transposed = opType === 'Gemm' && intAttribute(attributes, 'transB', 0) === 1;
+      if (opType === 'Gemm' && (
+        intAttribute(attributes, 'transA', 0) !== 0 ||
+        !close(floatAttribute(attributes, 'alpha', 1), 1) ||
+        !close(floatAttribute(attributes, 'beta', 1), 1))) {
+        throw unsupported('Gemm must have alpha = beta = 1 and transA = 0.', opType);
+      }
+      if (dims.length !== 2) {
+        throw invalidModel(`Weights of ${opType} must be a matrix (dims = [${dims}]).`);
+      }
+      // Weights are stored as [out, in]
+      const [rows, cols] = transposed ? dims : [dims[1], dims[0]];
+      weights.push(Array.from({ length: rows }, (_, i) => (
+        Array.from({ length: cols }, (__, j) => (transposed ? values[i * cols + j] : values[j * rows + i]))
+      )));
+      biases.push(new Array(rows).fill(0));
+      layers.push({ numNeurons: rows, activation: 'linear' });
+      biasOpen = opType === 'MatMul';
+      activationOpen = true;
+      if (opType === 'Gemm' && nodeInputs[2]) {
+        biases[biases.length - 1] = readBias(initializer(nodeInputs[2], opType), rows);
+      }
+    } else if (opType === 'Add' && biasOpen) {
+      const bias = nodeInputs[0] === current ? nodeInputs[1] : nodeInputs[0];
+      biases[biases.length - 1] = readBias(initializer(bias, opType), layers[layers.length - 1].numNeurons);
+      biasOpen = false;
+    } else if (swish) {
+      layers[layers.length - 1].activation = 'swish';
+    } else if (opType !== 'Identity' && opType !== 'Dropout') {
+      const activation = readActivation(opType, attributes);
+      if (!activation) {
+        throw unsupported(`Operator is not supported (op = ${opType}).`, opType);
+      }
+      if (!activationOpen) {
+        throw unsupported(`Activation must follow a dense layer (op = ${opType}).`, opType);
+      }
+      Object.assign(layers[layers.length - 1], activation);
+      biasOpen = false;
+      activationOpen = false;
+      sigmoidInput = activation.activation === 'sigmoid' ? nodeInputs[0] : null;
+    }
+    current = output;
+  });
+
+  if (layers.length === 0) {
+    throw unsupported('Graph has no dense layer.', 'graph');
+  }
+  if (current !== outputs[0]) {
+    throw unsupported(`Graph output must be the output of the last layer (output = ${outputs[0]}, last = ${current}).`, 'graph');
+  }
+  return buildDenseModel(layers, weights, biases);
+};
+
+/**
+ * Write a network to an ONNX file
+ * @param {string} path - destination file, usually `*.onnx`
+ * @param {MLP} model - network to save
+ */
+export const saveONNX = async (path: string, model: MLP): Promise<void> => {
+  await fs.writeFile(path, exportONNX(model));
+};
+
+/**
+ * Read a network from an ONNX file
+ * @param {string} path - file holding a dense-only model
+ * @returns {Promise<MLP>} the network
+ */
+export const loadONNX = async (path: string): Promise<MLP> => {
+  const contents = await fs.readFile(path);
+  return importONNX(new Uint8Array(contents.buffer, contents.byteOffset, contents.byteLength));
+};
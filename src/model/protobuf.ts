@@ -0,0 +1,406 @@
+import { InvalidArgumentError } from '../errors';
+
+/**
+ * Wire types of the protocol buffers encoding
+ */
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_FIXED32 = 5;
+
+const TWO_TO_32 = 4294967296;
+
+/**
+ * Field of a decoded message
+ * @property {number} wireType - Wire type of the field
+ * @property {number | Uint8Array} value - Integer of varint fields,
+ * raw bytes of the other ones
+ */
+export interface ProtoField {
+  wireType: number;
+  value: number | Uint8Array;
+}
+
+/**
+ * Fields of a decoded message, by field number, in order of occurrence
+ */
+export type ProtoMessage = Map<number, ProtoField[]>;
+
+const malformed = (message: string, operation: string) => (
+  new InvalidArgumentError('ONNX', `Protocol buffer is malformed: ${message}`, {
+    operation,
+    argument: 'bytes',
+  })
+);
+
+/**
+ * Minimal protocol buffers encoder
+ * @remarks
+ * Only the wire types needed by ONNX models are supported. Integers
+ * are encoded as 64-bit varints (negative values take ten bytes) and
+ * must be safe integers. Fields are written in call order
+ */
+export class ProtoWriter {
+  private bytes: number[] = [];
+
+  /**
+   * Write a varint field (int32, int64, enum or bool)
+   * @param {number} field - Field number
+   * @param {number} value - Integer value
+   * @returns {ProtoWriter} the writer, for chaining
+  */
+  int(field: number, value: number): ProtoWriter {
+    this.tag(field, WIRE_VARINT);
+    this.varint(value);
+    return this;
+  }
+
+  /**
+   * Write a float field, as 32 bits
+   * @param {number} field - Field number
+   * @param {number} value - Value, rounded to single precision
+   * @returns {ProtoWriter} the writer, for chaining
+  */
+  float(field: number, value: number): ProtoWriter {
+    this.tag(field, WIRE_FIXED32);
+    const buffer = new Uint8Array(4);
+    new DataView(buffer.buffer).setFloat32(0, value, true);
+    buffer.forEach((byte) => this.bytes.push(byte));
+    return this;
+  }
+
+  /**
+   * Write a string field, encoded as UTF-8
+   * @param {number} field - Field number
+   * @param {string} value - Value
+   * @returns {ProtoWriter} the writer, for chaining
+  */
+  string(field: number, value: string): ProtoWriter {
+    return this.bytesField(field, new TextEncoder().encode(value));
+  }
+
+  /**
+   * Write a bytes field
+   * @param {number} field - Field number
+   * @param {Uint8Array} value - Value
+   * @returns {ProtoWriter} the writer, for chaining
+  */
+  bytesField(field: number, value: Uint8Array): ProtoWriter {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.varint(value.length);
+    value.forEach((byte) => this.bytes.push(byte));
+    return this;
+  }
+
+  /**
+   * Write an embedded message field
+   * @param {number} field - Field number
+   * @param {ProtoWriter} message - Writer holding the message
+   * @returns {ProtoWriter} the writer, for chaining
+  */
+  message(field: number, message: ProtoWriter): ProtoWriter {
+    return this.bytesField(field, message.finish());
+  }
+
+  /**
+   * Encoded message
+   * @returns {Uint8Array} bytes written so far
+  */
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  private tag(field: number, wireType: number) {
+    this.varint(field * 8 + wireType);
+  }
+
+  private varint(value: number) {
+    // Two's complement on 64 bits, split into 32-bit halves
+    let hi = Math.floor(value / TWO_TO_32);
+    let lo = (value - hi * TWO_TO_32) >>> 0;
+    hi >>>= 0;
+    while (hi > 0 || lo > 0x7f) {
+      this.bytes.push((lo & 0x7f) | 0x80);
+      lo = ((lo >>> 7) | (hi << 25)) >>> 0;
+      hi >>>= 7;
+    }
+    this.bytes.push(lo);
+  }
+}
+
+/**
+ * Cursor over an encoded message
+ */
+class ProtoReader {
+  private position = 0;
+
+  constructor(private bytes: Uint8Array, private operation: string) {}
+
+  get done(): boolean {
+    return this.position >= this.bytes.length;
+  }
+
+  varint(): number {
+    let lo = 0;
+    let hi = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (this.done || shift > 63) {
+        throw malformed('varint is truncated or too long.', this.operation);
+      }
+      const byte = this.bytes[this.position++];
+      const bits = byte & 0x7f;
+      if (shift < 28) {
+        lo |= bits << shift;
+      } else if (shift === 28) {
+        lo |= bits << 28;
+        hi |= bits >>> 4;
+      } else {
+        hi |= bits << (shift - 32);
+      }
+      if (!(byte & 0x80)) {
+        break;
+      }
+    }
+    return (hi | 0) * TWO_TO_32 + (lo >>> 0);
+  }
+
+  take(length: number): Uint8Array {
+    if (length < 0 || this.position + length > this.bytes.length) {
+      throw malformed(`field overruns the message (length = ${length}, remaining = ${this.bytes.length - this.position}).`, this.operation);
+    }
+    const value = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return value;
+  }
+}
+
+/**
+ * Decode the fields of a message
+ * @remarks
+ * Embedded messages are left encoded, so that they are decoded only
+ * when read with `protoMessages`
+ * @param {Uint8Array} bytes - Encoded message
+ * @param {string} operation - Operation decoding, for error reports
+ * @returns {ProtoMessage} fields by number
+ */
+export const decodeProto = (bytes: Uint8Array, operation: string): ProtoMessage => {
+  const reader = new ProtoReader(bytes, operation);
+  const message: ProtoMessage = new Map();
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag % 8;
+    let value: number | Uint8Array;
+    if (wireType === WIRE_VARINT) {
+      value = reader.varint();
+    } else if (wireType === WIRE_FIXED64) {
+      value = reader.take(8);
+    } else if (wireType === WIRE_LENGTH_DELIMITED) {
+      value = reader.take(reader.varint());
+    } else if (wireType === WIRE_FIXED32) {
+      value = reader.take(4);
+    } else {
+      throw malformed(`unsupported wire type (field = ${field}, wireType = ${wireType}).`, operation);
+    }
+    if (field < 1) {
+      throw malformed(`invalid field number (field = ${field}).`, operation);
+    }
+    const fields = message.get(field) ?? [];
+    fields.push({ wireType, value });
+    message.set(field, fields);
+  }
+  return message;
+};
+
+const valuesOf = (
+  message: ProtoMessage,
+  field: number,
+  wireType: number,
+  operation: string,
+): Array<number | Uint8Array> => (message.get(field) ?? []).map((entry) => {
+  if (entry.wireType !== wireType) {
+    throw malformed(`unexpected wire type (field = ${field}, wireType = ${entry.wireType}, expected = ${wireType}).`, operation);
+  }
+  return entry.value;
+});
+
+// Repeated scalars may be packed into a single length-delimited field
+const repeated = <T>(
+  message: ProtoMessage,
+  field: number,
+  wireType: number,
+  read: (value: number | Uint8Array) => T,
+  unpack: (bytes: Uint8Array) => T[],
+): T[] => {
+  const values: T[] = [];
+  (message.get(field) ?? []).forEach((entry) => {
+    if (entry.wireType === WIRE_LENGTH_DELIMITED && wireType !== WIRE_LENGTH_DELIMITED) {
+      values.push(...unpack(entry.value as Uint8Array));
+    } else {
+      values.push(read(entry.value));
+    }
+  });
+  return values;
+};
+
+const viewOf = (bytes: Uint8Array): DataView => (
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+);
+
+/**
+ * Last value of a varint field
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {string} operation - Operation decoding, for error reports
+ * @param {number} fallback - Value of a missing field
+ * @returns {number} value of the field
+ */
+export const protoInt = (
+  message: ProtoMessage,
+  field: number,
+  operation: string,
+  fallback = 0,
+): number => {
+  const values = valuesOf(message, field, WIRE_VARINT, operation);
+  return values.length > 0 ? values[values.length - 1] as number : fallback;
+};
+
+/**
+ * Values of a repeated varint field, packed or not
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {string} operation - Operation decoding, for error reports
+ * @returns {number[]} values of the field
+ */
+export const protoInts = (
+  message: ProtoMessage,
+  field: number,
+  operation: string,
+): number[] => repeated(message, field, WIRE_VARINT, (value) => {
+  if (typeof value !== 'number') {
+    throw malformed(`unexpected wire type (field = ${field}).`, operation);
+  }
+  return value;
+}, (bytes) => {
+  const reader = new ProtoReader(bytes, operation);
+  const values: number[] = [];
+  while (!reader.done) {
+    values.push(reader.varint());
+  }
+  return values;
+});
+
+/**
+ * Last value of a float field
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {string} operation - Operation decoding, for error reports
+ * @param {number} fallback - Value of a missing field
+ * @returns {number} value of the field
+ */
+export const protoFloat = (
+  message: ProtoMessage,
+  field: number,
+  operation: string,
+  fallback = 0,
+): number => {
+  const values = valuesOf(message, field, WIRE_FIXED32, operation);
+  return values.length > 0 ?
+    viewOf(values[values.length - 1] as Uint8Array).getFloat32(0, true) :
+    fallback;
+};
+
+/**
+ * Values of a repeated float or double field, packed or not
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {number} size - 4 for floats, 8 for doubles
+ * @param {string} operation - Operation decoding, for error reports
+ * @returns {number[]} values of the field
+ */
+export const protoReals = (
+  message: ProtoMessage,
+  field: number,
+  size: 4 | 8,
+  operation: string,
+): number[] => {
+  const wireType = size === 4 ? WIRE_FIXED32 : WIRE_FIXED64;
+  const read = (view: DataView, offset: number) => (
+    size === 4 ? view.getFloat32(offset, true) : view.getFloat64(offset, true)
+  );
+  return repeated(message, field, wireType, (value) => {
+    if (typeof value === 'number' || value.length !== size) {
+      throw malformed(`unexpected wire type (field = ${field}).`, operation);
+    }
+    return read(viewOf(value), 0);
+  }, (bytes) => {
+    if (bytes.length % size !== 0) {
+      throw malformed(`packed field has a partial value (field = ${field}, bytes = ${bytes.length}).`, operation);
+    }
+    const view = viewOf(bytes);
+    return Array.from({ length: bytes.length / size }, (_, i) => read(view, i * size));
+  });
+};
+
+/**
+ * Last value of a bytes field
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {string} operation - Operation decoding, for error reports
+ * @returns {Uint8Array | undefined} value of the field, if present
+ */
+export const protoBytes = (
+  message: ProtoMessage,
+  field: number,
+  operation: string,
+): Uint8Array | undefined => {
+  const values = valuesOf(message, field, WIRE_LENGTH_DELIMITED, operation);
+  return values.length > 0 ? values[values.length - 1] as Uint8Array : undefined;
+};
+
+/**
+ * Values of a repeated string field
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {string} operation - Operation decoding, for error reports
+ * @returns {string[]} values of the field
+ */
+export const protoStrings = (
+  message: ProtoMessage,
+  field: number,
+  operation: string,
+): string[] => {
+  const decoder = new TextDecoder();
+  return valuesOf(message, field, WIRE_LENGTH_DELIMITED, operation)
+    .map((value) => decoder.decode(value as Uint8Array));
+};
+
+/**
+ * Last value of a string field
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {string} operation - Operation decoding, for error reports
+ * @returns {string} value of the field, empty if missing
+ */
+export const protoString = (
+  message: ProtoMessage,
+  field: number,
+  operation: string,
+): string => {
+  const values = protoStrings(message, field, operation);
+  return values.length > 0 ? values[values.length - 1] : '';
+};
+
+/**
+ * Decoded values of a repeated message field
+ * @param {ProtoMessage} message - Decoded message
+ * @param {number} field - Field number
+ * @param {string} operation - Operation decoding, for error reports
+ * @returns {ProtoMessage[]} embedded messages
+ */
+export const protoMessages = (
+  message: ProtoMessage,
+  field: number,
+  operation: string,
+): ProtoMessage[] => valuesOf(message, field, WIRE_LENGTH_DELIMITED, operation)
+  .map((value) => decodeProto(value as Uint8Array, operation));
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import {
+  SerializedMLP,
+  SerializedOptimizer,
+} from '../interface';
+import { InvalidArgumentError, ShapeMismatchError } from '../errors';
+import { Matrix } from '../math';
+import {
+  Optimizer,
+  OptimizerParameter,
+  createOptimizer,
+} from '../optimizer';
+import { MLP } from './mlp';
+
+/**
+ * JSON representation of an optimizer
+ * @remarks
+ * The state is stored in the same order as the parameters, with
+ * `null` for parameters that have not been updated yet
+ * @param {Optimizer} optimizer - optimizer to serialize
+ * @param {OptimizerParameter[]} params - parameters, in a stable order
+ * @returns {SerializedOptimizer} plain object ready for `JSON.stringify`
+ */
+export const serializeOptimizer = (
+  optimizer: Optimizer,
+  params: OptimizerParameter[],
+): SerializedOptimizer => ({
+  key: optimizer.key,
+  options: optimizer.getOptions(),
+  state: params.map((param) => {
+    const state = optimizer.state.get(param);
+    if (!state) {
+      return null;
+    }
+    const buffers: Record<string, number[]> = {};
+    Object.entries(state.buffers).forEach(([name, buffer]) => {
+      buffers[name] = [...buffer];
+    });
+    return { step: state.step, buffers };
+  }),
+});
+
+/**
+ * Rebuild an optimizer from its JSON representation
+ * @param {SerializedOptimizer} json - output of `serializeOptimizer`
+ * @param {OptimizerParameter[]} params - parameters, in the same order
+ * @returns {Optimizer} the optimizer, with its state restored
+ */
+export const deserializeOptimizer = (
+  json: SerializedOptimizer,
+  params: OptimizerParameter[],
+): Optimizer => {
+  if (!Array.isArray(json.state) || json.state.length !== params.length) {
+    throw new InvalidArgumentError('MLPJ', `Optimizer state must have one entry per parameter (state = ${json.state?.length}, params = ${params.length}).`, {
+      operation: 'deserializeOptimizer',
+      argument: 'json',
+    });
+  }
+  const optimizer = createOptimizer(json.key, params, json.options);
+  json.state.forEach((state, idx) => {
+    if (!state) {
+      return;
+    }
+    const param = params[idx];
+    const size = param instanceof Matrix ? param.data.length : param.length;
+    const buffers: Record<string, number[]> = {};
+    Object.entries(state.buffers ?? {}).forEach(([name, buffer]) => {
+      const length = Array.isArray(buffer) ? buffer.length : 0;
+      if (length !== size) {
+        throw new ShapeMismatchError('MLPJ', `Optimizer state ${name} of parameter ${idx} must match its size (state = ${length}, param = ${size}).`, {
+          operation: 'deserializeOptimizer',
+          shapes: [[length], [size]],
+        });
+      }
+      buffers[name] = [...buffer];
+    });
+    optimizer.state.set(params[idx], { step: state.step, buffers });
+  });
+  return optimizer;
+};
+
+/**
+ * JSON representation of a network and, optionally, its optimizer
+ * @param {MLP} model - network to serialize
+ * @param {Optimizer} optimizer - optimizer training the network
+ * @returns {SerializedMLP} plain object ready for `JSON.stringify`
+ */
+export const serializeModel = (
+  model: MLP,
+  optimizer?: Optimizer,
+): SerializedMLP => ({
+  ...model.toJSON(),
+  ...(optimizer ? {
+    optimizer: serializeOptimizer(optimizer, model.parameters()),
+  } : {}),
+});
+
+/**
+ * Rebuild a network and, if recorded, its optimizer
+ * @param {SerializedMLP} json - output of `serializeModel`
+ * @returns the network and its optimizer
+ */
+export const deserializeModel = (
+  json: SerializedMLP,
+): { model: MLP; optimizer?: Optimizer } => {
+  const model = MLP.fromJSON(json);
+  if (!json.optimizer) {
+    return { model };
+  }
+  return {
+    model,
+    optimizer: deserializeOptimizer(json.optimizer, model.parameters()),
+  };
+};
+
+/**
+ * Write a network (and its optimizer) to a JSON file
+ * @param {string} path - destination file
+ * @param {MLP} model - network to save
+ * @param {Optimizer} optimizer - optimizer training the network
+ */
+export const saveModel = async (
+  path: string,
+  model: MLP,
+  optimizer?: Optimizer,
+): Promise<void> => {
+  await fs.writeFile(path, JSON.stringify(serializeModel(model, optimizer)), 'utf8');
+};
+
+/**
+ * Read a network (and its optimizer) from a JSON file
+ * @param {string} path - file written by `saveModel`
+ * @returns the network and its optimizer
+ */
+export const loadModel = async (
+  path: string,
+): Promise<{ model: MLP; optimizer?: Optimizer }> => {
+  const contents = await fs.readFile(path, 'utf8');
+  let json: SerializedMLP;
+  try {
+    json = JSON.parse(contents);
+  } catch (error) {
+    throw new InvalidArgumentError('MLPJ', `File is not valid JSON (path = ${path}).`, {
+      operation: 'loadModel',
+      argument: 'path',
+    });
+  }
+  return deserializeModel(json);
+};
@@ -0,0 +1,337 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import {
+  ImplementedActivationFunction,
+  SerializedLayer,
+  TFJSArtifacts,
+  TFJSLayerJSON,
+  TFJSModelJSON,
+  TFJSWeightSpec,
+} from '../interface';
+import { InvalidArgumentError, UnsupportedOperandError } from '../errors';
+import { DEFAULT_ELU_ALPHA, DEFAULT_LEAKY_SLOPE } from '../math';
+import { buildDenseModel, validateExportable } from './interchange';
+import { MLP } from './mlp';
+
+/**
+ * Keras names of the activations that Dense layers support directly
+ */
+const KERAS_ACTIVATIONS: Partial<Record<ImplementedActivationFunction, string>> = {
+  sigmoid: 'sigmoid',
+  tanh: 'tanh',
+  reLU: 'relu',
+  swish: 'swish',
+  elu: 'elu',
+  selu: 'selu',
+  gelu: 'gelu_new',
+  softplus: 'softplus',
+  linear: 'linear',
+  hardSigmoid: 'hard_sigmoid',
+  mish: 'mish',
+  softmax: 'softmax',
+  logSoftmax: 'log_softmax',
+};
+
+// TensorFlow.js writes camelCase names, Keras writes snake_case ones
+const ACTIVATION_ALIASES: Record<string, string> = {
+  hardSigmoid: 'hard_sigmoid',
+  logSoftmax: 'log_softmax',
+  geluNew: 'gelu_new',
+};
+
+// Default slope of the Keras LeakyReLU layer, unlike ours
+const KERAS_LEAKY_ALPHA = 0.3;
+
+const invalidModel = (message: string, argument: string) => (
+  new InvalidArgumentError('TFJS', message, {
+    operation: 'importTFJS',
+    argument,
+  })
+);
+
+const unsupported = (message: string, operand: string) => (
+  new UnsupportedOperandError('TFJS', message, {
+    operation: 'importTFJS',
+    operand,
+  })
+);
+
+/**
+ * Encode a network as a TensorFlow.js layers model
+ * @remarks
+ * Every layer becomes a `Dense` layer of a `Sequential` model, with
+ * its kernel stored as [in, out] (the transpose of the weights) and
+ * its bias, both as float32. Leaky ReLU, and ELU with a non-default
+ * alpha, become a linear `Dense` layer followed by a `LeakyReLU` or
+ * `ELU` layer. Dropout, regularization and max-norm constraints are
+ * training-only and are not exported
+ * @param {MLP} model - network to export
+ * @param {string} weightsPath - name of the weights file, relative to
+ * the `model.json`
+ * @returns {TFJSArtifacts} contents of the `model.json` and of the
+ * weights file
+ */
+export const exportTFJS = (model: MLP, weightsPath = 'weights.bin'): TFJSArtifacts => {
+  validateExportable(model, 'TFJS', 'exportTFJS');
+  const layers: TFJSLayerJSON[] = [];
+  const weights: TFJSWeightSpec[] = [];
+  model.toJSON().layers.slice(1).forEach(({ numNeurons, activation, activationParams = {} }, l) => {
+    const name = `dense_${l + 1}`;
+    const alpha = activationParams.alpha ?? DEFAULT_ELU_ALPHA;
+    const separate = activation === 'leakyReLU' || (activation === 'elu' && alpha !== DEFAULT_ELU_ALPHA);
+    layers.push({
+      class_name: 'Dense',
+      config: {
+        name,
+        trainable: true,
+        dtype: 'float32',
+        units: numNeurons,
+        activation: separate ? 'linear' : KERAS_ACTIVATIONS[activation],
+        use_bias: true,
+        ...(l === 0 ? { batch_input_shape: [null, model.inputSize] } : {}),
+      },
+    });
+    if (activation === 'leakyReLU') {
+      layers.push({
+        class_name: 'LeakyReLU',
+        config: { name: `leaky_re_lu_${l + 1}`, trainable: true, dtype: 'float32', alpha: activationParams.slope ?? DEFAULT_LEAKY_SLOPE },
+      });
+    } else if (separate) {
+      layers.push({
+        class_name: 'ELU',
+        config: { name: `elu_${l + 1}`, trainable: true, dtype: 'float32', alpha },
+      });
+    }
+    weights.push(
+      { name: `${name}/kernel`, shape: [model.weights[l].numCols, numNeurons], dtype: 'float32' },
+      { name: `${name}/bias`, shape: [numNeurons], dtype: 'float32' },
+    );
+  });
+
+  const size = model.weights.reduce((acc, matrix) => acc + matrix.numRows * (matrix.numCols + 1), 0);
+  const weightData = new Uint8Array(4 * size);
+  const view = new DataView(weightData.buffer);
+  let offset = 0;
+  const write = (values: ArrayLike<number>) => {
+    for (let i = 0; i < values.length; i++, offset += 4) {
+      view.setFloat32(offset, values[i], true);
+    }
+  };
+  model.weights.forEach((matrix, l) => {
+    write(matrix.transpose().data);
+    write(model.biases[l]);
+  });
+  return {
+    modelJSON: {
+      format: 'layers-model',
+      generatedBy: 'perceptron.js',
+      convertedBy: null,
+      modelTopology: {
+        class_name: 'Sequential',
+        config: { name: 'sequential', layers },
+        keras_version: 'tfjs-layers 4.0.0',
+        backend: 'tensor_flow.js',
+      },
+      weightsManifest: [{ paths: [weightsPath], weights }],
+    },
+    weightData,
+  };
+};
+
+// Weights of the manifest by name, read from the concatenated files
+const readWeights = (
+  { weightsManifest }: TFJSModelJSON,
+  weightData: Uint8Array,
+): Map<string, { shape: number[]; values: number[] }> => {
+  if (!Array.isArray(weightsManifest)) {
+    throw invalidModel('Model must have a weights manifest.', 'modelJSON');
+  }
+  const view = new DataView(weightData.buffer, weightData.byteOffset, weightData.byteLength);
+  const weights = new Map<string, { shape: number[]; values: number[] }>();
+  let offset = 0;
+  weightsManifest.forEach(({ weights: specs }) => specs.forEach(({ name, shape, dtype, quantization }) => {
+    if (dtype !== 'float32' || quantization) {
+      throw unsupported(`Weights must be unquantized float32 values (weight = ${name}, dtype = ${dtype}).`, quantization ? 'quantization' : dtype);
+    }
+    const size = shape.reduce((acc, dim) => acc * dim, 1);
+    if (offset + 4 * size > weightData.length) {
+      throw invalidModel(`Weight data is shorter than the manifest (weight = ${name}, bytes = ${weightData.length}).`, 'weightData');
+    }
+    const values = Array.from({ length: size }, (_, i) => view.getFloat32(offset + 4 * i, true));
+    weights.set(name, { shape, values });
+    offset += 4 * size;
+  }));
+  if (offset !== weightData.length) {
+    throw invalidModel(`Weight data is longer than the manifest (bytes = ${weightData.length}, expected = ${offset}).`, 'weightData');
+  }
+  return weights;
+};
+
+// Our key of a Keras activation name
+const readActivation = (name: unknown): ImplementedActivationFunction => {
+  const keras = typeof name === 'string' ? ACTIVATION_ALIASES[name] ?? name : 'linear';
+  const [activation] = (Object.keys(KERAS_ACTIVATIONS) as ImplementedActivationFunction[])
+    .filter((key) => KERAS_ACTIVATIONS[key] === keras);
+  if (!activation) {
+    throw unsupported(`Activation is not supported (activation = ${name}).`, String(name));
+  }
+  return activation;
+};
+
+/**
+ * Decode a TensorFlow.js layers model made of dense layers
+ * @remarks
+ * The topology must be a `Sequential` model of `Dense` layers, each
+ * optionally followed by an `Activation`, `LeakyReLU`, `ELU` or
+ * `Softmax` layer when it is linear itself. `InputLayer` and `Dropout`
+ * layers are skipped. Only the tanh approximation of GELU (`gelu_new`)
+ * is supported, and the weights must be unquantized float32 values
+ * @param {TFJSArtifacts} artifacts - contents of the `model.json` and
+ * of its weight files, concatenated in manifest order
+ * @returns {MLP} the network, in inference mode
+ */
+export const importTFJS = ({ modelJSON, weightData }: TFJSArtifacts): MLP => {
+  let topology = modelJSON?.modelTopology;
+  if (topology?.model_config) {
+    topology = topology.model_config;
+  }
+  if (!topology || topology.class_name !== 'Sequential') {
+    throw unsupported(`Only Sequential models are supported (model = ${topology?.class_name}).`, String(topology?.class_name));
+  }
+  const { config } = topology;
+  const kerasLayers = Array.isArray(config) ? config : config?.layers;
+  if (!Array.isArray(kerasLayers)) {
+    throw invalidModel('Sequential model must have a layers array.', 'modelJSON');
+  }
+  const stored = readWeights(modelJSON, weightData);
+  const weightOf = (layer: string, kind: string) => {
+    const suffix = `/${layer}/${kind}`;
+    const name = stored.has(`${layer}/${kind}`) ?
+      `${layer}/${kind}` :
+      Array.from(stored.keys()).filter((key) => key.endsWith(suffix))[0];
+    const weight = name ? stored.get(name) : undefined;
+    if (!weight) {
+      throw invalidModel(`Weight is missing from the manifest (weight = ${layer}/${kind}).`, 'modelJSON');
+    }
+    return weight;
+  };
+
+  const layers: SerializedLayer[] = [];
+  const weights: number[][][] = [];
+  const biases: number[][] = [];
+  // Whether the last Dense layer is linear, so it can take an activation layer
+  let activationOpen = false;
+  const activate = (activation: SerializedLayer, className: string) => {
+    if (!activationOpen) {
+      throw unsupported(`${className} layer must follow a linear Dense layer.`, className);
+    }
+    Object.assign(layers[layers.length - 1], activation);
+    activationOpen = false;
+  };
+
+  kerasLayers.forEach(({ class_name: className, config: layerConfig }) => {
+    const { name, units, activation, use_bias: useBias = true, alpha } = layerConfig ?? {};
+    switch (className) {
+    case 'InputLayer':
+    case 'Dropout':
+      break;
+    case 'Dense': {
+      const kernel = weightOf(name as string, 'kernel');
+      const [numInputs, numNeurons] = kernel.shape;
+      if (kernel.shape.length !== 2 || numNeurons !== units) {
+        throw invalidModel(`Kernel of ${name} must have shape [inputs, units] (kernel = [${kernel.shape}], units = ${units}).`, 'modelJSON');
+      }
+      weights.push(Array.from({ length: numNeurons }, (_, i) => (
+        Array.from({ length: numInputs }, (__, j) => kernel.values[j * numNeurons + i])
+      )));
+      if (useBias) {
+        const bias = weightOf(name as string, 'bias');
+        if (bias.values.length !== numNeurons) {
+          throw invalidModel(`Bias of ${name} must have one value per unit (bias = ${bias.values.length}, units = ${units}).`, 'modelJSON');
+        }
+        biases.push(bias.values);
+      } else {
+        biases.push(new Array(numNeurons).fill(0));
+      }
+      const key = readActivation(activation);
+      layers.push({ numNeurons, activation: key });
+      activationOpen = key === 'linear';
+      break;
+    }
+    case 'Activation':
+      activate({ ...layers[layers.length - 1], activation: readActivation(activation) }, className);
+      break;
+    case 'Softmax':
+      if (layerConfig?.axis !== undefined && layerConfig.axis !== -1) {
+        throw unsupported(`Softmax must be applied over the features (axis = ${layerConfig.axis}).`, className);
+      }
+      activate({ ...layers[layers.length - 1], activation: 'softmax' }, className);
+      break;
+    case 'LeakyReLU':
+      activate({
+        ...layers[layers.length - 1],
+        activation: 'leakyReLU',
+        activationParams: { slope: typeof alpha === 'number' ? alpha : KERAS_LEAKY_ALPHA },
+      }, className);
+      break;
+    case 'ELU':
+      activate({
+        ...layers[layers.length - 1],
+        activation: 'elu',
+        activationParams: { alpha: typeof alpha === 'number' ? alpha : DEFAULT_ELU_ALPHA },
+      }, className);
+      break;
+    default:
+      throw unsupported(`Layer is not supported (layer = ${className}).`, className);
+    }
+  });
+
+  if (layers.length === 0) {
+    throw unsupported('Model has no Dense layer.', 'Sequential');
+  }
+  return buildDenseModel(layers, weights, biases);
+};
+
+/**
+ * Write a network as a TensorFlow.js layers model
+ * @remarks
+ * The directory is created if needed, and receives `model.json` and
+ * `weights.bin`, ready for `tf.loadLayersModel`
+ * @param {string} directory - destination directory
+ * @param {MLP} model - network to save
+ */
+export const saveTFJS = async (directory: string, model: MLP): Promise<void> => {
+  const { modelJSON, weightData } = exportTFJS(model);
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(join(directory, 'model.json'), JSON.stringify(modelJSON), 'utf8');
+  await fs.writeFile(join(directory, modelJSON.weightsManifest[0].paths[0]), weightData);
+};
+
+/**
+ * Read a network from a TensorFlow.js layers model
+ * @param {string} path - the `model.json`, whose weight files are
+ * resolved relative to it
+ * @returns {Promise<MLP>} the network
+ */
+export const loadTFJS = async (path: string): Promise<MLP> => {
+  const contents = await fs.readFile(path, 'utf8');
+  let modelJSON: TFJSModelJSON;
+  try {
+    modelJSON = JSON.parse(contents);
+  } catch (error) {
+    throw new InvalidArgumentError('TFJS', `File is not valid JSON (path = ${path}).`, {
+      operation: 'loadTFJS',
+      argument: 'path',
+    });
+  }
+  const paths: string[] = [];
+  (modelJSON.weightsManifest ?? []).forEach((group) => paths.push(...group.paths));
+  const files = await Promise.all(paths.map((file) => fs.readFile(join(dirname(path), file))));
+  const weightData = new Uint8Array(files.reduce((acc, file) => acc + file.length, 0));
+  let offset = 0;
+  files.forEach((file) => {
+    weightData.set(file, offset);
+    offset += file.length;
+  });
+  return importTFJS({ modelJSON, weightData });
+};
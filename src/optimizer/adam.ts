@@ -0,0 +1,112 @@
+import {
+  AdamOptions,
+  AdamWOptions,
+  ImplementedOptimizer,
+} from '../interface';
+import {
+  Optimizer,
+  OptimizerParameter,
+  OptimizerState,
+} from './optimizer';
+
+/**
+ * Adam
+ * @remarks
+ * Keeps bias-corrected running averages of the gradient and
+ * its square:
+ * ```
+ * m = beta1 * m + (1 - beta1) * g
+ * v = beta2 * v + (1 - beta2) * g^2
+ * w = w - learningRate * m' / (sqrt(v') + epsilon)
+ * ```
+ * where m' and v' are m and v divided by (1 - beta^step)
+ */
+export class Adam extends Optimizer {
+  readonly key: ImplementedOptimizer = 'adam';
+  learningRate: number;
+  beta1: number;
+  beta2: number;
+  epsilon: number;
+
+  constructor(params: OptimizerParameter[], {
+    learningRate,
+    beta1 = 0.9,
+    beta2 = 0.999,
+    epsilon = 1e-8,
+  }: AdamOptions) {
+    super(params);
+    this.learningRate = learningRate;
+    this.beta1 = beta1;
+    this.beta2 = beta2;
+    this.epsilon = epsilon;
+  }
+
+  getOptions(): AdamOptions {
+    return {
+      learningRate: this.learningRate,
+      beta1: this.beta1,
+      beta2: this.beta2,
+      epsilon: this.epsilon,
+    };
+  }
+
+  protected update(
+    values: number[],
+    gradient: number[],
+    state: OptimizerState,
+  ): number[] {
+    const first = this.buffer(state, 'firstMoment', values.length);
+    const second = this.buffer(state, 'secondMoment', values.length);
+    const firstCorrection = 1 - this.beta1 ** state.step;
+    const secondCorrection = 1 - this.beta2 ** state.step;
+    return values.map((w, i) => {
+      const g = gradient[i];
+      first[i] = this.beta1 * first[i] + (1 - this.beta1) * g;
+      second[i] = this.beta2 * second[i] + (1 - this.beta2) * g * g;
+      const m = first[i] / firstCorrection;
+      const v = second[i] / secondCorrection;
+      return w - this.learningRate * m / (Math.sqrt(v) + this.epsilon);
+    });
+  }
+}
+
+/**
+ * Adam with decoupled weight decay
+ * @remarks
+ * The decay shrinks the weights directly instead of being
+ * added to the gradient, so it is not rescaled by the moments:
+ * ```
+ * w = w - learningRate * weightDecay * w
+ * ```
+ * followed by the Adam update
+ */
+export class AdamW extends Adam {
+  readonly key: ImplementedOptimizer = 'adamW';
+  weightDecay: number;
+
+  constructor(params: OptimizerParameter[], {
+    weightDecay = 0.01,
+    ...options
+  }: AdamWOptions) {
+    super(params, options);
+    this.weightDecay = weightDecay;
+  }
+
+  getOptions(): AdamWOptions {
+    return {
+      ...super.getOptions(),
+      weightDecay: this.weightDecay,
+    };
+  }
+
+  protected update(
+    values: number[],
+    gradient: number[],
+    state: OptimizerState,
+  ): number[] {
+    const decayed = values.map(
+      (w) => w - this.learningRate * this.weightDecay * w,
+    );
+    return super.update(decayed, gradient, state);
+  }
+}
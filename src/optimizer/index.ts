@@ -0,0 +1,5 @@
+export * from './optimizer';
+export * from './sgd';
+export * from './rmsprop';
+export * from './adam';
+export * from './registry';
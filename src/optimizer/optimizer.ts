@@ -0,0 +1,180 @@
+import { InvalidArgumentError, ShapeMismatchError } from '../errors';
+import { ImplementedOptimizer, OptimizerOptions } from '../interface';
+import { Matrix, Vector } from '../math';
+
+export type OptimizerParameter = Matrix | Vector;
+
+/**
+ * Per-parameter state of an optimizer
+ * @property {number} step - Number of updates applied to the parameter
+ * @property {Record<string, number[]>} buffers - Flattened buffers
+ * (momentum, moments, ...) with the same size as the parameter
+ */
+export interface OptimizerState {
+  step: number;
+  buffers: Record<string, number[]>;
+}
+
+const shapeOf = (p: OptimizerParameter): [number, number] => {
+  if (p instanceof Matrix) {
+    return [p.numRows, p.numCols];
+  }
+  return [p.length, 1];
+};
+
+const flatten = (p: OptimizerParameter): number[] => {
+  if (p instanceof Matrix) {
+    return Array.from(p.data);
+  }
+  return Array.from(p);
+};
+
+const assign = (p: OptimizerParameter, values: number[]) => {
+  if (p instanceof Matrix) {
+    p.data.set(values);
+    return;
+  }
+  p.set(values);
+};
+
+/**
+ * Base class for gradient based optimizers
+ * @remarks
+ * Parameters are the weight matrices and bias vectors of a model,
+ * and they are updated in place, so that the state of the optimizer
+ * stays keyed to the same objects. A training step looks like:
+ * ```javascript
+ * optimizer.zeroGrad();
+ * optimizer.accumulateGradient(weights, weightsGradient);
+ * optimizer.step();
+ * ```
+ */
+export abstract class Optimizer {
+  /**
+   * @property {number} learningRate - Step size, which schedulers may update
+   * @property {OptimizerParameter[]} params - Parameters to optimize
+   * @property {Map} gradients - Accumulated flattened gradients
+   * @property {Map} state - Per-parameter state of the optimizer
+  */
+  abstract readonly key: ImplementedOptimizer;
+  abstract learningRate: number;
+  params: OptimizerParameter[];
+  gradients = new Map<OptimizerParameter, number[]>();
+  state = new Map<OptimizerParameter, OptimizerState>();
+
+  /**
+   * Constructor of the Optimizer
+   * @param {OptimizerParameter[]} params - Parameters to optimize
+  */
+  constructor(params: OptimizerParameter[]) {
+    this.params = [...params];
+  }
+
+  /**
+   * Add a gradient to the one accumulated for a parameter
+   * @param {OptimizerParameter} param - Parameter to update
+   * @param {OptimizerParameter} gradient - Gradient of the loss wrt param
+  */
+  accumulateGradient(param: OptimizerParameter, gradient: OptimizerParameter) {
+    if (!this.params.includes(param)) {
+      throw new InvalidArgumentError('OPTP', 'Parameter is not managed by this optimizer.', {
+        operation: 'Optimizer.accumulateGradient',
+        argument: 'param',
+      });
+    }
+    const [rows, cols] = shapeOf(param);
+    const [gradRows, gradCols] = shapeOf(gradient);
+    if (rows !== gradRows || cols !== gradCols) {
+      throw new ShapeMismatchError('OPTG', `Gradient must have the same shape as the parameter (param = [${rows}, ${cols}], gradient = [${gradRows}, ${gradCols}]).`, {
+        operation: 'Optimizer.accumulateGradient',
+        shapes: [[rows, cols], [gradRows, gradCols]],
+      });
+    }
+    const values = flatten(gradient);
+    const accumulated = this.gradients.get(param);
+    if (!accumulated) {
+      this.gradients.set(param, values);
+      return;
+    }
+    for (let i = 0; i < values.length; i++) {
+      accumulated[i] += values[i];
+    }
+  }
+
+  /**
+   * Add gradients for several parameters at once
+   * @param {OptimizerParameter[]} params - Parameters to update
+   * @param {OptimizerParameter[]} gradients - Gradients in the same order
+  */
+  accumulateGradients(
+    params: OptimizerParameter[],
+    gradients: OptimizerParameter[],
+  ) {
+    if (params.length !== gradients.length) {
+      throw new ShapeMismatchError('OPTG', `Every parameter must have a gradient (params = ${params.length}, gradients = ${gradients.length}).`, {
+        operation: 'Optimizer.accumulateGradients',
+        shapes: [[params.length], [gradients.length]],
+      });
+    }
+    params.forEach((param, idx) => this.accumulateGradient(param, gradients[idx]));
+  }
+
+  /**
+   * Discard the accumulated gradients
+  */
+  zeroGrad() {
+    this.gradients.clear();
+  }
+
+  /**
+   * Update every parameter that has an accumulated gradient
+  */
+  step() {
+    this.params.forEach((param) => {
+      const gradient = this.gradients.get(param);
+      if (!gradient) {
+        return;
+      }
+      let state = this.state.get(param);
+      if (!state) {
+        state = { step: 0, buffers: {} };
+        this.state.set(param, state);
+      }
+      state.step += 1;
+      assign(param, this.update(flatten(param), gradient, state));
+    });
+  }
+
+  /**
+   * Options the optimizer was built with
+   * @returns {OptimizerOptions} hyper-parameters of the optimizer
+  */
+  abstract getOptions(): OptimizerOptions;
+
+  /**
+   * Fetch a state buffer, creating it filled with zeros
+   * @param {OptimizerState} state - State of the parameter
+   * @param {string} name - Name of the buffer
+   * @param {number} size - Number of entries of the parameter
+   * @returns {number[]} The buffer
+  */
+  protected buffer(state: OptimizerState, name: string, size: number): number[] {
+    if (!state.buffers[name]) {
+      state.buffers[name] = Array(size).fill(0);
+    }
+    return state.buffers[name];
+  }
+
+  /**
+   * Update rule of the optimizer
+   * @param {number[]} values - Flattened parameter
+   * @param {number[]} gradient - Flattened gradient
+   * @param {OptimizerState} state - State of the parameter
+   * @returns {number[]} Flattened updated parameter
+  */
+  protected abstract update(
+    values: number[],
+    gradient: number[],
+    state: OptimizerState,
+  ): number[];
+}
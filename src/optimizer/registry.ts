@@ -0,0 +1,38 @@
+import { InvalidArgumentError } from '../errors';
+import {
+  ImplementedOptimizer,
+  OptimizerOptionsMap,
+} from '../interface';
+import { Adam, AdamW } from './adam';
+import { Optimizer, OptimizerParameter } from './optimizer';
+import { RMSProp } from './rmsprop';
+import { SGD } from './sgd';
+
+/**
+ * Build an optimizer by key
+ * @param {ImplementedOptimizer} key - optimizer to build
+ * @param {OptimizerParameter[]} params - parameters to optimize
+ * @param options - hyper-parameters of the optimizer
+ * @returns {Optimizer} the optimizer
+ */
+export const createOptimizer = <K extends ImplementedOptimizer>(
+  key: K,
+  params: OptimizerParameter[],
+  options: OptimizerOptionsMap[K],
+): Optimizer => {
+  switch (key) {
+  case 'sgd':
+    return new SGD(params, options);
+  case 'rmsprop':
+    return new RMSProp(params, options);
+  case 'adam':
+    return new Adam(params, options);
+  case 'adamW':
+    return new AdamW(params, options);
+  default:
+    throw new InvalidArgumentError('OPTC', `Unknown optimizer (key = ${key}).`, {
+      operation: 'createOptimizer',
+      argument: 'key',
+    });
+  }
+};
@@ -0,0 +1,54 @@
+import { ImplementedOptimizer, RMSPropOptions } from '../interface';
+import {
+  Optimizer,
+  OptimizerParameter,
+  OptimizerState,
+} from './optimizer';
+
+/**
+ * RMSProp
+ * @remarks
+ * Scales the step by a running average of squared gradients:
+ * ```
+ * s = decay * s + (1 - decay) * g^2
+ * w = w - learningRate * g / (sqrt(s) + epsilon)
+ * ```
+ */
+export class RMSProp extends Optimizer {
+  readonly key: ImplementedOptimizer = 'rmsprop';
+  learningRate: number;
+  decay: number;
+  epsilon: number;
+
+  constructor(params: OptimizerParameter[], {
+    learningRate,
+    decay = 0.9,
+    epsilon = 1e-8,
+  }: RMSPropOptions) {
+    super(params);
+    this.learningRate = learningRate;
+    this.decay = decay;
+    this.epsilon = epsilon;
+  }
+
+  getOptions(): RMSPropOptions {
+    return {
+      learningRate: this.learningRate,
+      decay: this.decay,
+      epsilon: this.epsilon,
+    };
+  }
+
+  protected update(
+    values: number[],
+    gradient: number[],
+    state: OptimizerState,
+  ): number[] {
+    const square = this.buffer(state, 'square', values.length);
+    return values.map((w, i) => {
+      const g = gradient[i];
+      square[i] = this.decay * square[i] + (1 - this.decay) * g * g;
+      return w - this.learningRate * g / (Math.sqrt(square[i]) + this.epsilon);
+    });
+  }
+}
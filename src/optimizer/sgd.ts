@@ -0,0 +1,73 @@
+import { InvalidArgumentError } from '../errors';
+import { ImplementedOptimizer, SGDOptions } from '../interface';
+import {
+  Optimizer,
+  OptimizerParameter,
+  OptimizerState,
+} from './optimizer';
+
+/**
+ * Stochastic gradient descent
+ * @remarks
+ * Supports classical and Nesterov momentum, plus an L2 penalty
+ * added to the gradient:
+ * ```
+ * g = g + weightDecay * w
+ * v = momentum * v + g
+ * w = w - learningRate * (nesterov ? g + momentum * v : v)
+ * ```
+ */
+export class SGD extends Optimizer {
+  readonly key: ImplementedOptimizer = 'sgd';
+  learningRate: number;
+  momentum: number;
+  nesterov: boolean;
+  weightDecay: number;
+
+  constructor(params: OptimizerParameter[], {
+    learningRate,
+    momentum = 0,
+    nesterov = false,
+    weightDecay = 0,
+  }: SGDOptions) {
+    super(params);
+    if (nesterov && momentum <= 0) {
+      throw new InvalidArgumentError('OPTC', 'Nesterov momentum requires a positive momentum.', {
+        operation: 'SGD.constructor',
+        argument: 'momentum',
+      });
+    }
+    this.learningRate = learningRate;
+    this.momentum = momentum;
+    this.nesterov = nesterov;
+    this.weightDecay = weightDecay;
+  }
+
+  getOptions(): SGDOptions {
+    return {
+      learningRate: this.learningRate,
+      momentum: this.momentum,
+      nesterov: this.nesterov,
+      weightDecay: this.weightDecay,
+    };
+  }
+
+  protected update(
+    values: number[],
+    gradient: number[],
+    state: OptimizerState,
+  ): number[] {
+    const velocity = this.buffer(state, 'velocity', values.length);
+    return values.map((w, i) => {
+      const g = gradient[i] + this.weightDecay * w;
+      if (this.momentum === 0) {
+        return w - this.learningRate * g;
+      }
+      velocity[i] = this.momentum * velocity[i] + g;
+      const direction = this.nesterov ?
+        g + this.momentum * velocity[i] :
+        velocity[i];
+      return w - this.learningRate * direction;
+    });
+  }
+}
@@ -0,0 +1,5 @@
+export * from './transformer';
+export * from './scalers';
+export * from './polynomial';
+export * from './registry';
+export * from './pipeline';
@@ -0,0 +1,123 @@
+import { InvalidArgumentError, InvalidStateError } from '../errors';
+import { SerializedPipeline } from '../interface';
+import { Matrix } from '../math';
+import { MLP } from '../model';
+import { FitOptions, TrainingHistory } from '../training';
+import { transformerFromJSON } from './registry';
+import { Transformer } from './transformer';
+
+/**
+ * Class for chaining transformers with a model
+ * @remarks
+ * Fitting the pipeline fits every transformer on the output of the
+ * previous one and then trains the model on the transformed inputs,
+ * so that predictions go through the exact same preprocessing:
+ * ```javascript
+ * const pipeline = new Pipeline([new StandardScaler()], model);
+ * pipeline.fit(xTrain, yTrain, { epochs: 20 });
+ * const predictions = pipeline.predict(xTest);
+ * ```
+ */
+export class Pipeline {
+  /**
+   * @property {Transformer[]} transformers - Transformers, in order
+   * @property {MLP | null} model - Model fed with the transformed inputs
+  */
+  transformers: Transformer[];
+  model: MLP | null;
+
+  constructor(transformers: Transformer[], model?: MLP) {
+    this.transformers = [...transformers];
+    this.model = model ?? null;
+  }
+
+  /**
+   * Fit every transformer and, with targets, train the model
+   * @remarks
+   * Explicit validation inputs are transformed by the fitted
+   * transformers, so that they reach the model in the same
+   * feature space as the training inputs
+   * @param {Matrix} x - training inputs
+   * @param {Matrix} y - training targets
+   * @param {FitOptions} options - options of the training
+   * @returns {TrainingHistory | null} history of the training, if any
+  */
+  fit(x: Matrix, y?: Matrix, options: FitOptions = {}): TrainingHistory | null {
+    let transformed = x;
+    this.transformers.forEach((transformer) => {
+      transformed = transformer.fitTransform(transformed);
+    });
+    if (!this.model || !y) {
+      return null;
+    }
+    const { validationData } = options;
+    return this.model.fit(transformed, y, validationData ? {
+      ...options,
+      validationData: { x: this.transform(validationData.x), y: validationData.y },
+    } : options);
+  }
+
+  /**
+   * Apply every transformer
+   * @param {Matrix} x - inputs
+   * @returns {Matrix} transformed inputs
+  */
+  transform(x: Matrix): Matrix {
+    return this.transformers.reduce((acc, transformer) => transformer.transform(acc), x);
+  }
+
+  /**
+   * Undo every transformer, in reverse order
+   * @param {Matrix} x - transformed inputs
+   * @returns {Matrix} inputs in the original feature space
+  */
+  inverseTransform(x: Matrix): Matrix {
+    return this.transformers.reduceRight((acc, transformer) => transformer.inverseTransform(acc), x);
+  }
+
+  /**
+   * Predictions of the model on transformed inputs
+   * @remarks
+   * The model is switched to inference mode
+   * @param {Matrix} x - inputs
+   * @returns {Matrix} outputs of the model (one row per sample)
+  */
+  predict(x: Matrix): Matrix {
+    if (!this.model) {
+      throw new InvalidStateError('PREP', 'Pipeline has no model to predict with.', {
+        operation: 'Pipeline.predict',
+      });
+    }
+    this.model.eval();
+    return this.model.forwardBatch(this.transform(x));
+  }
+
+  /**
+   * JSON representation of the pipeline
+   * @returns {SerializedPipeline} plain object ready for `JSON.stringify`
+  */
+  toJSON(): SerializedPipeline {
+    return {
+      transformers: this.transformers.map((transformer) => transformer.toJSON()),
+      ...(this.model ? { model: this.model.toJSON() } : {}),
+    };
+  }
+
+  /**
+   * Rebuild a pipeline from its JSON representation
+   * @param {SerializedPipeline} json - output of `toJSON`
+   * @returns {Pipeline} the pipeline
+  */
+  static fromJSON(json: SerializedPipeline): Pipeline {
+    if (!json || !Array.isArray(json.transformers)) {
+      throw new InvalidArgumentError('PREP', 'Pipeline must have a transformers array.', {
+        operation: 'Pipeline.fromJSON',
+        argument: 'json',
+      });
+    }
+    return new Pipeline(
+      json.transformers.map(transformerFromJSON),
+      json.model ? MLP.fromJSON(json.model) : undefined,
+    );
+  }
+}
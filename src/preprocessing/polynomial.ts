@@ -0,0 +1,124 @@
+import { InvalidArgumentError } from '../errors';
+import { ImplementedTransformer, PolynomialFeaturesOptions } from '../interface';
+import { Matrix } from '../math';
+import { Transformer } from './transformer';
+
+// Index combinations of the given size, in lexicographic order
+const combinations = (
+  numFeatures: number,
+  size: number,
+  withReplacement: boolean,
+): number[][] => {
+  if (size === 0) {
+    return [[]];
+  }
+  const result: number[][] = [];
+  const extend = (prefix: number[], start: number) => {
+    if (prefix.length === size) {
+      result.push(prefix);
+      return;
+    }
+    for (let j = start; j < numFeatures; j++) {
+      extend([...prefix, j], withReplacement ? j : j + 1);
+    }
+  };
+  extend([], 0);
+  return result;
+};
+
+/**
+ * Polynomial features
+ * @remarks
+ * Adds every product of up to `degree` features. For two features
+ * and degree 2 the columns are:
+ * ```
+ * [1, a, b, a^2, a·b, b^2]
+ * ```
+ * With `interactionOnly`, products of a feature with itself are left
+ * out. The original features are kept, so the transformation can be
+ * inverted
+ */
+export class PolynomialFeatures extends Transformer {
+  readonly key: ImplementedTransformer = 'polynomialFeatures';
+  degree: number;
+  interactionOnly: boolean;
+  includeBias: boolean;
+  /**
+   * @property {number[][]} terms - Features multiplied in every output column
+  */
+  terms: number[][] = [];
+
+  constructor({
+    degree = 2,
+    interactionOnly = false,
+    includeBias = true,
+  }: PolynomialFeaturesOptions = {}) {
+    super();
+    if (!Number.isInteger(degree) || degree < 1) {
+      throw new InvalidArgumentError('PREP', `Degree must be a positive integer (degree = ${degree}).`, {
+        operation: 'PolynomialFeatures.constructor',
+        argument: 'degree',
+      });
+    }
+    this.degree = degree;
+    this.interactionOnly = interactionOnly;
+    this.includeBias = includeBias;
+  }
+
+  get numOutputFeatures(): number {
+    this.fittedFeatures('PolynomialFeatures.numOutputFeatures');
+    return this.terms.length;
+  }
+
+  getOptions(): PolynomialFeaturesOptions {
+    return {
+      degree: this.degree,
+      interactionOnly: this.interactionOnly,
+      includeBias: this.includeBias,
+    };
+  }
+
+  protected learn(x: Matrix) {
+    this.buildTerms(x.numCols);
+  }
+
+  protected apply(x: Matrix): Matrix {
+    const result = Matrix.zeros(x.numRows, this.terms.length);
+    const columns = Array.from({ length: x.numCols }, (_, j) => x.getColumn(j));
+    this.terms.forEach((term, k) => {
+      const column = new Float64Array(x.numRows).fill(1);
+      term.forEach((j) => {
+        for (let i = 0; i < x.numRows; i++) {
+          column[i] *= columns[j][i];
+        }
+      });
+      result.setColumn(k, column);
+    });
+    return result;
+  }
+
+  protected revert(x: Matrix): Matrix {
+    const numFeatures = this.fittedFeatures('Transformer.inverseTransform');
+    const offset = this.includeBias ? 1 : 0;
+    const result = Matrix.zeros(x.numRows, numFeatures);
+    for (let j = 0; j < numFeatures; j++) {
+      result.setColumn(j, x.getColumn(offset + j));
+    }
+    return result;
+  }
+
+  protected getState(): Record<string, number[]> {
+    return {};
+  }
+
+  protected setState() {
+    this.buildTerms(this.fittedFeatures('Transformer.loadState'));
+  }
+
+  private buildTerms(numFeatures: number) {
+    this.terms = [];
+    for (let size = this.includeBias ? 0 : 1; size <= this.degree; size++) {
+      this.terms.push(...combinations(numFeatures, size, !this.interactionOnly));
+    }
+  }
+}
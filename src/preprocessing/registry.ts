@@ -0,0 +1,61 @@
+import { InvalidArgumentError } from '../errors';
+import {
+  ImplementedTransformer,
+  MinMaxScalerOptions,
+  NormalizerOptions,
+  PolynomialFeaturesOptions,
+  RobustScalerOptions,
+  SerializedTransformer,
+  StandardScalerOptions,
+  TransformerOptionsMap,
+} from '../interface';
+import { PolynomialFeatures } from './polynomial';
+import {
+  MinMaxScaler,
+  Normalizer,
+  RobustScaler,
+  StandardScaler,
+} from './scalers';
+import { Transformer } from './transformer';
+
+/**
+ * Build a transformer by key
+ * @param {ImplementedTransformer} key - transformer to build
+ * @param options - options of the transformer
+ * @returns {Transformer} the (unfitted) transformer
+ */
+export const createTransformer = <K extends ImplementedTransformer>(
+  key: K,
+  options: TransformerOptionsMap[K] = {},
+): Transformer => {
+  switch (key) {
+  case 'standardScaler':
+    return new StandardScaler(options as StandardScalerOptions);
+  case 'minMaxScaler':
+    return new MinMaxScaler(options as MinMaxScalerOptions);
+  case 'robustScaler':
+    return new RobustScaler(options as RobustScalerOptions);
+  case 'normalizer':
+    return new Normalizer(options as NormalizerOptions);
+  case 'polynomialFeatures':
+    return new PolynomialFeatures(options as PolynomialFeaturesOptions);
+  default:
+    throw new InvalidArgumentError('PREP', `Unknown transformer (key = ${key}).`, {
+      operation: 'createTransformer',
+      argument: 'key',
+    });
+  }
+};
+
+/**
+ * Rebuild a transformer from its JSON representation
+ * @param {SerializedTransformer} json - output of `toJSON`
+ * @returns {Transformer} the transformer, fitted if it was
+ */
+export const transformerFromJSON = (json: SerializedTransformer): Transformer => {
+  const transformer = createTransformer(json.key, json.options);
+  if (json.state) {
+    transformer.loadState(json.state);
+  }
+  return transformer;
+};
@@ -0,0 +1,278 @@
+import { InvalidArgumentError, PerceptronError } from '../errors';
+import {
+  ImplementedTransformer,
+  MinMaxScalerOptions,
+  NormType,
+  NormalizerOptions,
+  RobustScalerOptions,
+  StandardScalerOptions,
+} from '../interface';
+import { Matrix, Vector } from '../math';
+import { Transformer } from './transformer';
+
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const validateState = (values: number[] | undefined, size: number, name: string): number[] => {
+  if (!Array.isArray(values) || values.length !== size) {
+    throw new InvalidArgumentError('PREP', `${name} must have one value per feature (${name} = ${values?.length ?? 0}, features = ${size}).`, {
+      operation: 'Transformer.loadState',
+      argument: 'state',
+    });
+  }
+  return values;
+};
+
+/**
+ * Base class for scalers that shift and scale every column
+ * @remarks
+ * `x' = (x - center) / scale`, with a center and a scale per feature
+ * learnt by the subclass. Features with a zero scale are left unscaled
+ */
+export abstract class ColumnScaler extends Transformer {
+  /**
+   * @property {Vector} center - Value subtracted from every feature
+   * @property {Vector} scale - Divisor of every feature
+  */
+  center = Vector.zeros(1);
+  scale = Vector.ones(1);
+
+  protected apply(x: Matrix): Matrix {
+    const data = Float64Array.from(x.data);
+    for (let k = 0; k < data.length; k++) {
+      const j = k % x.numCols;
+      data[k] = (data[k] - this.center[j]) / this.scale[j];
+    }
+    return Matrix.fromBuffer(data, x.numRows, x.numCols);
+  }
+
+  protected revert(x: Matrix): Matrix {
+    const data = Float64Array.from(x.data);
+    for (let k = 0; k < data.length; k++) {
+      const j = k % x.numCols;
+      data[k] = data[k] * this.scale[j] + this.center[j];
+    }
+    return Matrix.fromBuffer(data, x.numRows, x.numCols);
+  }
+
+  protected getState(): Record<string, number[]> {
+    return {
+      center: Array.from(this.center),
+      scale: Array.from(this.scale),
+    };
+  }
+
+  protected setState(state: Record<string, number[]>) {
+    const size = this.fittedFeatures('Transformer.loadState');
+    this.center = Vector.fromArray(validateState(state.center, size, 'center'));
+    this.scale = Vector.fromArray(validateState(state.scale, size, 'scale'));
+  }
+
+  protected setScale(center: ArrayLike<number>, scale: ArrayLike<number>) {
+    this.center = Vector.fromArray(center);
+    this.scale = Vector.fromArray(Array.from(scale, (s) => (s === 0 ? 1 : s)));
+  }
+}
+
+/**
+ * Standard scaler
+ * @remarks
+ * Standardizes every feature to zero mean and unit variance, using
+ * the population standard deviation
+ */
+export class StandardScaler extends ColumnScaler {
+  readonly key: ImplementedTransformer = 'standardScaler';
+  withMean: boolean;
+  withStd: boolean;
+
+  constructor({ withMean = true, withStd = true }: StandardScalerOptions = {}) {
+    super();
+    this.withMean = withMean;
+    this.withStd = withStd;
+  }
+
+  getOptions(): StandardScalerOptions {
+    return { withMean: this.withMean, withStd: this.withStd };
+  }
+
+  protected learn(x: Matrix) {
+    const mean = x.mean('row');
+    const std = Vector.ones(x.numCols);
+    if (this.withStd) {
+      for (let j = 0; j < x.numCols; j++) {
+        const column = x.getColumn(j);
+        let variance = 0;
+        for (let i = 0; i < column.length; i++) {
+          variance += (column[i] - mean[j]) ** 2 / column.length;
+        }
+        std[j] = Math.sqrt(variance);
+      }
+    }
+    this.setScale(this.withMean ? mean : Vector.zeros(x.numCols), std);
+  }
+}
+
+/**
+ * Min-max scaler
+ * @remarks
+ * Maps the range of every feature seen by `fit` onto `featureRange`
+ * (by default [0, 1])
+ */
+export class MinMaxScaler extends ColumnScaler {
+  readonly key: ImplementedTransformer = 'minMaxScaler';
+  featureRange: [number, number];
+
+  constructor({ featureRange = [0, 1] }: MinMaxScalerOptions = {}) {
+    super();
+    if (!(featureRange[0] < featureRange[1])) {
+      throw new InvalidArgumentError('PREP', `Feature range must be increasing (range = [${featureRange}]).`, {
+        operation: 'MinMaxScaler.constructor',
+        argument: 'featureRange',
+      });
+    }
+    this.featureRange = [featureRange[0], featureRange[1]];
+  }
+
+  getOptions(): MinMaxScalerOptions {
+    return { featureRange: [...this.featureRange] as [number, number] };
+  }
+
+  protected learn(x: Matrix) {
+    const [low, high] = this.featureRange;
+    const center = Vector.zeros(x.numCols);
+    const scale = Vector.ones(x.numCols);
+    for (let j = 0; j < x.numCols; j++) {
+      const column = x.getColumn(j);
+      const min = column.min();
+      const range = column.max() - min;
+      const columnScale = range === 0 ? 1 : range / (high - low);
+      scale[j] = columnScale;
+      center[j] = min - low * columnScale;
+    }
+    this.setScale(center, scale);
+  }
+}
+
+/**
+ * Robust scaler
+ * @remarks
+ * Centers every feature on its median and scales it by its
+ * interquantile range (by default the 25th to 75th percentiles),
+ * which makes it insensitive to outliers
+ */
+export class RobustScaler extends ColumnScaler {
+  readonly key: ImplementedTransformer = 'robustScaler';
+  withCentering: boolean;
+  withScaling: boolean;
+  quantileRange: [number, number];
+
+  constructor({
+    withCentering = true,
+    withScaling = true,
+    quantileRange = [25, 75],
+  }: RobustScalerOptions = {}) {
+    super();
+    const [low, high] = quantileRange;
+    if (!(low >= 0 && low < high && high <= 100)) {
+      throw new InvalidArgumentError('PREP', `Quantile range must be increasing percentiles (range = [${quantileRange}]).`, {
+        operation: 'RobustScaler.constructor',
+        argument: 'quantileRange',
+      });
+    }
+    this.withCentering = withCentering;
+    this.withScaling = withScaling;
+    this.quantileRange = [low, high];
+  }
+
+  getOptions(): RobustScalerOptions {
+    return {
+      withCentering: this.withCentering,
+      withScaling: this.withScaling,
+      quantileRange: [...this.quantileRange] as [number, number],
+    };
+  }
+
+  protected learn(x: Matrix) {
+    const [low, high] = this.quantileRange;
+    const center = Vector.zeros(x.numCols);
+    const scale = Vector.ones(x.numCols);
+    for (let j = 0; j < x.numCols; j++) {
+      const sorted = Array.from(x.getColumn(j)).sort((a, b) => a - b);
+      if (this.withCentering) {
+        center[j] = quantile(sorted, 0.5);
+      }
+      if (this.withScaling) {
+        scale[j] = quantile(sorted, high / 100) - quantile(sorted, low / 100);
+      }
+    }
+    this.setScale(center, scale);
+  }
+}
+
+/**
+ * Normalizer
+ * @remarks
+ * Scales every sample (row) to unit norm. It has no learnt state, and
+ * since the norms of the samples are not kept, it cannot be inverted
+ */
+export class Normalizer extends Transformer {
+  readonly key: ImplementedTransformer = 'normalizer';
+  norm: NormType;
+
+  constructor({ norm = 'l2' }: NormalizerOptions = {}) {
+    super();
+    this.norm = norm;
+  }
+
+  getOptions(): NormalizerOptions {
+    return { norm: this.norm };
+  }
+
+  protected learn() {
+    // Stateless: only the number of features is recorded
+  }
+
+  protected apply(x: Matrix): Matrix {
+    const data = Float64Array.from(x.data);
+    for (let i = 0; i < x.numRows; i++) {
+      const offset = i * x.numCols;
+      let norm = 0;
+      for (let j = offset; j < offset + x.numCols; j++) {
+        if (this.norm === 'l1') {
+          norm += Math.abs(data[j]);
+        } else if (this.norm === 'max') {
+          norm = Math.max(norm, Math.abs(data[j]));
+        } else {
+          norm += data[j] * data[j];
+        }
+      }
+      if (this.norm === 'l2') {
+        norm = Math.sqrt(norm);
+      }
+      if (norm !== 0) {
+        for (let j = offset; j < offset + x.numCols; j++) {
+          data[j] /= norm;
+        }
+      }
+    }
+    return Matrix.fromBuffer(data, x.numRows, x.numCols);
+  }
+
+  protected revert(): Matrix {
+    throw new PerceptronError('PREP', 'Normalizer cannot be inverted, because the norms of the samples are not kept.', {
+      operation: 'Normalizer.inverseTransform',
+    });
+  }
+
+  protected getState(): Record<string, number[]> {
+    return {};
+  }
+
+  protected setState() {
+    // Stateless: only the number of features is recorded
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  InvalidArgumentError,
+  InvalidStateError,
+  ShapeMismatchError,
+} from '../errors';
+import {
+  ImplementedTransformer,
+  SerializedTransformer,
+  TransformerOptions,
+} from '../interface';
+import { Matrix } from '../math';
+
+/**
+ * Base class for feature transformers
+ * @remarks
+ * A transformer learns its state from training inputs once, and then
+ * applies the exact same transformation to any later input, so that
+ * inference sees features scaled like the training ones:
+ * ```javascript
+ * const scaler = new StandardScaler().fit(xTrain);
+ * const xTest = scaler.transform(xRaw);
+ * ```
+ * Every row of the inputs is a sample and every column a feature
+ */
+export abstract class Transformer {
+  /**
+   * @property {number | null} numFeatures - Number of input features seen
+   * by `fit` (null until fitted)
+  */
+  abstract readonly key: ImplementedTransformer;
+  numFeatures: number | null = null;
+
+  /**
+   * Whether the transformer has been fitted
+   * @returns {boolean} true once `fit` ran
+  */
+  get fitted(): boolean {
+    return this.numFeatures !== null;
+  }
+
+  /**
+   * Number of features produced by `transform`
+   * @returns {number} number of output columns
+  */
+  get numOutputFeatures(): number {
+    return this.fittedFeatures('Transformer.numOutputFeatures');
+  }
+
+  /**
+   * Learn the state of the transformer
+   * @param {Matrix} x - training inputs
+   * @returns {this} the transformer
+  */
+  fit(x: Matrix): this {
+    this.numFeatures = x.numCols;
+    this.learn(x);
+    return this;
+  }
+
+  /**
+   * Transform inputs with the learnt state
+   * @param {Matrix} x - inputs
+   * @returns {Matrix} transformed inputs
+  */
+  transform(x: Matrix): Matrix {
+    this.validateColumns(x, this.fittedFeatures('Transformer.transform'), 'Transformer.transform');
+    return this.apply(x);
+  }
+
+  /**
+   * Learn the state of the transformer and transform the inputs
+   * @param {Matrix} x - training inputs
+   * @returns {Matrix} transformed inputs
+  */
+  fitTransform(x: Matrix): Matrix {
+    return this.fit(x).transform(x);
+  }
+
+  /**
+   * Undo the transformation
+   * @param {Matrix} x - transformed inputs
+   * @returns {Matrix} inputs in the original feature space
+  */
+  inverseTransform(x: Matrix): Matrix {
+    this.validateColumns(x, this.numOutputFeatures, 'Transformer.inverseTransform');
+    return this.revert(x);
+  }
+
+  /**
+   * JSON representation of the transformer
+   * @returns {SerializedTransformer} plain object ready for `JSON.stringify`
+  */
+  toJSON(): SerializedTransformer {
+    return {
+      key: this.key,
+      options: this.getOptions(),
+      state: this.numFeatures === null ? null : {
+        numFeatures: [this.numFeatures],
+        ...this.getState(),
+      },
+    };
+  }
+
+  /**
+   * Restore the learnt state from its JSON representation
+   * @param {Record<string, number[]>} state - `state` of `toJSON`
+  */
+  loadState(state: Record<string, number[]>) {
+    const numFeatures = state?.numFeatures?.[0];
+    if (!Number.isInteger(numFeatures) || numFeatures <= 0) {
+      throw new InvalidArgumentError('PREP', `Transformer state must record the number of features (numFeatures = ${numFeatures}).`, {
+        operation: 'Transformer.loadState',
+        argument: 'state',
+      });
+    }
+    this.numFeatures = numFeatures;
+    this.setState(state);
+  }
+
+  /**
+   * Options the transformer was built with
+   * @returns {TransformerOptions} options
+  */
+  abstract getOptions(): TransformerOptions;
+
+  protected fittedFeatures(operation: string): number {
+    if (this.numFeatures === null) {
+      throw new InvalidStateError('PREP', `Transformer must be fitted first (transformer = ${this.key}).`, {
+        operation,
+      });
+    }
+    return this.numFeatures;
+  }
+
+  protected validateColumns(x: Matrix, expected: number, operation: string) {
+    if (x.numCols !== expected) {
+      throw new ShapeMismatchError('PREP', `Inputs must have the number of features seen by fit (inputs = ${x.numCols}, expected = ${expected}).`, {
+        operation,
+        shapes: [[x.numRows, x.numCols], [x.numRows, expected]],
+      });
+    }
+  }
+
+  protected abstract learn(x: Matrix): void;
+  protected abstract apply(x: Matrix): Matrix;
+  protected abstract revert(x: Matrix): Matrix;
+  protected abstract getState(): Record<string, number[]>;
+  protected abstract setState(state: Record<string, number[]>): void;
+}
@@ -0,0 +1,117 @@
+import {
+  EarlyStoppingOptions,
+  EpochLogs,
+  MonitorMode,
+} from '../interface';
+import { Matrix, Vector } from '../math';
+import { isImprovement, readMonitor } from './monitor';
+
+/**
+ * Class for stopping a training when it stops improving
+ * @remarks
+ * Tracks a quantity of the epoch logs and asks `fit` to stop once
+ * it has not improved for `patience` epochs. With
+ * `restoreBestWeights`, it keeps a copy of the parameters of the
+ * best epoch and writes them back when the training ends
+ */
+export class EarlyStopping {
+  /**
+   * @property {string} monitor - Name of the tracked quantity
+   * @property {MonitorMode} mode - Whether lower or higher values are better
+   * @property {number} patience - Epochs without improvement before stopping
+   * @property {number} minDelta - Smallest change counted as an improvement
+   * @property {boolean} restoreBestWeights - Whether to restore the best
+   * parameters at the end of the training
+   * @property {number} best - Best value of the tracked quantity
+   * @property {number} bestEpoch - Epoch of the best value
+   * @property {number} stoppedEpoch - Epoch the training stopped at
+  */
+  monitor: string;
+  mode: MonitorMode;
+  patience: number;
+  minDelta: number;
+  restoreBestWeights: boolean;
+  best = Infinity;
+  bestEpoch = -1;
+  stoppedEpoch = -1;
+  private wait = 0;
+  private bestParameters: Float64Array[] = [];
+
+  constructor({
+    monitor = 'valLoss',
+    mode = 'min',
+    patience = 0,
+    minDelta = 0,
+    restoreBestWeights = false,
+  }: EarlyStoppingOptions = {}) {
+    this.monitor = monitor;
+    this.mode = mode;
+    this.patience = patience;
+    this.minDelta = Math.abs(minDelta);
+    this.restoreBestWeights = restoreBestWeights;
+    this.reset();
+  }
+
+  /**
+   * Start tracking a new training
+  */
+  reset() {
+    this.best = this.mode === 'min' ? Infinity : -Infinity;
+    this.bestEpoch = -1;
+    this.stoppedEpoch = -1;
+    this.wait = 0;
+    this.bestParameters = [];
+  }
+
+  /**
+   * Record the end of an epoch
+   * @param {number} epoch - Epoch that just ended
+   * @param {EpochLogs} logs - Logs of the epoch
+   * @param {Array<Matrix | Vector>} parameters - Parameters of the model
+   * @returns {boolean} true when the training must stop
+  */
+  update(
+    epoch: number,
+    logs: EpochLogs,
+    parameters: Array<Matrix | Vector>,
+  ): boolean {
+    const value = readMonitor(logs, this.monitor);
+    if (isImprovement(value, this.best, this.mode, this.minDelta)) {
+      this.best = value;
+      this.bestEpoch = epoch;
+      this.wait = 0;
+      if (this.restoreBestWeights) {
+        this.bestParameters = parameters.map((param) => (
+          Float64Array.from(param instanceof Matrix ? param.data : param)
+        ));
+      }
+      return false;
+    }
+    this.wait += 1;
+    if (this.wait >= this.patience) {
+      this.stoppedEpoch = epoch;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Write the parameters of the best epoch back into the model
+   * @remarks
+   * Parameters are updated in place, so that an optimizer keyed
+   * to them keeps working
+   * @param {Array<Matrix | Vector>} parameters - Parameters of the model
+  */
+  restore(parameters: Array<Matrix | Vector>) {
+    if (!this.restoreBestWeights || this.bestParameters.length === 0) {
+      return;
+    }
+    parameters.forEach((param, idx) => {
+      if (param instanceof Matrix) {
+        param.data.set(this.bestParameters[idx]);
+      } else {
+        param.set(this.bestParameters[idx]);
+      }
+    });
+  }
+}
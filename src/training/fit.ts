@@ -0,0 +1,282 @@
+import {
+  EarlyStoppingOptions,
+  EpochLogs,
+  ImplementedLossFunction,
+  ImplementedMetric,
+  ImplementedOptimizer,
+  Metric,
+  TrainingCallbacks,
+} from '../interface';
+import { InvalidArgumentError, ShapeMismatchError } from '../errors';
+import {
+  Matrix,
+  SeededRandom,
+  batchLoss,
+  batchLossGradient,
+} from '../math';
+import { permutation, selectRows } from '../data';
+import { getMetricByKey } from '../metrics';
+import { MLP } from '../model';
+import { Optimizer, createOptimizer } from '../optimizer';
+import { EarlyStopping } from './early-stopping';
+import { LearningRateScheduler } from './schedulers';
+
+/**
+ * Options of a training
+ * @property {number} epochs - Number of passes over the training set
+ * @property {number} batchSize - Number of samples per update
+ * @property {boolean} shuffle - Whether to shuffle the samples every epoch
+ * @property {number} validationSplit - Fraction of the samples, taken
+ * from the end, held out for validation
+ * @property {{x: Matrix, y: Matrix}} validationData - Explicit validation
+ * set, which takes precedence over `validationSplit`
+ * @property {ImplementedLossFunction} loss - Loss to minimize
+ * @property {Optimizer | ImplementedOptimizer} optimizer - Optimizer over
+ * `model.parameters()`, or the key of one to build
+ * @property {number} learningRate - Learning rate of a built optimizer
+ * @property {ImplementedMetric[] | Record<string, Metric>} metrics - Keys
+ * of built-in metrics, or named metric functions, to log
+ * @property {TrainingCallbacks} callbacks - Hooks called during training
+ * @property {EarlyStoppingOptions} earlyStopping - Stop when the monitored
+ * quantity stops improving
+ * @property {LearningRateScheduler} scheduler - Schedule of the learning rate
+ * @property {number} seed - Seed of the shuffling
+ */
+export interface FitOptions {
+  epochs?: number;
+  batchSize?: number;
+  shuffle?: boolean;
+  validationSplit?: number;
+  validationData?: { x: Matrix; y: Matrix };
+  loss?: ImplementedLossFunction;
+  optimizer?: Optimizer | ImplementedOptimizer;
+  learningRate?: number;
+  metrics?: ImplementedMetric[] | Record<string, Metric>;
+  callbacks?: TrainingCallbacks;
+  earlyStopping?: EarlyStoppingOptions;
+  scheduler?: LearningRateScheduler;
+  seed?: number;
+}
+
+/**
+ * Outcome of a training
+ * @property {EpochLogs[]} epochs - Logs of every epoch that ran
+ * @property {Optimizer} optimizer - Optimizer used by the training
+ * @property {number | null} stoppedEpoch - Epoch early stopping ended
+ * the training at, if it did
+ * @property {number | null} bestEpoch - Best epoch seen by early stopping
+ */
+export interface TrainingHistory {
+  epochs: EpochLogs[];
+  optimizer: Optimizer;
+  stoppedEpoch: number | null;
+  bestEpoch: number | null;
+}
+
+const range = (start: number, end: number): number[] => {
+  return Array.from({ length: end - start }, (_, i) => start + i);
+};
+
+const validationName = (name: string): string => {
+  return `val${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+};
+
+const resolveMetrics = (
+  metrics: ImplementedMetric[] | Record<string, Metric>,
+): Record<string, Metric> => {
+  if (!Array.isArray(metrics)) {
+    return metrics;
+  }
+  const named: Record<string, Metric> = {};
+  metrics.forEach((key) => {
+    named[key] = getMetricByKey(key);
+  });
+  return named;
+};
+
+const validateData = (model: MLP, x: Matrix, y: Matrix) => {
+  const shapes = [[x.numRows, x.numCols], [y.numRows, y.numCols]];
+  if (x.numRows !== y.numRows) {
+    throw new ShapeMismatchError('FIT', `Inputs and targets must have the same number of samples (inputs = ${x.numRows}, targets = ${y.numRows}).`, {
+      operation: 'fit',
+      shapes,
+    });
+  }
+  if (x.numCols !== model.inputSize) {
+    throw new ShapeMismatchError('FIT', `Inputs must match the input layer (inputs = ${x.numCols}, layer = ${model.inputSize}).`, {
+      operation: 'fit',
+      shapes: [shapes[0], [model.inputSize]],
+    });
+  }
+  if (y.numCols !== model.outputSize) {
+    throw new ShapeMismatchError('FIT', `Targets must match the output layer (targets = ${y.numCols}, layer = ${model.outputSize}).`, {
+      operation: 'fit',
+      shapes: [shapes[1], [model.outputSize]],
+    });
+  }
+};
+
+const invalidOption = (message: string, argument: string) => (
+  new InvalidArgumentError('FIT', message, { operation: 'fit', argument })
+);
+
+/**
+ * Train a network with mini-batch gradient descent
+ * @remarks
+ * Every row of the inputs and targets is a sample. Every epoch
+ * shuffles the training samples (reproducibly when a seed is given),
+ * updates the parameters once per mini-batch and then evaluates the
+ * validation set. The logs of an epoch hold the mean training loss
+ * (`loss`), the metrics computed on the predictions made during the
+ * epoch, their validation counterparts (`valLoss`, `valAccuracy`, ...)
+ * and the learning rate that was used. Losses include the L1/L2
+ * penalties of the model. Dropout is active while updating the
+ * parameters only, and the model is left in inference mode
+ * @param {MLP} model - Network to train, updated in place
+ * @param {Matrix} x - Training inputs
+ * @param {Matrix} y - Training targets
+ * @param {FitOptions} options - Options of the training
+ * @returns {TrainingHistory} Logs of every epoch
+ */
+export const fit = (
+  model: MLP,
+  x: Matrix,
+  y: Matrix,
+  {
+    epochs = 10,
+    batchSize = 32,
+    shuffle = true,
+    validationSplit = 0,
+    validationData,
+    loss = 'meanSquaredError',
+    optimizer: optimizerOrKey = 'adam',
+    learningRate = 0.001,
+    metrics = {},
+    callbacks = {},
+    earlyStopping: earlyStoppingOptions,
+    scheduler,
+    seed,
+  }: FitOptions = {},
+): TrainingHistory => {
+  validateData(model, x, y);
+  if (epochs < 1 || batchSize < 1) {
+    throw invalidOption(`Epochs and batch size must be at least one (epochs = ${epochs}, batchSize = ${batchSize}).`, epochs < 1 ? 'epochs' : 'batchSize');
+  }
+  if (validationSplit < 0 || validationSplit >= 1) {
+    throw invalidOption(`Validation split must be in [0, 1) (validationSplit = ${validationSplit}).`, 'validationSplit');
+  }
+
+  let xTrain = x;
+  let yTrain = y;
+  let xVal: Matrix | null = null;
+  let yVal: Matrix | null = null;
+  if (validationData) {
+    validateData(model, validationData.x, validationData.y);
+    xVal = validationData.x;
+    yVal = validationData.y;
+  } else if (validationSplit > 0) {
+    const splitAt = Math.floor(x.numRows * (1 - validationSplit));
+    if (splitAt === 0 || splitAt === x.numRows) {
+      throw invalidOption(`Validation split leaves an empty set (samples = ${x.numRows}, validationSplit = ${validationSplit}).`, 'validationSplit');
+    }
+    xTrain = selectRows(x, range(0, splitAt));
+    yTrain = selectRows(y, range(0, splitAt));
+    xVal = selectRows(x, range(splitAt, x.numRows));
+    yVal = selectRows(y, range(splitAt, x.numRows));
+  }
+  if (xTrain.numRows === 0) {
+    throw invalidOption('Training set must have at least one sample.', 'x');
+  }
+
+  const parameters = model.parameters();
+  const optimizer = typeof optimizerOrKey === 'string' ?
+    createOptimizer(optimizerOrKey, parameters, { learningRate }) :
+    optimizerOrKey;
+  const earlyStopping = earlyStoppingOptions ?
+    new EarlyStopping({
+      monitor: xVal ? 'valLoss' : 'loss',
+      ...earlyStoppingOptions,
+    }) :
+    null;
+  earlyStopping?.reset();
+  scheduler?.reset(optimizer.learningRate);
+
+  const namedMetrics = resolveMetrics(metrics);
+  const rng = new SeededRandom(seed);
+  const numSamples = xTrain.numRows;
+  const history: EpochLogs[] = [];
+  let stoppedEpoch: number | null = null;
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    callbacks.onEpochStart?.(epoch);
+    const order = shuffle ? permutation(numSamples, rng) : range(0, numSamples);
+
+    model.train();
+    const predictions = new Float64Array(numSamples * model.outputSize);
+    let lossSum = 0;
+    for (let start = 0, batch = 0; start < numSamples; start += batchSize, batch++) {
+      const indices = order.slice(start, start + batchSize);
+      const xBatch = selectRows(xTrain, indices);
+      const yBatch = selectRows(yTrain, indices);
+
+      const outputs = model.forwardBatch(xBatch);
+      predictions.set(outputs.data, start * model.outputSize);
+      const batchLossValue = batchLoss(loss, outputs, yBatch) +
+        model.regularizationLoss();
+      lossSum += batchLossValue * indices.length;
+
+      const gradients = model.backwardBatch(
+        batchLossGradient(loss, outputs, yBatch),
+      );
+      optimizer.zeroGrad();
+      optimizer.accumulateGradients(
+        parameters,
+        model.parameterGradients(gradients),
+      );
+      optimizer.step();
+      model.applyConstraints();
+
+      callbacks.onBatchEnd?.(batch, {
+        loss: batchLossValue,
+        size: indices.length,
+      });
+    }
+
+    model.eval();
+    const logs: EpochLogs = { loss: lossSum / numSamples };
+    const epochPredictions = Matrix.fromBuffer(predictions, numSamples, model.outputSize);
+    const epochTargets = selectRows(yTrain, order);
+    Object.entries(namedMetrics).forEach(([name, metric]) => {
+      logs[name] = metric(epochPredictions, epochTargets);
+    });
+    if (xVal && yVal) {
+      const valPredictions = model.forwardBatch(xVal);
+      logs.valLoss = batchLoss(loss, valPredictions, yVal) +
+        model.regularizationLoss();
+      Object.entries(namedMetrics).forEach(([name, metric]) => {
+        logs[validationName(name)] = metric(valPredictions, yVal as Matrix);
+      });
+    }
+    logs.learningRate = optimizer.learningRate;
+
+    history.push(logs);
+    callbacks.onEpochEnd?.(epoch, logs);
+
+    if (earlyStopping?.update(epoch, logs, parameters)) {
+      stoppedEpoch = epoch;
+      break;
+    }
+    if (scheduler) {
+      optimizer.learningRate = scheduler.step(epoch, logs);
+    }
+  }
+
+  earlyStopping?.restore(parameters);
+
+  return {
+    epochs: history,
+    optimizer,
+    stoppedEpoch,
+    bestEpoch: earlyStopping ? earlyStopping.bestEpoch : null,
+  };
+};
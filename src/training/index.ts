@@ -0,0 +1,3 @@
+export * from './early-stopping';
+export * from './schedulers';
+export * from './fit';
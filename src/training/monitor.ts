@@ -0,0 +1,38 @@
+import { InvalidArgumentError } from '../errors';
+import { EpochLogs, MonitorMode } from '../interface';
+
+/**
+ * Whether a monitored value improves on the best one seen so far
+ * @param {number} value - value of the current epoch
+ * @param {number} best - best value of the previous epochs
+ * @param {MonitorMode} mode - whether lower or higher values are better
+ * @param {number} minDelta - smallest change counted as an improvement
+ * @returns {boolean} true when the value is an improvement
+ */
+export const isImprovement = (
+  value: number,
+  best: number,
+  mode: MonitorMode,
+  minDelta: number,
+): boolean => {
+  return mode === 'min' ?
+    value < best - minDelta :
+    value > best + minDelta;
+};
+
+/**
+ * Value of a monitored quantity in the logs of an epoch
+ * @param {EpochLogs} logs - logs of the epoch
+ * @param {string} monitor - name of the quantity
+ * @returns {number} its value
+ */
+export const readMonitor = (logs: EpochLogs, monitor: string): number => {
+  const value = logs[monitor];
+  if (value === undefined) {
+    throw new InvalidArgumentError('FIT', `Monitored quantity is not logged (monitor = ${monitor}, logged = ${Object.keys(logs).join(', ')}).`, {
+      operation: 'readMonitor',
+      argument: 'monitor',
+    });
+  }
+  return value;
+};
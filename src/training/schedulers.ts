@@ -0,0 +1,204 @@
+import {
+  CosineAnnealingOptions,
+  EpochLogs,
+  ExponentialDecayOptions,
+  MonitorMode,
+  ReduceOnPlateauOptions,
+  StepDecayOptions,
+} from '../interface';
+import { InvalidArgumentError } from '../errors';
+import { isImprovement, readMonitor } from './monitor';
+
+/**
+ * Base class for learning rate schedulers
+ * @remarks
+ * `fit` resets the scheduler with the learning rate of the optimizer
+ * before the first epoch, and asks it for the learning rate of the
+ * next epoch at the end of every epoch:
+ * ```javascript
+ * scheduler.reset(optimizer.learningRate);
+ * // ... train epoch 0 ...
+ * optimizer.learningRate = scheduler.step(0, logs);
+ * ```
+ */
+export abstract class LearningRateScheduler {
+  /**
+   * @property {number} initialLearningRate - Learning rate of the first epoch
+   * @property {number} learningRate - Learning rate of the current epoch
+  */
+  initialLearningRate = 0;
+  learningRate = 0;
+
+  /**
+   * Start a new schedule
+   * @param {number} learningRate - Learning rate of the first epoch
+  */
+  reset(learningRate: number) {
+    this.initialLearningRate = learningRate;
+    this.learningRate = learningRate;
+  }
+
+  /**
+   * Move to the next epoch
+   * @param {number} epoch - Epoch that just ended (starting at 0)
+   * @param {EpochLogs} logs - Logs of the epoch that just ended
+   * @returns {number} Learning rate of the next epoch
+  */
+  step(epoch: number, logs: EpochLogs): number {
+    this.learningRate = this.schedule(epoch + 1, logs);
+    return this.learningRate;
+  }
+
+  /**
+   * Learning rate of an epoch
+   * @param {number} epoch - Epoch about to start
+   * @param {EpochLogs} logs - Logs of the previous epoch
+   * @returns {number} Its learning rate
+  */
+  protected abstract schedule(epoch: number, logs: EpochLogs): number;
+}
+
+/**
+ * Step decay
+ * @remarks
+ * Multiplies the learning rate by gamma every `stepSize` epochs:
+ * ```
+ * lr = lr0 * gamma^floor(epoch / stepSize)
+ * ```
+ */
+export class StepDecay extends LearningRateScheduler {
+  stepSize: number;
+  gamma: number;
+
+  constructor({ stepSize, gamma = 0.1 }: StepDecayOptions) {
+    super();
+    if (stepSize < 1) {
+      throw new InvalidArgumentError('FIT', `Step size must be at least one epoch (stepSize = ${stepSize}).`, {
+        operation: 'StepDecay.constructor',
+        argument: 'stepSize',
+      });
+    }
+    this.stepSize = stepSize;
+    this.gamma = gamma;
+  }
+
+  protected schedule(epoch: number): number {
+    return this.initialLearningRate *
+      this.gamma ** Math.floor(epoch / this.stepSize);
+  }
+}
+
+/**
+ * Exponential decay
+ * @remarks
+ * Multiplies the learning rate by gamma every epoch:
+ * ```
+ * lr = lr0 * gamma^epoch
+ * ```
+ */
+export class ExponentialDecay extends LearningRateScheduler {
+  gamma: number;
+
+  constructor({ gamma }: ExponentialDecayOptions) {
+    super();
+    this.gamma = gamma;
+  }
+
+  protected schedule(epoch: number): number {
+    return this.initialLearningRate * this.gamma ** epoch;
+  }
+}
+
+/**
+ * Cosine annealing
+ * @remarks
+ * Follows half a cosine from the initial learning rate down to
+ * the minimum one, which is kept after `totalEpochs`:
+ * ```
+ * lr = lrMin + (lr0 - lrMin) * (1 + cos(pi * epoch / totalEpochs)) / 2
+ * ```
+ */
+export class CosineAnnealing extends LearningRateScheduler {
+  totalEpochs: number;
+  minLearningRate: number;
+
+  constructor({ totalEpochs, minLearningRate = 0 }: CosineAnnealingOptions) {
+    super();
+    if (totalEpochs < 1) {
+      throw new InvalidArgumentError('FIT', `Cosine annealing must last at least one epoch (totalEpochs = ${totalEpochs}).`, {
+        operation: 'CosineAnnealing.constructor',
+        argument: 'totalEpochs',
+      });
+    }
+    this.totalEpochs = totalEpochs;
+    this.minLearningRate = minLearningRate;
+  }
+
+  protected schedule(epoch: number): number {
+    const progress = Math.min(epoch, this.totalEpochs) / this.totalEpochs;
+    return this.minLearningRate + (this.initialLearningRate - this.minLearningRate) *
+      (1 + Math.cos(Math.PI * progress)) / 2;
+  }
+}
+
+/**
+ * Reduce on plateau
+ * @remarks
+ * Multiplies the learning rate by `factor` when the monitored
+ * quantity has not improved for `patience` epochs, without going
+ * below `minLearningRate`
+ */
+export class ReduceOnPlateau extends LearningRateScheduler {
+  monitor: string;
+  mode: MonitorMode;
+  factor: number;
+  patience: number;
+  minDelta: number;
+  minLearningRate: number;
+  private best = Infinity;
+  private wait = 0;
+
+  constructor({
+    monitor = 'valLoss',
+    mode = 'min',
+    factor = 0.1,
+    patience = 10,
+    minDelta = 0,
+    minLearningRate = 0,
+  }: ReduceOnPlateauOptions = {}) {
+    super();
+    if (factor <= 0 || factor >= 1) {
+      throw new InvalidArgumentError('FIT', `Reduction factor must be in (0, 1) (factor = ${factor}).`, {
+        operation: 'ReduceOnPlateau.constructor',
+        argument: 'factor',
+      });
+    }
+    this.monitor = monitor;
+    this.mode = mode;
+    this.factor = factor;
+    this.patience = patience;
+    this.minDelta = minDelta;
+    this.minLearningRate = minLearningRate;
+  }
+
+  reset(learningRate: number) {
+    super.reset(learningRate);
+    this.best = this.mode === 'min' ? Infinity : -Infinity;
+    this.wait = 0;
+  }
+
+  protected schedule(epoch: number, logs: EpochLogs): number {
+    const value = readMonitor(logs, this.monitor);
+    if (isImprovement(value, this.best, this.mode, this.minDelta)) {
+      this.best = value;
+      this.wait = 0;
+      return this.learningRate;
+    }
+    this.wait += 1;
+    if (this.wait < this.patience) {
+      return this.learningRate;
+    }
+    this.wait = 0;
+    return Math.max(this.learningRate * this.factor, this.minLearningRate);
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  DenseVectorLayer,
+  ImplementedElementwiseActivationFunction,
+  ImplementedVectorActivationFunction,
+  Vector,
+  getActivationFunctionByKey,
+  getVectorActivationFunctionByKey,
+  isVectorActivation,
+  vectorActivations,
+} from '../../src';
+
+describe('Vector-valued activations are implemented correctly', () => {
+  let z: Vector;
+
+  beforeEach(() => {
+    z = new Vector(1, 2, 0.5);
+  });
+
+  test('Softmax is implemented correctly', () => {
+    const { activation } = getVectorActivationFunctionByKey('softmax');
+    const s = activation(z);
+    const total = Math.exp(1) + Math.exp(2) + Math.exp(0.5);
+    expect(s[0]).toBeCloseTo(Math.exp(1) / total);
+    expect(s[1]).toBeCloseTo(Math.exp(2) / total);
+    expect(s[2]).toBeCloseTo(Math.exp(0.5) / total);
+  });
+
+  test('Softmax is numerically stable', () => {
+    const { activation } = getVectorActivationFunctionByKey('softmax');
+    const s = activation(new Vector(1000, 1000));
+    expect(s[0]).toBeCloseTo(0.5);
+    expect(s[1]).toBeCloseTo(0.5);
+  });
+
+  test('Softmax handles long vectors', () => {
+    const long = Vector.zeros(300000);
+    expect(getVectorActivationFunctionByKey('softmax').activation(long)[0]).toBeCloseTo(1 / 300000);
+    expect(getVectorActivationFunctionByKey('logSoftmax').activation(long)[0]).toBeCloseTo(-Math.log(300000));
+  });
+
+  test('Log-softmax is implemented correctly', () => {
+    const { activation } = getVectorActivationFunctionByKey('logSoftmax');
+    const s = activation(z);
+    const logTotal = Math.log(Math.exp(1) + Math.exp(2) + Math.exp(0.5));
+    expect(s[0]).toBeCloseTo(1 - logTotal);
+    expect(s[1]).toBeCloseTo(2 - logTotal);
+    expect(s[2]).toBeCloseTo(0.5 - logTotal);
+  });
+
+  test('Sparsemax projects onto the simplex', () => {
+    const { activation } = getVectorActivationFunctionByKey('sparsemax');
+    const p = activation(new Vector(1, 0.8, -1));
+    expect(p[0]).toBeCloseTo(0.6);
+    expect(p[1]).toBeCloseTo(0.4);
+    expect(p[2]).toBeCloseTo(0);
+  });
+
+  test('Distinguishes vector-valued activations', () => {
+    expect(isVectorActivation('softmax')).toBe(true);
+    expect(isVectorActivation('sigmoid')).toBe(false);
+  });
+
+  test('Element-wise activations are vectorized', () => {
+    const { activation, activationJacobianProduct } = getVectorActivationFunctionByKey('reLU');
+    expect([...activation(new Vector(-1, 2))]).toEqual([0, 2]);
+    expect([...activationJacobianProduct(new Vector(-1, 2), new Vector(3, 4))]).toEqual([0, 4]);
+  });
+
+  test('Jacobian-vector products match finite differences', () => {
+    const eps = 1e-6;
+    const point = new Vector(1, 1.6, 0.2);
+    const gradient = new Vector(0.3, -1, 2);
+    const keys = Object.keys(vectorActivations) as ImplementedVectorActivationFunction[];
+    keys.forEach((key) => {
+      const { activation, activationJacobianProduct } = getVectorActivationFunctionByKey(key);
+      const product = activationJacobianProduct(point, gradient);
+      for (let i = 0; i < point.length; i++) {
+        const plus = new Vector(...point);
+        const minus = new Vector(...point);
+        plus[i] += eps;
+        minus[i] -= eps;
+        const numerical = (
+          activation(plus).vectorDot(gradient) -
+          activation(minus).vectorDot(gradient)
+        ) / (2 * eps);
+        expect(product[i]).toBeCloseTo(numerical, 5);
+      }
+    });
+  });
+});
+
+describe('Element-wise activations are implemented correctly', () => {
+  const points = [-3, -1.2, -0.4, 0.3, 1.1, 2.7];
+
+  test('Linear activation is the identity', () => {
+    const { activation, activationGradient } = getActivationFunctionByKey('linear');
+    points.forEach((a) => {
+      expect(activation(a)).toBe(a);
+      expect(activationGradient(a)).toBe(1);
+    });
+  });
+
+  test('Piecewise activations are implemented correctly', () => {
+    expect(getActivationFunctionByKey('leakyReLU').activation(-2)).toBeCloseTo(-0.02);
+    expect(getActivationFunctionByKey('elu').activation(-1)).toBeCloseTo(Math.exp(-1) - 1);
+    expect(getActivationFunctionByKey('selu').activation(1)).toBeCloseTo(1.0507);
+    expect(getActivationFunctionByKey('hardSigmoid').activation(0)).toBeCloseTo(0.5);
+    expect(getActivationFunctionByKey('hardSigmoid').activation(4)).toBeCloseTo(1);
+    expect(getActivationFunctionByKey('softplus').activation(0)).toBeCloseTo(Math.log(2));
+    expect(getActivationFunctionByKey('softplus').activation(800)).toBeCloseTo(800);
+    expect(getActivationFunctionByKey('gelu').activation(1)).toBeCloseTo(0.8412, 3);
+    expect(getActivationFunctionByKey('mish').activation(1)).toBeCloseTo(0.8651, 3);
+  });
+
+  test('Parameterized activations honour their parameters', () => {
+    const leaky = getActivationFunctionByKey('leakyReLU', { slope: 0.2 });
+    expect(leaky.activation(-2)).toBeCloseTo(-0.4);
+    expect(leaky.activationGradient(-2)).toBeCloseTo(0.2);
+    const elu = getActivationFunctionByKey('elu', { alpha: 2 });
+    expect(elu.activation(-1)).toBeCloseTo(2 * (Math.exp(-1) - 1));
+    expect(elu.activationGradient(-1)).toBeCloseTo(2 * Math.exp(-1));
+  });
+
+  test('Layers pick activation parameters from their definition', () => {
+    const layer = new DenseVectorLayer({
+      numNeurons: 2,
+      initialValues: [-1, 1],
+      activation: 'leakyReLU',
+      activationParams: { slope: 0.5 },
+    });
+    expect([...layer.activation(layer)]).toEqual([-0.5, 1]);
+  });
+
+  test('New gradients match finite differences', () => {
+    const eps = 1e-6;
+    const keys: ImplementedElementwiseActivationFunction[] = [
+      'leakyReLU',
+      'elu',
+      'selu',
+      'gelu',
+      'softplus',
+      'linear',
+      'hardSigmoid',
+      'mish',
+    ];
+    keys.forEach((key) => {
+      const { activation, activationGradient } = getActivationFunctionByKey(key);
+      points.forEach((a) => {
+        const numerical = (activation(a + eps) - activation(a - eps)) / (2 * eps);
+        expect(activationGradient(a)).toBeCloseTo(numerical, 5);
+      });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  IndexOutOfBoundsError,
+  InvalidArgumentError,
+  InvalidLayerError,
+  InvalidStateError,
+  MLP,
+  Matrix,
+  PerceptronError,
+  ShapeMismatchError,
+  Tape,
+  UnsupportedOperandError,
+  Vector,
+  createOptimizer,
+} from '../../src';
+
+const thrown = (f: () => unknown): unknown => {
+  try {
+    f();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the function to throw');
+};
+
+describe('Typed errors are implemented correctly', () => {
+  let a: Matrix;
+  let b: Matrix;
+
+  beforeEach(() => {
+    a = new Matrix([1, 2, 3], [4, 5, 6]);
+    b = new Matrix([1, 2], [3, 4]);
+  });
+
+  test('Shape mismatches record the operation and the shapes', () => {
+    const error = thrown(() => a.dot(b)) as ShapeMismatchError;
+    expect(error).toBeInstanceOf(ShapeMismatchError);
+    expect(error).toBeInstanceOf(PerceptronError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ShapeMismatchError');
+    expect(error.code).toBe('MATMUL');
+    expect(error.operation).toBe('Matrix.normalDot');
+    expect(error.shapes).toEqual([[2, 3], [2, 2]]);
+    expect(error.message).toBe('[MATMUL] Matrices must have consistent dimensions (a = [2, 3], b = [2, 2]).');
+
+    const vectorError = thrown(() => new Vector(1, 2).add(new Vector(1, 2, 3))) as ShapeMismatchError;
+    expect(vectorError).toBeInstanceOf(ShapeMismatchError);
+    expect(vectorError.code).toBe('VECADD');
+    expect(vectorError.shapes).toEqual([[2], [3]]);
+  });
+
+  test('Out of bounds accesses record the index and the shape', () => {
+    const error = thrown(() => a.getRow(2)) as IndexOutOfBoundsError;
+    expect(error).toBeInstanceOf(IndexOutOfBoundsError);
+    expect(error.code).toBe('ROW');
+    expect(error.operation).toBe('Matrix.getRow');
+    expect(error.index).toEqual([2]);
+    expect(error.shape).toEqual([2, 3]);
+    expect(thrown(() => a.setColumn(3, [1, 2]))).toBeInstanceOf(IndexOutOfBoundsError);
+  });
+
+  test('setRow and setColumn report the right lengths', () => {
+    expect(() => a.setRow(0, [1, 2])).toThrow('[ROW] Row must have one entry per column (cols = 3, row = 2).');
+    expect(() => a.setColumn(0, [1, 2, 3])).toThrow('[COL] Column must have one entry per row (rows = 2, col = 3).');
+    const error = thrown(() => a.setRow(0, [1, 2])) as ShapeMismatchError;
+    expect(error).toBeInstanceOf(ShapeMismatchError);
+    expect(error.shapes).toEqual([[2, 3], [2]]);
+  });
+
+  test('Unsupported operands record the type received', () => {
+    const error = thrown(() => a.dot('x' as unknown as number)) as UnsupportedOperandError;
+    expect(error).toBeInstanceOf(UnsupportedOperandError);
+    expect(error.code).toBe('MATMUL');
+    expect(error.operand).toBe('string');
+  });
+
+  test('Invalid arguments, layers and states are reported', () => {
+    const keyError = thrown(() => createOptimizer('unknown' as 'sgd', [], { learningRate: 0.1 })) as InvalidArgumentError;
+    expect(keyError).toBeInstanceOf(InvalidArgumentError);
+    expect(keyError.code).toBe('OPTC');
+    expect(keyError.argument).toBe('key');
+
+    const layerError = thrown(() => new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 0, activation: 'linear' },
+    ])) as InvalidLayerError;
+    expect(layerError).toBeInstanceOf(InvalidLayerError);
+    expect(layerError).toBeInstanceOf(InvalidArgumentError);
+    expect(layerError.code).toBe('MLPC');
+
+    const model = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 1, activation: 'linear' },
+    ]);
+    const stateError = thrown(() => model.backwardBatch(new Matrix([1]))) as InvalidStateError;
+    expect(stateError).toBeInstanceOf(InvalidStateError);
+    expect(stateError.code).toBe('MLPB');
+  });
+
+  test('Autodiff errors record the shapes of the values', () => {
+    const tape = new Tape();
+    const x = tape.variable(new Vector(1, 2));
+    const y = tape.variable(new Vector(1, 2, 3));
+    const error = thrown(() => tape.subtract(x, y)) as ShapeMismatchError;
+    expect(error).toBeInstanceOf(ShapeMismatchError);
+    expect(error.operation).toBe('Tape.subtract');
+    expect(error.shapes).toEqual([[2], [3]]);
+    expect(thrown(() => new Tape().sum(x))).toBeInstanceOf(InvalidArgumentError);
+  });
+});
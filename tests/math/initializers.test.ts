@@ -0,0 +1,93 @@
+import {
+  ImplementedInitializer,
+  Matrix,
+  SeededRandom,
+  getDefaultInitializerKey,
+  getInitializerByKey,
+  initializers,
+} from '../../src';
+
+describe('Seeded random generator is implemented correctly', () => {
+  test('Same seed produces the same sequence', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    const c = new SeededRandom(43);
+    const sequenceA = [a.next(), a.next(), a.normal(), a.uniform(-2, 2)];
+    const sequenceB = [b.next(), b.next(), b.normal(), b.uniform(-2, 2)];
+    expect(sequenceA).toEqual(sequenceB);
+    expect(c.next()).not.toBe(sequenceA[0]);
+  });
+
+  test('Samples follow their distributions', () => {
+    const rng = new SeededRandom(7);
+    const size = 20000;
+    let uniformSum = 0;
+    let normalSum = 0;
+    let normalSquares = 0;
+    for (let i = 0; i < size; i++) {
+      const u = rng.uniform(2, 4);
+      expect(u).toBeGreaterThanOrEqual(2);
+      expect(u).toBeLessThan(4);
+      uniformSum += u;
+      const n = rng.normal(1, 2);
+      normalSum += n;
+      normalSquares += n * n;
+    }
+    const normalMean = normalSum / size;
+    expect(uniformSum / size).toBeCloseTo(3, 1);
+    expect(normalMean).toBeCloseTo(1, 1);
+    expect(Math.sqrt(normalSquares / size - normalMean ** 2)).toBeCloseTo(2, 1);
+    expect(rng.integer(5)).toBeLessThan(5);
+  });
+});
+
+describe('Weight initializers are implemented correctly', () => {
+  const std = (matrix: Matrix): number => {
+    let sum = 0;
+    let squares = 0;
+    for (let i = 0; i < matrix.data.length; i++) {
+      sum += matrix.data[i];
+      squares += matrix.data[i] ** 2;
+    }
+    const mean = sum / matrix.data.length;
+    return Math.sqrt(squares / matrix.data.length - mean ** 2);
+  };
+
+  test('Initializers produce the requested shape', () => {
+    const keys = Object.keys(initializers) as ImplementedInitializer[];
+    keys.forEach((key) => {
+      const weights = getInitializerByKey(key)(3, 5, new SeededRandom(1));
+      expect(weights.numRows).toBe(3);
+      expect(weights.numCols).toBe(5);
+    });
+  });
+
+  test('Initializers scale with fan in and fan out', () => {
+    const rng = new SeededRandom(3);
+    expect(std(getInitializerByKey('heNormal')(200, 100, rng))).toBeCloseTo(Math.sqrt(2 / 100), 2);
+    expect(std(getInitializerByKey('lecunNormal')(200, 100, rng))).toBeCloseTo(Math.sqrt(1 / 100), 2);
+    expect(std(getInitializerByKey('xavierNormal')(200, 100, rng))).toBeCloseTo(Math.sqrt(2 / 300), 2);
+    const limit = Math.sqrt(6 / 300);
+    const uniform = getInitializerByKey('xavierUniform')(200, 100, rng);
+    expect(Math.max(...uniform.data)).toBeLessThanOrEqual(limit);
+    expect(Math.min(...uniform.data)).toBeGreaterThanOrEqual(-limit);
+    expect(getInitializerByKey('zeros')(2, 2, rng).norm()).toBe(0);
+  });
+
+  test('Orthogonal initializer produces orthonormal rows or columns', () => {
+    const rng = new SeededRandom(5);
+    const wide = getInitializerByKey('orthogonal')(3, 6, rng);
+    const tall = getInitializerByKey('orthogonal')(6, 3, rng);
+    const wideGram = wide.dot(wide.transpose());
+    const tallGram = tall.dot(tall, true);
+    [wideGram, tallGram].forEach((gram) => {
+      expect(gram.add(Matrix.identity(3).numberDot(-1)).norm()).toBeCloseTo(0, 8);
+    });
+  });
+
+  test('Default initializer depends on the activation', () => {
+    expect(getDefaultInitializerKey('reLU')).toBe('heNormal');
+    expect(getDefaultInitializerKey('selu')).toBe('lecunNormal');
+    expect(getDefaultInitializerKey('tanh')).toBe('xavierUniform');
+  });
+});
@@ -0,0 +1,122 @@
+import { Matrix, SeededRandom, Vector } from '../../src';
+
+const distance = (a: Matrix, b: Matrix): number => a.add(b.numberDot(-1)).norm();
+
+describe('Matrix decompositions are implemented correctly', () => {
+  let square: Matrix;
+  let spd: Matrix;
+  let tall: Matrix;
+
+  beforeEach(() => {
+    square = new Matrix(
+      [2, 1, 1],
+      [4, -6, 0],
+      [-2, 7, 2],
+    );
+    spd = new Matrix(
+      [4, 12, -16],
+      [12, 37, -43],
+      [-16, -43, 98],
+    );
+    tall = new Matrix(
+      [1, 2],
+      [3, 4],
+      [5, 6],
+      [7, 9],
+    );
+  });
+
+  test('LU decomposition reconstructs the permuted matrix', () => {
+    const { lower, upper, permutation } = square.lu();
+    const permuted = new Matrix(...permutation.map((idx) => square[idx]));
+    expect(distance(lower.dot(upper), permuted)).toBeCloseTo(0, 10);
+    for (let i = 0; i < 3; i++) {
+      expect(lower[i][i]).toBe(1);
+      for (let j = i + 1; j < 3; j++) {
+        expect(lower[i][j]).toBe(0);
+        expect(upper[j][i]).toBeCloseTo(0, 12);
+      }
+    }
+  });
+
+  test('Determinant is implemented correctly', () => {
+    expect(square.determinant()).toBeCloseTo(-16);
+    expect(spd.determinant()).toBeCloseTo(36);
+    expect(new Matrix([1, 2], [2, 4]).determinant()).toBeCloseTo(0);
+    expect(() => tall.determinant()).toThrow('[LINALG]');
+  });
+
+  test('Solve and inverse are implemented correctly', () => {
+    const b = new Vector(5, -2, 9);
+    const x = square.solve(b);
+    expect([...x].map((value) => Math.round(value * 1e9) / 1e9)).toEqual([1, 1, 2]);
+    expect(distance(square.dot(square.inverse()), Matrix.identity(3))).toBeCloseTo(0, 10);
+    expect(() => new Matrix([1, 2], [2, 4]).solve(new Vector(1, 1))).toThrow('[LINALG] Matrix is singular.');
+  });
+
+  test('QR decomposition is implemented correctly', () => {
+    const { q, r } = tall.qr();
+    expect(q.numRows).toBe(4);
+    expect(r.numCols).toBe(2);
+    expect(distance(q.dot(r), tall)).toBeCloseTo(0, 10);
+    expect(distance(q.dot(q, true), Matrix.identity(4))).toBeCloseTo(0, 10);
+    for (let i = 1; i < 4; i++) {
+      for (let j = 0; j < Math.min(i, 2); j++) {
+        expect(r[i][j]).toBe(0);
+      }
+    }
+  });
+
+  test('Cholesky decomposition is implemented correctly', () => {
+    const lower = spd.cholesky();
+    expect(lower.toArray()).toEqual([[2, 0, 0], [6, 1, 0], [-8, 5, 3]]);
+    expect(() => square.cholesky()).toThrow('[LINALG]');
+    expect(() => new Matrix([1, 2], [2, 1]).cholesky()).toThrow('positive definite');
+  });
+
+  test('Symmetric eigen decomposition is implemented correctly', () => {
+    const symmetric = new Matrix([2, 1, 0], [1, 2, 0], [0, 0, 5]);
+    const { values, vectors } = symmetric.eigen();
+    expect([...values].map((value) => Math.round(value * 1e9) / 1e9)).toEqual([5, 3, 1]);
+    for (let k = 0; k < 3; k++) {
+      const v = vectors.getColumn(k);
+      expect(symmetric.dot(v).add(v.numberDot(-values[k])).norm()).toBeCloseTo(0, 10);
+    }
+  });
+
+  test('SVD is implemented correctly', () => {
+    const random = Matrix.random(5, 3, new SeededRandom(8), -1, 1);
+    [tall, tall.transpose(), random].forEach((matrix) => {
+      const { u, singularValues, v } = matrix.svd();
+      const k = singularValues.length;
+      expect(k).toBe(Math.min(matrix.numRows, matrix.numCols));
+      const sigma = Matrix.zeros(k, k);
+      for (let i = 0; i < k; i++) {
+        sigma[i][i] = singularValues[i];
+        if (i > 0) {
+          expect(singularValues[i]).toBeLessThanOrEqual(singularValues[i - 1]);
+        }
+      }
+      expect(distance(u.dot(sigma).dot(v.transpose()), matrix)).toBeCloseTo(0, 10);
+      expect(distance(u.dot(u, true), Matrix.identity(k))).toBeCloseTo(0, 10);
+    });
+  });
+
+  test('Rank is implemented correctly', () => {
+    expect(square.rank()).toBe(3);
+    expect(tall.rank()).toBe(2);
+    expect(new Matrix([1, 2, 3], [2, 4, 6], [1, 0, 1]).rank()).toBe(2);
+  });
+
+  test('Least squares fits a linear regression', () => {
+    const design = new Matrix([1, 0], [1, 1], [1, 2], [1, 3]);
+    const observations = new Vector(1, 3, 5, 7);
+    const coefficients = design.leastSquares(observations);
+    expect(coefficients[0]).toBeCloseTo(1);
+    expect(coefficients[1]).toBeCloseTo(2);
+    const noisy = design.leastSquares(new Vector(1, 3.2, 4.8, 7));
+    expect(noisy[0]).toBeCloseTo(1.06);
+    expect(noisy[1]).toBeCloseTo(1.96);
+    expect(distance(tall.pseudoInverse().dot(tall), Matrix.identity(2))).toBeCloseTo(0, 10);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  ImplementedLossFunction,
+  Matrix,
+  Vector,
+  batchLoss,
+  batchLossGradient,
+  getLossFunctionByKey,
+  losses,
+} from '../../src';
+
+describe('Loss functions are implemented correctly', () => {
+  let prediction: Vector;
+  let target: Vector;
+
+  beforeEach(() => {
+    prediction = new Vector(0.2, 0.7, 2.5);
+    target = new Vector(0, 1, 1);
+  });
+
+  test('Mean squared error is implemented correctly', () => {
+    const { loss } = getLossFunctionByKey('meanSquaredError');
+    expect(loss(prediction, target)).toBeCloseTo((0.04 + 0.09 + 2.25) / 3);
+  });
+
+  test('Mean absolute error is implemented correctly', () => {
+    const { loss } = getLossFunctionByKey('meanAbsoluteError');
+    expect(loss(prediction, target)).toBeCloseTo((0.2 + 0.3 + 1.5) / 3);
+  });
+
+  test('Huber loss is implemented correctly', () => {
+    const { loss } = getLossFunctionByKey('huber');
+    expect(loss(prediction, target)).toBeCloseTo((0.02 + 0.045 + 1) / 3);
+  });
+
+  test('Binary cross-entropy is implemented correctly', () => {
+    const { loss } = getLossFunctionByKey('binaryCrossEntropy');
+    const p = new Vector(0.2, 0.7);
+    const t = new Vector(0, 1);
+    expect(loss(p, t)).toBeCloseTo(-(Math.log(0.8) + Math.log(0.7)) / 2);
+  });
+
+  test('Categorical cross-entropy is implemented correctly', () => {
+    const { loss } = getLossFunctionByKey('categoricalCrossEntropy');
+    const p = new Vector(0.1, 0.6, 0.3);
+    const t = new Vector(0, 1, 0);
+    expect(loss(p, t)).toBeCloseTo(-Math.log(0.6));
+  });
+
+  test('Hinge loss is implemented correctly', () => {
+    const { loss } = getLossFunctionByKey('hinge');
+    const p = new Vector(0.5, -2, 3);
+    const t = new Vector(1, -1, -1);
+    expect(loss(p, t)).toBeCloseTo((0.5 + 0 + 4) / 3);
+  });
+
+  test('Loss gradients match finite differences', () => {
+    const eps = 1e-6;
+    const p = new Vector(0.2, 0.65, 0.4);
+    const t = new Vector(0, 1, 1);
+    const keys = Object.keys(losses) as ImplementedLossFunction[];
+    keys.forEach((key) => {
+      const { loss, lossGradient } = getLossFunctionByKey(key);
+      const gradient = lossGradient(p, t);
+      for (let i = 0; i < p.length; i++) {
+        const plus = new Vector(...p);
+        const minus = new Vector(...p);
+        plus[i] += eps;
+        minus[i] -= eps;
+        const numerical = (loss(plus, t) - loss(minus, t)) / (2 * eps);
+        expect(gradient[i]).toBeCloseTo(numerical, 5);
+      }
+    });
+  });
+
+  test('Rejects inconsistent shapes', () => {
+    const { loss } = getLossFunctionByKey('meanSquaredError');
+    expect(() => loss(prediction, new Vector(1, 2))).toThrow('[LOSS]');
+  });
+
+  test('Batch loss averages over samples', () => {
+    const predictions = new Matrix([1, 2], [3, 4]);
+    const targets = new Matrix([1, 1], [1, 1]);
+    expect(batchLoss('meanSquaredError', predictions, targets)).toBeCloseTo(
+      ((0 + 1) / 2 + (4 + 9) / 2) / 2,
+    );
+    const gradient = batchLossGradient('meanSquaredError', predictions, targets);
+    expect(gradient.numRows).toBe(2);
+    expect(gradient[0][1]).toBeCloseTo(1);
+    expect(gradient[1][0]).toBeCloseTo(2);
+    expect(gradient[1][1]).toBeCloseTo(3);
+    const large = batchLossGradient('meanSquaredError', Matrix.ones(300000, 2), Matrix.zeros(300000, 2));
+    expect(large.numRows).toBe(300000);
+    expect(large[299999][1]).toBeCloseTo(1);
+  });
+});
@@ -1,4 +1,4 @@
-import { Matrix, Vector } from '../../src';
+import { Matrix, SeededRandom, Vector } from '../../src';
 
 describe('Matrix class is implemented correctly', () => {
   let testMatrixA: Matrix;
@@ -112,4 +112,152 @@ describe('Matrix class is implemented correctly', () => {
     expect(row[1]).toBeCloseTo(testMatrixB[randomIndex][1]);
     expect(row[2]).toBeCloseTo(testMatrixB[randomIndex][2]);
   });
-});
\ No newline at end of file
+
+  test('Matrix gets columns of wide matrices', () => {
+    const wide = new Matrix([1, 2, 3], [4, 5, 6]);
+    expect(Array.from(wide.getColumn(2))).toEqual([3, 6]);
+    expect(() => wide.getColumn(3)).toThrow('[COL]');
+  });
+
+  test('Rows are views of a contiguous buffer', () => {
+    expect(testMatrixB.data).toBeInstanceOf(Float64Array);
+    expect(testMatrixB.data.length).toBe(6);
+    testMatrixB[1][2] = 42;
+    expect(testMatrixB.data[5]).toBe(42);
+    expect(testMatrixB.length).toBe(2);
+    expect([...testMatrixB].map((row) => row.length)).toEqual([3, 3]);
+    expect(testMatrixB.toArray()).toEqual([[4, 3, 1], [5, 7, 42]]);
+  });
+
+  test('Builds Matrix from a buffer without copying', () => {
+    const buffer = new Float32Array([1, 2, 3, 4, 5, 6]);
+    const matrix = Matrix.fromBuffer(buffer, 3, 2);
+    expect(matrix.numRows).toBe(3);
+    expect(matrix.numCols).toBe(2);
+    expect(matrix[2][1]).toBe(6);
+    buffer[0] = 10;
+    expect(matrix[0][0]).toBe(10);
+    expect(matrix.numberDot(2).data).toBeInstanceOf(Float32Array);
+    expect(() => Matrix.fromBuffer(buffer, 4, 2)).toThrow('Invalid matrix');
+  });
+
+  test('Adds and scales in place', () => {
+    const result = testMatrixA.addInPlace(testMatrixA).scaleInPlace(2);
+    expect(result).toBe(testMatrixA);
+    expect(testMatrixA[0][0]).toBeCloseTo(1);
+    expect(testMatrixA[1][1]).toBeCloseTo(4/7);
+    expect(() => testMatrixA.addInPlace(testMatrixB)).toThrow('[MATADD]');
+  });
+
+  test('Blocked products match the naive products', () => {
+    const rows = 70;
+    const inner = 130;
+    const cols = 67;
+    const entry = (i: number, j: number) => Math.sin(i * 1.3 + j * 0.7);
+    const buildRows = (numRows: number, numCols: number) => {
+      const values: number[][] = [];
+      for (let i = 0; i < numRows; i++) {
+        values[i] = [];
+        for (let j = 0; j < numCols; j++) {
+          values[i][j] = entry(i + numCols, j + numRows);
+        }
+      }
+      return values;
+    };
+    const a = buildRows(rows, inner);
+    const b = buildRows(inner, cols);
+    const c = buildRows(rows, cols);
+    const product = new Matrix(...a).dot(new Matrix(...b));
+    const transposedProduct = new Matrix(...a).dot(new Matrix(...c), true);
+    for (let i = 0; i < rows; i += 7) {
+      for (let j = 0; j < cols; j += 5) {
+        let sum = 0;
+        for (let k = 0; k < inner; k++) {
+          sum += a[i][k] * b[k][j];
+        }
+        expect(product[i][j]).toBeCloseTo(sum, 10);
+      }
+    }
+    for (let i = 0; i < inner; i += 9) {
+      for (let j = 0; j < cols; j += 5) {
+        let sum = 0;
+        for (let k = 0; k < rows; k++) {
+          sum += a[k][i] * c[k][j];
+        }
+        expect(transposedProduct[i][j]).toBeCloseTo(sum, 10);
+      }
+    }
+  });
+
+  test('Factory functions are implemented correctly', () => {
+    const zeros = Matrix.zeros(2, 3);
+    expect(zeros.numRows).toBe(2);
+    expect(zeros.numCols).toBe(3);
+    expect(zeros.norm()).toBe(0);
+    expect(Matrix.ones(2, 3).norm()).toBe(6);
+    expect(Matrix.identity(3).toArray()).toEqual([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+    const random = Matrix.random(4, 4, new SeededRandom(11), -1, 1);
+    expect(random.toArray()).toEqual(
+      Matrix.random(4, 4, new SeededRandom(11), -1, 1).toArray(),
+    );
+    expect(Math.max(...random.data)).toBeLessThan(1);
+    expect(Math.min(...random.data)).toBeGreaterThanOrEqual(-1);
+  });
+
+  test('Element-wise operations broadcast vectors', () => {
+    expect(testMatrixB.subtract(testMatrixB.apply((v) => v - 1)).toArray())
+      .toEqual([[1, 1, 1], [1, 1, 1]]);
+    expect(testMatrixB.directDot(testMatrixB).toArray()).toEqual([[16, 9, 1], [25, 49, 64]]);
+    expect(testMatrixB.divide(new Vector(2, 1, 4)).toArray()).toEqual([[2, 3, 0.25], [2.5, 7, 2]]);
+    expect(testMatrixB.add(new Vector(1, 2, 3)).toArray()).toEqual([[5, 5, 4], [6, 9, 11]]);
+    expect(testMatrixB.subtract(testVector, 'column').toArray()).toEqual([[3, 2, 0], [3, 5, 6]]);
+    expect(() => testMatrixB.add(testVector)).toThrow('[MATADD]');
+    expect(() => testMatrixB.directDot(testMatrixA)).toThrow('[MATMUL]');
+  });
+
+  test('Reduces along both axes', () => {
+    expect(testMatrixB.sum()).toBe(28);
+    expect(Array.from(testMatrixB.sum('row'))).toEqual([9, 10, 9]);
+    expect(Array.from(testMatrixB.mean('column'))).toEqual([8 / 3, 20 / 3]);
+    expect(testMatrixB.max()).toBe(8);
+    expect(Array.from(testMatrixB.max('row'))).toEqual([5, 7, 8]);
+    expect(Array.from(testMatrixB.min('column'))).toEqual([1, 5]);
+    expect(testMatrixB.argmax()).toEqual([1, 2]);
+    expect(Array.from(testMatrixB.argmax('column'))).toEqual([0, 2]);
+    expect(Array.from(new Matrix([3, 3]).argmax('row'))).toEqual([0, 0]);
+  });
+
+  test('Computes Frobenius and spectral norms', () => {
+    const m = new Matrix([3, 0], [0, -4]);
+    expect(m.frobeniusNorm()).toBe(5);
+    expect(m.spectralNorm()).toBeCloseTo(4, 10);
+    expect(testMatrixB.spectralNorm()).toBeCloseTo(
+      Math.sqrt(testMatrixB.dot(testMatrixB.transpose()).eigen().values[0]),
+      8,
+    );
+  });
+
+  test('Slices and stacks matrices', () => {
+    expect(testMatrixB.slice(1).toArray()).toEqual([[5, 7, 8]]);
+    expect(testMatrixB.slice(0, 2, 1, -1).toArray()).toEqual([[3], [7]]);
+    expect(() => testMatrixB.slice(2)).toThrow('[SLICE]');
+    expect(Matrix.vstack(testMatrixB, new Vector(0, 0, 1)).toArray())
+      .toEqual([[4, 3, 1], [5, 7, 8], [0, 0, 1]]);
+    expect(Matrix.hstack(testMatrixA, testVector).toArray())
+      .toEqual([[1 / 4, 1 / 3, 1], [1 / 5, 1 / 7, 2]]);
+    expect(Matrix.concat([testMatrixA, testMatrixB], 'column').numCols).toBe(5);
+    expect(() => Matrix.vstack(testMatrixA, testMatrixB)).toThrow('[STACK]');
+  });
+
+  test('Axis helpers visit every row and accept single rows', () => {
+    const doubled = testMatrixB.vectorApply((row) => row.numberDot(2));
+    expect(doubled.toArray()).toEqual([[8, 6, 2], [10, 14, 16]]);
+    const single = new Matrix([1, 2, 3]);
+    expect(Array.from(single.vectorReduce((acc, row) => acc.add(row)))).toEqual([1, 2, 3]);
+    expect(Array.from(new Matrix([1], [2]).vectorReduce((acc, col) => acc.add(col), 'column')))
+      .toEqual([1, 2]);
+    const tall = Matrix.ones(100000, 2);
+    expect(tall.vectorApply((row) => row.numberDot(2)).sum()).toBe(400000);
+    expect(tall.vectorApply((col) => col.numberDot(3), 'column').sum()).toBe(600000);
+  });
+});
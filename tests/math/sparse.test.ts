@@ -0,0 +1,81 @@
+import { Matrix, SparseMatrix, Vector } from '../../src';
+
+describe('SparseMatrix class is implemented correctly', () => {
+  let dense: Matrix;
+  let sparse: SparseMatrix;
+
+  beforeEach(() => {
+    dense = new Matrix(
+      [0, 2, 0, 0],
+      [0, 0, 0, 0],
+      [1, 0, 0, -3],
+    );
+    sparse = SparseMatrix.fromMatrix(dense);
+  });
+
+  test('Converts to and from dense matrices', () => {
+    expect(sparse.nnz).toBe(3);
+    expect(sparse.density).toBeCloseTo(0.25);
+    expect([...sparse.rowPointers]).toEqual([0, 1, 1, 3]);
+    expect([...sparse.columnIndices]).toEqual([1, 0, 3]);
+    expect(sparse.toMatrix().toArray()).toEqual(dense.toArray());
+    expect(sparse.get(2, 3)).toBe(-3);
+    expect(sparse.get(1, 2)).toBe(0);
+    expect([...sparse.getRow(2)]).toEqual([1, 0, 0, -3]);
+    expect(SparseMatrix.fromMatrix(new Matrix([1e-9, 1]), 1e-6).nnz).toBe(1);
+    expect(() => sparse.get(3, 0)).toThrow('[SPARSE]');
+  });
+
+  test('Converts to and from coordinate entries', () => {
+    const fromCOO = SparseMatrix.fromCOO({
+      rows: [2, 0, 2, 2],
+      columns: [3, 1, 0, 3],
+      values: [-1, 2, 1, -2],
+    }, 3, 4);
+    expect(fromCOO.toMatrix().toArray()).toEqual(dense.toArray());
+    const { rows, columns, values } = fromCOO.toCOO();
+    expect([...rows]).toEqual([0, 2, 2]);
+    expect([...columns]).toEqual([1, 0, 3]);
+    expect([...values]).toEqual([2, 1, -3]);
+    expect(() => SparseMatrix.fromCOO({ rows: [3], columns: [0], values: [1] }, 3, 4)).toThrow('[SPARSE]');
+    expect(() => SparseMatrix.fromCOO({ rows: [0, 1], columns: [0], values: [1] }, 3, 4)).toThrow('[SPARSE]');
+  });
+
+  test('Validates the CSR arrays', () => {
+    const pointers = Int32Array.from([0, 2]);
+    expect(() => new SparseMatrix(1, 3, pointers, Int32Array.from([2, 1]), Float64Array.from([1, 1])))
+      .toThrow('[SPARSE]');
+    expect(() => new SparseMatrix(1, 3, pointers, Int32Array.from([0, 3]), Float64Array.from([1, 1])))
+      .toThrow('[SPARSE]');
+    expect(() => new SparseMatrix(2, 3, pointers, Int32Array.from([0, 1]), Float64Array.from([1, 1])))
+      .toThrow('[SPARSE]');
+  });
+
+  test('Multiplies dense vectors and matrices', () => {
+    const v = new Vector(1, 2, 3, 4);
+    expect([...sparse.dot(v)]).toEqual([...dense.dot(v)]);
+    const m = new Matrix([1, 0], [2, 1], [0, 5], [-1, 3]);
+    expect(sparse.dot(m).toArray()).toEqual(dense.dot(m).toArray());
+    expect(() => sparse.dot(new Vector(1, 2))).toThrow('[VECMUL]');
+    expect(() => sparse.dot(new Matrix([1, 2]))).toThrow('[MATMUL]');
+  });
+
+  test('Multiplies its transpose without materializing it', () => {
+    const v = new Vector(1, -1, 2);
+    expect([...sparse.transposedDot(v)]).toEqual([...dense.transpose().dot(v)]);
+    const m = new Matrix([1, 2], [3, 4], [5, 6]);
+    expect(sparse.dot(m, true).toArray()).toEqual(dense.dot(m, true).toArray());
+    expect(sparse.transpose().toMatrix().toArray()).toEqual(dense.transpose().toArray());
+  });
+
+  test('Scales and selects rows', () => {
+    expect(sparse.scale(2).toMatrix().toArray()).toEqual(dense.numberDot(2).toArray());
+    const selected = sparse.selectRows([2, 0, 2]);
+    expect(selected.toMatrix().toArray()).toEqual([
+      [1, 0, 0, -3],
+      [0, 2, 0, 0],
+      [1, 0, 0, -3],
+    ]);
+    expect(() => sparse.selectRows([3])).toThrow('[ROW]');
+  });
+});
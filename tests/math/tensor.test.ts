@@ -0,0 +1,134 @@
+import {
+  Matrix,
+  SeededRandom,
+  Tensor,
+  Vector,
+  broadcastShapes,
+} from '../../src';
+
+describe('Tensor class is implemented correctly', () => {
+  let cube: Tensor;
+
+  beforeEach(() => {
+    // shape [2, 3, 4] with entries 0..23
+    cube = Tensor.fromArray([
+      [[0, 1, 2, 3], [4, 5, 6, 7], [8, 9, 10, 11]],
+      [[12, 13, 14, 15], [16, 17, 18, 19], [20, 21, 22, 23]],
+    ]);
+  });
+
+  test('Infers shape and strides from nested arrays', () => {
+    expect(cube.shape).toEqual([2, 3, 4]);
+    expect(cube.strides).toEqual([12, 4, 1]);
+    expect(cube.ndim).toBe(3);
+    expect(cube.size).toBe(24);
+    expect(cube.get([1, 2, 3])).toBe(23);
+    expect(() => Tensor.fromArray([[1, 2], [3]])).toThrow('[TENSOR]');
+    expect(() => Tensor.zeros([2, 0])).toThrow('[TENSOR]');
+  });
+
+  test('Reshapes contiguous tensors as views', () => {
+    const flat = cube.reshape([6, -1]);
+    expect(flat.shape).toEqual([6, 4]);
+    expect(flat.data).toBe(cube.data);
+    flat.set([5, 3], -1);
+    expect(cube.get([1, 2, 3])).toBe(-1);
+    expect(() => cube.reshape([5, 5])).toThrow('[TENSOR]');
+  });
+
+  test('Transposes over arbitrary axes', () => {
+    const moved = cube.transpose([2, 0, 1]);
+    expect(moved.shape).toEqual([4, 2, 3]);
+    expect(moved.get([3, 1, 2])).toBe(cube.get([1, 2, 3]));
+    expect(moved.isContiguous()).toBe(false);
+    expect(cube.transpose().shape).toEqual([4, 3, 2]);
+    expect(moved.reshape([8, 3]).toArray()).toEqual([
+      [0, 4, 8], [12, 16, 20], [1, 5, 9], [13, 17, 21],
+      [2, 6, 10], [14, 18, 22], [3, 7, 11], [15, 19, 23],
+    ]);
+    expect(() => cube.transpose([0, 0, 1])).toThrow('[TENSOR]');
+  });
+
+  test('Broadcasts element-wise operations', () => {
+    expect(broadcastShapes([2, 1, 4], [3, 1])).toEqual([2, 3, 4]);
+    expect(() => broadcastShapes([2, 3], [4])).toThrow('[BROADCAST]');
+
+    const row = Tensor.fromArray([10, 20, 30, 40]);
+    const column = Tensor.fromArray([[1], [2], [3]]);
+    const sum = cube.add(row).add(column);
+    expect(sum.shape).toEqual([2, 3, 4]);
+    expect(sum.get([1, 2, 3])).toBe(23 + 40 + 3);
+    expect(column.multiply(row).toArray()).toEqual([
+      [10, 20, 30, 40], [20, 40, 60, 80], [30, 60, 90, 120],
+    ]);
+    expect(cube.subtract(1).divide(2).get([0, 0, 3])).toBe(1);
+    expect(row.broadcastTo([2, 4]).toArray()).toEqual([[10, 20, 30, 40], [10, 20, 30, 40]]);
+    expect(() => cube.add(Tensor.ones([3]))).toThrow('[BROADCAST]');
+  });
+
+  test('Reduces along any axis', () => {
+    expect(cube.sum()).toBe(276);
+    expect(cube.mean()).toBe(11.5);
+    expect(cube.sum(0).toArray()).toEqual([
+      [12, 14, 16, 18], [20, 22, 24, 26], [28, 30, 32, 34],
+    ]);
+    expect(cube.mean(-1).toArray()).toEqual([[1.5, 5.5, 9.5], [13.5, 17.5, 21.5]]);
+    expect(cube.max(1, true).shape).toEqual([2, 1, 4]);
+    expect(cube.max(1).toArray()).toEqual([[8, 9, 10, 11], [20, 21, 22, 23]]);
+    expect(cube.min(2).toArray()).toEqual([[0, 4, 8], [12, 16, 20]]);
+
+    const scores = Tensor.fromArray([[0.1, 0.7, 0.2], [0.5, 0.5, 0.4]]);
+    expect(scores.argmax(1).toArray()).toEqual([1, 0]);
+    expect(scores.argmax()).toBe(1);
+    expect(() => cube.sum(3)).toThrow('[TENSOR]');
+  });
+
+  test('Slices views of the tensor', () => {
+    const slice = cube.slice(null, [1, 3], [0, 4, 2]);
+    expect(slice.shape).toEqual([2, 2, 2]);
+    expect(slice.toArray()).toEqual([[[4, 6], [8, 10]], [[16, 18], [20, 22]]]);
+    expect(cube.slice(-1, 0).toArray()).toEqual([12, 13, 14, 15]);
+    expect(cube.slice(0, [-2]).shape).toEqual([2, 4]);
+    slice.set([0, 0, 0], 100);
+    expect(cube.get([0, 1, 0])).toBe(100);
+    expect(() => cube.slice(2)).toThrow('[TENSOR]');
+    expect(() => cube.slice(null, [2, 1])).toThrow('[TENSOR]');
+  });
+
+  test('Concatenates and stacks tensors', () => {
+    const a = Tensor.fromArray([[1, 2], [3, 4]]);
+    const b = Tensor.fromArray([[5, 6]]);
+    expect(Tensor.concat([a, b]).toArray()).toEqual([[1, 2], [3, 4], [5, 6]]);
+    expect(Tensor.concat([a, a.transpose()], 1).toArray()).toEqual([
+      [1, 2, 1, 3], [3, 4, 2, 4],
+    ]);
+    expect(Tensor.stack([a, a.add(4)]).shape).toEqual([2, 2, 2]);
+    expect(Tensor.stack([a, a.add(4)], -1).toArray()).toEqual([
+      [[1, 5], [2, 6]], [[3, 7], [4, 8]],
+    ]);
+    expect(() => Tensor.concat([a, b], 1)).toThrow('[TENSOR]');
+    expect(() => Tensor.stack([a, b])).toThrow('[TENSOR]');
+  });
+
+  test('Squeezes and expands axes', () => {
+    const expanded = cube.expandDims(1);
+    expect(expanded.shape).toEqual([2, 1, 3, 4]);
+    expect(expanded.squeeze().shape).toEqual([2, 3, 4]);
+    expect(Tensor.ones([1, 3, 1]).squeeze(0).shape).toEqual([3, 1]);
+    expect(() => cube.squeeze(0)).toThrow('[TENSOR]');
+  });
+
+  test('Converts losslessly to and from Matrix and Vector', () => {
+    const m = Matrix.random(3, 4, new SeededRandom(1), -1, 1);
+    const t = Tensor.fromMatrix(m);
+    expect(t.shape).toEqual([3, 4]);
+    expect(t.toMatrix().toArray()).toEqual(m.toArray());
+    expect(t.transpose().toMatrix().toArray()).toEqual(m.transpose().toArray());
+
+    const v = new Vector(0.1, -0.2, 0.3);
+    expect(Array.from(Tensor.fromVector(v).toVector())).toEqual(Array.from(v));
+    expect(cube.slice(1, 2).toVector()).toBeInstanceOf(Vector);
+    expect(() => cube.toMatrix()).toThrow('[TENSOR]');
+    expect(() => t.toVector()).toThrow('[TENSOR]');
+  });
+});
@@ -1,4 +1,4 @@
-import { Matrix, Vector } from '../../src';
+import { Matrix, SeededRandom, Vector } from '../../src';
 
 describe('Vector class is implemented correctly', () => {
   let vectorA: Vector;
@@ -61,4 +61,45 @@ describe('Vector class is implemented correctly', () => {
     expect(result[1]).toBe(4);
     expect(result[2]).toBe(6);
   });
-});
\ No newline at end of file
+
+  test('Vector stores its components in a typed array', () => {
+    expect(vectorA).toBeInstanceOf(Float64Array);
+    const single = new Vector(7);
+    expect(single.length).toBe(1);
+    expect(single[0]).toBe(7);
+  });
+
+  test('Vector is built from large arrays without spreading', () => {
+    const values = Array(500000).fill(1);
+    const large = Vector.fromArray(values);
+    expect(large.length).toBe(500000);
+    expect(large.add(large)[499999]).toBe(2);
+  });
+
+  test('Vector adds and scales in place', () => {
+    const result = vectorA.addInPlace(vectorB).scaleInPlace(0.5);
+    expect(result).toBe(vectorA);
+    expect([...vectorA]).toEqual([2.5, 3.5, 4.5]);
+    expect(() => vectorA.addInPlace(vectorC)).toThrow('[VECADD]');
+  });
+
+  test('Vector factory functions are implemented correctly', () => {
+    expect([...Vector.zeros(3)]).toEqual([0, 0, 0]);
+    expect([...Vector.ones(2)]).toEqual([1, 1]);
+    const random = Vector.random(5, new SeededRandom(2));
+    expect([...random]).toEqual([...Vector.random(5, new SeededRandom(2))]);
+    expect(random.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+
+  test('Vector subtraction, division and reductions are implemented correctly', () => {
+    expect([...vectorB.subtract(vectorA)]).toEqual([3, 3, 3]);
+    expect([...vectorB.divide(new Vector(2, 5, 3))]).toEqual([2, 1, 2]);
+    expect(() => vectorA.subtract(vectorC)).toThrow('[VECADD]');
+    expect(vectorC.sum()).toBe(10);
+    expect(vectorC.mean()).toBe(2.5);
+    expect(new Vector(2, 7, 7, -1).max()).toBe(7);
+    expect(new Vector(2, 7, 7, -1).argmax()).toBe(1);
+    expect(new Vector(2, 7, 7, -1).min()).toBe(-1);
+    expect([...Vector.concat(vectorA, [9])]).toEqual([1, 2, 3, 9]);
+  });
+});
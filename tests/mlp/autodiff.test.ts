@@ -0,0 +1,163 @@
+import {
+  Matrix,
+  Tape,
+  Variable,
+  Vector,
+  checkParameterGradient,
+} from '../../src';
+
+type Parameter = Matrix | Vector;
+
+/**
+ * Differentiate `build` with a tape and compare every gradient
+ * with central finite differences
+ */
+const expectGradientsMatch = (
+  params: Parameter[],
+  build: (tape: Tape, variables: Variable[]) => Variable,
+) => {
+  const tape = new Tape();
+  const variables = params.map((param) => tape.variable(param));
+  tape.backward(build(tape, variables));
+  const evaluate = () => {
+    const fresh = new Tape();
+    return build(fresh, params.map((param) => fresh.variable(param))).value as number;
+  };
+  variables.forEach((variable, idx) => {
+    const report = checkParameterGradient(
+      `param ${idx}`,
+      params[idx],
+      variable.grad as Parameter,
+      evaluate,
+    );
+    expect(report.failures).toEqual([]);
+  });
+};
+
+describe('Autodiff tape is implemented correctly', () => {
+  let a: Matrix;
+  let b: Matrix;
+  let x: Vector;
+  let y: Vector;
+
+  beforeEach(() => {
+    a = new Matrix([0.3, -0.2, 0.5], [0.1, 0.4, -0.6]);
+    b = new Matrix([0.7, -0.1], [0.2, 0.3], [-0.5, 0.8]);
+    x = new Vector(0.4, -0.7, 0.2);
+    y = new Vector(-0.3, 0.6, 0.9);
+  });
+
+  test('Computes values eagerly', () => {
+    const tape = new Tape();
+    const product = tape.dot(tape.variable(a), tape.variable(x));
+    expect(Array.from(product.value as Vector)).toEqual(Array.from(a.dot(x)));
+    expect(tape.sum(tape.variable(x)).value).toBeCloseTo(-0.1);
+    expect(tape.mean(tape.variable(y)).value).toBeCloseTo(0.4);
+  });
+
+  test('Differentiates element-wise operations', () => {
+    const tape = new Tape();
+    const u = tape.variable(x);
+    const v = tape.variable(y);
+    tape.backward(tape.sum(tape.directDot(tape.add(u, v), tape.scale(u, 2))));
+    // d/du sum(2u² + 2uv) = 4u + 2v
+    expect(Array.from(u.grad as Vector).map((g) => +g.toFixed(10)))
+      .toEqual([1, -1.6, 2.6]);
+    expect(Array.from(v.grad as Vector).map((g) => +g.toFixed(10)))
+      .toEqual([0.8, -1.4, 0.4]);
+  });
+
+  test('Accumulates gradients of variables used several times', () => {
+    const tape = new Tape();
+    const u = tape.variable(x);
+    tape.backward(tape.dot(u, u));
+    expect(Array.from(u.grad as Vector)).toEqual(Array.from(x.numberDot(2)));
+  });
+
+  test('Matches finite differences for matrix products', () => {
+    expectGradientsMatch([a, b], (tape, [p, q]) => (
+      tape.sum(tape.apply(tape.dot(p, q), 'tanh'))
+    ));
+    expectGradientsMatch([b, a.transpose()], (tape, [p, q]) => (
+      tape.mean(tape.apply(tape.transposedDot(p, q), 'sigmoid'))
+    ));
+  });
+
+  test('Matches finite differences for a dense layer and a loss', () => {
+    const target = new Vector(0.5, -0.2);
+    const bias = new Vector(0.1, -0.1);
+    expectGradientsMatch([a, x, bias], (tape, [w, input, c]) => (
+      tape.loss('meanSquaredError', tape.apply(tape.add(tape.dot(w, input), c), 'elu'), target)
+    ));
+  });
+
+  test('Matches finite differences over a mini-batch', () => {
+    const inputs = new Matrix([0.4, -0.7], [0.2, 0.1], [-0.3, 0.5]);
+    const targets = new Matrix([1, 0, 0], [0, 1, 0], [0, 0, 1]);
+    const bias = new Vector(0.1, 0, -0.2);
+    expectGradientsMatch([inputs, a, bias], (tape, [input, w, c]) => {
+      const logits = tape.add(tape.dot(input, w), c);
+      return tape.loss('categoricalCrossEntropy', tape.apply(logits, 'softmax'), targets);
+    });
+  });
+
+  test('Matches the hand-coded dense layer gradients', () => {
+    const bias = new Vector(0.1, -0.1);
+    const target = new Vector(0.5, -0.2);
+    const tape = new Tape();
+    const w = tape.variable(a);
+    const c = tape.variable(bias);
+    const output = tape.apply(tape.add(tape.dot(w, tape.constant(x)), c), 'tanh');
+    tape.backward(tape.loss('meanSquaredError', output, target));
+
+    const prediction = bias.add(a.dot(x)).apply(Math.tanh);
+    const delta = prediction.add(target.numberDot(-1))
+      .numberDot(2 / target.length)
+      .directDot(prediction.apply((p) => 1 - p * p));
+    (w.grad as Matrix).data.forEach((g, idx) => {
+      expect(g).toBeCloseTo(delta.outerDot(x).data[idx], 12);
+    });
+    (c.grad as Vector).forEach((g, idx) => expect(g).toBeCloseTo(delta[idx], 12));
+  });
+
+  test('Gives zero gradients to unused leaves and none to constants', () => {
+    const tape = new Tape();
+    const u = tape.variable(x);
+    const unused = tape.variable(y);
+    const k = tape.constant(y);
+    tape.backward(tape.sum(tape.directDot(u, k)));
+    expect(Array.from(u.grad as Vector)).toEqual(Array.from(y));
+    expect(Array.from(unused.grad as Vector)).toEqual([0, 0, 0]);
+    expect(k.grad).toBeNull();
+    expect(tape.leaves()).toEqual([u, unused]);
+  });
+
+  test('Uses a seed gradient for non-scalar outputs', () => {
+    const tape = new Tape();
+    const w = tape.variable(a);
+    const output = tape.dot(w, tape.constant(x));
+    expect(() => tape.backward(output)).toThrow('[AUTODIFF]');
+    tape.backward(output, new Vector(1, 0));
+    expect((w.grad as Matrix).toArray().map((row) => row.map((g) => g + 0)))
+      .toEqual([[0.4, -0.7, 0.2], [0, 0, 0]]);
+  });
+
+  test('Applies row-wise activations to large batches', () => {
+    const tape = new Tape();
+    const logits = tape.variable(Matrix.zeros(300000, 2));
+    const output = tape.apply(logits, 'softmax');
+    expect(Array.from((output.value as Matrix)[299999])).toEqual([0.5, 0.5]);
+    tape.backward(output, Matrix.ones(300000, 2));
+    expect((logits.grad as Matrix).numRows).toBe(300000);
+    expect((logits.grad as Matrix)[0][0]).toBeCloseTo(0);
+  });
+
+  test('Rejects invalid operands', () => {
+    const tape = new Tape();
+    const other = new Tape();
+    expect(() => tape.add(tape.variable(x), tape.variable(a))).toThrow('[AUTODIFF]');
+    expect(() => tape.dot(tape.variable(x), tape.variable(a))).toThrow('[AUTODIFF]');
+    expect(() => tape.apply(tape.variable(1), 'softmax')).toThrow('[AUTODIFF]');
+    expect(() => tape.sum(other.variable(x))).toThrow('[AUTODIFF]');
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  AvgPool2D,
+  Conv2D,
+  DenseVectorLayer,
+  Flatten,
+  Matrix,
+  MaxPool2D,
+  SeededRandom,
+  Tensor,
+  Vector,
+  Window2D,
+  checkParameterGradient,
+  col2im,
+  im2col,
+} from '../../src';
+
+const dotProduct = (a: Tensor, b: Tensor): number => a.multiply(b).sum();
+
+// Matrix view sharing the buffer of a tensor, so that perturbing it
+// perturbs the tensor
+const asMatrix = (t: Tensor): Matrix => Matrix.fromBuffer(t.data, t.shape[0], t.size / t.shape[0]);
+
+describe('Convolutional layers are implemented correctly', () => {
+  let rng: SeededRandom;
+  let images: Tensor;
+
+  beforeEach(() => {
+    rng = new SeededRandom(7);
+    images = Tensor.random([2, 2, 5, 5], rng, -1, 1);
+  });
+
+  test('Unfolds and folds windows with im2col', () => {
+    const image = Tensor.fromArray([[[[1, 2, 3], [4, 5, 6], [7, 8, 9]]]]);
+    const window: Window2D = { kernel: [2, 2], stride: [1, 1], padding: [0, 0] };
+    expect(im2col(image, window).toArray()).toEqual([
+      [1, 2, 4, 5],
+      [2, 3, 5, 6],
+      [4, 5, 7, 8],
+      [5, 6, 8, 9],
+    ]);
+    expect(col2im(Matrix.ones(4, 4), [1, 1, 3, 3], window).toArray()).toEqual([
+      [[[1, 2, 1], [2, 4, 2], [1, 2, 1]]],
+    ]);
+
+    // col2im is the adjoint of im2col
+    const padded: Window2D = { kernel: [3, 2], stride: [2, 1], padding: [1, 1] };
+    const cols = im2col(images, padded);
+    const other = Matrix.random(cols.numRows, cols.numCols, rng, -1, 1);
+    const lhs = Tensor.fromMatrix(cols).multiply(Tensor.fromMatrix(other)).sum();
+    expect(dotProduct(images, col2im(other, images.shape, padded))).toBeCloseTo(lhs, 10);
+  });
+
+  test('Convolves like a direct sliding window', () => {
+    const conv = new Conv2D({
+      inChannels: 2,
+      outChannels: 3,
+      kernelSize: 3,
+      stride: 2,
+      padding: 1,
+      rng,
+    });
+    conv.bias.set([0.1, -0.2, 0.3]);
+    const output = conv.forwardBatch(images);
+    expect(output.shape).toEqual([2, 3, 3, 3]);
+    expect(conv.outputShape([2, 5, 5])).toEqual([3, 3, 3]);
+
+    const read = (n: number, c: number, y: number, x: number) => (
+      y < 0 || y >= 5 || x < 0 || x >= 5 ? 0 : images.get([n, c, y, x])
+    );
+    for (let n = 0; n < 2; n++) {
+      for (let k = 0; k < 3; k++) {
+        for (let y = 0; y < 3; y++) {
+          for (let x = 0; x < 3; x++) {
+            let expected = conv.bias[k];
+            for (let c = 0; c < 2; c++) {
+              for (let i = 0; i < 3; i++) {
+                for (let j = 0; j < 3; j++) {
+                  expected += conv.weights[k][(c * 3 + i) * 3 + j] * read(n, c, 2 * y + i - 1, 2 * x + j - 1);
+                }
+              }
+            }
+            expect(output.get([n, k, y, x])).toBeCloseTo(expected, 12);
+          }
+        }
+      }
+    }
+    expect(conv.forward(images.slice(1)).toArray()).toEqual(output.slice(1).toArray());
+  });
+
+  test('Matches finite differences for convolution gradients', () => {
+    const conv = new Conv2D({
+      inChannels: 2,
+      outChannels: 2,
+      kernelSize: [3, 2],
+      stride: [1, 2],
+      padding: [1, 0],
+      activation: 'tanh',
+      rng,
+    });
+    const probe = Tensor.random([2, 2, 5, 2], rng, -1, 1);
+    const batchLoss = () => dotProduct(conv.forwardBatch(images), probe) / 2;
+    conv.forwardBatch(images);
+    const gradients = conv.backwardBatch(probe);
+
+    [
+      checkParameterGradient('weights', conv.weights, gradients.weights, batchLoss),
+      checkParameterGradient('bias', conv.bias, gradients.bias, batchLoss),
+      // the input gradient is per sample, as for dense layers
+      checkParameterGradient('input', asMatrix(images), asMatrix(gradients.input), () => 2 * batchLoss()),
+    ].forEach((report) => expect(report.failures).toEqual([]));
+  });
+
+  test('Routes max pooling gradients to the maxima', () => {
+    const pool = new MaxPool2D({ poolSize: 2 });
+    const image = Tensor.fromArray([[[[1, 5, 2, 0], [3, 4, 8, 1], [0, 2, 1, 1], [6, 1, 3, 2]]]]);
+    expect(pool.forwardBatch(image).toArray()).toEqual([[[[5, 8], [6, 3]]]]);
+    expect(pool.backwardBatch(Tensor.fromArray([[[[1, 2], [3, 4]]]])).toArray()).toEqual([
+      [[[0, 1, 0, 0], [0, 0, 2, 0], [0, 0, 0, 0], [3, 0, 4, 0]]],
+    ]);
+    const padded = new MaxPool2D({ poolSize: 3, stride: 1, padding: 1 });
+    expect(padded.forward(Tensor.fromArray([[[-1, -2], [-3, -4]]])).toArray()).toEqual([
+      [[-1, -1], [-1, -1]],
+    ]);
+  });
+
+  test('Matches finite differences for pooling gradients', () => {
+    [
+      new AvgPool2D({ poolSize: 2, stride: 1, padding: 1 }),
+      new MaxPool2D({ poolSize: [2, 3], stride: [1, 2] }),
+    ].forEach((pool) => {
+      const probe = Tensor.random([2, ...pool.outputShape([2, 5, 5])], rng, -1, 1);
+      pool.forwardBatch(images);
+      const gradient = pool.backwardBatch(probe);
+      const report = checkParameterGradient(
+        'input',
+        asMatrix(images),
+        asMatrix(gradient),
+        () => dotProduct(pool.forwardBatch(images), probe),
+      );
+      expect(report.failures).toEqual([]);
+    });
+  });
+
+  test('Feeds flattened feature maps to dense layers', () => {
+    const conv = new Conv2D({ inChannels: 2, outChannels: 4, kernelSize: 3, activation: 'reLU', rng });
+    const pool = new MaxPool2D({ poolSize: 2, stride: 1 });
+    const flatten = new Flatten();
+    const weights = Matrix.random(3, 16, rng, -0.5, 0.5);
+    const bias = Vector.zeros(3);
+
+    const features = flatten.forwardBatch(pool.forwardBatch(conv.forwardBatch(images)));
+    expect([features.numRows, features.numCols]).toEqual([2, 16]);
+    const { preActivations } = DenseVectorLayer.batchForwardPass({
+      inputs: features,
+      weights,
+      bias,
+      activation: 'linear',
+    });
+    const { input } = DenseVectorLayer.batchBackwardPass({
+      inputs: features,
+      preActivations,
+      weights,
+      incomingGradient: Matrix.ones(2, 3),
+      activation: 'linear',
+    });
+    const imageGradient = conv.backwardBatch(pool.backwardBatch(flatten.backwardBatch(input))).input;
+    expect(imageGradient.shape).toEqual(images.shape);
+
+    expect(flatten.forward(images.slice(0)).length).toBe(50);
+    expect(flatten.backward(Vector.zeros(50)).shape).toEqual([2, 5, 5]);
+    expect(() => flatten.backward(Vector.zeros(3))).toThrow('[FLAT]');
+  });
+
+  test('Rejects invalid configurations', () => {
+    expect(() => new Conv2D({ inChannels: 0, outChannels: 1, kernelSize: 3 })).toThrow('[CONV]');
+    expect(() => new Conv2D({ inChannels: 1, outChannels: 1, kernelSize: [3, 0] })).toThrow('[CONV]');
+    const conv = new Conv2D({ inChannels: 3, outChannels: 1, kernelSize: 3 });
+    expect(() => conv.forwardBatch(images)).toThrow('[CONV]');
+    expect(() => conv.backwardBatch(images)).toThrow('[CONV]');
+    expect(() => new MaxPool2D({ poolSize: 6 }).forwardBatch(images)).toThrow('[CONV]');
+    expect(() => new AvgPool2D({ poolSize: 2 }).backwardBatch(images)).toThrow('[POOL]');
+  });
+});
@@ -0,0 +1,183 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  LabelEncoder,
+  Matrix,
+  OneHotEncoder,
+  batchIterator,
+  kFold,
+  loadCSV,
+  parseDelimited,
+  readCSV,
+  shuffleDataset,
+  slidingWindows,
+  trainTestSplit,
+} from '../../src';
+
+const makeDataset = (numSamples: number) => {
+  const x = Matrix.zeros(numSamples, 2);
+  const y = Matrix.zeros(numSamples, 1);
+  for (let i = 0; i < numSamples; i++) {
+    x[i][0] = i;
+    x[i][1] = -i;
+    y[i][0] = i % 4 === 0 ? 1 : 0;
+  }
+  return { x, y };
+};
+
+describe('CSV parsing is implemented correctly', () => {
+  const text = 'width,height,"species, name"\n1.5,2,setosa\r\n3,4.25,"versicolor"\n\n0.5,1,setosa\n';
+
+  test('Splits delimited text with quoted fields', () => {
+    expect(parseDelimited('a,"b ""c"", d"\n1\t2', {})).toEqual([
+      ['a', 'b "c", d'],
+      ['1\t2'],
+    ]);
+    expect(parseDelimited('1\t2\n3\t4', { delimiter: '\t' })).toEqual([['1', '2'], ['3', '4']]);
+    expect(() => parseDelimited('"open')).toThrow('[DATA]');
+  });
+
+  test('Selects features and encodes categorical labels', () => {
+    const data = loadCSV(text, { labelColumns: ['species, name'], labelEncoding: 'oneHot' });
+    expect(data.featureNames).toEqual(['width', 'height']);
+    expect(data.x.toArray()).toEqual([[1.5, 2], [3, 4.25], [0.5, 1]]);
+    expect(data.y?.toArray()).toEqual([[1, 0], [0, 1], [1, 0]]);
+    expect(data.encoder?.classes).toEqual(['setosa', 'versicolor']);
+
+    const numeric = loadCSV(text, { featureColumns: [1], labelColumns: [0] });
+    expect(numeric.x.toArray()).toEqual([[2], [4.25], [1]]);
+    expect(numeric.y?.toArray()).toEqual([[1.5], [3], [0.5]]);
+    expect(loadCSV('1,2\n3,4', { header: false }).y).toBeUndefined();
+  });
+
+  test('Rejects malformed files', () => {
+    expect(() => loadCSV(text)).toThrow('[DATA] Value is not a number');
+    expect(() => loadCSV('a,b\n1\n')).toThrow('[DATA]');
+    expect(() => loadCSV(text, { labelColumns: ['missing'] })).toThrow('[DATA]');
+  });
+
+  test('Reads TSV files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'perceptron-'));
+    try {
+      const path = join(dir, 'data.tsv');
+      writeFileSync(path, '1\t2\t0\n3\t4\t1\n');
+      const data = await readCSV(path, { header: false, labelColumns: [2] });
+      expect(data.x.toArray()).toEqual([[1, 2], [3, 4]]);
+      expect(data.y?.toArray()).toEqual([[0], [1]]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Encoders are implemented correctly', () => {
+  test('LabelEncoder round trips categories', () => {
+    const encoder = new LabelEncoder();
+    expect(Array.from(encoder.fitTransform(['dog', 'cat', 'dog', 'bird']))).toEqual([2, 1, 2, 0]);
+    expect(encoder.inverseTransform([0, 2])).toEqual(['bird', 'dog']);
+    expect(() => encoder.transform(['fish'])).toThrow('[DATA]');
+    expect(() => encoder.inverseTransform([3])).toThrow('[DATA]');
+  });
+
+  test('OneHotEncoder round trips categories', () => {
+    const encoder = new OneHotEncoder();
+    const rows = encoder.fitTransform([10, 2, 10]);
+    expect(rows.toArray()).toEqual([[0, 1], [1, 0], [0, 1]]);
+    expect(encoder.inverseTransform(new Matrix([0.2, 0.8], [0.9, 0.1]))).toEqual([10, 2]);
+  });
+});
+
+describe('Splits and batches are implemented correctly', () => {
+  test('Shuffles reproducibly, keeping inputs and targets aligned', () => {
+    const data = makeDataset(10);
+    const shuffled = shuffleDataset(data, 3);
+    expect(shuffled.x.toArray()).toEqual(shuffleDataset(data, 3).x.toArray());
+    for (let i = 0; i < 10; i++) {
+      expect(shuffled.y[i][0]).toBe(shuffled.x[i][0] % 4 === 0 ? 1 : 0);
+    }
+  });
+
+  test('Stratified splits keep class proportions', () => {
+    const { train, validation, test } = trainTestSplit(makeDataset(40), {
+      testSize: 0.2,
+      validationSize: 0.2,
+      stratify: true,
+      seed: 1,
+    });
+    const positives = (m: Matrix) => Array.from(m.data).filter((a) => a === 1).length;
+    expect(train.x.numRows).toBe(24);
+    expect(validation?.x.numRows).toBe(8);
+    expect(test.x.numRows).toBe(8);
+    expect(positives(train.y)).toBe(6);
+    expect(positives(validation?.y as Matrix)).toBe(2);
+    expect(positives(test.y)).toBe(2);
+    expect(() => trainTestSplit(makeDataset(4), { testSize: 1 })).toThrow('[DATA]');
+  });
+
+  test('Rejects splits that leave a set empty', () => {
+    expect(() => trainTestSplit(makeDataset(10), { testSize: 0 })).toThrow('[DATA] Split leaves no test samples');
+    expect(() => trainTestSplit(makeDataset(10), { testSize: 0.01 })).toThrow('[DATA] Split leaves no test samples');
+    expect(() => trainTestSplit(makeDataset(10), { testSize: 0, validationSize: 0.2 }))
+      .toThrow('[DATA] Split leaves no test samples');
+    expect(() => trainTestSplit(makeDataset(10), { testSize: 0.2, validationSize: 0.01 }))
+      .toThrow('[DATA] Split leaves no validation samples');
+    expect(trainTestSplit(makeDataset(10), { testSize: 0.1, validationSize: 0.1 }).validation?.x.numRows).toBe(1);
+  });
+
+  test('Splits large datasets', () => {
+    const { train, test } = trainTestSplit(makeDataset(400000), { testSize: 0.25, seed: 3 });
+    expect(train.x.numRows).toBe(300000);
+    expect(test.x.numRows).toBe(100000);
+  });
+
+  test('K-fold puts every sample in exactly one validation set', () => {
+    const folds = kFold(makeDataset(10), 3, { seed: 2 });
+    expect(folds.map(({ validation }) => validation.x.numRows)).toEqual([4, 3, 3]);
+    const seen = folds.flatMap(({ validation }) => Array.from(validation.x.getColumn(0)));
+    expect(seen.sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    folds.forEach(({ train, validation }) => {
+      expect(train.x.numRows + validation.x.numRows).toBe(10);
+    });
+
+    const stratified = kFold(makeDataset(12), 3, { stratify: true, seed: 2 });
+    stratified.forEach(({ validation }) => {
+      expect(Array.from(validation.y.data).filter((a) => a === 1)).toHaveLength(1);
+    });
+  });
+
+  test('Iterates over mini-batches', () => {
+    const data = makeDataset(10);
+    const sizes = Array.from(batchIterator(data, { batchSize: 4, shuffle: false }))
+      .map(({ x }) => x.numRows);
+    expect(sizes).toEqual([4, 4, 2]);
+    const dropped = Array.from(batchIterator(data, { batchSize: 4, dropLast: true, seed: 1 }));
+    expect(dropped).toHaveLength(2);
+    expect(() => batchIterator(data, { batchSize: 0 }).next()).toThrow('[DATA]');
+  });
+});
+
+describe('Sliding windows are implemented correctly', () => {
+  test('Turns a univariate series into sequences', () => {
+    const { x, y } = slidingWindows([1, 2, 3, 4, 5], { windowSize: 3 });
+    expect(x.shape).toEqual([2, 3, 1]);
+    expect(x.squeeze(2).toArray()).toEqual([[1, 2, 3], [2, 3, 4]]);
+    expect(y.toArray()).toEqual([[4], [5]]);
+  });
+
+  test('Supports multivariate series, horizons and strides', () => {
+    const series = new Matrix([0, 10], [1, 11], [2, 12], [3, 13], [4, 14], [5, 15], [6, 16]);
+    const { x, y } = slidingWindows(series, {
+      windowSize: 2,
+      horizon: 2,
+      stride: 2,
+      targetColumns: [1],
+    });
+    expect(x.shape).toEqual([2, 2, 2]);
+    expect(x.slice(1).toArray()).toEqual([[2, 12], [3, 13]]);
+    expect(y.toArray()).toEqual([[12, 13], [14, 15]]);
+    expect(() => slidingWindows(series, { windowSize: 0 })).toThrow('[DATA]');
+    expect(() => slidingWindows(series, { windowSize: 2, targetColumns: [2] })).toThrow('[DATA]');
+    expect(() => slidingWindows(series, { windowSize: 7 })).toThrow('[DATA]');
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  DenseVectorLayer,
+  MLP,
+  Matrix,
+  Vector,
+  checkLayerGradients,
+  checkNetworkGradients,
+  checkRegisteredGradients,
+} from '../../src';
+
+describe('Gradient checking is implemented correctly', () => {
+  let input: DenseVectorLayer;
+  let weights: Matrix;
+  let bias: Vector;
+  let target: Vector;
+
+  beforeEach(() => {
+    input = new DenseVectorLayer({
+      numNeurons: 2,
+      initialValues: [0.4, -0.7],
+      activation: 'tanh',
+    });
+    weights = new Matrix([0.3, -0.2], [0.1, 0.5], [-0.6, 0.2]);
+    bias = new Vector(0.1, -0.1, 0.2);
+    target = new Vector(0.5, -0.2, 0.1);
+  });
+
+  test('Accepts correct layer gradients', () => {
+    const report = checkLayerGradients({ input, weights, bias, target });
+    expect(report.passed).toBe(true);
+    expect(report.parameters.map(({ name }) => name)).toEqual(['weights', 'bias', 'input']);
+    report.parameters.forEach(({ maxAbsoluteError }) => {
+      expect(maxAbsoluteError).toBeLessThan(1e-6);
+    });
+  });
+
+  test('Flags wrong layer gradients', () => {
+    input.activationJacobianProduct = (_, gradient) => gradient;
+    const report = checkLayerGradients({ input, weights, bias, target });
+    expect(report.passed).toBe(false);
+    const weightsReport = report.parameters[0];
+    expect(weightsReport.failures.length).toBeGreaterThan(0);
+    expect(weightsReport.maxRelativeError).toBeGreaterThan(1e-5);
+  });
+
+  test('Restores parameters after perturbing them', () => {
+    checkLayerGradients({ input, weights, bias, target });
+    expect(weights[0][0]).toBe(0.3);
+    expect(bias[2]).toBe(0.2);
+    expect(input[1]).toBe(-0.7);
+  });
+
+  test('Checks a whole network', () => {
+    const model = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 3, activation: 'tanh' },
+      { numNeurons: 2, activation: 'softmax' },
+    ], { seed: 4 });
+    const report = checkNetworkGradients(
+      model,
+      new Vector(0.3, -0.8),
+      new Vector(1, 0),
+      { loss: 'categoricalCrossEntropy' },
+    );
+    expect(report.passed).toBe(true);
+    expect(report.parameters.length).toBe(4);
+  });
+
+  test('Every registered activation and loss has a correct gradient', () => {
+    const reports = checkRegisteredGradients();
+    Object.entries({ ...reports.activations, ...reports.losses }).forEach(
+      ([key, report]) => {
+        expect([key, report.passed]).toEqual([key, true]);
+      },
+    );
+  });
+});
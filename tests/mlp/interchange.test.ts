@@ -0,0 +1,176 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  InvalidArgumentError,
+  LayerDefinition,
+  MLP,
+  Matrix,
+  TFJSModelJSON,
+  UnsupportedOperandError,
+  exportONNX,
+  exportTFJS,
+  importONNX,
+  importTFJS,
+  loadONNX,
+  loadTFJS,
+  saveONNX,
+  saveTFJS,
+} from '../../src';
+
+const FIXTURES = join(__dirname, '..', 'fixtures');
+
+const softmax = (z: number[]): number[] => {
+  const exps = z.map((a) => Math.exp(a - Math.max(...z)));
+  const sum = exps.reduce((acc, a) => acc + a, 0);
+  return exps.map((a) => a / sum);
+};
+
+const expectCloseTo = (actual: ArrayLike<number>, expected: number[], digits = 5) => {
+  expect(actual.length).toBe(expected.length);
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, digits));
+};
+
+describe('Model export and import are implemented correctly', () => {
+  let model: MLP;
+  let inputs: Matrix;
+
+  beforeEach(() => {
+    const layers: LayerDefinition[] = [
+      { numNeurons: 3, activation: 'linear' },
+      { numNeurons: 5, activation: 'reLU' },
+      { numNeurons: 4, activation: 'swish' },
+      { numNeurons: 4, activation: 'leakyReLU', activationParams: { slope: 0.2 } },
+      { numNeurons: 4, activation: 'elu', activationParams: { alpha: 0.5 } },
+      { numNeurons: 4, activation: 'gelu' },
+      { numNeurons: 4, activation: 'hardSigmoid' },
+      { numNeurons: 4, activation: 'mish', dropout: 0.5 },
+      { numNeurons: 4, activation: 'selu' },
+      { numNeurons: 4, activation: 'softplus' },
+      { numNeurons: 4, activation: 'tanh' },
+      { numNeurons: 4, activation: 'sigmoid' },
+      { numNeurons: 4, activation: 'linear' },
+      { numNeurons: 3, activation: 'logSoftmax' },
+    ];
+    model = new MLP(layers, { seed: 5 });
+    model.biases.forEach((bias, l) => bias.forEach((_, i) => {
+      bias[i] = 0.1 * (l - i);
+    }));
+    inputs = new Matrix([0.2, -0.5, 0.9], [1.5, 0.3, -1.2]);
+  });
+
+  test('Round-trips a network through ONNX', () => {
+    const restored = importONNX(exportONNX(model));
+    expect(restored.layers.map(({ activation }) => activation))
+      .toEqual(model.layers.map(({ activation }) => activation));
+    expect(restored.layers[3].activationParams?.slope).toBeCloseTo(0.2);
+    expect(restored.layers[4].activationParams?.alpha).toBeCloseTo(0.5);
+    restored.weights.forEach((weights, l) => (
+      expectCloseTo(weights.data, Array.from(model.weights[l].data), 6)
+    ));
+    expectCloseTo(restored.forwardBatch(inputs).data, Array.from(model.forwardBatch(inputs).data));
+  });
+
+  test('Round-trips a network through TensorFlow.js', () => {
+    const { modelJSON, weightData } = exportTFJS(model);
+    const classNames = (modelJSON.modelTopology.config as { layers: Array<{ class_name: string }> })
+      .layers.map(({ class_name: className }) => className);
+    expect(classNames.filter((className) => className === 'Dense').length).toBe(13);
+    expect(classNames).toContain('LeakyReLU');
+    expect(classNames).toContain('ELU');
+    expect(weightData.length).toBe(4 * model.parameters().reduce((acc, p) => (
+      acc + (p instanceof Matrix ? p.numRows * p.numCols : p.length)
+    ), 0));
+
+    const restored = importTFJS({ modelJSON: JSON.parse(JSON.stringify(modelJSON)), weightData });
+    expect(restored.layers.map(({ activation }) => activation))
+      .toEqual(model.layers.map(({ activation }) => activation));
+    expect(restored.layers[3].activationParams?.slope).toBeCloseTo(0.2);
+    expectCloseTo(restored.forwardBatch(inputs).data, Array.from(model.forwardBatch(inputs).data));
+  });
+
+  test('Imports an ONNX fixture with MatMul, Add and Gemm nodes', async () => {
+    const restored = await loadONNX(join(FIXTURES, 'dense.onnx'));
+    expect(restored.layers.map(({ numNeurons, activation }) => [numNeurons, activation]))
+      .toEqual([[3, 'linear'], [4, 'reLU'], [2, 'softmax']]);
+    expect(restored.weights[0].toArray()).toEqual([
+      [0.5, 1, -0.25],
+      [-1, 0.5, 1.5],
+      [0.25, -0.5, 1],
+      [2, 0, -1],
+    ]);
+    expect([...restored.biases[1]]).toEqual([0.25, -0.25]);
+    // relu(x W1 + b1) = [2.25, 4, 2.25, 0], then W2 h + b2 = [-0.375, 8.875]
+    expectCloseTo(restored.forwardBatch(new Matrix([1, 2, 3])).data, softmax([-0.375, 8.875]), 10);
+
+    const reimported = importONNX(exportONNX(restored));
+    expect(reimported.toJSON()).toEqual(restored.toJSON());
+  });
+
+  test('Imports a TensorFlow.js fixture converted from Keras', async () => {
+    const restored = await loadTFJS(join(FIXTURES, 'tfjs', 'model.json'));
+    expect(restored.layers.map(({ numNeurons, activation }) => [numNeurons, activation]))
+      .toEqual([[3, 'linear'], [4, 'reLU'], [2, 'leakyReLU'], [3, 'softmax']]);
+    expect(restored.layers[2].activationParams).toEqual({ slope: 0.25 });
+    // Kernels are stored as [in, out]
+    expect(restored.weights[1].toArray()).toEqual([
+      [1, -1, 0.5, 0.25],
+      [0, 0.5, 0.25, -1],
+    ]);
+    // Layers give [2.25, 4, 2.25, 0], then [-0.15625, 3.0625]
+    expectCloseTo(
+      restored.forwardBatch(new Matrix([1, 2, 3])).data,
+      softmax([-3.046875, 6.203125, 1.2421875]),
+      10,
+    );
+  });
+
+  test('Saves and loads models from files', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'perceptron-'));
+    try {
+      const onnxPath = join(directory, 'model.onnx');
+      await saveONNX(onnxPath, model);
+      expect([...readFileSync(onnxPath)]).toEqual([...exportONNX(model)]);
+      const fromONNX = await loadONNX(onnxPath);
+      expectCloseTo(fromONNX.forwardBatch(inputs).data, Array.from(model.forwardBatch(inputs).data));
+
+      const tfjsDirectory = join(directory, 'tfjs');
+      await saveTFJS(tfjsDirectory, model);
+      const fromTFJS = await loadTFJS(join(tfjsDirectory, 'model.json'));
+      expectCloseTo(fromTFJS.forwardBatch(inputs).data, Array.from(model.forwardBatch(inputs).data));
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('Rejects networks and files that cannot be converted', () => {
+    const normalized = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 2, activation: 'reLU', normalization: 'batchNorm' },
+    ]);
+    expect(() => exportONNX(normalized)).toThrow(UnsupportedOperandError);
+    const sparse = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 2, activation: 'sparsemax' },
+    ]);
+    expect(() => exportTFJS(sparse)).toThrow('[TFJS] Activation cannot be exported');
+
+    const bytes = readFileSync(join(FIXTURES, 'dense.onnx'));
+    expect(() => importONNX(bytes.subarray(0, 40))).toThrow(InvalidArgumentError);
+
+    const { modelJSON, weightData } = exportTFJS(model);
+    const convolutional: TFJSModelJSON = JSON.parse(JSON.stringify(modelJSON));
+    (convolutional.modelTopology.config as { layers: Array<{ class_name: string }> })
+      .layers[0].class_name = 'Conv2D';
+    let error: unknown;
+    try {
+      importTFJS({ modelJSON: convolutional, weightData });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(UnsupportedOperandError);
+    expect((error as UnsupportedOperandError).operand).toBe('Conv2D');
+    expect(() => importTFJS({ modelJSON, weightData: weightData.subarray(4) }))
+      .toThrow('[TFJS] Weight data is shorter than the manifest');
+  });
+});
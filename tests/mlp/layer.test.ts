@@ -0,0 +1,293 @@
+import {
+  BatchNorm,
+  DenseVectorLayer,
+  Dropout,
+  LayerNorm,
+  Matrix,
+  NormalizationLayer,
+  SeededRandom,
+  SparseMatrix,
+  Vector,
+} from '../../src';
+
+describe('DenseVectorLayer class is implemented correctly', () => {
+  let layer: DenseVectorLayer;
+  let weights: Matrix;
+  let bias: Vector;
+
+  beforeEach(() => {
+    layer = new DenseVectorLayer({
+      numNeurons: 2,
+      initialValues: [1, -1],
+      activation: 'reLU',
+    });
+    weights = new Matrix(
+      [1, 2],
+      [3, 4],
+      [-1, 0],
+    );
+    bias = new Vector(0, 1, 0);
+  });
+
+  test('Allocates layer correctly', () => {
+    const zeros = new DenseVectorLayer({ numNeurons: 3, activation: 'sigmoid' });
+    expect(zeros.length).toBe(3);
+    expect(zeros.activationKey).toBe('sigmoid');
+    expect(zeros.every((value) => value === 0)).toBe(true);
+
+    const single = new DenseVectorLayer({
+      numNeurons: 1,
+      initialValues: [0.5],
+      activation: 'tanh',
+    });
+    expect(single.length).toBe(1);
+    expect(single[0]).toBeCloseTo(0.5);
+  });
+
+  test('Rejects empty layers', () => {
+    expect(() => new DenseVectorLayer({
+      numNeurons: 0,
+      initialValues: [],
+      activation: 'reLU',
+    })).toThrow('[LAYC]');
+  });
+
+  test('Computes forward pass correctly', () => {
+    const output = layer.forwardPass({ weights, bias, activation: 'reLU' });
+    expect(output.length).toBe(3);
+    expect(output[0]).toBeCloseTo(0);
+    expect(output[1]).toBeCloseTo(0);
+    expect(output[2]).toBeCloseTo(0);
+    expect(output.activationKey).toBe('reLU');
+  });
+
+  test('Computes backward pass correctly', () => {
+    const gradient = layer.backwardPass({
+      weights,
+      incomingGradient: new Vector(1, 1, 1),
+    });
+    expect(gradient.length).toBe(2);
+    expect(gradient[0]).toBeCloseTo(3);
+    expect(gradient[1]).toBeCloseTo(0);
+  });
+
+  test('Computes batched forward pass correctly', () => {
+    const inputs = new Matrix([1, -1], [0.5, 2]);
+    const { preActivations, outputs } = DenseVectorLayer.batchForwardPass({
+      inputs,
+      weights,
+      bias,
+      activation: 'reLU',
+    });
+    expect(outputs.numRows).toBe(2);
+    expect(outputs.numCols).toBe(3);
+    expect([...preActivations[0]]).toEqual([-1, 0, -1]);
+    expect([...preActivations[1]]).toEqual([4.5, 10.5, -0.5]);
+    expect([...outputs[1]]).toEqual([4.5, 10.5, 0]);
+  });
+
+  test('Computes batched backward pass correctly', () => {
+    const inputs = new Matrix([1, -1], [0.5, 2]);
+    const { preActivations } = DenseVectorLayer.batchForwardPass({
+      inputs,
+      weights,
+      bias,
+      activation: 'linear',
+    });
+    const incomingGradient = new Matrix([1, 0, 2], [0, 1, -1]);
+    const gradients = DenseVectorLayer.batchBackwardPass({
+      inputs,
+      preActivations,
+      weights,
+      incomingGradient,
+      activation: 'linear',
+    });
+    const expectedWeights = new Vector(1, 0, 2).outerDot(inputs.getRow(0)).add(
+      new Vector(0, 1, -1).outerDot(inputs.getRow(1)),
+    ).numberDot(0.5);
+    expect(gradients.weights.add(expectedWeights.numberDot(-1)).norm()).toBeCloseTo(0);
+    expect([...gradients.bias]).toEqual([0.5, 0.5, 0.5]);
+    expect([...gradients.input[0]]).toEqual([-1, 2]);
+    expect([...gradients.input[1]]).toEqual([4, 4]);
+  });
+
+  test('Computes batched passes over large batches', () => {
+    const inputs = Matrix.zeros(300000, 2);
+    const { preActivations, outputs } = DenseVectorLayer.batchForwardPass({
+      inputs,
+      weights,
+      bias,
+      activation: 'reLU',
+    });
+    expect(outputs.numRows).toBe(300000);
+    expect([...outputs[299999]]).toEqual([0, 1, 0]);
+    const gradient = DenseVectorLayer.batchActivationBackward({
+      preActivations,
+      incomingGradient: Matrix.ones(300000, 3),
+      activation: 'reLU',
+    });
+    expect([...gradient[0]]).toEqual([0, 1, 0]);
+  });
+
+  test('Accepts sparse inputs in the batched passes', () => {
+    const dense = new Matrix([0, -1], [0.5, 0], [0, 0]);
+    const sparse = SparseMatrix.fromMatrix(dense);
+    const incomingGradient = new Matrix([1, 0, 2], [0, 1, -1], [3, 1, 0]);
+    const [denseGradients, sparseGradients] = [dense, sparse].map((inputs) => {
+      const { preActivations, outputs } = DenseVectorLayer.batchForwardPass({
+        inputs,
+        weights,
+        bias,
+        activation: 'tanh',
+      });
+      return {
+        outputs,
+        ...DenseVectorLayer.batchBackwardPass({
+          inputs,
+          preActivations,
+          weights,
+          incomingGradient,
+          activation: 'tanh',
+        }),
+      };
+    });
+    expect(sparseGradients.outputs.toArray()).toEqual(denseGradients.outputs.toArray());
+    expect(sparseGradients.weights.subtract(denseGradients.weights).norm()).toBeCloseTo(0, 12);
+    expect([...sparseGradients.bias]).toEqual([...denseGradients.bias]);
+    expect(sparseGradients.input.toArray()).toEqual(denseGradients.input.toArray());
+  });
+});
+
+describe('Regularization is implemented correctly', () => {
+  const weights = new Matrix([3, -4], [0.5, 0]);
+
+  test('Computes L1/L2 penalties and their gradients', () => {
+    expect(DenseVectorLayer.regularizationPenalty(weights, { l1: 0.1 })).toBeCloseTo(0.75);
+    expect(DenseVectorLayer.regularizationPenalty(weights, { l2: 0.1 })).toBeCloseTo(2.525);
+    expect(DenseVectorLayer.regularizationGradient(weights, { l1: 0.1, l2: 0.5 }).toArray())
+      .toEqual([[3.1, -4.1], [0.6, 0]]);
+  });
+
+  test('Applies max-norm constraints to every row', () => {
+    const constrained = DenseVectorLayer.applyMaxNorm(new Matrix(...weights), 1);
+    expect(constrained[0][0]).toBeCloseTo(0.6);
+    expect(constrained[0][1]).toBeCloseTo(-0.8);
+    expect(Array.from(constrained[1])).toEqual([0.5, 0]);
+    expect(() => DenseVectorLayer.applyMaxNorm(weights, 0)).toThrow('[LAYC]');
+  });
+});
+
+describe('Dropout class is implemented correctly', () => {
+  test('Drops values with inverted scaling in training mode', () => {
+    const dropout = new Dropout({ rate: 0.5, rng: new SeededRandom(4) });
+    const output = dropout.forward(Vector.ones(100));
+    const kept = Array.from(output).filter((a) => a !== 0);
+    expect(kept.every((a) => a === 2)).toBe(true);
+    expect(kept.length).toBeGreaterThan(30);
+    expect(kept.length).toBeLessThan(70);
+
+    const gradient = dropout.backward(Vector.ones(100));
+    expect(Array.from(gradient)).toEqual(Array.from(output));
+  });
+
+  test('Masks are reproducible with a seed', () => {
+    const first = new Dropout({ rate: 0.3, rng: new SeededRandom(9) });
+    const second = new Dropout({ rate: 0.3, rng: new SeededRandom(9) });
+    const values = Matrix.ones(4, 5);
+    expect(Array.from(first.forwardBatch(values).data))
+      .toEqual(Array.from(second.forwardBatch(values).data));
+  });
+
+  test('Is the identity in inference mode', () => {
+    const dropout = new Dropout({ rate: 0.9, rng: new SeededRandom(1) });
+    dropout.eval();
+    const values = new Matrix([1, 2], [3, 4]);
+    expect(dropout.forwardBatch(values).toArray()).toEqual(values.toArray());
+    expect(dropout.backwardBatch(values).toArray()).toEqual(values.toArray());
+    expect(() => new Dropout({ rate: 1 })).toThrow('[DROP]');
+  });
+});
+
+describe('Normalization layers are implemented correctly', () => {
+  const inputs = new Matrix([1, 2, -1], [3, 0, 0.5], [-2, 4, 1], [0.5, 1, 2]);
+  const weights = new Matrix([0.3, -1, 2], [1.5, 0.2, -0.7], [-0.4, 0.9, 1.1], [2, -0.5, 0.3]);
+
+  // Sum over the batch of a weighted sum of the outputs
+  const objective = (layer: NormalizationLayer, values: Matrix): number => {
+    const outputs = layer.forwardBatch(values);
+    let sum = 0;
+    for (let i = 0; i < outputs.data.length; i++) {
+      sum += outputs.data[i] * weights.data[i];
+    }
+    return sum;
+  };
+
+  const expectFiniteDifferences = (layer: NormalizationLayer) => {
+    layer.gamma.set([1.5, 0.5, -1]);
+    layer.beta.set([0.1, 0.2, 0.3]);
+    const epsilon = 1e-6;
+    objective(layer, inputs);
+    const { input, gamma, beta } = layer.backwardBatch(weights);
+    for (let k = 0; k < inputs.data.length; k++) {
+      const shifted = new Matrix(...inputs);
+      shifted.data[k] += epsilon;
+      const numerical = (objective(layer, shifted) - objective(layer, inputs)) / epsilon;
+      expect(input.data[k]).toBeCloseTo(numerical, 4);
+    }
+    [[layer.gamma, gamma], [layer.beta, beta]].forEach(([param, gradient]) => {
+      for (let j = 0; j < param.length; j++) {
+        const base = objective(layer, inputs);
+        param[j] += epsilon;
+        const numerical = (objective(layer, inputs) - base) / epsilon;
+        param[j] -= epsilon;
+        expect(gradient[j]).toBeCloseTo(numerical / inputs.numRows, 4);
+      }
+    });
+  };
+
+  test('BatchNorm standardizes batches and tracks running statistics', () => {
+    const layer = new BatchNorm(3, { momentum: 0.5 });
+    const outputs = layer.forwardBatch(inputs);
+    for (let j = 0; j < 3; j++) {
+      const column = outputs.getColumn(j);
+      const mean = column.reduce((acc, a) => acc + a, 0) / 4;
+      const variance = column.reduce((acc, a) => acc + (a - mean) ** 2, 0) / 4;
+      expect(mean).toBeCloseTo(0);
+      expect(variance).toBeCloseTo(1, 3);
+    }
+    expect(layer.runningMean[0]).toBeCloseTo(0.5 * 0.625);
+    expect(layer.runningVariance[2]).toBeCloseTo(0.5 + 0.5 * 1.5625);
+
+    layer.eval();
+    const single = layer.forward(new Vector(1, 1, 1));
+    expect(single[0]).toBeCloseTo((1 - layer.runningMean[0]) / Math.sqrt(layer.runningVariance[0] + 1e-5));
+  });
+
+  test('BatchNorm backward pass matches finite differences', () => {
+    const layer = new BatchNorm(3);
+    expectFiniteDifferences(layer);
+    layer.eval();
+    expectFiniteDifferences(layer);
+  });
+
+  test('LayerNorm standardizes every sample', () => {
+    const layer = new LayerNorm(3);
+    const output = layer.forward(new Vector(1, 2, 6));
+    const mean = (output[0] + output[1] + output[2]) / 3;
+    expect(mean).toBeCloseTo(0);
+    expect(output[2]).toBeGreaterThan(output[1]);
+  });
+
+  test('LayerNorm backward pass matches finite differences', () => {
+    expectFiniteDifferences(new LayerNorm(3));
+  });
+
+  test('Normalization state round trips through JSON', () => {
+    const layer = new BatchNorm(3);
+    layer.forwardBatch(inputs);
+    const restored = new BatchNorm(3);
+    restored.loadJSON(JSON.parse(JSON.stringify(layer)));
+    expect(Array.from(restored.runningVariance)).toEqual(Array.from(layer.runningVariance));
+    expect(() => restored.loadJSON({ gamma: [1], beta: [0, 0, 0] })).toThrow('[NORM]');
+  });
+});
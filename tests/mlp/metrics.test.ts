@@ -0,0 +1,135 @@
+import {
+  MLP,
+  Matrix,
+  SeededRandom,
+  Vector,
+  accuracy,
+  classScores,
+  confusionMatrix,
+  f1Score,
+  fit,
+  logLoss,
+  meanAbsoluteError,
+  meanSquaredError,
+  precision,
+  r2Score,
+  recall,
+  rocAuc,
+  rocCurve,
+  rootMeanSquaredError,
+  toLabels,
+} from '../../src';
+
+describe('Classification metrics are implemented correctly', () => {
+  const predicted = new Vector(0, 1, 2, 2, 1, 0);
+  const actual = new Vector(0, 1, 1, 2, 2, 0);
+
+  test('Labels are read from scores, labels and probabilities', () => {
+    expect(toLabels(new Matrix([0.1, 0.7, 0.2], [0.5, 0.2, 0.3]))).toEqual([1, 0]);
+    expect(toLabels(new Vector(0, 2, 1))).toEqual([0, 2, 1]);
+    expect(toLabels(new Vector(0.2, 0.5, 0.9))).toEqual([0, 1, 1]);
+  });
+
+  test('Accuracy', () => {
+    expect(accuracy(predicted, actual)).toBeCloseTo(4 / 6);
+  });
+
+  test('Confusion matrix', () => {
+    expect(confusionMatrix(predicted, actual).toArray()).toEqual([
+      [2, 0, 0],
+      [0, 1, 1],
+      [0, 1, 1],
+    ]);
+    expect(confusionMatrix(new Vector(1), new Vector(1), 4).numRows).toBe(4);
+  });
+
+  test('Metrics handle large inputs', () => {
+    const labels = Vector.fromArray(Array.from({ length: 200000 }, (_, i) => i % 3));
+    expect(accuracy(labels, labels)).toBe(1);
+    expect(confusionMatrix(labels, labels).numRows).toBe(3);
+  });
+
+  test('Per-class and averaged precision, recall and F1', () => {
+    const { precision: p, recall: r, f1, support } = classScores(predicted, actual);
+    expect(Array.from(p)).toEqual([1, 0.5, 0.5]);
+    expect(Array.from(r)).toEqual([1, 0.5, 0.5]);
+    expect(Array.from(f1)).toEqual([1, 0.5, 0.5]);
+    expect(Array.from(support)).toEqual([2, 2, 2]);
+
+    const binaryPredicted = new Vector(1, 1, 1, 0);
+    const binaryActual = new Vector(1, 0, 1, 1);
+    expect(precision(binaryPredicted, binaryActual)).toBeCloseTo((0 + 2 / 3) / 2);
+    expect(recall(binaryPredicted, binaryActual)).toBeCloseTo((0 + 2 / 3) / 2);
+    expect(f1Score(binaryPredicted, binaryActual)).toBeCloseTo(1 / 3);
+    expect(precision(binaryPredicted, binaryActual, 'micro')).toBeCloseTo(0.5);
+    expect(f1Score(predicted, actual, 'micro')).toBeCloseTo(4 / 6);
+  });
+
+  test('Log loss', () => {
+    expect(logLoss(new Vector(0.8, 0.4), new Vector(1, 0)))
+      .toBeCloseTo(-(Math.log(0.8) + Math.log(0.6)) / 2);
+    expect(logLoss(new Matrix([0.7, 0.3], [0.2, 0.8]), new Matrix([1, 0], [0, 1])))
+      .toBeCloseTo(-(Math.log(0.7) + Math.log(0.8)) / 2);
+  });
+
+  test('ROC curve and AUC', () => {
+    const scores = new Vector(0.1, 0.4, 0.35, 0.8);
+    const labels = new Vector(0, 0, 1, 1);
+    const curve = rocCurve(scores, labels);
+    expect(Array.from(curve.falsePositiveRates)).toEqual([0, 0, 0.5, 0.5, 1]);
+    expect(Array.from(curve.truePositiveRates)).toEqual([0, 0.5, 0.5, 1, 1]);
+    expect(Array.from(curve.thresholds)).toEqual([Infinity, 0.8, 0.4, 0.35, 0.1]);
+    expect(rocAuc(scores, labels)).toBeCloseTo(0.75);
+    expect(rocAuc(
+      new Matrix([0.9, 0.1], [0.2, 0.8], [0.6, 0.4]),
+      new Vector(0, 1, 0),
+    )).toBeCloseTo(1);
+    expect(() => rocCurve(scores, new Vector(1, 1, 1, 1))).toThrow('[METRIC]');
+  });
+});
+
+describe('Regression metrics are implemented correctly', () => {
+  const predictions = new Matrix([1, 2], [2, 2], [4, 5]);
+  const targets = new Matrix([1, 1], [3, 2], [4, 7]);
+
+  test('MSE, MAE and RMSE', () => {
+    expect(meanSquaredError(predictions, targets)).toBeCloseTo(1);
+    expect(meanAbsoluteError(predictions, targets)).toBeCloseTo(4 / 6);
+    expect(rootMeanSquaredError(predictions, targets)).toBeCloseTo(1);
+    expect(() => meanSquaredError(predictions, new Vector(1, 2, 3))).toThrow('[METRIC]');
+  });
+
+  test('R²', () => {
+    expect(r2Score(new Vector(1, 2, 3), new Vector(1, 2, 3))).toBeCloseTo(1);
+    expect(r2Score(new Vector(2, 2, 2), new Vector(1, 2, 3))).toBeCloseTo(0);
+    const first = 1 - 1 / (14 / 3);
+    const second = 1 - 5 / (62 / 3);
+    expect(r2Score(predictions, targets)).toBeCloseTo((first + second) / 2);
+  });
+});
+
+test('Metrics are logged by fit', () => {
+  const rng = new SeededRandom(5);
+  const x = Matrix.random(40, 2, rng, -1, 1);
+  const y = Matrix.zeros(40, 1);
+  for (let i = 0; i < 40; i++) {
+    y[i][0] = x[i][0] + x[i][1] > 0 ? 1 : 0;
+  }
+  const model = new MLP([
+    { numNeurons: 2, activation: 'linear' },
+    { numNeurons: 1, activation: 'sigmoid' },
+  ], { seed: 2 });
+  const { epochs } = fit(model, x, y, {
+    epochs: 20,
+    batchSize: 8,
+    learningRate: 0.1,
+    loss: 'binaryCrossEntropy',
+    validationSplit: 0.25,
+    metrics: ['accuracy', 'rocAuc'],
+    seed: 3,
+  });
+  const last = epochs[epochs.length - 1];
+  expect(last.accuracy).toBeGreaterThan(0.8);
+  expect(last.valAccuracy).toBeGreaterThan(0.8);
+  expect(last.valRocAuc).toBeGreaterThan(0.9);
+});
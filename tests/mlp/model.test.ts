@@ -0,0 +1,260 @@
+import {
+  MLP,
+  Matrix,
+  Vector,
+  checkNetworkGradients,
+  getLossFunctionByKey,
+} from '../../src';
+
+const squaredError = (output: Vector, target: Vector): number =>
+  0.5 * output.add(target.numberDot(-1)).vectorDot(
+    output.add(target.numberDot(-1)),
+  );
+
+describe('MLP class is implemented correctly', () => {
+  let model: MLP;
+  let input: Vector;
+  let target: Vector;
+
+  beforeEach(() => {
+    model = new MLP([
+      { numNeurons: 2, activation: 'sigmoid' },
+      { numNeurons: 3, activation: 'swish' },
+      { numNeurons: 1, activation: 'sigmoid' },
+    ]);
+    model.weights = [
+      new Matrix(
+        [0.1, -0.2],
+        [0.4, 0.3],
+        [-0.5, 0.2],
+      ),
+      new Matrix([0.3, -0.1, 0.6]),
+    ];
+    model.biases = [
+      new Vector(0.1, 0, -0.1),
+      new Vector(0.2),
+    ];
+    input = new Vector(0.5, -1);
+    target = new Vector(1);
+  });
+
+  test('Allocates weights and biases correctly', () => {
+    const fresh = new MLP([
+      { numNeurons: 4, activation: 'reLU' },
+      { numNeurons: 3, activation: 'reLU' },
+      { numNeurons: 2, activation: 'sigmoid' },
+    ]);
+    expect(fresh.weights.length).toBe(2);
+    expect(fresh.weights[0].numRows).toBe(3);
+    expect(fresh.weights[0].numCols).toBe(4);
+    expect(fresh.weights[1].numRows).toBe(2);
+    expect(fresh.weights[1].numCols).toBe(3);
+    expect(fresh.biases[0].length).toBe(3);
+    expect(fresh.biases[1].length).toBe(2);
+    expect(fresh.inputSize).toBe(4);
+    expect(fresh.outputSize).toBe(2);
+  });
+
+  test('Seeded networks are initialized reproducibly', () => {
+    const layers = [
+      { numNeurons: 3, activation: 'reLU' as const },
+      { numNeurons: 4, activation: 'reLU' as const, initializer: 'orthogonal' as const },
+      { numNeurons: 2, activation: 'linear' as const },
+    ];
+    const a = new MLP(layers, { seed: 9 });
+    const b = new MLP(layers, { seed: 9 });
+    a.weights.forEach((weights, l) => {
+      expect(weights.toArray()).toEqual(b.weights[l].toArray());
+    });
+    const gram = a.weights[0].dot(a.weights[0], true);
+    expect(gram.add(Matrix.identity(3).numberDot(-1)).norm()).toBeCloseTo(0, 8);
+  });
+
+  test('Rejects networks without hidden or output layers', () => {
+    expect(() => new MLP([{ numNeurons: 2, activation: 'reLU' }])).toThrow('[MLPC]');
+  });
+
+  test('Computes forward pass correctly', () => {
+    const output = model.forward(input);
+    const swish = (a: number) => a / (1 + Math.exp(-a));
+    const hidden = new Vector(
+      swish(0.05 + 0.2 + 0.1),
+      swish(0.2 - 0.3),
+      swish(-0.25 - 0.2 - 0.1),
+    );
+    const expected = 1 / (1 + Math.exp(-(
+      0.3 * hidden[0] - 0.1 * hidden[1] + 0.6 * hidden[2] + 0.2
+    )));
+    expect(output.length).toBe(1);
+    expect(output[0]).toBeCloseTo(expected);
+    expect(model.activations.length).toBe(3);
+    expect(model.preActivations.length).toBe(2);
+  });
+
+  test('Computes forward pass over wide inputs', () => {
+    const wide = new MLP([
+      { numNeurons: 300000, activation: 'linear' },
+      { numNeurons: 1, activation: 'linear' },
+    ]);
+    wide.weights = [Matrix.ones(1, 300000)];
+    wide.biases = [new Vector(1)];
+    expect(wide.forward(Vector.ones(300000))[0]).toBe(300001);
+    expect(wide.activations[0].length).toBe(300000);
+  });
+
+  test('Validates input and backward pass order', () => {
+    expect(() => model.forward(new Vector(1, 2, 3))).toThrow('[MLPF]');
+    expect(() => model.backward(new Vector(1))).toThrow('[MLPB]');
+  });
+
+  test('Computes backward pass consistently with finite differences', () => {
+    const output = model.forward(input);
+    const gradients = model.backward(output.add(target.numberDot(-1)));
+    const eps = 1e-6;
+
+    for (let l = 0; l < model.weights.length; l++) {
+      for (let i = 0; i < model.weights[l].numRows; i++) {
+        for (let j = 0; j < model.weights[l].numCols; j++) {
+          const original = model.weights[l][i][j];
+          model.weights[l][i][j] = original + eps;
+          const lossPlus = squaredError(model.forward(input), target);
+          model.weights[l][i][j] = original - eps;
+          const lossMinus = squaredError(model.forward(input), target);
+          model.weights[l][i][j] = original;
+          expect(gradients.weights[l][i][j]).toBeCloseTo(
+            (lossPlus - lossMinus) / (2 * eps), 6,
+          );
+        }
+      }
+      for (let i = 0; i < model.biases[l].length; i++) {
+        const original = model.biases[l][i];
+        model.biases[l][i] = original + eps;
+        const lossPlus = squaredError(model.forward(input), target);
+        model.biases[l][i] = original - eps;
+        const lossMinus = squaredError(model.forward(input), target);
+        model.biases[l][i] = original;
+        expect(gradients.biases[l][i]).toBeCloseTo(
+          (lossPlus - lossMinus) / (2 * eps), 6,
+        );
+      }
+    }
+  });
+
+  test('Backpropagates through a softmax output layer', () => {
+    const classifier = new MLP([
+      { numNeurons: 2, activation: 'sigmoid' },
+      { numNeurons: 3, activation: 'softmax' },
+    ]);
+    classifier.weights = [new Matrix([0.2, -0.4], [0.1, 0.5], [-0.3, 0.3])];
+    const label = new Vector(0, 1, 0);
+    const { loss, lossGradient } = getLossFunctionByKey('categoricalCrossEntropy');
+    const output = classifier.forward(input);
+    expect(output[0] + output[1] + output[2]).toBeCloseTo(1);
+
+    const gradients = classifier.backward(lossGradient(output, label));
+    // softmax + cross-entropy gradient wrt z is (output - label)
+    const expected = output.add(label.numberDot(-1)).outerDot(input);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 2; j++) {
+        expect(gradients.weights[0][i][j]).toBeCloseTo(expected[i][j]);
+      }
+    }
+    expect(loss(output, label)).toBeGreaterThan(0);
+  });
+
+  test('Batched passes match averaged per-sample passes', () => {
+    const samples = [new Vector(0.5, -1), new Vector(-0.2, 0.4), new Vector(1, 1)];
+    const targets = [new Vector(1), new Vector(0), new Vector(0.5)];
+    const outputs = model.forwardBatch(new Matrix(...samples));
+    const lossGradients = new Matrix(
+      ...samples.map((_, idx) => outputs.getRow(idx).add(targets[idx].numberDot(-1))),
+    );
+    const batchGradients = model.backwardBatch(lossGradients);
+
+    samples.forEach((sample, idx) => {
+      const output = model.forward(sample);
+      expect(outputs[idx][0]).toBeCloseTo(output[0]);
+      const gradients = model.backward(output.add(targets[idx].numberDot(-1)));
+      for (let j = 0; j < 2; j++) {
+        expect(batchGradients.input[idx][j]).toBeCloseTo(gradients.input[j]);
+      }
+    });
+    for (let l = 0; l < model.weights.length; l++) {
+      let expectedWeights = model.weights[l].numberDot(0);
+      let expectedBias = model.biases[l].numberDot(0);
+      samples.forEach((sample, idx) => {
+        const output = model.forward(sample);
+        const gradients = model.backward(output.add(targets[idx].numberDot(-1)));
+        expectedWeights = expectedWeights.add(gradients.weights[l].numberDot(1 / 3));
+        expectedBias = expectedBias.add(gradients.biases[l].numberDot(1 / 3));
+      });
+      expect(batchGradients.weights[l].add(expectedWeights.numberDot(-1)).norm()).toBeCloseTo(0, 8);
+      expect(batchGradients.biases[l].add(expectedBias.numberDot(-1)).norm()).toBeCloseTo(0, 8);
+    }
+  });
+
+  test('Adds L1/L2 penalties to the loss and the weight gradients', () => {
+    const regularized = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 3, activation: 'tanh', regularization: { l1: 0.01, l2: 0.05 } },
+      { numNeurons: 1, activation: 'sigmoid', regularization: { l2: 0.1 } },
+    ], { seed: 6 });
+    expect(regularized.regularizationLoss()).toBeGreaterThan(0);
+    const report = checkNetworkGradients(regularized, input, target);
+    expect(report.passed).toBe(true);
+    expect(() => new MLP([
+      { numNeurons: 2, activation: 'linear', dropout: 0.5 },
+      { numNeurons: 1, activation: 'linear' },
+    ])).toThrow('[MLPC]');
+  });
+
+  test('Applies dropout in training mode only', () => {
+    const definitions = [
+      { numNeurons: 2, activation: 'linear' as const },
+      { numNeurons: 50, activation: 'reLU' as const, dropout: 0.5 },
+      { numNeurons: 1, activation: 'linear' as const },
+    ];
+    const first = new MLP(definitions, { seed: 8 });
+    const second = new MLP(definitions, { seed: 8 });
+    expect(first.training).toBe(false);
+    expect([...first.forward(input)]).toEqual([...first.forward(input)]);
+
+    first.train();
+    second.train();
+    const output = first.forward(input);
+    expect([...output]).toEqual([...second.forward(input)]);
+    expect(Array.from(first.activations[1]).filter((a) => a === 0).length).toBeGreaterThan(0);
+    const gradients = first.backward(new Vector(1));
+    first.activations[1].forEach((a, j) => {
+      if (a === 0) {
+        expect(gradients.weights[1][0][j]).toBe(0);
+      }
+    });
+  });
+
+  test('Applies max-norm constraints to the weights', () => {
+    const constrained = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 3, activation: 'linear', maxNorm: 0.1 },
+    ], { seed: 2 });
+    constrained.applyConstraints();
+    for (let i = 0; i < 3; i++) {
+      expect(constrained.weights[0].getRow(i).norm()).toBeLessThanOrEqual(0.1 + 1e-12);
+    }
+  });
+
+  test('Backpropagates through normalization layers', () => {
+    const normalized = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 4, activation: 'tanh', normalization: 'batchNorm' },
+      { numNeurons: 3, activation: 'sigmoid', normalization: 'layerNorm' },
+      { numNeurons: 1, activation: 'linear' },
+    ], { seed: 12 });
+    expect(normalized.parameters()).toHaveLength(10);
+    normalized.normalizations[0]?.gamma.set([1.2, 0.8, 1, 0.5]);
+    expect(checkNetworkGradients(normalized, input, target).passed).toBe(true);
+
+    const gradients = normalized.backward(normalized.forward(input));
+    expect(normalized.parameterGradients(gradients)).toHaveLength(10);
+  });
+});
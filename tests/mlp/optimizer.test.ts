@@ -0,0 +1,149 @@
+import {
+  Adam,
+  AdamW,
+  MLP,
+  Matrix,
+  Optimizer,
+  RMSProp,
+  SGD,
+  Vector,
+  createOptimizer,
+} from '../../src';
+
+describe('Optimizers are implemented correctly', () => {
+  let weights: Matrix;
+  let bias: Vector;
+  let weightsGradient: Matrix;
+  let biasGradient: Vector;
+
+  beforeEach(() => {
+    weights = new Matrix([1, 2], [3, 4]);
+    bias = new Vector(1, -1);
+    weightsGradient = new Matrix([0.5, -0.5], [1, 0]);
+    biasGradient = new Vector(2, -2);
+  });
+
+  test('SGD applies plain gradient descent', () => {
+    const optimizer = new SGD([weights, bias], { learningRate: 0.1 });
+    optimizer.accumulateGradients([weights, bias], [weightsGradient, biasGradient]);
+    optimizer.step();
+    expect(weights[0][0]).toBeCloseTo(0.95);
+    expect(weights[0][1]).toBeCloseTo(2.05);
+    expect(weights[1][0]).toBeCloseTo(2.9);
+    expect(weights[1][1]).toBeCloseTo(4);
+    expect(bias[0]).toBeCloseTo(0.8);
+    expect(bias[1]).toBeCloseTo(-0.8);
+  });
+
+  test('SGD accumulates momentum across steps', () => {
+    const optimizer = new SGD([bias], { learningRate: 0.1, momentum: 0.9 });
+    optimizer.accumulateGradient(bias, biasGradient);
+    optimizer.step();
+    optimizer.step();
+    // v1 = 2, v2 = 0.9 * 2 + 2 = 3.8
+    expect(bias[0]).toBeCloseTo(1 - 0.2 - 0.38);
+    expect(optimizer.state.get(bias)?.step).toBe(2);
+  });
+
+  test('SGD applies Nesterov momentum', () => {
+    const optimizer = new SGD([bias], {
+      learningRate: 0.1,
+      momentum: 0.9,
+      nesterov: true,
+    });
+    optimizer.accumulateGradient(bias, biasGradient);
+    optimizer.step();
+    expect(bias[0]).toBeCloseTo(1 - 0.1 * (2 + 0.9 * 2));
+    expect(() => new SGD([bias], { learningRate: 0.1, nesterov: true })).toThrow('[OPTC]');
+  });
+
+  test('RMSProp normalizes the step', () => {
+    const optimizer = new RMSProp([bias], { learningRate: 0.01, decay: 0.9 });
+    optimizer.accumulateGradient(bias, biasGradient);
+    optimizer.step();
+    const scale = Math.sqrt(0.1 * 4);
+    expect(bias[0]).toBeCloseTo(1 - 0.01 * 2 / scale);
+    expect(bias[1]).toBeCloseTo(-1 + 0.01 * 2 / scale);
+  });
+
+  test('Adam first step moves by the learning rate', () => {
+    const optimizer = new Adam([weights], { learningRate: 0.01 });
+    optimizer.accumulateGradient(weights, weightsGradient);
+    optimizer.step();
+    expect(weights[0][0]).toBeCloseTo(0.99);
+    expect(weights[0][1]).toBeCloseTo(2.01);
+    expect(weights[1][0]).toBeCloseTo(2.99);
+    expect(weights[1][1]).toBeCloseTo(4);
+  });
+
+  test('AdamW decays weights independently of the gradient', () => {
+    const optimizer = new AdamW([weights], { learningRate: 0.01, weightDecay: 0.1 });
+    optimizer.accumulateGradient(weights, new Matrix([0, 0], [0, 0]));
+    optimizer.step();
+    expect(weights[0][0]).toBeCloseTo(1 - 0.001);
+    expect(weights[1][1]).toBeCloseTo(4 - 0.004);
+  });
+
+  test('Builds optimizers by key', () => {
+    const optimizer = createOptimizer('adamW', [bias], { learningRate: 0.1, weightDecay: 0.2 });
+    expect(optimizer).toBeInstanceOf(AdamW);
+    expect(optimizer.key).toBe('adamW');
+    expect(optimizer.getOptions()).toEqual({
+      learningRate: 0.1,
+      beta1: 0.9,
+      beta2: 0.999,
+      epsilon: 1e-8,
+      weightDecay: 0.2,
+    });
+    expect(createOptimizer('sgd', [bias], { learningRate: 0.1 }).key).toBe('sgd');
+  });
+
+  test('zeroGrad discards accumulated gradients', () => {
+    const optimizer = new SGD([bias], { learningRate: 0.1 });
+    optimizer.accumulateGradient(bias, biasGradient);
+    optimizer.accumulateGradient(bias, biasGradient);
+    expect(optimizer.gradients.get(bias)).toEqual([4, -4]);
+    optimizer.zeroGrad();
+    optimizer.step();
+    expect(bias[0]).toBeCloseTo(1);
+  });
+
+  test('Rejects unknown parameters and inconsistent gradients', () => {
+    const optimizer = new SGD([bias], { learningRate: 0.1 });
+    expect(() => optimizer.accumulateGradient(weights, weightsGradient)).toThrow('[OPTP]');
+    expect(() => optimizer.accumulateGradient(bias, new Vector(1))).toThrow('[OPTG]');
+  });
+
+  test('Optimizers reduce the loss of a model', () => {
+    const input = new Vector(0.5, -0.3);
+    const target = new Vector(0.8);
+    const factories: Array<(model: MLP) => Optimizer> = [
+      (model) => new SGD(model.parameters(), { learningRate: 0.5, momentum: 0.5 }),
+      (model) => new RMSProp(model.parameters(), { learningRate: 0.01 }),
+      (model) => new Adam(model.parameters(), { learningRate: 0.05 }),
+      (model) => new AdamW(model.parameters(), { learningRate: 0.05 }),
+    ];
+
+    factories.forEach((makeOptimizer) => {
+      const model = new MLP([
+        { numNeurons: 2, activation: 'sigmoid' },
+        { numNeurons: 3, activation: 'sigmoid' },
+        { numNeurons: 1, activation: 'sigmoid' },
+      ], { seed: 17 });
+      const optimizer = makeOptimizer(model);
+      const lossOf = (output: Vector) => (output[0] - target[0]) ** 2;
+      const initialLoss = lossOf(model.forward(input));
+      for (let epoch = 0; epoch < 50; epoch++) {
+        const output = model.forward(input);
+        const gradients = model.backward(new Vector(2 * (output[0] - target[0])));
+        optimizer.zeroGrad();
+        optimizer.accumulateGradients(
+          model.parameters(),
+          [...gradients.weights, ...gradients.biases],
+        );
+        optimizer.step();
+      }
+      expect(lossOf(model.forward(input))).toBeLessThan(initialLoss);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  MLP,
+  Matrix,
+  MinMaxScaler,
+  Normalizer,
+  Pipeline,
+  PolynomialFeatures,
+  RobustScaler,
+  SeededRandom,
+  StandardScaler,
+  Transformer,
+  batchLoss,
+  transformerFromJSON,
+} from '../../src';
+
+const expectMatrixCloseTo = (actual: Matrix, expected: number[][]) => {
+  expect(actual.numRows).toBe(expected.length);
+  expected.forEach((row, i) => {
+    row.forEach((value, j) => expect(actual[i][j]).toBeCloseTo(value));
+  });
+};
+
+describe('Feature transformers are implemented correctly', () => {
+  const x = new Matrix([1, 10, 0], [2, 20, 0], [3, 30, 0], [10, 40, 0]);
+
+  test('StandardScaler standardizes every column', () => {
+    const scaler = new StandardScaler();
+    const scaled = scaler.fitTransform(x);
+    expect(Array.from(scaler.center)).toEqual([4, 25, 0]);
+    for (let j = 0; j < 2; j++) {
+      const column = Array.from(scaled.getColumn(j));
+      const mean = column.reduce((acc, a) => acc + a, 0) / 4;
+      const variance = column.reduce((acc, a) => acc + a * a, 0) / 4;
+      expect(mean).toBeCloseTo(0);
+      expect(variance).toBeCloseTo(1);
+    }
+    expect(Array.from(scaled.getColumn(2))).toEqual([0, 0, 0, 0]);
+    expectMatrixCloseTo(scaler.inverseTransform(scaled), x.toArray());
+  });
+
+  test('MinMaxScaler maps columns onto the feature range', () => {
+    const scaler = new MinMaxScaler({ featureRange: [-1, 1] });
+    const scaled = scaler.fitTransform(x);
+    expectMatrixCloseTo(scaled, [
+      [-1, -1, -1],
+      [-7 / 9, -1 / 3, -1],
+      [-5 / 9, 1 / 3, -1],
+      [1, 1, -1],
+    ]);
+    expectMatrixCloseTo(scaler.inverseTransform(scaled), x.toArray());
+  });
+
+  test('RobustScaler uses the median and the interquartile range', () => {
+    const scaler = new RobustScaler();
+    const scaled = scaler.fitTransform(x);
+    expect(scaler.center[0]).toBeCloseTo(2.5);
+    expect(scaler.scale[0]).toBeCloseTo(4.75 - 1.75);
+    expect(scaled[3][0]).toBeCloseTo(2.5);
+    expectMatrixCloseTo(scaler.inverseTransform(scaled), x.toArray());
+  });
+
+  test('Normalizer scales every sample to unit norm', () => {
+    const normalizer = new Normalizer();
+    expectMatrixCloseTo(normalizer.fitTransform(new Matrix([3, 4], [0, 0])), [[0.6, 0.8], [0, 0]]);
+    const l1 = new Normalizer({ norm: 'l1' }).fitTransform(new Matrix([1, -3]));
+    expectMatrixCloseTo(l1, [[0.25, -0.75]]);
+    expect(() => normalizer.inverseTransform(new Matrix([1, 0]))).toThrow('[PREP]');
+  });
+
+  test('PolynomialFeatures adds products of features', () => {
+    const poly = new PolynomialFeatures({ degree: 2 });
+    const expanded = poly.fitTransform(new Matrix([2, 3]));
+    expect(expanded.toArray()).toEqual([[1, 2, 3, 4, 6, 9]]);
+    expect(poly.inverseTransform(expanded).toArray()).toEqual([[2, 3]]);
+
+    const interactions = new PolynomialFeatures({ degree: 3, interactionOnly: true, includeBias: false });
+    expect(interactions.fitTransform(new Matrix([2, 3, 5])).toArray())
+      .toEqual([[2, 3, 5, 6, 10, 15, 30]]);
+  });
+
+  test('Transformers validate their inputs', () => {
+    expect(() => new StandardScaler().transform(x)).toThrow('[PREP]');
+    const scaler = new StandardScaler().fit(x);
+    expect(() => scaler.transform(new Matrix([1, 2]))).toThrow('[PREP]');
+  });
+
+  test('Transformers round trip through JSON', () => {
+    const transformers: Transformer[] = [
+      new StandardScaler({ withMean: false }),
+      new MinMaxScaler(),
+      new RobustScaler({ quantileRange: [10, 90] }),
+      new PolynomialFeatures({ degree: 3 }),
+    ];
+    transformers.forEach((transformer) => {
+      transformer.fit(x);
+      const restored = transformerFromJSON(JSON.parse(JSON.stringify(transformer)));
+      expect(restored.transform(x).toArray()).toEqual(transformer.transform(x).toArray());
+    });
+    expect(transformerFromJSON(new Normalizer().toJSON()).fitted).toBe(false);
+  });
+
+  test('Transformers handle large inputs', () => {
+    const large = Matrix.random(200000, 2, new SeededRandom(4), -5, 5);
+    [new StandardScaler(), new MinMaxScaler(), new Normalizer({ norm: 'l1' })].forEach((transformer) => {
+      const transformed = transformer.fitTransform(large);
+      expect(transformed.numRows).toBe(200000);
+      expect(Number.isFinite(transformed.max())).toBe(true);
+    });
+  });
+});
+
+describe('Pipeline class is implemented correctly', () => {
+  test('Chains transformers with a model', () => {
+    const rng = new SeededRandom(3);
+    const x = Matrix.random(60, 2, rng, 0, 100);
+    const y = Matrix.zeros(60, 1);
+    for (let i = 0; i < 60; i++) {
+      y[i][0] = (x[i][0] - x[i][1]) / 100;
+    }
+    const pipeline = new Pipeline([new StandardScaler()], new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 1, activation: 'linear' },
+    ], { seed: 1 }));
+    const history = pipeline.fit(x, y, { epochs: 40, batchSize: 10, learningRate: 0.05, seed: 2 });
+    expect(history?.epochs[39].loss).toBeLessThan(0.01);
+
+    const restored = Pipeline.fromJSON(JSON.parse(JSON.stringify(pipeline)));
+    expect(restored.predict(x).toArray()).toEqual(pipeline.predict(x).toArray());
+    expectMatrixCloseTo(restored.inverseTransform(restored.transform(x)), x.toArray());
+    expect(() => new Pipeline([]).predict(x)).toThrow('[PREP]');
+  });
+
+  test('Transforms explicit validation inputs', () => {
+    const rng = new SeededRandom(5);
+    const x = Matrix.random(40, 2, rng, 0, 100);
+    const y = Matrix.zeros(40, 1);
+    for (let i = 0; i < 40; i++) {
+      y[i][0] = (x[i][0] + x[i][1]) / 100;
+    }
+    const pipeline = new Pipeline([new StandardScaler()], new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 1, activation: 'linear' },
+    ], { seed: 1 }));
+    const history = pipeline.fit(x, y, {
+      epochs: 3,
+      batchSize: 10,
+      learningRate: 0.05,
+      seed: 2,
+      validationData: { x, y },
+    });
+    expect(history?.epochs[2].valLoss).toBeCloseTo(batchLoss('meanSquaredError', pipeline.predict(x), y));
+  });
+});
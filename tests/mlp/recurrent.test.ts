@@ -0,0 +1,125 @@
+import {
+  GRU,
+  LSTM,
+  RecurrentLayer,
+  SeededRandom,
+  SimpleRNN,
+  Tensor,
+  Vector,
+  checkParameterGradient,
+} from '../../src';
+
+const layerTypes = [
+  ['SimpleRNN', SimpleRNN],
+  ['LSTM', LSTM],
+  ['GRU', GRU],
+] as const;
+
+const randomSequence = (steps: number, size: number, rng: SeededRandom): Vector[] => (
+  Array.from({ length: steps }, () => Vector.random(size, rng, -1, 1))
+);
+
+// Loss whose gradient wrt every output is the matching probe vector
+const probeLoss = (outputs: Vector | Vector[], probes: Vector[]): number => {
+  const list = Array.isArray(outputs) ? outputs : [outputs];
+  return list.reduce((sum, h, t) => sum + h.vectorDot(probes[t]), 0);
+};
+
+describe('Recurrent layers are implemented correctly', () => {
+  let rng: SeededRandom;
+
+  beforeEach(() => {
+    rng = new SeededRandom(3);
+  });
+
+  describe.each(layerTypes)('%s', (_, Layer) => {
+    test.each([true, false])('Matches finite differences (returnSequences = %s)', (returnSequences) => {
+      const layer: RecurrentLayer = new Layer({ inputSize: 3, units: 4, returnSequences, rng });
+      layer.bias.set(Vector.random(layer.bias.length, rng, -0.5, 0.5));
+      const sequence = randomSequence(5, 3, rng);
+      const probes = randomSequence(returnSequences ? 5 : 1, 4, rng);
+      const evaluate = () => probeLoss(layer.forward(sequence), probes);
+
+      layer.forward(sequence);
+      const gradients = layer.backward(returnSequences ? probes : probes[0]);
+      const reports = [
+        checkParameterGradient('inputWeights', layer.inputWeights, gradients.inputWeights, evaluate),
+        checkParameterGradient('recurrentWeights', layer.recurrentWeights, gradients.recurrentWeights, evaluate),
+        checkParameterGradient('bias', layer.bias, gradients.bias, evaluate),
+        ...sequence.map((x, t) => checkParameterGradient(`x${t}`, x, gradients.input[t], evaluate)),
+      ];
+      reports.forEach((report) => expect(report.failures).toEqual([]));
+    });
+
+    test('Averages parameter gradients over a mini-batch', () => {
+      const layer: RecurrentLayer = new Layer({ inputSize: 2, units: 3, returnSequences: true, rng });
+      const inputs = Tensor.random([2, 4, 2], rng, -1, 1);
+      const probes = Tensor.random([2, 4, 3], rng, -1, 1);
+      const outputs = layer.forwardBatch(inputs);
+      expect(outputs.shape).toEqual([2, 4, 3]);
+      const batch = layer.backwardBatch(probes);
+      expect(batch.input.shape).toEqual([2, 4, 2]);
+
+      const perSample = [0, 1].map((n) => {
+        const sequence = Array.from({ length: 4 }, (__, t) => inputs.slice(n, t).toVector());
+        expect((layer.forward(sequence) as Vector[]).map((h) => Array.from(h)))
+          .toEqual(outputs.slice(n).toArray());
+        return layer.backward(Array.from({ length: 4 }, (__, t) => probes.slice(n, t).toVector()));
+      });
+      batch.bias.forEach((g, i) => {
+        expect(g).toBeCloseTo((perSample[0].bias[i] + perSample[1].bias[i]) / 2, 12);
+      });
+      expect(batch.input.slice(1).toArray())
+        .toEqual(perSample[1].input.map((dx) => Array.from(dx)));
+    });
+  });
+
+  test('Outputs the last hidden state over a mini-batch', () => {
+    const layer = new LSTM({ inputSize: 2, units: 3, rng });
+    const outputs = layer.forwardBatch(Tensor.random([4, 6, 2], rng));
+    expect(outputs.shape).toEqual([4, 3]);
+    expect(layer.backwardBatch(Tensor.ones([4, 3])).input.shape).toEqual([4, 6, 2]);
+    expect(() => layer.backwardBatch(Tensor.ones([4, 6, 3]))).toThrow('[RNN]');
+  });
+
+  test('Truncates backpropagation through time', () => {
+    const layer = new GRU({ inputSize: 2, units: 3, truncation: 2, rng });
+    const sequence = randomSequence(5, 2, rng);
+    layer.forward(sequence);
+    const { input } = layer.backward(Vector.ones(3));
+    expect(input[4].norm()).toBeGreaterThan(0);
+    input.slice(0, 4).forEach((dx) => expect(dx.norm()).toBe(0));
+
+    const full = new GRU({ inputSize: 2, units: 3, truncation: 5, rng: new SeededRandom(1) });
+    const reference = new GRU({ inputSize: 2, units: 3, rng: new SeededRandom(1) });
+    full.forward(sequence);
+    reference.forward(sequence);
+    expect(Array.from(full.backward(Vector.ones(3)).bias))
+      .toEqual(Array.from(reference.backward(Vector.ones(3)).bias));
+  });
+
+  test('Carries the state of stateful layers over calls', () => {
+    const sequence = randomSequence(6, 2, rng);
+    const stateful = new LSTM({ inputSize: 2, units: 3, stateful: true, rng: new SeededRandom(5) });
+    const reference = new LSTM({ inputSize: 2, units: 3, rng: new SeededRandom(5) });
+    stateful.forward(sequence.slice(0, 3));
+    const carried = stateful.forward(sequence.slice(3)) as Vector;
+    expect(stateful.state?.[0]).toHaveLength(2);
+    expect(Array.from(carried)).toEqual(Array.from(reference.forward(sequence) as Vector));
+
+    stateful.resetState();
+    expect(Array.from(stateful.forward(sequence) as Vector)).toEqual(Array.from(carried));
+    expect(() => stateful.forwardBatch(Tensor.ones([2, 3, 2]))).toThrow('[RNN]');
+  });
+
+  test('Rejects invalid configurations and inputs', () => {
+    expect(() => new SimpleRNN({ inputSize: 0, units: 2 })).toThrow('[RNN]');
+    expect(() => new GRU({ inputSize: 2, units: 2, truncation: 0 })).toThrow('[RNN]');
+    const layer = new SimpleRNN({ inputSize: 2, units: 2, activation: 'reLU' });
+    expect(() => layer.backward(Vector.ones(2))).toThrow('[RNN]');
+    expect(() => layer.forward([])).toThrow('[RNN]');
+    expect(() => layer.forward([Vector.ones(3)])).toThrow('[RNN]');
+    layer.forward([Vector.ones(2), Vector.ones(2)]);
+    expect(() => layer.backward(Vector.ones(3))).toThrow('[RNN]');
+  });
+});
@@ -0,0 +1,152 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Adam,
+  MLP,
+  MLP_SCHEMA_VERSION,
+  Matrix,
+  SerializedMLP,
+  Vector,
+  deserializeModel,
+  loadModel,
+  saveModel,
+  serializeModel,
+} from '../../src';
+
+describe('Model serialization is implemented correctly', () => {
+  let model: MLP;
+  let input: Vector;
+
+  const train = (network: MLP, optimizer: Adam, steps: number) => {
+    for (let step = 0; step < steps; step++) {
+      const output = network.forward(input);
+      const gradients = network.backward(output.add(new Vector(-1, 0)));
+      optimizer.zeroGrad();
+      optimizer.accumulateGradients(
+        network.parameters(),
+        [...gradients.weights, ...gradients.biases],
+      );
+      optimizer.step();
+    }
+  };
+
+  beforeEach(() => {
+    model = new MLP([
+      { numNeurons: 3, activation: 'linear' },
+      { numNeurons: 4, activation: 'leakyReLU', activationParams: { slope: 0.1 } },
+      { numNeurons: 2, activation: 'softmax' },
+    ], { seed: 21 });
+    input = new Vector(0.2, -0.5, 0.9);
+  });
+
+  test('Round trips a model through JSON', () => {
+    const json = JSON.parse(JSON.stringify(model));
+    expect(json.schemaVersion).toBe(MLP_SCHEMA_VERSION);
+    expect(json.layers[1]).toEqual({
+      numNeurons: 4,
+      activation: 'leakyReLU',
+      activationParams: { slope: 0.1 },
+    });
+    const restored = MLP.fromJSON(json);
+    expect([...restored.forward(input)]).toEqual([...model.forward(input)]);
+    expect(restored.weights[1].toArray()).toEqual(model.weights[1].toArray());
+  });
+
+  test('Round trips wide layers through JSON', () => {
+    const wide = new MLP([
+      { numNeurons: 1, activation: 'linear' },
+      { numNeurons: 300000, activation: 'linear' },
+    ], { seed: 4 });
+    const restored = MLP.fromJSON(wide.toJSON());
+    expect(restored.weights[0].numRows).toBe(300000);
+    expect(Array.from(restored.weights[0].data)).toEqual(Array.from(wide.weights[0].data));
+  });
+
+  test('Round trips regularization settings', () => {
+    const regularized = new MLP([
+      { numNeurons: 3, activation: 'linear' },
+      {
+        numNeurons: 2,
+        activation: 'reLU',
+        regularization: { l2: 0.01 },
+        dropout: 0.2,
+        maxNorm: 3,
+      },
+    ], { seed: 2 });
+    const restored = MLP.fromJSON(JSON.parse(JSON.stringify(regularized)));
+    expect(restored.layers[1]).toEqual(regularized.layers[1]);
+    expect(restored.dropouts[0]?.rate).toBe(0.2);
+  });
+
+  test('Round trips normalization state', () => {
+    const normalized = new MLP([
+      { numNeurons: 3, activation: 'linear' },
+      { numNeurons: 4, activation: 'reLU', normalization: 'batchNorm', normalizationParams: { momentum: 0.2 } },
+      { numNeurons: 2, activation: 'linear' },
+    ], { seed: 4 });
+    normalized.train();
+    normalized.forwardBatch(new Matrix([1, 2, 3], [0, -1, 2], [4, 0, 1]));
+    normalized.eval();
+    const json = JSON.parse(JSON.stringify(normalized));
+    expect(json.normalizations[1]).toBeNull();
+    const restored = MLP.fromJSON(json);
+    expect([...restored.forward(input)]).toEqual([...normalized.forward(input)]);
+    expect(() => MLP.fromJSON({ ...json, normalizations: undefined })).toThrow('[MLPJ]');
+  });
+
+  test('Round trips the optimizer state', () => {
+    const optimizer = new Adam(model.parameters(), { learningRate: 0.01 });
+    train(model, optimizer, 3);
+    const json: SerializedMLP = JSON.parse(JSON.stringify(serializeModel(model, optimizer)));
+    const restored = deserializeModel(json);
+    expect(restored.optimizer).toBeInstanceOf(Adam);
+    expect(restored.optimizer?.getOptions()).toEqual(optimizer.getOptions());
+
+    train(model, optimizer, 2);
+    train(restored.model, restored.optimizer as Adam, 2);
+    expect(restored.model.weights[0].toArray()).toEqual(model.weights[0].toArray());
+  });
+
+  test('Rejects optimizer state that does not match the parameters', () => {
+    const optimizer = new Adam(model.parameters(), { learningRate: 0.01 });
+    train(model, optimizer, 1);
+    const json: SerializedMLP = JSON.parse(JSON.stringify(serializeModel(model, optimizer)));
+    json.optimizer?.state[0]?.buffers.firstMoment.pop();
+    expect(() => deserializeModel(json)).toThrow(
+      '[MLPJ] Optimizer state firstMoment of parameter 0 must match its size (state = 11, param = 12).',
+    );
+  });
+
+  test('Rejects unsupported versions and inconsistent shapes', () => {
+    const json = model.toJSON();
+    expect(() => MLP.fromJSON({ ...json, schemaVersion: 99 })).toThrow('[MLPJ]');
+    expect(() => MLP.fromJSON({ ...json, biases: json.biases.slice(1) })).toThrow('[MLPJ]');
+    const badWeights = json.weights.map((weights) => weights.map((row) => [...row]));
+    badWeights[1][0].pop();
+    expect(() => MLP.fromJSON({ ...json, weights: badWeights })).toThrow(
+      '[MATMUL] Weights 1 must connect layers 1 and 2 (weights = [2, 3], expected = [2, 4]).',
+    );
+    const badBiases = json.biases.map((bias) => [...bias, 0]);
+    expect(() => MLP.fromJSON({ ...json, biases: badBiases })).toThrow('[VECADD]');
+  });
+
+  test('Saves and loads a model from a file', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'perceptron-'));
+    try {
+      const path = join(directory, 'model.json');
+      const optimizer = new Adam(model.parameters(), { learningRate: 0.01 });
+      train(model, optimizer, 1);
+      await saveModel(path, model, optimizer);
+      const { model: restored, optimizer: restoredOptimizer } = await loadModel(path);
+      expect([...restored.forward(input)]).toEqual([...model.forward(input)]);
+      expect(restoredOptimizer?.key).toBe('adam');
+
+      const invalidPath = join(directory, 'invalid.json');
+      writeFileSync(invalidPath, '{ not json');
+      await expect(loadModel(invalidPath)).rejects.toThrow('[MLPJ]');
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  CosineAnnealing,
+  EarlyStopping,
+  ExponentialDecay,
+  MLP,
+  Matrix,
+  ReduceOnPlateau,
+  SGD,
+  SeededRandom,
+  StepDecay,
+  fit,
+} from '../../src';
+
+const makeRegression = (numSamples: number) => {
+  const rng = new SeededRandom(7);
+  const x = Matrix.random(numSamples, 2, rng, -1, 1);
+  const y = Matrix.zeros(numSamples, 1);
+  for (let i = 0; i < numSamples; i++) {
+    y[i][0] = 2 * x[i][0] - x[i][1] + 0.5;
+  }
+  return { x, y };
+};
+
+const makeModel = () => new MLP([
+  { numNeurons: 2, activation: 'linear' },
+  { numNeurons: 4, activation: 'tanh' },
+  { numNeurons: 1, activation: 'linear' },
+], { seed: 3 });
+
+describe('fit trains a network', () => {
+  test('Loss decreases over the epochs', () => {
+    const { x, y } = makeRegression(64);
+    const model = makeModel();
+    const { epochs } = model.fit(x, y, {
+      epochs: 30,
+      batchSize: 8,
+      learningRate: 0.05,
+      seed: 1,
+    });
+    expect(epochs).toHaveLength(30);
+    expect(epochs[29].loss).toBeLessThan(epochs[0].loss / 10);
+    expect(epochs[0].learningRate).toBeCloseTo(0.05);
+  });
+
+  test('Networks with batch normalization are trained', () => {
+    const { x, y } = makeRegression(64);
+    const model = new MLP([
+      { numNeurons: 2, activation: 'linear' },
+      { numNeurons: 8, activation: 'tanh', normalization: 'batchNorm' },
+      { numNeurons: 1, activation: 'linear' },
+    ], { seed: 3 });
+    const { epochs } = model.fit(x, y, {
+      epochs: 30,
+      batchSize: 8,
+      learningRate: 0.05,
+      seed: 1,
+    });
+    expect(model.training).toBe(false);
+    expect(epochs[29].loss).toBeLessThan(epochs[0].loss / 3);
+    expect(model.normalizations[0]?.gamma[0]).not.toBe(1);
+  });
+
+  test('Training is reproducible with a seed', () => {
+    const { x, y } = makeRegression(32);
+    const first = makeModel();
+    const second = makeModel();
+    fit(first, x, y, { epochs: 3, batchSize: 5, seed: 11 });
+    fit(second, x, y, { epochs: 3, batchSize: 5, seed: 11 });
+    expect(Array.from(first.weights[0].data)).toEqual(Array.from(second.weights[0].data));
+  });
+
+  test('Callbacks are called for every epoch and batch', () => {
+    const { x, y } = makeRegression(10);
+    const calls: string[] = [];
+    fit(makeModel(), x, y, {
+      epochs: 2,
+      batchSize: 4,
+      callbacks: {
+        onEpochStart: (epoch) => calls.push(`start ${epoch}`),
+        onBatchEnd: (batch, logs) => calls.push(`batch ${batch} ${logs.size}`),
+        onEpochEnd: (epoch) => calls.push(`end ${epoch}`),
+      },
+    });
+    expect(calls).toEqual([
+      'start 0', 'batch 0 4', 'batch 1 4', 'batch 2 2', 'end 0',
+      'start 1', 'batch 0 4', 'batch 1 4', 'batch 2 2', 'end 1',
+    ]);
+  });
+
+  test('Validation loss and named metrics are logged', () => {
+    const { x, y } = makeRegression(20);
+    const maxError = (p: Matrix, t: Matrix) => {
+      let max = 0;
+      for (let i = 0; i < p.data.length; i++) {
+        max = Math.max(max, Math.abs(p.data[i] - t.data[i]));
+      }
+      return max;
+    };
+    const { epochs } = fit(makeModel(), x, y, {
+      epochs: 1,
+      validationSplit: 0.25,
+      metrics: { maxError },
+    });
+    expect(Object.keys(epochs[0]).sort()).toEqual(
+      ['learningRate', 'loss', 'maxError', 'valLoss', 'valMaxError'],
+    );
+  });
+
+  test('Early stopping ends the training and restores the best weights', () => {
+    const { x, y } = makeRegression(32);
+    const model = makeModel();
+    let bestWeights: number[] = [];
+    const history = model.fit(x, y, {
+      epochs: 10,
+      learningRate: 0.05,
+      earlyStopping: { mode: 'max', patience: 1, restoreBestWeights: true },
+      callbacks: {
+        onEpochEnd: (epoch) => {
+          if (epoch === 0) {
+            bestWeights = Array.from(model.weights[0].data);
+          }
+        },
+      },
+    });
+    expect(history.epochs).toHaveLength(2);
+    expect(history.stoppedEpoch).toBe(1);
+    expect(history.bestEpoch).toBe(0);
+    expect(Array.from(model.weights[0].data)).toEqual(bestWeights);
+  });
+
+  test('Early stopping tracks maximized quantities without a reset', () => {
+    const stopping = new EarlyStopping({ monitor: 'accuracy', mode: 'max', patience: 1 });
+    expect(stopping.update(0, { loss: 1, accuracy: 0.5 }, [])).toBe(false);
+    expect(stopping.update(1, { loss: 1, accuracy: 0.6 }, [])).toBe(false);
+    expect(stopping.bestEpoch).toBe(1);
+    expect(stopping.update(2, { loss: 1, accuracy: 0.6 }, [])).toBe(true);
+    expect(stopping.stoppedEpoch).toBe(2);
+  });
+
+  test('Schedulers update the learning rate of the optimizer', () => {
+    const { x, y } = makeRegression(8);
+    const model = makeModel();
+    const optimizer = new SGD(model.parameters(), { learningRate: 0.1 });
+    const { epochs } = model.fit(x, y, {
+      epochs: 3,
+      optimizer,
+      scheduler: new ExponentialDecay({ gamma: 0.5 }),
+    });
+    expect(epochs.map(({ learningRate }) => learningRate)).toEqual([0.1, 0.05, 0.025]);
+    expect(optimizer.learningRate).toBeCloseTo(0.0125);
+  });
+
+  test('Invalid data is rejected', () => {
+    const { x, y } = makeRegression(8);
+    expect(() => fit(makeModel(), x, Matrix.zeros(7, 1))).toThrow('[FIT]');
+    expect(() => fit(makeModel(), x, y, { validationSplit: 1 })).toThrow('[FIT]');
+    expect(() => fit(makeModel(), x, y, { earlyStopping: { monitor: 'accuracy' } })).toThrow('[FIT]');
+  });
+});
+
+describe('Learning rate schedulers are implemented correctly', () => {
+  const run = (scheduler: StepDecay | CosineAnnealing, epochs: number) => {
+    scheduler.reset(1);
+    return Array.from({ length: epochs }, (_, epoch) => scheduler.step(epoch, {}));
+  };
+
+  test('Step decay', () => {
+    const rates = run(new StepDecay({ stepSize: 2, gamma: 0.5 }), 4);
+    expect(rates).toEqual([1, 0.5, 0.5, 0.25]);
+  });
+
+  test('Cosine annealing', () => {
+    const rates = run(new CosineAnnealing({ totalEpochs: 2, minLearningRate: 0.2 }), 3);
+    expect(rates[0]).toBeCloseTo(0.6);
+    expect(rates[1]).toBeCloseTo(0.2);
+    expect(rates[2]).toBeCloseTo(0.2);
+  });
+
+  test('Reduce on plateau', () => {
+    const scheduler = new ReduceOnPlateau({ monitor: 'loss', factor: 0.5, patience: 2 });
+    scheduler.reset(1);
+    const losses = [3, 2, 2, 2, 2, 2, 1];
+    const rates = losses.map((loss, epoch) => scheduler.step(epoch, { loss }));
+    expect(rates).toEqual([1, 1, 1, 0.5, 0.5, 0.25, 0.25]);
+  });
+});